@@ -0,0 +1,341 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Separator } from '@/components/ui/separator';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Bell, Plus, Trash2 } from 'lucide-react';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import type { AlertCondition, AlertEvent, AlertRule } from '@/types/token';
+
+type ConditionType = AlertCondition['type'];
+
+const EMPTY_FORM = {
+  name: '',
+  type: 'highAlert' as ConditionType,
+  threshold: 50000,
+  liquidityDirection: 'above' as 'above' | 'below',
+  percent: 20,
+  windowMinutes: 15,
+  priceDirection: 'any' as 'up' | 'down' | 'any',
+  watchlistOnly: false,
+  cooldownMinutes: 60,
+  inApp: true,
+  webhookUrl: '',
+  webhookSecret: '',
+  email: '',
+};
+
+const describeCondition = (condition: AlertCondition) => {
+  switch (condition.type) {
+    case 'highAlert': return 'Becomes a high alert';
+    case 'liquidityCross': return `Liquidity crosses ${condition.direction} $${condition.threshold.toLocaleString()}`;
+    case 'priceChange': return `Price ${condition.direction === 'any' ? 'moves' : condition.direction} ${condition.percent}% in ${condition.windowMinutes}m`;
+    case 'socialMention': return 'Watchlisted token mentioned';
+  }
+};
+
+const inputClass = 'bg-gray-700 border-gray-600 text-white font-mono';
+
+// Server errors come back as "<status>: <json body>"
+const errorMessage = (error: unknown) => {
+  const body = error instanceof Error ? error.message.replace(/^\d+:\s*/, '') : String(error);
+  try {
+    return JSON.parse(body).error ?? body;
+  } catch {
+    return body;
+  }
+};
+
+export function AlertRulesPanel() {
+  const { toast } = useToast();
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState(EMPTY_FORM);
+
+  const { data: rules = [] } = useQuery<AlertRule[]>({ queryKey: ['/api/alert-rules'] });
+  const { data: alerts = [] } = useQuery<AlertEvent[]>({ queryKey: ['/api/alerts'] });
+
+  const refreshRules = () => queryClient.invalidateQueries({ queryKey: ['/api/alert-rules'] });
+
+  const buildCondition = (): AlertCondition => {
+    switch (form.type) {
+      case 'liquidityCross':
+        return { type: 'liquidityCross', threshold: form.threshold, direction: form.liquidityDirection };
+      case 'priceChange':
+        return { type: 'priceChange', percent: form.percent, windowMinutes: form.windowMinutes, direction: form.priceDirection };
+      default:
+        return { type: form.type };
+    }
+  };
+
+  const createRule = async () => {
+    try {
+      await apiRequest('POST', '/api/alert-rules', {
+        name: form.name || describeCondition(buildCondition()),
+        condition: buildCondition(),
+        channels: {
+          inApp: form.inApp,
+          webhook: form.webhookUrl ? { url: form.webhookUrl, secret: form.webhookSecret } : undefined,
+          email: form.email ? { to: form.email } : undefined,
+        },
+        watchlistOnly: form.watchlistOnly,
+        cooldownMinutes: form.cooldownMinutes,
+      });
+      await refreshRules();
+      setForm(EMPTY_FORM);
+      setShowForm(false);
+    } catch (error) {
+      toast({ title: 'Could not save alert rule', description: errorMessage(error), variant: 'destructive' });
+    }
+  };
+
+  const toggleRule = async (rule: AlertRule) => {
+    try {
+      await apiRequest('PATCH', `/api/alert-rules/${rule.id}`, { enabled: !rule.enabled });
+      await refreshRules();
+    } catch (error) {
+      console.error('Failed to toggle alert rule:', error);
+    }
+  };
+
+  const deleteRule = async (rule: AlertRule) => {
+    try {
+      await apiRequest('DELETE', `/api/alert-rules/${rule.id}`);
+      await refreshRules();
+    } catch (error) {
+      console.error('Failed to delete alert rule:', error);
+    }
+  };
+
+  return (
+    <Card className="bg-gray-800">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-lg font-semibold text-white flex items-center">
+            <Bell className="w-5 h-5 mr-2 text-yellow-400" />
+            Alerts
+          </CardTitle>
+          <Button
+            size="sm"
+            variant="ghost"
+            onClick={() => setShowForm(!showForm)}
+            className="text-gray-400 hover:text-white"
+          >
+            <Plus className="w-4 h-4" />
+          </Button>
+        </div>
+      </CardHeader>
+
+      <CardContent className="space-y-4">
+        {/* Rules */}
+        {rules.length === 0 && !showForm && (
+          <div className="text-xs text-gray-400">No alert rules yet</div>
+        )}
+        {rules.map((rule) => (
+          <div key={rule.id} className="flex items-center justify-between space-x-2">
+            <div className="min-w-0">
+              <div className="text-sm text-white truncate">{rule.name}</div>
+              <div className="text-xs text-gray-400 truncate">
+                {describeCondition(rule.condition)}
+                {rule.watchlistOnly && ' · watchlist'}
+                {' · '}
+                {[rule.channels.inApp && 'in-app', rule.channels.webhook && 'webhook', rule.channels.email && 'email']
+                  .filter(Boolean).join(', ') || 'no channels'}
+              </div>
+            </div>
+            <div className="flex items-center space-x-1">
+              <Switch checked={rule.enabled} onCheckedChange={() => toggleRule(rule)} />
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={() => deleteRule(rule)}
+                className="text-gray-500 hover:text-red-400 h-8 w-8 p-0"
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          </div>
+        ))}
+
+        {/* New Rule */}
+        {showForm && (
+          <>
+            <Separator className="bg-gray-700" />
+            <div className="space-y-3">
+              <div>
+                <Label className="text-sm text-gray-300">Name</Label>
+                <Input
+                  value={form.name}
+                  placeholder="Optional"
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+
+              <div>
+                <Label className="text-sm text-gray-300">When</Label>
+                <Select value={form.type} onValueChange={(value) => setForm({ ...form, type: value as ConditionType })}>
+                  <SelectTrigger className="bg-gray-700 border-gray-600 text-white">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="highAlert">Token becomes a high alert</SelectItem>
+                    <SelectItem value="liquidityCross">Liquidity crosses a threshold</SelectItem>
+                    <SelectItem value="priceChange">Price moves within a window</SelectItem>
+                    <SelectItem value="socialMention">Watchlisted token is mentioned</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {form.type === 'liquidityCross' && (
+                <div className="grid grid-cols-2 gap-2">
+                  <Select
+                    value={form.liquidityDirection}
+                    onValueChange={(value) => setForm({ ...form, liquidityDirection: value as 'above' | 'below' })}
+                  >
+                    <SelectTrigger className="bg-gray-700 border-gray-600 text-white">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="above">Above</SelectItem>
+                      <SelectItem value="below">Below</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    type="number"
+                    value={form.threshold}
+                    onChange={(e) => setForm({ ...form, threshold: Number(e.target.value) })}
+                    className={inputClass}
+                  />
+                </div>
+              )}
+
+              {form.type === 'priceChange' && (
+                <div className="grid grid-cols-3 gap-2">
+                  <Select
+                    value={form.priceDirection}
+                    onValueChange={(value) => setForm({ ...form, priceDirection: value as 'up' | 'down' | 'any' })}
+                  >
+                    <SelectTrigger className="bg-gray-700 border-gray-600 text-white">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="any">Either</SelectItem>
+                      <SelectItem value="up">Up</SelectItem>
+                      <SelectItem value="down">Down</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    type="number"
+                    title="Percent"
+                    value={form.percent}
+                    onChange={(e) => setForm({ ...form, percent: Number(e.target.value) })}
+                    className={inputClass}
+                  />
+                  <Input
+                    type="number"
+                    title="Window (minutes)"
+                    value={form.windowMinutes}
+                    onChange={(e) => setForm({ ...form, windowMinutes: Number(e.target.value) })}
+                    className={inputClass}
+                  />
+                </div>
+              )}
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label className="text-sm text-gray-300">Cooldown (min)</Label>
+                  <Input
+                    type="number"
+                    value={form.cooldownMinutes}
+                    onChange={(e) => setForm({ ...form, cooldownMinutes: Number(e.target.value) })}
+                    className={inputClass}
+                  />
+                </div>
+                <div className="flex items-end justify-between pb-2">
+                  <Label className="text-sm text-gray-300">Watchlist only</Label>
+                  <Switch
+                    checked={form.watchlistOnly || form.type === 'socialMention'}
+                    disabled={form.type === 'socialMention'}
+                    onCheckedChange={(checked) => setForm({ ...form, watchlistOnly: checked })}
+                  />
+                </div>
+              </div>
+
+              <div className="flex items-center justify-between">
+                <Label className="text-sm text-gray-300">In-app notification</Label>
+                <Switch checked={form.inApp} onCheckedChange={(checked) => setForm({ ...form, inApp: checked })} />
+              </div>
+
+              <div>
+                <Label className="text-sm text-gray-300">Webhook URL</Label>
+                <Input
+                  value={form.webhookUrl}
+                  placeholder="https://..."
+                  onChange={(e) => setForm({ ...form, webhookUrl: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+              {form.webhookUrl && (
+                <div>
+                  <Label className="text-sm text-gray-300">Signing secret</Label>
+                  <Input
+                    type="password"
+                    value={form.webhookSecret}
+                    onChange={(e) => setForm({ ...form, webhookSecret: e.target.value })}
+                    className={inputClass}
+                  />
+                </div>
+              )}
+
+              <div>
+                <Label className="text-sm text-gray-300">Email</Label>
+                <Input
+                  type="email"
+                  value={form.email}
+                  onChange={(e) => setForm({ ...form, email: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+
+              <div className="flex justify-end space-x-2">
+                <Button
+                  variant="outline"
+                  onClick={() => setShowForm(false)}
+                  className="border-gray-600 text-gray-300"
+                >
+                  Cancel
+                </Button>
+                <Button onClick={createRule} className="bg-green-600 hover:bg-green-700">
+                  Save Rule
+                </Button>
+              </div>
+            </div>
+          </>
+        )}
+
+        {/* Recent Alerts */}
+        {alerts.length > 0 && (
+          <>
+            <Separator className="bg-gray-700" />
+            <div className="space-y-1">
+              <div className="text-xs text-gray-400">Recent Alerts</div>
+              {alerts.slice(0, 5).map((alert) => (
+                <div key={alert.id} className="text-xs text-gray-300">
+                  <span className="text-gray-500 font-mono mr-2">
+                    {new Date(alert.triggeredAt).toLocaleTimeString()}
+                  </span>
+                  {alert.message}
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
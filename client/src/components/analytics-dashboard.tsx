@@ -43,10 +43,21 @@ interface StrategyAnalytics {
   reliability: number;
 }
 
+// A signal factor's share of the PnL of the trades it argued for
+interface FactorAnalytics {
+  factor: string;
+  label: string;
+  totalTrades: number;
+  winRate: number;
+  attributedPnL: number;
+  avgPoints: number;
+}
+
 interface PerformanceData {
   tradeAnalysis: TradeAnalysis;
   portfolioAnalytics: PortfolioAnalytics;
   strategyAnalytics: StrategyAnalytics[];
+  factorAnalytics: FactorAnalytics[];
 }
 
 interface HistoryData {
@@ -104,6 +115,7 @@ export function AnalyticsDashboard() {
   const tradeAnalysis = performanceData?.tradeAnalysis;
   const portfolioAnalytics = performanceData?.portfolioAnalytics;
   const strategyAnalytics = performanceData?.strategyAnalytics;
+  const factorAnalytics = performanceData?.factorAnalytics || [];
 
   const formatCurrency = (value: number) => {
     return new Intl.NumberFormat('en-US', {
@@ -197,6 +209,7 @@ export function AnalyticsDashboard() {
         <TabsList>
           <TabsTrigger value="performance">Performance</TabsTrigger>
           <TabsTrigger value="strategies">Strategies</TabsTrigger>
+          <TabsTrigger value="factors">Factors</TabsTrigger>
           <TabsTrigger value="portfolio">Portfolio</TabsTrigger>
         </TabsList>
 
@@ -331,6 +344,51 @@ export function AnalyticsDashboard() {
           </div>
         </TabsContent>
 
+        <TabsContent value="factors">
+          <Card>
+            <CardHeader>
+              <CardTitle>Signal Factor Attribution</CardTitle>
+              <CardDescription>Closed-trade P&L split across the factors behind each entry, by their points</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {factorAnalytics.length === 0 ? (
+                <p className="text-sm text-muted-foreground text-center py-8">No closed trades with factor data yet</p>
+              ) : (
+                <div className="grid gap-4 md:grid-cols-2">
+                  <ResponsiveContainer width="100%" height={300}>
+                    <BarChart data={factorAnalytics} layout="vertical" margin={{ left: 40 }}>
+                      <CartesianGrid strokeDasharray="3 3" />
+                      <XAxis type="number" />
+                      <YAxis type="category" dataKey="label" width={140} />
+                      <Tooltip formatter={(value: number) => formatCurrency(value)} />
+                      <Bar dataKey="attributedPnL">
+                        {factorAnalytics.map(entry => (
+                          <Cell key={entry.factor} fill={entry.attributedPnL >= 0 ? '#00C49F' : '#FF8042'} />
+                        ))}
+                      </Bar>
+                    </BarChart>
+                  </ResponsiveContainer>
+                  <div className="space-y-2">
+                    {factorAnalytics.map(factor => (
+                      <div key={factor.factor} className="flex items-center justify-between p-3 rounded-lg border">
+                        <div>
+                          <p className="font-medium">{factor.label}</p>
+                          <p className="text-sm text-muted-foreground">
+                            {factor.totalTrades} trades • {formatPercentage(factor.winRate)} win rate • avg +{factor.avgPoints.toFixed(1)} pts
+                          </p>
+                        </div>
+                        <p className={`font-medium ${factor.attributedPnL >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                          {formatCurrency(factor.attributedPnL)}
+                        </p>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
         <TabsContent value="portfolio">
           <div className="grid gap-4 md:grid-cols-3">
             {/* Risk Metrics */}
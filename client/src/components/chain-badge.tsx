@@ -0,0 +1,16 @@
+import { Badge } from '@/components/ui/badge';
+import { getChain } from '@shared/chains';
+
+export function ChainBadge({ chain }: { chain: string }) {
+  const config = getChain(chain);
+  return (
+    <Badge
+      variant="outline"
+      className="px-1.5 py-0 text-[10px] font-mono"
+      style={{ borderColor: config.color, color: config.color }}
+      title={config.name}
+    >
+      {config.shortName}
+    </Badge>
+  );
+}
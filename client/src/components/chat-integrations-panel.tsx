@@ -0,0 +1,253 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Separator } from '@/components/ui/separator';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { MessageSquare, Plus, Send, Trash2 } from 'lucide-react';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import type { ChatIntegration, ChatIntegrationConfig } from '@/types/token';
+
+const EMPTY_FORM = {
+  name: '',
+  platform: 'telegram' as ChatIntegrationConfig['platform'],
+  chatId: '',
+  botToken: '',
+  webhookUrl: '',
+  notifyAlerts: true,
+  notifyTrades: false,
+};
+
+const inputClass = 'bg-gray-700 border-gray-600 text-white font-mono';
+
+// Server errors come back as "<status>: <json body>"
+const errorMessage = (error: unknown) => {
+  const body = error instanceof Error ? error.message.replace(/^\d+:\s*/, '') : String(error);
+  try {
+    const parsed = JSON.parse(body);
+    return Array.isArray(parsed.details) ? parsed.details.join(', ') : parsed.error ?? body;
+  } catch {
+    return body;
+  }
+};
+
+export function ChatIntegrationsPanel() {
+  const { toast } = useToast();
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState(EMPTY_FORM);
+
+  const { data: integrations = [] } = useQuery<ChatIntegration[]>({ queryKey: ['/api/chat-integrations'] });
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey: ['/api/chat-integrations'] });
+
+  const createIntegration = async () => {
+    const config: ChatIntegrationConfig = form.platform === 'telegram'
+      ? { platform: 'telegram', chatId: form.chatId, botToken: form.botToken || undefined }
+      : { platform: 'discord', webhookUrl: form.webhookUrl };
+
+    try {
+      await apiRequest('POST', '/api/chat-integrations', {
+        name: form.name || (form.platform === 'telegram' ? 'Telegram' : 'Discord'),
+        config,
+        notifyAlerts: form.notifyAlerts,
+        notifyTrades: form.notifyTrades,
+      });
+      await refresh();
+      setForm(EMPTY_FORM);
+      setShowForm(false);
+    } catch (error) {
+      toast({ title: 'Could not save integration', description: errorMessage(error), variant: 'destructive' });
+    }
+  };
+
+  const updateIntegration = async (integration: ChatIntegration, updates: Partial<ChatIntegration>) => {
+    try {
+      await apiRequest('PATCH', `/api/chat-integrations/${integration.id}`, updates);
+      await refresh();
+    } catch (error) {
+      console.error('Failed to update chat integration:', error);
+    }
+  };
+
+  const deleteIntegration = async (integration: ChatIntegration) => {
+    try {
+      await apiRequest('DELETE', `/api/chat-integrations/${integration.id}`);
+      await refresh();
+    } catch (error) {
+      console.error('Failed to delete chat integration:', error);
+    }
+  };
+
+  const sendTest = async (integration: ChatIntegration) => {
+    try {
+      await apiRequest('POST', `/api/chat-integrations/${integration.id}/test`);
+      toast({ title: 'Test message sent', description: integration.name });
+    } catch (error) {
+      toast({ title: 'Test message failed', description: errorMessage(error), variant: 'destructive' });
+    }
+  };
+
+  return (
+    <Card className="bg-gray-800">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-lg font-semibold text-white flex items-center">
+            <MessageSquare className="w-5 h-5 mr-2 text-blue-400" />
+            Chat Notifications
+          </CardTitle>
+          <Button
+            size="sm"
+            variant="ghost"
+            onClick={() => setShowForm(!showForm)}
+            className="text-gray-400 hover:text-white"
+          >
+            <Plus className="w-4 h-4" />
+          </Button>
+        </div>
+      </CardHeader>
+
+      <CardContent className="space-y-4">
+        {integrations.length === 0 && !showForm && (
+          <div className="text-xs text-gray-400">Post alerts and bot trades to Telegram or Discord</div>
+        )}
+        {integrations.map((integration) => (
+          <div key={integration.id} className="space-y-2">
+            <div className="flex items-center justify-between">
+              <div className="min-w-0">
+                <div className="text-sm text-white truncate">{integration.name}</div>
+                <div className="text-xs text-gray-400 capitalize">{integration.config.platform}</div>
+              </div>
+              <div className="flex items-center space-x-1">
+                <Switch
+                  checked={integration.enabled}
+                  onCheckedChange={(enabled) => updateIntegration(integration, { enabled })}
+                />
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => sendTest(integration)}
+                  title="Send test message"
+                  className="text-gray-500 hover:text-white h-8 w-8 p-0"
+                >
+                  <Send className="w-4 h-4" />
+                </Button>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => deleteIntegration(integration)}
+                  className="text-gray-500 hover:text-red-400 h-8 w-8 p-0"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            </div>
+            <div className="flex items-center space-x-4 text-xs text-gray-400">
+              <label className="flex items-center space-x-2">
+                <Switch
+                  checked={integration.notifyAlerts}
+                  onCheckedChange={(notifyAlerts) => updateIntegration(integration, { notifyAlerts })}
+                />
+                <span>Alerts</span>
+              </label>
+              <label className="flex items-center space-x-2">
+                <Switch
+                  checked={integration.notifyTrades}
+                  onCheckedChange={(notifyTrades) => updateIntegration(integration, { notifyTrades })}
+                />
+                <span>Bot trades</span>
+              </label>
+            </div>
+          </div>
+        ))}
+
+        {showForm && (
+          <>
+            <Separator className="bg-gray-700" />
+            <div className="space-y-3">
+              <div className="grid grid-cols-2 gap-2">
+                <Select
+                  value={form.platform}
+                  onValueChange={(value) => setForm({ ...form, platform: value as ChatIntegrationConfig['platform'] })}
+                >
+                  <SelectTrigger className="bg-gray-700 border-gray-600 text-white">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="telegram">Telegram</SelectItem>
+                    <SelectItem value="discord">Discord</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Input
+                  value={form.name}
+                  placeholder="Name"
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+
+              {form.platform === 'telegram' ? (
+                <>
+                  <div>
+                    <Label className="text-sm text-gray-300">Chat ID</Label>
+                    <Input
+                      value={form.chatId}
+                      placeholder="-1001234567890"
+                      onChange={(e) => setForm({ ...form, chatId: e.target.value })}
+                      className={inputClass}
+                    />
+                  </div>
+                  <div>
+                    <Label className="text-sm text-gray-300">Bot token</Label>
+                    <Input
+                      type="password"
+                      value={form.botToken}
+                      placeholder="Optional, uses the server's bot"
+                      onChange={(e) => setForm({ ...form, botToken: e.target.value })}
+                      className={inputClass}
+                    />
+                  </div>
+                </>
+              ) : (
+                <div>
+                  <Label className="text-sm text-gray-300">Webhook URL</Label>
+                  <Input
+                    value={form.webhookUrl}
+                    placeholder="https://discord.com/api/webhooks/..."
+                    onChange={(e) => setForm({ ...form, webhookUrl: e.target.value })}
+                    className={inputClass}
+                  />
+                </div>
+              )}
+
+              <div className="flex items-center justify-between">
+                <Label className="text-sm text-gray-300">Alerts</Label>
+                <Switch checked={form.notifyAlerts} onCheckedChange={(notifyAlerts) => setForm({ ...form, notifyAlerts })} />
+              </div>
+              <div className="flex items-center justify-between">
+                <Label className="text-sm text-gray-300">Bot trades</Label>
+                <Switch checked={form.notifyTrades} onCheckedChange={(notifyTrades) => setForm({ ...form, notifyTrades })} />
+              </div>
+
+              <div className="flex justify-end space-x-2">
+                <Button
+                  variant="outline"
+                  onClick={() => setShowForm(false)}
+                  className="border-gray-600 text-gray-300"
+                >
+                  Cancel
+                </Button>
+                <Button onClick={createIntegration} className="bg-green-600 hover:bg-green-700">
+                  Save
+                </Button>
+              </div>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
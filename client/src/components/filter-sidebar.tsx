@@ -6,20 +6,25 @@ import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Checkbox } from '@/components/ui/checkbox';
 import type { TokenFilters } from '@/types/token';
+import { CHAINS, chainIds } from '@shared/chains';
+
+export const DEFAULT_FILTERS: TokenFilters = {
+  minLiquidity: 5000,
+  minHolders: 20,
+  minTransactions: 20,
+  maxAge: 60,
+  socialMentions: true,
+  chain: 'solana',
+  sort: 'launchTime',
+  order: 'desc',
+};
 
 interface FilterSidebarProps {
   onFiltersChange: (filters: TokenFilters) => void;
 }
 
 export function FilterSidebar({ onFiltersChange }: FilterSidebarProps) {
-  const [filters, setFilters] = useState<TokenFilters>({
-    minLiquidity: 5000,
-    minHolders: 20,
-    minTransactions: 20,
-    maxAge: 60,
-    socialMentions: true,
-    chain: 'solana',
-  });
+  const [filters, setFilters] = useState<TokenFilters>(DEFAULT_FILTERS);
 
   const handleFilterChange = (key: keyof TokenFilters, value: any) => {
     const newFilters = { ...filters, [key]: value };
@@ -31,16 +36,8 @@ export function FilterSidebar({ onFiltersChange }: FilterSidebarProps) {
   };
 
   const resetFilters = () => {
-    const defaultFilters: TokenFilters = {
-      minLiquidity: 5000,
-      minHolders: 20,
-      minTransactions: 20,
-      maxAge: 60,
-      socialMentions: true,
-      chain: 'solana',
-    };
-    setFilters(defaultFilters);
-    onFiltersChange(defaultFilters);
+    setFilters(DEFAULT_FILTERS);
+    onFiltersChange(DEFAULT_FILTERS);
   };
 
   return (
@@ -52,23 +49,27 @@ export function FilterSidebar({ onFiltersChange }: FilterSidebarProps) {
         {/* Chain Selection */}
         <div>
           <Label className="text-sm font-medium text-gray-300 mb-2 block">Blockchain</Label>
-          <div className="flex space-x-2">
+          <div className="flex flex-wrap gap-2">
             <Button
               size="sm"
-              variant={filters.chain === 'solana' ? 'default' : 'secondary'}
-              onClick={() => handleFilterChange('chain', 'solana')}
-              className={filters.chain === 'solana' ? 'bg-green-600 hover:bg-green-700' : ''}
+              variant={filters.chain === undefined ? 'default' : 'secondary'}
+              onClick={() => handleFilterChange('chain', undefined)}
+              className={filters.chain === undefined ? 'bg-green-600 hover:bg-green-700' : ''}
             >
-              <i className="fab fa-solana mr-1"></i> Solana
-            </Button>
-            <Button
-              size="sm"
-              variant={filters.chain === 'ethereum' ? 'default' : 'secondary'}
-              onClick={() => handleFilterChange('chain', 'ethereum')}
-              className={filters.chain === 'ethereum' ? 'bg-green-600 hover:bg-green-700' : ''}
-            >
-              <i className="fab fa-ethereum mr-1"></i> ETH
+              All
             </Button>
+            {chainIds.map(chain => (
+              <Button
+                key={chain}
+                size="sm"
+                variant={filters.chain === chain ? 'default' : 'secondary'}
+                onClick={() => handleFilterChange('chain', chain)}
+                className={filters.chain === chain ? 'bg-green-600 hover:bg-green-700' : ''}
+              >
+                <span className="w-2 h-2 rounded-full mr-1.5" style={{ backgroundColor: CHAINS[chain].color }}></span>
+                {CHAINS[chain].shortName}
+              </Button>
+            ))}
           </div>
         </div>
 
@@ -146,6 +147,42 @@ export function FilterSidebar({ onFiltersChange }: FilterSidebarProps) {
           </Label>
         </div>
 
+        {/* Sorting */}
+        <div>
+          <Label className="text-sm font-medium text-gray-300 mb-2 block">Sort By</Label>
+          <div className="flex space-x-2">
+            <Select 
+              value={filters.sort} 
+              onValueChange={(value) => handleFilterChange('sort', value)}
+            >
+              <SelectTrigger className="bg-gray-700 border-gray-600 text-white">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="launchTime">Launch time</SelectItem>
+                <SelectItem value="liquidity">Liquidity</SelectItem>
+                <SelectItem value="holders">Holders</SelectItem>
+                <SelectItem value="volume">Volume</SelectItem>
+                <SelectItem value="priceChange">24h change</SelectItem>
+                <SelectItem value="transactions">Transactions</SelectItem>
+                <SelectItem value="socialMentions">Social mentions</SelectItem>
+              </SelectContent>
+            </Select>
+            <Select 
+              value={filters.order} 
+              onValueChange={(value) => handleFilterChange('order', value)}
+            >
+              <SelectTrigger className="bg-gray-700 border-gray-600 text-white w-28">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="desc">Desc</SelectItem>
+                <SelectItem value="asc">Asc</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
         {/* Filter Actions */}
         <div className="space-y-2">
           <Button 
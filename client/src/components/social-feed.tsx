@@ -1,12 +1,33 @@
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import type { SocialMention } from '@/types/token';
+import type { SocialMention, Token } from '@/types/token';
 
 interface SocialFeedProps {
   mentions: SocialMention[];
+  tokenSentiment: Token[]; // Most-mentioned tokens with their sentiment windows
   isLoading: boolean;
 }
 
-export function SocialFeed({ mentions, isLoading }: SocialFeedProps) {
+const SENTIMENT_WINDOWS = [
+  { key: 'sentiment15m', label: '15m' },
+  { key: 'sentiment1h', label: '1h' },
+  { key: 'sentiment24h', label: '24h' },
+] as const;
+
+const LABEL_COLORS: Record<SocialMention['sentimentLabel'], string> = {
+  bullish: 'bg-green-900 text-green-300',
+  bearish: 'bg-red-900 text-red-300',
+  neutral: 'bg-gray-700 text-gray-300',
+};
+
+const getSentimentColor = (score: number) => {
+  if (score >= 0.05) return 'text-green-400';
+  if (score <= -0.05) return 'text-red-400';
+  return 'text-gray-400';
+};
+
+const formatSentiment = (score: number) => `${score > 0 ? '+' : ''}${score.toFixed(2)}`;
+
+export function SocialFeed({ mentions, tokenSentiment, isLoading }: SocialFeedProps) {
   const formatTime = (timestamp: string) => {
     const now = Date.now();
     const time = new Date(timestamp).getTime();
@@ -69,6 +90,31 @@ export function SocialFeed({ mentions, isLoading }: SocialFeedProps) {
         <CardTitle className="text-lg font-semibold text-white">Recent Social Mentions</CardTitle>
       </CardHeader>
       <CardContent>
+        {/* Token Sentiment */}
+        {tokenSentiment.length > 0 && (
+          <div className="mb-4">
+            <div className="grid grid-cols-5 text-xs text-gray-500 pb-1 border-b border-gray-700">
+              <span className="col-span-2">Token</span>
+              {SENTIMENT_WINDOWS.map(({ label }) => (
+                <span key={label} className="text-right">{label}</span>
+              ))}
+            </div>
+            {tokenSentiment.map((token) => (
+              <div key={token.address} className="grid grid-cols-5 text-sm py-1">
+                <span className="col-span-2 text-white truncate">
+                  {token.symbol}
+                  <span className="text-xs text-gray-500 ml-2">{token.socialMentions} mentions</span>
+                </span>
+                {SENTIMENT_WINDOWS.map(({ key, label }) => (
+                  <span key={label} className={`text-right font-mono ${getSentimentColor(token[key])}`}>
+                    {formatSentiment(token[key])}
+                  </span>
+                ))}
+              </div>
+            ))}
+          </div>
+        )}
+
         <div className="space-y-3">
           {mentions.map((mention) => (
             <div 
@@ -80,6 +126,12 @@ export function SocialFeed({ mentions, isLoading }: SocialFeedProps) {
                   <i className="fab fa-twitter text-blue-400"></i>
                   <span className="text-sm font-medium text-white">{mention.username}</span>
                   <span className="text-xs text-gray-500">{formatTime(mention.timestamp)}</span>
+                  <span
+                    className={`text-xs px-1.5 rounded ${LABEL_COLORS[mention.sentimentLabel] ?? LABEL_COLORS.neutral}`}
+                    title={`Sentiment ${formatSentiment(mention.sentiment)}`}
+                  >
+                    {mention.sentimentLabel}
+                  </span>
                 </div>
                 <div className="flex items-center space-x-2 text-xs text-gray-400">
                   <span>
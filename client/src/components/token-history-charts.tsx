@@ -0,0 +1,75 @@
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart';
+import { Area, AreaChart, CartesianGrid, XAxis, YAxis } from 'recharts';
+import type { TokenSnapshot } from '@/types/token';
+
+type Metric = 'price' | 'liquidity' | 'holders' | 'volume';
+
+const METRICS: { key: Metric; label: string; color: string; format: (value: number) => string }[] = [
+  { key: 'price', label: 'Price', color: '#22c55e', format: value => `$${value.toPrecision(3)}` },
+  { key: 'liquidity', label: 'Liquidity', color: '#3b82f6', format: value => `$${(value / 1000).toFixed(1)}K` },
+  { key: 'holders', label: 'Holders', color: '#eab308', format: value => value.toFixed(0) },
+  { key: 'volume', label: 'Volume', color: '#a855f7', format: value => `$${(value / 1000).toFixed(1)}K` },
+];
+
+const formatTick = (timestamp: string) =>
+  new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+function HistoryChart({ history, metric }: { history: TokenSnapshot[]; metric: typeof METRICS[number] }) {
+  const config: ChartConfig = { [metric.key]: { label: metric.label, color: metric.color } };
+  // Snapshots taken before a price was known have no price point
+  const data = history.filter(snapshot => snapshot[metric.key] !== null);
+
+  return (
+    <Card className="bg-gray-800">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-sm font-medium text-gray-300">{metric.label}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {data.length < 2 ? (
+          <div className="h-40 flex items-center justify-center text-sm text-gray-500">Not enough history yet</div>
+        ) : (
+          <ChartContainer config={config} className="h-40 w-full aspect-auto">
+            <AreaChart data={data} margin={{ left: 0, right: 8, top: 4, bottom: 0 }}>
+              <CartesianGrid vertical={false} stroke="#374151" />
+              <XAxis dataKey="timestamp" tickFormatter={formatTick} minTickGap={40} tickLine={false} axisLine={false} />
+              <YAxis
+                width={60}
+                tickFormatter={metric.format}
+                domain={['auto', 'auto']}
+                tickLine={false}
+                axisLine={false}
+              />
+              <ChartTooltip
+                content={
+                  <ChartTooltipContent
+                    labelFormatter={(_, payload) => new Date(payload[0]?.payload.timestamp).toLocaleString()}
+                    formatter={value => metric.format(Number(value))}
+                  />
+                }
+              />
+              <Area
+                dataKey={metric.key}
+                type="monotone"
+                stroke={`var(--color-${metric.key})`}
+                fill={`var(--color-${metric.key})`}
+                fillOpacity={0.15}
+                isAnimationActive={false}
+              />
+            </AreaChart>
+          </ChartContainer>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export function TokenHistoryCharts({ history }: { history: TokenSnapshot[] }) {
+  return (
+    <div className="grid gap-4 md:grid-cols-2">
+      {METRICS.map(metric => (
+        <HistoryChart key={metric.key} history={history} metric={metric} />
+      ))}
+    </div>
+  );
+}
@@ -2,16 +2,38 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { ExternalLink, RefreshCw, Download } from 'lucide-react';
+import { ExternalLink, RefreshCw, Download, Star } from 'lucide-react';
 import type { Token } from '@/types/token';
+import { Link } from 'wouter';
+import { ChainBadge } from '@/components/chain-badge';
+import { chainLink, getChain } from '@shared/chains';
 
 interface TokenTableProps {
   tokens: Token[];
   isLoading: boolean;
   onRefresh: () => void;
+  hasMore?: boolean;
+  onLoadMore?: () => void;
+  isLoadingMore?: boolean;
+  title?: string;
+  emptyMessage?: string;
+  // The star column only shows when toggling is possible (i.e. signed in)
+  watchedAddresses?: Set<string>;
+  onToggleWatch?: (token: Token) => void;
 }
 
-export function TokenTable({ tokens, isLoading, onRefresh }: TokenTableProps) {
+export function TokenTable({
+  tokens,
+  isLoading,
+  onRefresh,
+  hasMore,
+  onLoadMore,
+  isLoadingMore,
+  title = 'High-Potential Token Launches',
+  emptyMessage = 'No tokens found matching current filters',
+  watchedAddresses,
+  onToggleWatch,
+}: TokenTableProps) {
   const formatTime = (timestamp: string) => {
     const now = Date.now();
     const time = new Date(timestamp).getTime();
@@ -59,6 +81,13 @@ export function TokenTable({ tokens, isLoading, onRefresh }: TokenTableProps) {
     return 'fas fa-chart-line';
   };
 
+  const getRiskBadgeColor = (score: number | null) => {
+    if (score === null) return 'bg-gray-500 bg-opacity-20 text-gray-400';
+    if (score > 60) return 'bg-red-500 bg-opacity-20 text-red-400';
+    if (score > 30) return 'bg-yellow-500 bg-opacity-20 text-yellow-400';
+    return 'bg-green-500 bg-opacity-20 text-green-400';
+  };
+
   if (isLoading) {
     return (
       <Card className="bg-gray-800">
@@ -77,11 +106,11 @@ export function TokenTable({ tokens, isLoading, onRefresh }: TokenTableProps) {
     return (
       <Card className="bg-gray-800">
         <CardHeader>
-          <CardTitle className="text-lg font-semibold text-white">High-Potential Token Launches</CardTitle>
+          <CardTitle className="text-lg font-semibold text-white">{title}</CardTitle>
         </CardHeader>
         <CardContent>
           <div className="text-center py-8">
-            <p className="text-gray-400">No tokens found matching current filters</p>
+            <p className="text-gray-400">{emptyMessage}</p>
             <Button 
               onClick={onRefresh}
               variant="outline" 
@@ -100,7 +129,7 @@ export function TokenTable({ tokens, isLoading, onRefresh }: TokenTableProps) {
     <Card className="bg-gray-800">
       <CardHeader>
         <div className="flex items-center justify-between">
-          <CardTitle className="text-lg font-semibold text-white">High-Potential Token Launches</CardTitle>
+          <CardTitle className="text-lg font-semibold text-white">{title}</CardTitle>
           <div className="flex items-center space-x-3">
             <Button
               variant="ghost"
@@ -127,6 +156,7 @@ export function TokenTable({ tokens, isLoading, onRefresh }: TokenTableProps) {
           <Table>
             <TableHeader>
               <TableRow className="border-gray-700 bg-gray-900">
+                {onToggleWatch && <TableHead className="w-10"></TableHead>}
                 <TableHead className="text-gray-400 font-medium">Token</TableHead>
                 <TableHead className="text-gray-400 font-medium">Age</TableHead>
                 <TableHead className="text-gray-400 font-medium text-right">Liquidity</TableHead>
@@ -134,6 +164,7 @@ export function TokenTable({ tokens, isLoading, onRefresh }: TokenTableProps) {
                 <TableHead className="text-gray-400 font-medium text-right">24h Change</TableHead>
                 <TableHead className="text-gray-400 font-medium text-right">Volume</TableHead>
                 <TableHead className="text-gray-400 font-medium text-center">Social</TableHead>
+                <TableHead className="text-gray-400 font-medium text-center">Risk</TableHead>
                 <TableHead className="text-gray-400 font-medium text-center">Actions</TableHead>
               </TableRow>
             </TableHeader>
@@ -143,6 +174,21 @@ export function TokenTable({ tokens, isLoading, onRefresh }: TokenTableProps) {
                   key={token.address} 
                   className="border-gray-700 hover:bg-gray-750 transition-colors"
                 >
+                  {onToggleWatch && (
+                    <TableCell className="pr-0">
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => onToggleWatch(token)}
+                        title={watchedAddresses?.has(token.address) ? 'Remove from watchlist' : 'Add to watchlist'}
+                        className="h-8 w-8 p-0 text-gray-500 hover:text-yellow-400"
+                      >
+                        <Star
+                          className={`w-4 h-4 ${watchedAddresses?.has(token.address) ? 'fill-yellow-400 text-yellow-400' : ''}`}
+                        />
+                      </Button>
+                    </TableCell>
+                  )}
                   <TableCell>
                     <div className="flex items-center">
                       <div 
@@ -151,10 +197,21 @@ export function TokenTable({ tokens, isLoading, onRefresh }: TokenTableProps) {
                         {getInitials(token.name)}
                       </div>
                       <div>
-                        <div className="font-medium text-white">{token.name}</div>
-                        <div className="text-xs text-gray-400 font-mono">
-                          {token.address.slice(0, 6)}...{token.address.slice(-4)}
+                        <div className="flex items-center gap-2 font-medium text-white">
+                          <Link href={`/token/${token.address}?chain=${token.chain}`} className="hover:underline">
+                            {token.name}
+                          </Link>
+                          <ChainBadge chain={token.chain} />
                         </div>
+                        <a
+                          href={chainLink(token.chain, 'explorer', token.address)}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          title={`View on ${getChain(token.chain).explorer.name}`}
+                          className="text-xs text-gray-400 hover:text-gray-200 font-mono"
+                        >
+                          {token.address.slice(0, 6)}...{token.address.slice(-4)}
+                        </a>
                       </div>
                     </div>
                   </TableCell>
@@ -164,8 +221,19 @@ export function TokenTable({ tokens, isLoading, onRefresh }: TokenTableProps) {
                   <TableCell className="text-white font-mono text-sm text-right">
                     {formatCurrency(token.liquidity)}
                   </TableCell>
-                  <TableCell className="text-white font-mono text-sm text-right">
+                  <TableCell
+                    className="text-white font-mono text-sm text-right"
+                    title={[
+                      token.top10HolderPercent !== null && `Top 10 hold ${token.top10HolderPercent.toFixed(1)}%`,
+                      token.holderGini !== null && `Gini ${token.holderGini.toFixed(2)}`,
+                    ].filter(Boolean).join(' · ') || undefined}
+                  >
                     {token.holders}
+                    {token.holderGrowthRate !== null && (
+                      <div className={`text-xs ${token.holderGrowthRate >= 0 ? 'text-green-500' : 'text-red-400'}`}>
+                        {token.holderGrowthRate >= 0 ? '+' : ''}{token.holderGrowthRate.toFixed(0)}/h
+                      </div>
+                    )}
                   </TableCell>
                   <TableCell className="text-right">
                     <span className="text-green-500 font-mono text-sm">
@@ -181,6 +249,17 @@ export function TokenTable({ tokens, isLoading, onRefresh }: TokenTableProps) {
                       {token.socialMentions}
                     </Badge>
                   </TableCell>
+                  <TableCell className="text-center">
+                    <Badge
+                      className={`${getRiskBadgeColor(token.riskScore)} border-none font-mono`}
+                      title={
+                        !getChain(token.chain).riskChecks ? `No risk checks on ${getChain(token.chain).name}; the bot won't trade it`
+                          : token.riskReasons.length > 0 ? token.riskReasons.join('\n') : 'No risk flags'
+                      }
+                    >
+                      {getChain(token.chain).riskChecks ? token.riskScore ?? '?' : 'n/a'}
+                    </Badge>
+                  </TableCell>
                   <TableCell className="text-center">
                     <div className="flex items-center justify-center space-x-2">
                       <Button
@@ -189,9 +268,10 @@ export function TokenTable({ tokens, isLoading, onRefresh }: TokenTableProps) {
                         asChild
                       >
                         <a 
-                          href={`https://jup.ag/swap/SOL-${token.address}`}
+                          href={chainLink(token.chain, 'swap', token.address)}
                           target="_blank"
                           rel="noopener noreferrer"
+                          title={`Buy on ${getChain(token.chain).swap.name}`}
                         >
                           <ExternalLink className="w-3 h-3 mr-1" />
                           Buy
@@ -204,7 +284,7 @@ export function TokenTable({ tokens, isLoading, onRefresh }: TokenTableProps) {
                         asChild
                       >
                         <a 
-                          href={`https://dexscreener.com/solana/${token.address}`}
+                          href={chainLink(token.chain, 'dexScreener', token.address)}
                           target="_blank"
                           rel="noopener noreferrer"
                         >
@@ -218,6 +298,19 @@ export function TokenTable({ tokens, isLoading, onRefresh }: TokenTableProps) {
             </TableBody>
           </Table>
         </div>
+        {hasMore && onLoadMore && (
+          <div className="flex justify-center p-4 border-t border-gray-700">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={onLoadMore}
+              disabled={isLoadingMore}
+              className="text-gray-400 hover:text-white"
+            >
+              {isLoadingMore ? 'Loading...' : 'Load more'}
+            </Button>
+          </div>
+        )}
       </CardContent>
     </Card>
   );
@@ -1,4 +1,5 @@
 import { useState, useEffect } from 'react';
+import { useQuery } from '@tanstack/react-query';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Switch } from '@/components/ui/switch';
@@ -8,9 +9,28 @@ import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
 import { Play, Square, Settings, TrendingUp, DollarSign, Activity } from 'lucide-react';
 import { apiRequest } from '@/lib/queryClient';
+import { useAuth } from '@/hooks/use-auth';
+import { Link } from 'wouter';
+import { CHAINS, tradableChains } from '@shared/chains';
+
+interface StrategyConfig {
+  enabled: boolean;
+  allocation: number; // Percent of portfolio value
+  params: Record<string, number>;
+}
+
+interface StrategyStatus extends StrategyConfig {
+  id: string;
+  name: string;
+  description: string;
+  defaultParams: Record<string, number>;
+  deployed: number; // Cost basis of its open positions
+  positions: number;
+}
 
 interface TradingStatus {
   isActive: boolean;
+  strategies: StrategyStatus[];
   settings: {
     maxInvestment: number;
     stopLoss: number;
@@ -18,20 +38,51 @@ interface TradingStatus {
     minLiquidity: number;
     minHolders: number;
     socialSentimentWeight: number;
+    maxRiskScore: number;
+    feeBps: number;
+    slippageBps: number;
+    strategies: Record<string, StrategyConfig>;
     enabled: boolean;
   };
   portfolio: {
     totalValue: number;
     availableBalance: number;
+    realizedPnL: number;
+    unrealizedPnL: number;
     totalProfit: number;
+    feesPaid: number;
     activeTrades: number;
+    closedTrades: number;
     successRate: number;
+    positions: {
+      tokenAddress: string;
+      quantity: number;
+      costBasis: number;
+      avgPrice: number;
+      marketPrice: number | null;
+      marketValue: number;
+      unrealizedPnL: number;
+    }[];
   };
 }
 
-export function TradingBotPanel() {
-  const [status, setStatus] = useState<TradingStatus | null>(null);
-  const [isLoading, setIsLoading] = useState(true);
+const formatUsd = (value: number) => `$${value.toFixed(2)}`;
+const formatPnL = (value: number) => `${value >= 0 ? '+' : '-'}$${Math.abs(value).toFixed(2)}`;
+const pnlColor = (value: number) => value >= 0 ? 'text-green-500' : 'text-red-500';
+
+// Param names are camelCase, e.g. "rsiOversold" -> "Rsi oversold"
+const formatParam = (name: string) => {
+  const words = name.replace(/([A-Z])/g, ' $1').toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+interface TradingBotPanelProps {
+  // Live updates refresh the status on every signal and trade; poll only as a fallback
+  live?: boolean;
+}
+
+export function TradingBotPanel({ live = false }: TradingBotPanelProps) {
+  const { user } = useAuth();
   const [showSettings, setShowSettings] = useState(false);
   const [settings, setSettings] = useState({
     maxInvestment: 100,
@@ -40,27 +91,29 @@ export function TradingBotPanel() {
     minLiquidity: 10000,
     minHolders: 50,
     socialSentimentWeight: 0.3,
+    maxRiskScore: 50,
+    feeBps: 30,
+    slippageBps: 50,
+    strategies: {} as Record<string, StrategyConfig>,
     enabled: false
   });
 
-  useEffect(() => {
-    fetchStatus();
-    const interval = setInterval(fetchStatus, 5000);
-    return () => clearInterval(interval);
-  }, []);
+  const { data: status, isLoading, refetch: fetchStatus } = useQuery<TradingStatus>({
+    queryKey: ['/api/trading/status'],
+    // Unrealized P&L still moves between trades, so keep a slow refresh while live
+    refetchInterval: live ? 30000 : 5000,
+  });
 
-  const fetchStatus = async () => {
-    try {
-      const response = await fetch('/api/trading/status');
-      const data = await response.json();
-      setStatus(data);
-      setSettings(data.settings);
-      setIsLoading(false);
-    } catch (error) {
-      console.error('Failed to fetch trading status:', error);
-      setIsLoading(false);
+  // Keep the form in sync with the server unless it's being edited
+  useEffect(() => {
+    if (status && !showSettings) {
+      // Edit every strategy's effective config, defaults included
+      const strategies = Object.fromEntries(
+        status.strategies.map(({ id, enabled, allocation, params }) => [id, { enabled, allocation, params }])
+      );
+      setSettings({ ...status.settings, strategies });
     }
-  };
+  }, [status, showSettings]);
 
   const toggleBot = async () => {
     try {
@@ -72,9 +125,21 @@ export function TradingBotPanel() {
     }
   };
 
+  const updateStrategy = (id: string, changes: Partial<StrategyConfig>) => {
+    setSettings({ ...settings, strategies: { ...settings.strategies, [id]: { ...settings.strategies[id], ...changes } } });
+  };
+
   const updateSettings = async () => {
     try {
-      await apiRequest('POST', '/api/trading/settings', settings);
+      // Only save params that differ from the defaults, so later default changes still apply
+      const strategies = Object.fromEntries(
+        (status?.strategies ?? []).map(({ id, defaultParams }) => {
+          const config = settings.strategies[id];
+          const params = Object.fromEntries(Object.entries(config.params).filter(([key, value]) => value !== defaultParams[key]));
+          return [id, { ...config, params }];
+        })
+      );
+      await apiRequest('POST', '/api/trading/settings', { ...settings, strategies });
       await fetchStatus();
       setShowSettings(false);
     } catch (error) {
@@ -111,14 +176,16 @@ export function TradingBotPanel() {
             >
               {status?.isActive ? "ACTIVE" : "STOPPED"}
             </Badge>
-            <Button
-              size="sm"
-              variant="ghost"
-              onClick={() => setShowSettings(!showSettings)}
-              className="text-gray-400 hover:text-white"
-            >
-              <Settings className="w-4 h-4" />
-            </Button>
+            {user && (
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={() => setShowSettings(!showSettings)}
+                className="text-gray-400 hover:text-white"
+              >
+                <Settings className="w-4 h-4" />
+              </Button>
+            )}
           </div>
         </div>
       </CardHeader>
@@ -130,30 +197,74 @@ export function TradingBotPanel() {
             <div className="text-center">
               <div className="text-xs text-gray-400">Total Value</div>
               <div className="text-lg font-bold text-white font-mono">
-                ${status.portfolio.totalValue}
+                {formatUsd(status.portfolio.totalValue)}
               </div>
             </div>
             <div className="text-center">
               <div className="text-xs text-gray-400">Available</div>
               <div className="text-lg font-bold text-white font-mono">
-                ${status.portfolio.availableBalance}
+                {formatUsd(status.portfolio.availableBalance)}
               </div>
             </div>
             <div className="text-center">
               <div className="text-xs text-gray-400">Profit</div>
-              <div className="text-lg font-bold text-green-500 font-mono">
-                +${status.portfolio.totalProfit}
+              <div className={`text-lg font-bold font-mono ${pnlColor(status.portfolio.totalProfit)}`}>
+                {formatPnL(status.portfolio.totalProfit)}
               </div>
             </div>
             <div className="text-center">
               <div className="text-xs text-gray-400">Success Rate</div>
               <div className="text-lg font-bold text-blue-400 font-mono">
-                {status.portfolio.successRate}%
+                {status.portfolio.successRate.toFixed(1)}%
               </div>
             </div>
           </div>
         )}
 
+        {/* Ledger Breakdown */}
+        {status?.portfolio && (
+          <div className="space-y-3">
+            <div className="flex justify-between text-xs text-gray-400 font-mono">
+              <span>
+                Realized <span className={pnlColor(status.portfolio.realizedPnL)}>{formatPnL(status.portfolio.realizedPnL)}</span>
+              </span>
+              <span>
+                Unrealized <span className={pnlColor(status.portfolio.unrealizedPnL)}>{formatPnL(status.portfolio.unrealizedPnL)}</span>
+              </span>
+              <span>Fees {formatUsd(status.portfolio.feesPaid)}</span>
+              <span>Closed {status.portfolio.closedTrades}</span>
+            </div>
+
+            {status.portfolio.positions.length > 0 && (
+              <div className="space-y-1">
+                <div className="text-xs text-gray-400">Open Positions ({status.portfolio.activeTrades})</div>
+                {status.portfolio.positions.map((position) => (
+                  <div key={position.tokenAddress} className="flex justify-between text-xs font-mono text-gray-300">
+                    <span>{position.tokenAddress.slice(0, 6)}...{position.tokenAddress.slice(-4)}</span>
+                    <span>{position.quantity.toLocaleString(undefined, { maximumFractionDigits: 2 })} @ ${position.avgPrice.toPrecision(4)}</span>
+                    <span>{formatUsd(position.marketValue)}</span>
+                    <span className={pnlColor(position.unrealizedPnL)}>{formatPnL(position.unrealizedPnL)}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Strategies */}
+        {status && status.strategies.length > 0 && (
+          <div className="space-y-1">
+            <div className="text-xs text-gray-400">Strategies</div>
+            {status.strategies.map((strategy) => (
+              <div key={strategy.id} className="flex justify-between text-xs font-mono text-gray-300" title={strategy.description}>
+                <span className={strategy.enabled ? 'text-white' : 'text-gray-500 line-through'}>{strategy.name}</span>
+                <span>{strategy.allocation}% allocated</span>
+                <span>{formatUsd(strategy.deployed)} in {strategy.positions} positions</span>
+              </div>
+            ))}
+          </div>
+        )}
+
         <Separator className="bg-gray-700" />
 
         {/* Bot Controls */}
@@ -167,29 +278,36 @@ export function TradingBotPanel() {
               }
             </div>
           </div>
-          <Button
-            onClick={toggleBot}
-            className={status?.isActive 
-              ? "bg-red-600 hover:bg-red-700" 
-              : "bg-green-600 hover:bg-green-700"
-            }
-          >
-            {status?.isActive ? (
-              <>
-                <Square className="w-4 h-4 mr-2" />
-                Stop Bot
-              </>
-            ) : (
-              <>
-                <Play className="w-4 h-4 mr-2" />
-                Start Bot
-              </>
-            )}
-          </Button>
+          {user ? (
+            <Button
+              onClick={toggleBot}
+              className={status?.isActive 
+                ? "bg-red-600 hover:bg-red-700" 
+                : "bg-green-600 hover:bg-green-700"
+              }
+            >
+              {status?.isActive ? (
+                <>
+                  <Square className="w-4 h-4 mr-2" />
+                  Stop Bot
+                </>
+              ) : (
+                <>
+                  <Play className="w-4 h-4 mr-2" />
+                  Start Bot
+                </>
+              )}
+            </Button>
+          ) : (
+            // Trading controls need a signed-in user
+            <Link href="/auth">
+              <Button variant="secondary">Sign in to trade</Button>
+            </Link>
+          )}
         </div>
 
         {/* Settings Panel */}
-        {showSettings && (
+        {showSettings && user && (
           <>
             <Separator className="bg-gray-700" />
             <div className="space-y-4">
@@ -232,8 +350,81 @@ export function TradingBotPanel() {
                     className="bg-gray-700 border-gray-600 text-white font-mono"
                   />
                 </div>
+                <div>
+                  <Label className="text-sm text-gray-300">Max Risk Score</Label>
+                  <Input
+                    type="number"
+                    min={0}
+                    max={100}
+                    value={settings.maxRiskScore}
+                    onChange={(e) => setSettings({...settings, maxRiskScore: Number(e.target.value)})}
+                    className="bg-gray-700 border-gray-600 text-white font-mono"
+                  />
+                </div>
+                <div>
+                  <Label className="text-sm text-gray-300">Fee (bps)</Label>
+                  <Input
+                    type="number"
+                    value={settings.feeBps}
+                    onChange={(e) => setSettings({...settings, feeBps: Number(e.target.value)})}
+                    className="bg-gray-700 border-gray-600 text-white font-mono"
+                  />
+                </div>
+                <div>
+                  <Label className="text-sm text-gray-300">Slippage (bps)</Label>
+                  <Input
+                    type="number"
+                    value={settings.slippageBps}
+                    onChange={(e) => setSettings({...settings, slippageBps: Number(e.target.value)})}
+                    className="bg-gray-700 border-gray-600 text-white font-mono"
+                  />
+                </div>
               </div>
 
+              <h4 className="font-medium text-white">Strategies</h4>
+              {status?.strategies.map((strategy) => {
+                const config = settings.strategies[strategy.id];
+                if (!config) return null;
+                return (
+                  <div key={strategy.id} className="space-y-3 rounded border border-gray-700 p-3">
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <div className="text-sm font-medium text-white">{strategy.name}</div>
+                        <div className="text-xs text-gray-400">{strategy.description}</div>
+                      </div>
+                      <Switch
+                        checked={config.enabled}
+                        onCheckedChange={(enabled) => updateStrategy(strategy.id, { enabled })}
+                      />
+                    </div>
+                    <div className="grid grid-cols-2 gap-4">
+                      <div>
+                        <Label className="text-sm text-gray-300">Allocation (%)</Label>
+                        <Input
+                          type="number"
+                          min={0}
+                          max={100}
+                          value={config.allocation}
+                          onChange={(e) => updateStrategy(strategy.id, { allocation: Number(e.target.value) })}
+                          className="bg-gray-700 border-gray-600 text-white font-mono"
+                        />
+                      </div>
+                      {Object.keys(strategy.defaultParams).map((param) => (
+                        <div key={param}>
+                          <Label className="text-sm text-gray-300">{formatParam(param)}</Label>
+                          <Input
+                            type="number"
+                            value={config.params[param] ?? strategy.defaultParams[param]}
+                            onChange={(e) => updateStrategy(strategy.id, { params: { ...config.params, [param]: Number(e.target.value) } })}
+                            className="bg-gray-700 border-gray-600 text-white font-mono"
+                          />
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                );
+              })}
+
               <div className="flex justify-end space-x-2">
                 <Button
                   variant="outline"
@@ -255,9 +446,12 @@ export function TradingBotPanel() {
 
         {/* Quick Stats */}
         <div className="text-xs text-gray-400 space-y-1">
+          {/* Other chains have no risk checks, so the risk veto blocks every buy there */}
+          <div>Trades on: {tradableChains.map(id => CHAINS[id].name).join(', ')} only</div>
           <div>Max per trade: ${settings.maxInvestment}</div>
           <div>Stop loss: {settings.stopLoss}% | Take profit: {settings.takeProfit}%</div>
-          <div>Min liquidity: ${settings.minLiquidity.toLocaleString()}</div>
+          <div>Min liquidity: ${settings.minLiquidity.toLocaleString()} | Max risk: {settings.maxRiskScore}</div>
+          <div>Fee: {settings.feeBps} bps | Slippage: {settings.slippageBps} bps</div>
         </div>
       </CardContent>
     </Card>
@@ -0,0 +1,107 @@
+import { createContext, useContext, type ReactNode } from 'react';
+import { useQuery, useMutation, type UseMutationResult } from '@tanstack/react-query';
+import { apiRequest, getQueryFn, queryClient } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+
+export interface AuthUser {
+  id: number;
+  username: string;
+}
+
+interface Credentials {
+  username: string;
+  password: string;
+}
+
+interface AuthContextValue {
+  user: AuthUser | null;
+  isLoading: boolean;
+  loginMutation: UseMutationResult<AuthUser, Error, Credentials>;
+  registerMutation: UseMutationResult<AuthUser, Error, Credentials>;
+  logoutMutation: UseMutationResult<void, Error, void>;
+}
+
+const AuthContext = createContext<AuthContextValue | null>(null);
+
+// Server errors come back as "<status>: <json body>"; show the body's message
+function errorMessage(error: Error) {
+  const body = error.message.replace(/^\d+:\s*/, '');
+  try {
+    return JSON.parse(body).error ?? body;
+  } catch {
+    return body;
+  }
+}
+
+export function AuthProvider({ children }: { children: ReactNode }) {
+  const { toast } = useToast();
+
+  const { data: user, isLoading } = useQuery<AuthUser | null>({
+    queryKey: ['/api/auth/me'],
+    queryFn: getQueryFn({ on401: 'returnNull' }),
+  });
+
+  const onSignedIn = (user: AuthUser) => {
+    queryClient.setQueryData(['/api/auth/me'], user);
+  };
+
+  const loginMutation = useMutation({
+    mutationFn: async (credentials: Credentials) => {
+      const res = await apiRequest('POST', '/api/auth/login', credentials);
+      return (await res.json()) as AuthUser;
+    },
+    onSuccess: onSignedIn,
+    onError: (error: Error) => {
+      toast({ title: 'Login failed', description: errorMessage(error), variant: 'destructive' });
+    },
+  });
+
+  const registerMutation = useMutation({
+    mutationFn: async (credentials: Credentials) => {
+      const res = await apiRequest('POST', '/api/auth/register', credentials);
+      return (await res.json()) as AuthUser;
+    },
+    onSuccess: onSignedIn,
+    onError: (error: Error) => {
+      toast({ title: 'Registration failed', description: errorMessage(error), variant: 'destructive' });
+    },
+  });
+
+  const logoutMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest('POST', '/api/auth/logout');
+    },
+    onSuccess: () => {
+      queryClient.setQueryData(['/api/auth/me'], null);
+      queryClient.removeQueries({ queryKey: ['/api/watchlists'] });
+      queryClient.removeQueries({ queryKey: ['/api/alert-rules'] });
+      queryClient.removeQueries({ queryKey: ['/api/alerts'] });
+      queryClient.removeQueries({ queryKey: ['/api/chat-integrations'] });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Logout failed', description: errorMessage(error), variant: 'destructive' });
+    },
+  });
+
+  return (
+    <AuthContext.Provider
+      value={{
+        user: user ?? null,
+        isLoading,
+        loginMutation,
+        registerMutation,
+        logoutMutation,
+      }}
+    >
+      {children}
+    </AuthContext.Provider>
+  );
+}
+
+export function useAuth() {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error('useAuth must be used within an AuthProvider');
+  }
+  return context;
+}
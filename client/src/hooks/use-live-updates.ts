@@ -0,0 +1,137 @@
+import { useEffect, useState } from 'react';
+import { useQueryClient, type InfiniteData } from '@tanstack/react-query';
+import { toast } from '@/hooks/use-toast';
+import type { LiveEvent, Token, TokenPage, WatchlistEntry } from '@/types/token';
+
+const MAX_RECONNECT_DELAY = 30000;
+// WebSocket attempts that never open before giving up on it for this page load
+const WEBSOCKET_ATTEMPTS = 2;
+
+// Subscribes to /ws and writes pushed events into the React Query cache. If
+// the socket never opens (e.g. a proxy strips upgrades) it falls back to the
+// /api/stream SSE feed, which the browser resumes with Last-Event-ID.
+// Returns whether either transport is connected so callers can pause polling.
+export function useLiveUpdates() {
+  const queryClient = useQueryClient();
+  const [connected, setConnected] = useState(false);
+
+  useEffect(() => {
+    let socket: WebSocket | null = null;
+    let stream: EventSource | null = null;
+    let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+    let attempts = 0;
+    let everOpened = false;
+    let closed = false;
+
+    const patchToken = (token: Token) => {
+      queryClient.setQueriesData<InfiniteData<TokenPage>>({ queryKey: ['/api/tokens'] }, (data) => data && {
+        ...data,
+        pages: data.pages.map(page => ({
+          ...page,
+          items: page.items.map(item => item.address === token.address && item.chain === token.chain ? token : item),
+        })),
+      });
+      queryClient.setQueryData<WatchlistEntry[]>(['/api/watchlists'], (entries) => entries?.map(entry =>
+        entry.tokenAddress === token.address ? { ...entry, token } : entry
+      ));
+      // The token's detail page, if it's been opened (with or without ?chain=)
+      const detail = `/api/tokens/${encodeURIComponent(token.address)}`;
+      queryClient.setQueriesData<Token>(
+        { predicate: (query) => query.queryKey[0] === detail || query.queryKey[0] === `${detail}?chain=${encodeURIComponent(token.chain)}` },
+        (data) => data && data.chain === token.chain ? token : data,
+      );
+    };
+
+    const handleEvent = (event: LiveEvent) => {
+      switch (event.type) {
+        case 'token.created':
+          // Whether a new token belongs on the current page is decided server-side
+          queryClient.invalidateQueries({ queryKey: ['/api/tokens'] });
+          break;
+        case 'token.updated':
+          patchToken(event.data);
+          break;
+        case 'token.highAlert':
+          queryClient.setQueryData<Token[]>(['/api/tokens/high-alert'], (tokens) => tokens && [
+            event.data,
+            ...tokens.filter(token => token.address !== event.data.address),
+          ]);
+          break;
+        case 'signal.generated':
+        case 'trade.executed': {
+          const address = encodeURIComponent(event.data.tokenAddress);
+          queryClient.invalidateQueries({ queryKey: ['/api/trading/status'] });
+          queryClient.invalidateQueries({ queryKey: ['/api/analytics/performance'] });
+          queryClient.invalidateQueries({ queryKey: [`/api/signals?token=${address}`] });
+          queryClient.invalidateQueries({
+            predicate: (query) => String(query.queryKey[0]).startsWith(`/api/tokens/${address}/trades`),
+          });
+          break;
+        }
+        case 'stats':
+          queryClient.setQueryData(['/api/stats'], event.data);
+          break;
+        case 'alert.triggered':
+          // Only sent to the rule's owner
+          toast({ title: event.data.title, description: event.data.message });
+          queryClient.invalidateQueries({ queryKey: ['/api/alerts'] });
+          break;
+      }
+    };
+
+    const handleMessage = (message: MessageEvent) => {
+      try {
+        handleEvent(JSON.parse(message.data));
+      } catch (error) {
+        console.error('Bad live update:', error);
+      }
+    };
+
+    const connectStream = () => {
+      stream = new EventSource('/api/stream');
+      stream.onopen = () => setConnected(true);
+      stream.onmessage = handleMessage;
+      // EventSource reconnects by itself; polling covers the gap meanwhile
+      stream.onerror = () => setConnected(false);
+      // We were disconnected longer than the server keeps events for
+      stream.addEventListener('resync', () => queryClient.invalidateQueries());
+    };
+
+    const connect = () => {
+      const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
+      socket = new WebSocket(`${protocol}//${window.location.host}/ws`);
+
+      socket.onopen = () => {
+        attempts = 0;
+        everOpened = true;
+        setConnected(true);
+      };
+
+      socket.onmessage = handleMessage;
+
+      socket.onclose = () => {
+        setConnected(false);
+        if (closed) return;
+        attempts++;
+        if (!everOpened && attempts >= WEBSOCKET_ATTEMPTS) {
+          connectStream();
+          return;
+        }
+        // Exponential backoff; polling covers the gap while disconnected
+        const delay = Math.min(1000 * 2 ** (attempts - 1), MAX_RECONNECT_DELAY);
+        reconnectTimer = setTimeout(connect, delay);
+      };
+    };
+
+    connect();
+
+    return () => {
+      closed = true;
+      clearTimeout(reconnectTimer);
+      socket?.close();
+      stream?.close();
+    };
+  }, [queryClient]);
+
+  return connected;
+}
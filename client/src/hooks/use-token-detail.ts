@@ -0,0 +1,57 @@
+import { useQuery } from '@tanstack/react-query';
+import type { Token, TokenSnapshot, TokenEvaluation, SocialMention, TradingSignal, TokenTrades } from '@/types/token';
+
+// Everything the token page shows. While `live` is set the WebSocket feed
+// patches the token and refreshes its signals and trades, so those stop polling.
+// `chain` picks the token when the same address is listed on several chains.
+export function useTokenDetail(address: string, live = false, chain?: string) {
+  const base = `/api/tokens/${encodeURIComponent(address)}`;
+  const scope = chain ? `chain=${encodeURIComponent(chain)}` : '';
+  const withChain = (path: string) => scope ? `${path}${path.includes('?') ? '&' : '?'}${scope}` : path;
+
+  const token = useQuery<Token>({
+    queryKey: [withChain(base)],
+    refetchInterval: live ? false : 30000,
+  });
+
+  const history = useQuery<TokenSnapshot[]>({
+    queryKey: [withChain(`${base}/history?resolution=5m`)],
+    enabled: token.isSuccess,
+    refetchInterval: 60000,
+  });
+
+  // Rule results depend on the token's metrics, so refetch whenever they change
+  const evaluation = useQuery<TokenEvaluation>({
+    queryKey: [withChain(`${base}/evaluation`), token.dataUpdatedAt],
+    enabled: token.isSuccess,
+  });
+
+  const socialMentions = useQuery<SocialMention[]>({
+    queryKey: [withChain(`${base}/social-mentions`)],
+    enabled: token.isSuccess,
+    refetchInterval: 15000,
+  });
+
+  const signals = useQuery<TradingSignal[]>({
+    queryKey: [`/api/signals?token=${encodeURIComponent(address)}`],
+    enabled: token.isSuccess,
+    refetchInterval: live ? false : 30000,
+  });
+
+  const trades = useQuery<TokenTrades>({
+    queryKey: [withChain(`${base}/trades`)],
+    enabled: token.isSuccess,
+    refetchInterval: live ? false : 30000,
+  });
+
+  return {
+    token: token.data,
+    notFound: token.isError,
+    history: history.data || [],
+    evaluation: evaluation.data,
+    socialMentions: socialMentions.data || [],
+    signals: signals.data || [],
+    trades: trades.data,
+    isLoading: token.isLoading,
+  };
+}
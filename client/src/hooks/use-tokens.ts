@@ -1,32 +1,31 @@
-import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { useQuery, useInfiniteQuery, useQueryClient } from '@tanstack/react-query';
 import { api } from '@/lib/api';
-import { useEffect } from 'react';
+import type { TokenFilters } from '@/types/token';
 
-export function useTokens() {
+// While `live` is set the WebSocket feed keeps tokens, high alerts and stats
+// current, so their polling is switched off
+export function useTokens(filters: TokenFilters, live = false) {
   const queryClient = useQueryClient();
   
-  const tokens = useQuery({
-    queryKey: ['/api/tokens'],
-    queryFn: api.tokens.getAll,
-    refetchInterval: 30000, // 30 seconds
-  });
-
-  const filteredTokens = useQuery({
-    queryKey: ['/api/tokens/filtered'],
-    queryFn: api.tokens.getFiltered,
-    refetchInterval: 30000,
+  // Filtering, sorting and paging happen server-side; each page carries the cursor for the next
+  const tokens = useInfiniteQuery({
+    queryKey: ['/api/tokens', filters],
+    queryFn: ({ pageParam }) => api.tokens.query(filters, pageParam),
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    refetchInterval: live ? false : 30000, // 30 seconds
   });
 
   const highAlertTokens = useQuery({
     queryKey: ['/api/tokens/high-alert'],
     queryFn: api.tokens.getHighAlert,
-    refetchInterval: 30000,
+    refetchInterval: live ? false : 30000,
   });
 
   const stats = useQuery({
     queryKey: ['/api/stats'],
     queryFn: api.stats.get,
-    refetchInterval: 5000, // 5 seconds for real-time stats
+    refetchInterval: live ? false : 5000, // 5 seconds for real-time stats
   });
 
   const socialMentions = useQuery({
@@ -35,27 +34,37 @@ export function useTokens() {
     refetchInterval: 15000, // 15 seconds
   });
 
+  const socialSentiment = useQuery({
+    queryKey: ['/api/social-sentiment'],
+    queryFn: api.social.getSentiment,
+    refetchInterval: 15000,
+  });
+
   const refreshData = async () => {
     try {
       await api.refresh();
       // Invalidate all queries to refetch data
       queryClient.invalidateQueries({ queryKey: ['/api/tokens'] });
-      queryClient.invalidateQueries({ queryKey: ['/api/tokens/filtered'] });
       queryClient.invalidateQueries({ queryKey: ['/api/tokens/high-alert'] });
       queryClient.invalidateQueries({ queryKey: ['/api/stats'] });
       queryClient.invalidateQueries({ queryKey: ['/api/social-mentions'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/social-sentiment'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/watchlists'] });
     } catch (error) {
       console.error('Failed to refresh data:', error);
     }
   };
 
   return {
-    tokens: tokens.data || [],
-    filteredTokens: filteredTokens.data || [],
+    tokens: tokens.data?.pages.flatMap(page => page.items) || [],
+    hasMoreTokens: tokens.hasNextPage,
+    loadMoreTokens: tokens.fetchNextPage,
+    isLoadingMoreTokens: tokens.isFetchingNextPage,
     highAlertTokens: highAlertTokens.data || [],
     stats: stats.data,
     socialMentions: socialMentions.data || [],
-    isLoading: tokens.isLoading || filteredTokens.isLoading || stats.isLoading,
+    socialSentiment: socialSentiment.data || [],
+    isLoading: tokens.isLoading || stats.isLoading,
     refreshData,
   };
 }
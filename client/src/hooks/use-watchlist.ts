@@ -0,0 +1,45 @@
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { queryClient } from '@/lib/queryClient';
+import { api } from '@/lib/api';
+import { useAuth } from '@/hooks/use-auth';
+import { useToast } from '@/hooks/use-toast';
+import type { Token, WatchlistEntry } from '@/types/token';
+
+// The signed-in user's pinned tokens. Live token updates patch the cached
+// entries, so this only polls when the live feed is down.
+export function useWatchlist(live = false) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const watchlist = useQuery<WatchlistEntry[]>({
+    queryKey: ['/api/watchlists'],
+    enabled: !!user,
+    refetchInterval: live ? false : 30000,
+  });
+
+  const entries = user ? watchlist.data || [] : [];
+  const watchedAddresses = new Set(entries.map(entry => entry.tokenAddress));
+
+  const toggleMutation = useMutation({
+    mutationFn: async (token: Token) => {
+      if (watchedAddresses.has(token.address)) {
+        await api.watchlist.remove(token.address);
+      } else {
+        await api.watchlist.add(token.address);
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/watchlists'] });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Watchlist update failed', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  return {
+    tokens: entries.flatMap(entry => entry.token ? [entry.token] : []),
+    watchedAddresses,
+    isLoading: !!user && watchlist.isLoading,
+    toggleWatch: (token: Token) => toggleMutation.mutate(token),
+  };
+}
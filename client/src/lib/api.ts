@@ -1,26 +1,49 @@
 import { apiRequest } from './queryClient';
-import type { Token, SocialMention, TokenStats } from '@/types/token';
+import type { Token, TokenPage, TokenFilters, SocialMention, TokenStats, WatchlistEntry } from '@/types/token';
 
 export const api = {
   tokens: {
-    getAll: (): Promise<Token[]> => 
-      fetch('/api/tokens').then(res => res.json()),
+    query: (filters: TokenFilters, cursor?: string | null, limit = 50): Promise<TokenPage> => {
+      const params = new URLSearchParams({
+        minLiquidity: String(filters.minLiquidity),
+        minHolders: String(filters.minHolders),
+        minTransactions: String(filters.minTransactions),
+        maxAge: String(filters.maxAge),
+        socialMentions: String(filters.socialMentions),
+        sort: filters.sort,
+        order: filters.order,
+        limit: String(limit),
+      });
+      if (filters.chain) params.set('chain', filters.chain);
+      if (cursor) params.set('cursor', cursor);
+      return apiRequest('GET', `/api/tokens?${params}`).then(res => res.json());
+    },
     
     getFiltered: (): Promise<Token[]> => 
-      fetch('/api/tokens/filtered').then(res => res.json()),
+      apiRequest('GET', '/api/tokens/filtered').then(res => res.json()),
     
     getHighAlert: (): Promise<Token[]> => 
-      fetch('/api/tokens/high-alert').then(res => res.json()),
+      apiRequest('GET', '/api/tokens/high-alert').then(res => res.json()),
+  },
+  
+  watchlist: {
+    add: (tokenAddress: string): Promise<WatchlistEntry> =>
+      apiRequest('POST', '/api/watchlists', { tokenAddress }).then(res => res.json()),
+
+    remove: (tokenAddress: string) =>
+      apiRequest('DELETE', `/api/watchlists/${encodeURIComponent(tokenAddress)}`),
   },
   
   social: {
     getMentions: (): Promise<SocialMention[]> => 
-      fetch('/api/social-mentions').then(res => res.json()),
+      apiRequest('GET', '/api/social-mentions').then(res => res.json()),
+    getSentiment: (): Promise<Token[]> =>
+      apiRequest('GET', '/api/social-sentiment').then(res => res.json()),
   },
   
   stats: {
     get: (): Promise<TokenStats> => 
-      fetch('/api/stats').then(res => res.json()),
+      apiRequest('GET', '/api/stats').then(res => res.json()),
   },
   
   refresh: () => 
@@ -0,0 +1,99 @@
+import { useState, type FormEvent } from 'react';
+import { Redirect } from 'wouter';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { useAuth } from '@/hooks/use-auth';
+
+function CredentialsForm({ submitLabel, isPending, onSubmit }: {
+  submitLabel: string;
+  isPending: boolean;
+  onSubmit: (credentials: { username: string; password: string }) => void;
+}) {
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    onSubmit({ username, password });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div>
+        <Label className="text-sm text-gray-300">Username</Label>
+        <Input
+          value={username}
+          onChange={(e) => setUsername(e.target.value)}
+          autoComplete="username"
+          className="bg-gray-700 border-gray-600 text-white"
+          required
+        />
+      </div>
+      <div>
+        <Label className="text-sm text-gray-300">Password</Label>
+        <Input
+          type="password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          autoComplete={submitLabel === 'Create Account' ? 'new-password' : 'current-password'}
+          className="bg-gray-700 border-gray-600 text-white"
+          required
+        />
+      </div>
+      <Button
+        type="submit"
+        disabled={isPending}
+        className="w-full bg-green-600 hover:bg-green-700 text-white"
+      >
+        {isPending ? 'Please wait...' : submitLabel}
+      </Button>
+    </form>
+  );
+}
+
+export default function AuthPage() {
+  const { user, loginMutation, registerMutation } = useAuth();
+
+  if (user) {
+    return <Redirect to="/" />;
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-900 text-gray-100 flex items-center justify-center px-4">
+      <Card className="bg-gray-800 w-full max-w-md">
+        <CardHeader>
+          <CardTitle className="text-xl font-bold text-white flex items-center">
+            <i className="fas fa-radar text-green-500 mr-3"></i>
+            Meme Coin Radar
+          </CardTitle>
+          <p className="text-sm text-gray-400">Sign in to control the trading bot</p>
+        </CardHeader>
+        <CardContent>
+          <Tabs defaultValue="login" className="space-y-4">
+            <TabsList className="grid w-full grid-cols-2">
+              <TabsTrigger value="login">Login</TabsTrigger>
+              <TabsTrigger value="register">Register</TabsTrigger>
+            </TabsList>
+            <TabsContent value="login">
+              <CredentialsForm
+                submitLabel="Login"
+                isPending={loginMutation.isPending}
+                onSubmit={(credentials) => loginMutation.mutate(credentials)}
+              />
+            </TabsContent>
+            <TabsContent value="register">
+              <CredentialsForm
+                submitLabel="Create Account"
+                isPending={registerMutation.isPending}
+                onSubmit={(credentials) => registerMutation.mutate(credentials)}
+              />
+            </TabsContent>
+          </Tabs>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,18 +1,38 @@
 import { useState, useEffect } from 'react';
+import { Link } from 'wouter';
+import { useAuth } from '@/hooks/use-auth';
+import { Button } from '@/components/ui/button';
 import { useTokens } from '@/hooks/use-tokens';
+import { useLiveUpdates } from '@/hooks/use-live-updates';
+import { useWatchlist } from '@/hooks/use-watchlist';
 import { TokenTable } from '@/components/token-table';
-import { FilterSidebar } from '@/components/filter-sidebar';
+import { FilterSidebar, DEFAULT_FILTERS } from '@/components/filter-sidebar';
 import { StatsCards } from '@/components/stats-cards';
 import { SocialFeed } from '@/components/social-feed';
 import { TradingBotPanel } from '@/components/trading-bot-panel';
+import { AlertRulesPanel } from '@/components/alert-rules-panel';
+import { ChatIntegrationsPanel } from '@/components/chat-integrations-panel';
 import { AnalyticsDashboard } from '@/components/analytics-dashboard';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import type { TokenFilters } from '@/types/token';
 
 export default function Dashboard() {
-  const { tokens, filteredTokens, stats, socialMentions, isLoading, refreshData } = useTokens();
+  const [filters, setFilters] = useState<TokenFilters>(DEFAULT_FILTERS);
+  const live = useLiveUpdates();
+  const { user, logoutMutation } = useAuth();
+  const {
+    tokens,
+    hasMoreTokens,
+    loadMoreTokens,
+    isLoadingMoreTokens,
+    stats,
+    socialMentions,
+    socialSentiment,
+    isLoading,
+    refreshData,
+  } = useTokens(filters, live);
+  const watchlist = useWatchlist(live);
   const [currentTime, setCurrentTime] = useState(new Date());
-  const [displayTokens, setDisplayTokens] = useState(filteredTokens);
 
   // Update time every second
   useEffect(() => {
@@ -22,28 +42,6 @@ export default function Dashboard() {
     return () => clearInterval(interval);
   }, []);
 
-  // Update display tokens when filtered tokens change
-  useEffect(() => {
-    setDisplayTokens(filteredTokens);
-  }, [filteredTokens]);
-
-  const handleFiltersChange = (filters: TokenFilters) => {
-    // Client-side filtering of already filtered tokens
-    const filtered = filteredTokens.filter(token => {
-      const age = (Date.now() - new Date(token.launchTime).getTime()) / (1000 * 60);
-      
-      return (
-        token.liquidity >= filters.minLiquidity &&
-        token.holders >= filters.minHolders &&
-        token.transactions >= filters.minTransactions &&
-        age <= filters.maxAge &&
-        token.chain === filters.chain &&
-        (!filters.socialMentions || token.socialMentions > 0)
-      );
-    });
-    
-    setDisplayTokens(filtered);
-  };
 
   return (
     <div className="min-h-screen bg-gray-900 text-gray-100">
@@ -57,8 +55,8 @@ export default function Dashboard() {
                 <h1 className="text-xl font-bold text-white">Meme Coin Radar</h1>
               </div>
               <div className="flex items-center space-x-2 ml-8">
-                <div className="w-2 h-2 bg-green-500 rounded-full animate-pulse"></div>
-                <span className="text-sm text-gray-300">Live</span>
+                <div className={`w-2 h-2 rounded-full ${live ? 'bg-green-500 animate-pulse' : 'bg-yellow-500'}`}></div>
+                <span className="text-sm text-gray-300">{live ? 'Live' : 'Polling'}</span>
                 <span className="text-xs text-gray-500 font-mono">
                   {currentTime.toLocaleTimeString()}
                 </span>
@@ -84,6 +82,25 @@ export default function Dashboard() {
                   {stats?.highAlert || 0}
                 </div>
               </div>
+              <div className="flex items-center space-x-2 pl-4 border-l border-gray-700">
+                {user ? (
+                  <>
+                    <span className="text-sm text-gray-300">{user.username}</span>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => logoutMutation.mutate()}
+                      className="text-gray-400 hover:text-white"
+                    >
+                      Logout
+                    </Button>
+                  </>
+                ) : (
+                  <Link href="/auth">
+                    <Button size="sm" className="bg-green-600 hover:bg-green-700">Sign in</Button>
+                  </Link>
+                )}
+              </div>
             </div>
           </div>
         </div>
@@ -93,19 +110,32 @@ export default function Dashboard() {
         <div className="grid grid-cols-12 gap-6">
           {/* Filter Sidebar */}
           <div className="col-span-12 lg:col-span-3">
-            <FilterSidebar onFiltersChange={handleFiltersChange} />
+            <FilterSidebar onFiltersChange={setFilters} />
             
             {/* Trading Bot Panel */}
             <div className="mt-6">
-              <TradingBotPanel />
+              <TradingBotPanel live={live} />
             </div>
+
+            {/* Alert Rules */}
+            {user && (
+              <div className="mt-6">
+                <AlertRulesPanel />
+              </div>
+            )}
+            {user && (
+              <div className="mt-6">
+                <ChatIntegrationsPanel />
+              </div>
+            )}
           </div>
 
           {/* Main Dashboard */}
           <div className="col-span-12 lg:col-span-9">
             <Tabs defaultValue="discovery" className="space-y-4">
-              <TabsList className="grid w-full grid-cols-3">
+              <TabsList className="grid w-full grid-cols-4">
                 <TabsTrigger value="discovery">Token Discovery</TabsTrigger>
+                <TabsTrigger value="watchlist">Watchlist</TabsTrigger>
                 <TabsTrigger value="analytics">Performance Analytics</TabsTrigger>
                 <TabsTrigger value="social">Social Feed</TabsTrigger>
               </TabsList>
@@ -116,18 +146,45 @@ export default function Dashboard() {
 
                 {/* Token Table */}
                 <TokenTable 
-                  tokens={displayTokens} 
+                  tokens={tokens} 
                   isLoading={isLoading} 
                   onRefresh={refreshData}
+                  hasMore={hasMoreTokens}
+                  onLoadMore={() => loadMoreTokens()}
+                  isLoadingMore={isLoadingMoreTokens}
+                  watchedAddresses={watchlist.watchedAddresses}
+                  onToggleWatch={user ? watchlist.toggleWatch : undefined}
                 />
               </TabsContent>
 
+              <TabsContent value="watchlist">
+                {user ? (
+                  // Watched tokens stay here with fresh metrics even once they leave the filtered set
+                  <TokenTable
+                    tokens={watchlist.tokens}
+                    isLoading={watchlist.isLoading}
+                    onRefresh={refreshData}
+                    title="Watchlist"
+                    emptyMessage="Star a token to pin it here"
+                    watchedAddresses={watchlist.watchedAddresses}
+                    onToggleWatch={watchlist.toggleWatch}
+                  />
+                ) : (
+                  <div className="text-center py-8 bg-gray-800 rounded-lg">
+                    <p className="text-gray-400">Sign in to keep a watchlist</p>
+                    <Link href="/auth">
+                      <Button className="mt-4 bg-green-600 hover:bg-green-700">Sign in</Button>
+                    </Link>
+                  </div>
+                )}
+              </TabsContent>
+
               <TabsContent value="analytics">
                 <AnalyticsDashboard />
               </TabsContent>
 
               <TabsContent value="social">
-                <SocialFeed mentions={socialMentions} isLoading={isLoading} />
+                <SocialFeed mentions={socialMentions} tokenSentiment={socialSentiment} isLoading={isLoading} />
               </TabsContent>
             </Tabs>
           </div>
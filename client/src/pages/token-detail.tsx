@@ -0,0 +1,304 @@
+import type { ReactNode } from 'react';
+import { Link, useParams, useSearch } from 'wouter';
+import { ArrowLeft, ExternalLink, Check, X } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ChainBadge } from '@/components/chain-badge';
+import { SocialFeed } from '@/components/social-feed';
+import { TokenHistoryCharts } from '@/components/token-history-charts';
+import { useLiveUpdates } from '@/hooks/use-live-updates';
+import { useTokenDetail } from '@/hooks/use-token-detail';
+import { chainLink, getChain } from '@shared/chains';
+import type { RuleExplanation, TokenEvaluation, TokenTrades, TradingSignal } from '@/types/token';
+
+const formatCurrency = (amount: number) =>
+  Math.abs(amount) >= 1000 ? `$${(amount / 1000).toFixed(1)}K` : `$${amount.toFixed(2)}`;
+
+const formatPnL = (amount: number) => `${amount >= 0 ? '+' : '-'}${formatCurrency(Math.abs(amount))}`;
+
+const pnlColor = (amount: number) => (amount >= 0 ? 'text-green-400' : 'text-red-400');
+
+const formatDateTime = (timestamp: string) => new Date(timestamp).toLocaleString();
+
+const SIGNAL_COLORS: Record<string, string> = {
+  BUY: 'bg-green-900 text-green-300',
+  SELL: 'bg-red-900 text-red-300',
+  HOLD: 'bg-gray-700 text-gray-300',
+};
+
+const factorColor = (points: number) =>
+  points > 0 ? 'bg-green-900/60 text-green-300' : points < 0 ? 'bg-red-900/60 text-red-300' : 'bg-gray-700 text-gray-400';
+
+function Stat({ label, value, detail }: { label: string; value: ReactNode; detail?: ReactNode }) {
+  return (
+    <div>
+      <div className="text-xs text-gray-400">{label}</div>
+      <div className="text-lg font-semibold text-white font-mono">{value}</div>
+      {detail && <div className="text-xs text-gray-500">{detail}</div>}
+    </div>
+  );
+}
+
+function RuleTree({ rule, depth = 0 }: { rule: RuleExplanation; depth?: number }) {
+  return (
+    <div style={{ marginLeft: depth * 16 }}>
+      <div className="flex items-center space-x-2 text-sm py-0.5">
+        {rule.passed
+          ? <Check className="w-4 h-4 text-green-500 shrink-0" />
+          : <X className="w-4 h-4 text-red-500 shrink-0" />}
+        <span className="text-gray-200 font-mono">{rule.description}</span>
+        {rule.actual !== undefined && (
+          <span className="text-xs text-gray-500">
+            (is {typeof rule.actual === 'number' ? Number(rule.actual.toFixed(2)) : rule.actual})
+          </span>
+        )}
+      </div>
+      {rule.children?.map((child, i) => <RuleTree key={i} rule={child} depth={depth + 1} />)}
+    </div>
+  );
+}
+
+function EvaluationCard({ evaluation }: { evaluation: TokenEvaluation }) {
+  const { risk } = evaluation;
+  return (
+    <Card className="bg-gray-800">
+      <CardHeader>
+        <CardTitle className="text-lg font-semibold text-white">Risk & Filter Evaluation</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div>
+          <div className="flex items-center space-x-2 mb-1">
+            <span className="text-sm font-medium text-gray-300">Risk score</span>
+            <span className="font-mono text-white">{risk.riskScore ?? 'not assessed'}</span>
+            <span className="text-xs text-gray-500">/ max {risk.maxRiskScore}</span>
+          </div>
+          <div className={`text-sm ${risk.veto ? 'text-red-400' : 'text-green-400'}`}>
+            {risk.veto ? `Bot won't buy: ${risk.veto}` : 'Passes the bot\'s risk veto'}
+          </div>
+          {risk.riskReasons.length > 0 && (
+            <ul className="mt-1 text-xs text-gray-400 list-disc list-inside">
+              {risk.riskReasons.map(reason => <li key={reason}>{reason}</li>)}
+            </ul>
+          )}
+        </div>
+        <div>
+          <div className="text-sm font-medium text-gray-300 mb-1">Filter</div>
+          <RuleTree rule={evaluation.filter} />
+        </div>
+        <div>
+          <div className="text-sm font-medium text-gray-300 mb-1">High alert</div>
+          <RuleTree rule={evaluation.highAlert} />
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+function SignalsCard({ signals }: { signals: TradingSignal[] }) {
+  return (
+    <Card className="bg-gray-800">
+      <CardHeader>
+        <CardTitle className="text-lg font-semibold text-white">Trading Signals</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {signals.length === 0 ? (
+          <p className="text-center text-gray-400 py-4">No signals generated for this token yet</p>
+        ) : (
+          <div className="space-y-3 max-h-96 overflow-y-auto">
+            {signals.map(signal => (
+              <div key={signal.id} className="border-b border-gray-700 pb-2">
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center space-x-2">
+                    <span className={`text-xs px-1.5 rounded ${SIGNAL_COLORS[signal.signal] ?? SIGNAL_COLORS.HOLD}`}>
+                      {signal.signal}
+                    </span>
+                    <span className="text-sm text-white font-mono">{signal.confidence.toFixed(0)}%</span>
+                    {signal.strategy && <span className="text-xs text-gray-400">{signal.strategy}</span>}
+                    {signal.executed && <Badge className="bg-blue-900 text-blue-300 border-none">Executed</Badge>}
+                  </div>
+                  <span className="text-xs text-gray-500">{formatDateTime(signal.timestamp)}</span>
+                </div>
+                {signal.factors.length > 0 ? (
+                  <div className="flex flex-wrap gap-1 mt-2">
+                    {signal.factors.map(factor => (
+                      <span
+                        key={factor.id}
+                        className={`text-xs px-1.5 py-0.5 rounded ${factorColor(factor.points)}`}
+                        title={`Input ${factor.input !== null ? Number(factor.input.toFixed(3)) : 'n/a'} · weight ${factor.weight}`}
+                      >
+                        {factor.label} {factor.points > 0 ? '+' : ''}{Number(factor.points.toFixed(1))}
+                      </span>
+                    ))}
+                  </div>
+                ) : (
+                  <div className="text-sm text-gray-400 mt-1">{signal.reason}</div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function TradesCard({ trades }: { trades: TokenTrades }) {
+  const { pnl, position } = trades;
+  return (
+    <Card className="bg-gray-800">
+      <CardHeader>
+        <CardTitle className="text-lg font-semibold text-white">Bot Trades</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          <Stat label="Invested" value={formatCurrency(pnl.invested)} />
+          <Stat label="Realized P&L" value={<span className={pnlColor(pnl.realizedPnL)}>{formatPnL(pnl.realizedPnL)}</span>} />
+          <Stat label="Unrealized P&L" value={<span className={pnlColor(pnl.unrealizedPnL)}>{formatPnL(pnl.unrealizedPnL)}</span>} />
+          <Stat label="Total P&L" value={<span className={pnlColor(pnl.totalPnL)}>{formatPnL(pnl.totalPnL)}</span>} />
+        </div>
+        {position && (
+          <div className="text-sm text-gray-400">
+            Holding <span className="text-white font-mono">{position.quantity.toPrecision(4)}</span> at an average of{' '}
+            <span className="text-white font-mono">${position.avgPrice.toPrecision(4)}</span>, worth{' '}
+            <span className="text-white font-mono">{formatCurrency(position.marketValue)}</span>
+          </div>
+        )}
+        {trades.trades.length === 0 ? (
+          <p className="text-center text-gray-400 py-2">The bot hasn't traded this token</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow className="border-gray-700">
+                <TableHead className="text-gray-400">Time</TableHead>
+                <TableHead className="text-gray-400">Action</TableHead>
+                <TableHead className="text-gray-400">Strategy</TableHead>
+                <TableHead className="text-gray-400 text-right">Amount</TableHead>
+                <TableHead className="text-gray-400 text-right">Price</TableHead>
+                <TableHead className="text-gray-400 text-right">Fee</TableHead>
+                <TableHead className="text-gray-400">Status</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {trades.trades.map(trade => (
+                <TableRow key={trade.id} className="border-gray-700">
+                  <TableCell className="text-gray-300 text-sm">{formatDateTime(trade.timestamp)}</TableCell>
+                  <TableCell className={trade.action === 'BUY' ? 'text-green-400' : 'text-red-400'}>{trade.action}</TableCell>
+                  <TableCell className="text-gray-400 text-sm">{trade.strategy ?? '—'}</TableCell>
+                  <TableCell className="text-white font-mono text-right">{formatCurrency(trade.amount)}</TableCell>
+                  <TableCell className="text-white font-mono text-right">${trade.price.toPrecision(4)}</TableCell>
+                  <TableCell className="text-gray-400 font-mono text-right">{formatCurrency(trade.fee)}</TableCell>
+                  <TableCell className="text-gray-400 text-sm">{trade.status}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function TokenDetail() {
+  const { address = '' } = useParams<{ address: string }>();
+  const chainParam = new URLSearchParams(useSearch()).get('chain') ?? undefined;
+  const live = useLiveUpdates();
+  const { token, notFound, history, evaluation, socialMentions, signals, trades, isLoading } = useTokenDetail(address, live, chainParam);
+
+  const backLink = (
+    <Link href="/" className="inline-flex items-center text-sm text-gray-400 hover:text-white">
+      <ArrowLeft className="w-4 h-4 mr-1" /> Back to dashboard
+    </Link>
+  );
+
+  if (isLoading || !token) {
+    return (
+      <div className="min-h-screen bg-gray-900 text-gray-100">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6 space-y-4">
+          {backLink}
+          <p className="text-gray-400">{notFound ? 'Token not found' : 'Loading...'}</p>
+        </div>
+      </div>
+    );
+  }
+
+  const chain = getChain(token.chain);
+  const latestPrice = [...history].reverse().find(snapshot => snapshot.price !== null)?.price ?? null;
+
+  return (
+    <div className="min-h-screen bg-gray-900 text-gray-100">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6 space-y-6">
+        {backLink}
+
+        {/* Token header */}
+        <div className="flex flex-wrap items-start justify-between gap-4">
+          <div>
+            <div className="flex items-center gap-3">
+              <h1 className="text-2xl font-bold text-white">{token.name}</h1>
+              <span className="text-gray-400">{token.symbol}</span>
+              <ChainBadge chain={token.chain} />
+              {token.isHighAlert && <Badge className="bg-red-900 text-red-300 border-none">High alert</Badge>}
+            </div>
+            <a
+              href={chainLink(token.chain, 'explorer', token.address)}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="text-sm text-gray-400 hover:text-gray-200 font-mono break-all"
+            >
+              {token.address}
+            </a>
+          </div>
+          <div className="flex space-x-2">
+            <Button size="sm" className="bg-green-600 hover:bg-green-700 text-white" asChild>
+              <a href={chainLink(token.chain, 'swap', token.address)} target="_blank" rel="noopener noreferrer">
+                <ExternalLink className="w-3 h-3 mr-1" />
+                Buy on {chain.swap.name}
+              </a>
+            </Button>
+            <Button size="sm" variant="secondary" className="bg-gray-600 hover:bg-gray-500 text-white" asChild>
+              <a href={chainLink(token.chain, 'dexScreener', token.address)} target="_blank" rel="noopener noreferrer">
+                DexScreener
+              </a>
+            </Button>
+          </div>
+        </div>
+
+        {/* Current metrics */}
+        <Card className="bg-gray-800">
+          <CardContent className="pt-6 grid grid-cols-2 md:grid-cols-6 gap-4">
+            <Stat label="Price" value={latestPrice !== null ? `$${latestPrice.toPrecision(4)}` : '—'} />
+            <Stat
+              label="24h Change"
+              value={<span className={pnlColor(token.priceChange)}>{token.priceChange >= 0 ? '+' : ''}{token.priceChange.toFixed(1)}%</span>}
+            />
+            <Stat label="Liquidity" value={formatCurrency(token.liquidity)} />
+            <Stat label="Volume" value={formatCurrency(token.volume)} detail={`${token.transactions} txns`} />
+            <Stat
+              label="Holders"
+              value={token.holders}
+              detail={[
+                token.holderGrowthRate !== null && `${token.holderGrowthRate >= 0 ? '+' : ''}${token.holderGrowthRate.toFixed(0)}/h`,
+                token.top10HolderPercent !== null && `top 10 ${token.top10HolderPercent.toFixed(1)}%`,
+                token.holderGini !== null && `Gini ${token.holderGini.toFixed(2)}`,
+              ].filter(Boolean).join(' · ')}
+            />
+            <Stat label="Risk" value={token.riskScore ?? '?'} detail={`${token.socialMentions} mentions / 24h`} />
+          </CardContent>
+        </Card>
+
+        <TokenHistoryCharts history={history} />
+
+        <div className="grid gap-6 lg:grid-cols-2">
+          {evaluation && <EvaluationCard evaluation={evaluation} />}
+          <SignalsCard signals={signals} />
+        </div>
+
+        <div className="grid gap-6 lg:grid-cols-2">
+          {trades && <TradesCard trades={trades} />}
+          <SocialFeed mentions={socialMentions} tokenSentiment={[token]} isLoading={false} />
+        </div>
+      </div>
+    </div>
+  );
+}
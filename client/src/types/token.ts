@@ -6,10 +6,20 @@ export interface Token {
   chain: string;
   liquidity: number;
   holders: number;
+  top10HolderPercent: number | null; // Share of supply in the ten largest wallets
+  holderGini: number | null; // 0 (evenly spread) to 1 (one wallet holds everything)
+  holderGrowthRate: number | null; // Holders gained per hour
+  holdersCheckedAt: string | null;
   volume: number;
   priceChange: number;
   transactions: number;
   socialMentions: number;
+  sentiment15m: number; // -1..1, engagement-weighted
+  sentiment1h: number;
+  sentiment24h: number;
+  riskScore: number | null; // 0 (clean) to 100 (avoid); null until assessed
+  riskReasons: string[];
+  riskCheckedAt: string | null;
   launchTime: string;
   isFiltered: boolean;
   isHighAlert: boolean;
@@ -19,11 +29,52 @@ export interface SocialMention {
   id: number;
   tokenAddress: string | null;
   platform: string;
+  postId: string;
   username: string;
   content: string;
+  keywords: string[];
+  sentiment: number; // -1..1
+  sentimentLabel: 'bullish' | 'bearish' | 'neutral';
   likes: number;
   retweets: number;
   timestamp: string;
+  ingestedAt: string;
+}
+
+export interface TokenSnapshot {
+  id: number;
+  tokenAddress: string;
+  resolution: 'raw' | '5m' | '1h';
+  timestamp: string;
+  price: number | null;
+  liquidity: number;
+  holders: number;
+  top10HolderPercent: number | null;
+  holderGini: number | null;
+  volume: number;
+  priceChange: number;
+  transactions: number;
+  socialMentions: number;
+}
+
+// Why a filter rule passed or failed; mirrors the rule tree
+export interface RuleExplanation {
+  description: string;
+  passed: boolean;
+  actual?: number | string;
+  children?: RuleExplanation[];
+}
+
+export interface TokenEvaluation {
+  filter: RuleExplanation;
+  highAlert: RuleExplanation;
+  risk: {
+    riskScore: number | null;
+    riskReasons: string[];
+    riskCheckedAt: string | null;
+    maxRiskScore: number;
+    veto: string | null; // Why the bot won't buy it, if it won't
+  };
 }
 
 export interface TokenStats {
@@ -36,11 +87,146 @@ export interface TokenStats {
   successRate: number;
 }
 
+export type TokenSortField = 'launchTime' | 'liquidity' | 'holders' | 'volume' | 'priceChange' | 'transactions' | 'socialMentions';
+
 export interface TokenFilters {
   minLiquidity: number;
   minHolders: number;
   minTransactions: number;
   maxAge: number;
   socialMentions: boolean;
-  chain: string;
+  chain?: string; // Unset for every chain
+  sort: TokenSortField;
+  order: 'asc' | 'desc';
 }
+
+export interface TokenPage {
+  items: Token[];
+  nextCursor: string | null;
+}
+
+// A watched token with its latest metrics; token is null if it's no longer stored
+export interface WatchlistEntry {
+  id: number;
+  tokenAddress: string;
+  addedAt: string;
+  token: Token | null;
+}
+
+// One input to a signal's confidence
+export interface SignalFactor {
+  id: string;
+  label: string;
+  input: number | null; // The raw value the factor looked at
+  weight: number; // Points at full strength
+  points: number; // Points it added; negative when it counted against
+}
+
+export interface TradingSignal {
+  id: number;
+  tokenAddress: string;
+  strategy: string | null; // Id of the strategy that produced it
+  signal: string;
+  confidence: number;
+  reason: string;
+  factors: SignalFactor[];
+  price: number;
+  timestamp: string;
+  executed: boolean;
+}
+
+export interface Trade {
+  id: number;
+  tokenAddress: string;
+  action: string;
+  strategy: string | null;
+  amount: number;
+  price: number;
+  quantity: number;
+  fee: number;
+  status: string;
+  timestamp: string;
+}
+
+export interface Position {
+  tokenAddress: string;
+  quantity: number;
+  costBasis: number;
+  avgPrice: number;
+  marketPrice: number | null;
+  marketValue: number;
+  unrealizedPnL: number;
+}
+
+// Bot activity in one token
+export interface TokenTrades {
+  trades: Trade[];
+  position: Position | null;
+  pnl: {
+    invested: number;
+    returned: number;
+    realizedPnL: number;
+    unrealizedPnL: number;
+    totalPnL: number;
+  };
+}
+
+export type AlertCondition =
+  | { type: 'highAlert' }
+  | { type: 'liquidityCross'; threshold: number; direction: 'above' | 'below' }
+  | { type: 'priceChange'; percent: number; windowMinutes: number; direction: 'up' | 'down' | 'any' }
+  | { type: 'socialMention' };
+
+export interface AlertChannels {
+  inApp: boolean;
+  webhook?: { url: string; secret: string };
+  email?: { to: string };
+}
+
+export interface AlertRule {
+  id: number;
+  userId: number;
+  name: string;
+  condition: AlertCondition;
+  channels: AlertChannels;
+  watchlistOnly: boolean;
+  cooldownMinutes: number;
+  enabled: boolean;
+  createdAt: string;
+}
+
+export interface AlertEvent {
+  id: number;
+  ruleId: number;
+  userId: number;
+  tokenAddress: string;
+  title: string;
+  message: string;
+  channels: string[];
+  triggeredAt: string;
+}
+
+export type ChatIntegrationConfig =
+  | { platform: 'telegram'; chatId: string; botToken?: string }
+  | { platform: 'discord'; webhookUrl: string };
+
+export interface ChatIntegration {
+  id: number;
+  userId: number;
+  name: string;
+  config: ChatIntegrationConfig;
+  notifyAlerts: boolean;
+  notifyTrades: boolean;
+  enabled: boolean;
+  createdAt: string;
+}
+
+// Messages pushed over /ws
+export type LiveEvent =
+  | { type: 'token.created'; data: Token }
+  | { type: 'token.updated'; data: Token }
+  | { type: 'token.highAlert'; data: Token }
+  | { type: 'signal.generated'; data: TradingSignal }
+  | { type: 'trade.executed'; data: Trade }
+  | { type: 'stats'; data: TokenStats }
+  | { type: 'alert.triggered'; data: AlertEvent };
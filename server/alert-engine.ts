@@ -0,0 +1,197 @@
+import { storage as defaultStorage, type IStorage } from "./storage";
+import { eventBus } from "./events";
+import { notifier as defaultNotifier, type Notifier } from "./notifications";
+import type { Token, SocialMention } from "@shared/schema";
+import type { AlertRule, AlertCondition } from "@shared/alert-schema";
+
+// A token as it was before and after one aggregation pass
+export interface TokenChange {
+  previous?: Token;
+  current: Token;
+}
+
+interface AlertMatch {
+  token: Token;
+  message: string;
+}
+
+const formatUsd = (value: number) => `$${Math.round(value).toLocaleString('en-US')}`;
+
+export class AlertEngine {
+  private lastPassAt: Date;
+
+  constructor(
+    private storage: IStorage = defaultStorage,
+    private notifier: Notifier = defaultNotifier,
+    private now: () => Date = () => new Date()
+  ) {
+    this.lastPassAt = this.now();
+  }
+
+  // Check every enabled rule against one aggregation pass; returns how many alerts fired
+  async evaluate(changes: TokenChange[]): Promise<number> {
+    const now = this.now();
+    const since = this.lastPassAt;
+    this.lastPassAt = now;
+
+    const rules = (await this.storage.getAlertRules()).filter(rule => rule.enabled);
+    if (rules.length === 0) return 0;
+
+    const mentions = rules.some(rule => rule.condition.type === 'socialMention')
+      ? await this.storage.getSocialMentionsSince(since)
+      : [];
+
+    // Shared across rules for this pass
+    const watchlists = new Map<number, Set<string>>();
+    const priceMoves = new Map<string, number | null>();
+
+    let fired = 0;
+    for (const rule of rules) {
+      let matches = await this.match(rule.condition, changes, mentions, priceMoves, now);
+
+      // Mentions only matter for tokens someone is watching
+      if (rule.watchlistOnly || rule.condition.type === 'socialMention') {
+        if (!watchlists.has(rule.userId)) {
+          const entries = await this.storage.getWatchlist(rule.userId);
+          watchlists.set(rule.userId, new Set(entries.map(entry => entry.tokenAddress)));
+        }
+        const watched = watchlists.get(rule.userId)!;
+        matches = matches.filter(match => watched.has(match.token.address));
+      }
+
+      for (const match of matches) {
+        if (await this.inCooldown(rule, match.token.address, now)) continue;
+        await this.fire(rule, match, now);
+        fired++;
+      }
+    }
+
+    return fired;
+  }
+
+  private async match(
+    condition: AlertCondition,
+    changes: TokenChange[],
+    mentions: SocialMention[],
+    priceMoves: Map<string, number | null>,
+    now: Date
+  ): Promise<AlertMatch[]> {
+    switch (condition.type) {
+      case 'highAlert':
+        return changes
+          .filter(({ previous, current }) => current.isHighAlert && !previous?.isHighAlert)
+          .map(({ current }) => ({
+            token: current,
+            message: `${current.name} (${current.symbol}) is now a high alert`,
+          }));
+
+      case 'liquidityCross':
+        return changes
+          .filter(({ previous, current }) => {
+            // Brand-new tokens count as coming up from zero
+            const before = previous?.liquidity ?? 0;
+            return condition.direction === 'above'
+              ? before < condition.threshold && current.liquidity >= condition.threshold
+              : !!previous && before >= condition.threshold && current.liquidity < condition.threshold;
+          })
+          .map(({ current }) => ({
+            token: current,
+            message: `${current.symbol} liquidity crossed ${condition.direction} ${formatUsd(condition.threshold)} (now ${formatUsd(current.liquidity)})`,
+          }));
+
+      case 'priceChange': {
+        const matches: AlertMatch[] = [];
+        for (const { current } of changes) {
+          const move = await this.priceMove(current.address, condition.windowMinutes, priceMoves, now);
+          if (move === null) continue;
+          const hit = condition.direction === 'up' ? move >= condition.percent
+            : condition.direction === 'down' ? move <= -condition.percent
+            : Math.abs(move) >= condition.percent;
+          if (hit) {
+            matches.push({
+              token: current,
+              message: `${current.symbol} price moved ${move >= 0 ? '+' : ''}${move.toFixed(1)}% in ${condition.windowMinutes} minutes`,
+            });
+          }
+        }
+        return matches;
+      }
+
+      case 'socialMention': {
+        const byToken = new Map<string, SocialMention[]>();
+        for (const mention of mentions) {
+          if (!mention.tokenAddress) continue;
+          byToken.set(mention.tokenAddress, [...(byToken.get(mention.tokenAddress) || []), mention]);
+        }
+
+        const matches: AlertMatch[] = [];
+        for (const [address, tokenMentions] of Array.from(byToken.entries())) {
+          const token = changes.find(change => change.current.address === address)?.current
+            ?? await this.storage.getToken(address);
+          if (!token) continue;
+
+          const latest = tokenMentions[tokenMentions.length - 1];
+          matches.push({
+            token,
+            message: tokenMentions.length === 1
+              ? `${token.symbol} mentioned by ${latest.username} on ${latest.platform}: "${latest.content.slice(0, 100)}"`
+              : `${token.symbol} got ${tokenMentions.length} new social mentions`,
+          });
+        }
+        return matches;
+      }
+    }
+  }
+
+  // Percent change from the oldest priced snapshot in the window to the newest
+  private async priceMove(
+    tokenAddress: string,
+    windowMinutes: number,
+    cache: Map<string, number | null>,
+    now: Date
+  ): Promise<number | null> {
+    const key = `${tokenAddress}:${windowMinutes}`;
+    if (cache.has(key)) return cache.get(key)!;
+
+    const from = new Date(now.getTime() - windowMinutes * 60 * 1000);
+    const prices = (await this.storage.getTokenSnapshots(tokenAddress, from, now))
+      .map(snapshot => snapshot.price)
+      .filter((price): price is number => price !== null && price > 0);
+
+    const move = prices.length >= 2
+      ? ((prices[prices.length - 1] - prices[0]) / prices[0]) * 100
+      : null;
+    cache.set(key, move);
+    return move;
+  }
+
+  // Cooldowns are per rule and token, so one noisy token doesn't mute the rule
+  private async inCooldown(rule: AlertRule, tokenAddress: string, now: Date): Promise<boolean> {
+    if (rule.cooldownMinutes <= 0) return false;
+    const last = await this.storage.getLastAlertEvent(rule.id, tokenAddress);
+    return !!last && now.getTime() - new Date(last.triggeredAt).getTime() < rule.cooldownMinutes * 60 * 1000;
+  }
+
+  private async fire(rule: AlertRule, match: AlertMatch, now: Date) {
+    const alert = { title: rule.name, message: match.message, token: match.token, triggeredAt: now };
+    const delivered = await this.notifier.deliver(rule, alert);
+    if (rule.channels.inApp) delivered.unshift('inApp');
+
+    // Recorded even when every external channel failed so the cooldown still applies
+    const event = await this.storage.createAlertEvent({
+      ruleId: rule.id,
+      userId: rule.userId,
+      tokenAddress: match.token.address,
+      title: alert.title,
+      message: alert.message,
+      channels: delivered,
+    });
+
+    if (rule.channels.inApp) {
+      eventBus.publish({ type: 'alert.triggered', data: event });
+    }
+    console.log(`🔔 Alert "${rule.name}" fired for ${match.token.symbol} via ${delivered.join(', ') || 'no channels'}`);
+  }
+}
+
+export const alertEngine = new AlertEngine();
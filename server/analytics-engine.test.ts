@@ -0,0 +1,177 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import type { SignalFactor } from "@shared/trading-schema";
+import { MemStorage } from "./storage";
+import { AnalyticsEngine } from "./analytics-engine";
+import { factor } from "./strategies";
+
+const NOW = Date.parse("2024-06-01T12:00:00Z");
+
+interface ClosedTrade {
+  strategy: string;
+  pnl: number | null; // Null leaves the entry open
+  factors?: SignalFactor[];
+}
+
+describe("AnalyticsEngine", () => {
+  let storage: MemStorage;
+  let analytics: AnalyticsEngine;
+
+  beforeEach(() => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    storage = new MemStorage();
+    analytics = new AnalyticsEngine(storage, () => NOW);
+  });
+
+  // Entries a minute apart, in the given order
+  const record = async (trades: ClosedTrade[]) => {
+    for (const [i, trade] of trades.entries()) {
+      await storage.createStrategyPerformance({
+        strategyName: trade.strategy,
+        tokenAddress: `token-${i}`,
+        entryPrice: 1,
+        quantity: 100,
+        entryTime: new Date(NOW - (trades.length - i) * 60 * 1000),
+        confidence: 80,
+        reason: "test",
+        factors: trade.factors ?? [],
+        ...(trade.pnl === null
+          ? { outcome: "ACTIVE" }
+          : {
+              exitPrice: 1 + trade.pnl / 100,
+              exitTime: new Date(NOW),
+              duration: 10 * (i + 1),
+              pnl: trade.pnl,
+              pnlPercentage: trade.pnl,
+              outcome: trade.pnl > 0 ? "WIN" : trade.pnl < 0 ? "LOSS" : "BREAKEVEN",
+            }),
+      });
+    }
+  };
+
+  describe("per-strategy analytics", () => {
+    beforeEach(() => record([
+      { strategy: "Momentum", pnl: 10 },
+      { strategy: "Technical Breakout", pnl: -8 },
+      { strategy: "Momentum", pnl: -5 },
+      { strategy: "Technical Breakout", pnl: 2 },
+      { strategy: "Momentum", pnl: 20 },
+      { strategy: "Technical Breakout", pnl: null },
+    ]));
+
+    it("aggregates closed trades per strategy, most profitable first", async () => {
+      const [momentum, breakout, ...rest] = await analytics.generateStrategyAnalytics();
+
+      expect(rest).toEqual([]);
+      expect(momentum.name).toBe("Momentum");
+      expect(momentum.totalTrades).toBe(3);
+      expect(momentum.winRate).toBeCloseTo(200 / 3, 8);
+      expect(momentum.avgPnL).toBeCloseTo(25 / 3, 8);
+      expect(momentum.maxDrawdown).toBeCloseTo(50, 8); // 10 -> 5
+      expect(momentum.profitability).toBeCloseTo((25 / 3) * (200 / 3), 8);
+      expect(momentum.reliability).toBeCloseTo(2 / 3, 8);
+
+      // The open entry doesn't count
+      expect(breakout).toEqual({
+        name: "Technical Breakout",
+        totalTrades: 2,
+        winRate: 50,
+        avgPnL: -3,
+        maxDrawdown: 0, // Never in profit, so no peak to draw down from
+        profitability: 0,
+        reliability: 0.5,
+      });
+    });
+
+    it("summarizes all closed trades and ranks the strategies", async () => {
+      const analysis = await analytics.generateTradeAnalysis();
+
+      expect(analysis).toMatchObject({
+        totalTrades: 5,
+        winningTrades: 3,
+        losingTrades: 2,
+        totalPnL: 19,
+        winRate: 60,
+        avgLoss: 6.5,
+        largestWin: 20,
+        largestLoss: 8,
+        avgTradeDuration: 30, // Durations 10, 20, 30, 40, 50
+        bestStrategy: "Momentum",
+        worstStrategy: "Technical Breakout",
+      });
+      expect(analysis.avgWin).toBeCloseTo(32 / 3, 8);
+      expect(analysis.profitFactor).toBeCloseTo(32 / 3 / 6.5, 8);
+    });
+  });
+
+  it("reports nothing before any trade closes", async () => {
+    await record([{ strategy: "Momentum", pnl: null }]);
+
+    expect(await analytics.generateStrategyAnalytics()).toEqual([]);
+    expect(await analytics.generateTradeAnalysis()).toMatchObject({
+      totalTrades: 0,
+      winRate: 0,
+      bestStrategy: "N/A",
+      worstStrategy: "N/A",
+    });
+  });
+
+  describe("factor analytics", () => {
+    beforeEach(() => record([
+      {
+        strategy: "Technical Breakout",
+        pnl: 30,
+        factors: [
+          factor("rsi", "RSI oversold", 25, 15, 15),
+          factor("volume", "High volume breakout", 3, 20, 20),
+          factor("social", "Bearish social sentiment", -0.2, 30, -5), // Argued against; gets no share
+          factor("age", "Early launch opportunity", 90, 10, 0),
+        ],
+      },
+      {
+        strategy: "Momentum",
+        pnl: -10,
+        factors: [factor("volume", "High trading volume", 0.6, 15, 20), factor("liquidity", "High liquidity", 50000, 25, 10)],
+      },
+      // Still open, so nothing to attribute yet
+      { strategy: "Technical Breakout", pnl: null, factors: [factor("rsi", "RSI oversold", 20, 15, 15)] },
+      // Nothing argued for it
+      { strategy: "Momentum", pnl: 6, factors: [factor("momentum", "Flat momentum", 1, 25, 0)] },
+    ]));
+
+    it("splits each trade's PnL across its factors by points", async () => {
+      const [rsi, volume, liquidity, ...rest] = await analytics.generateFactorAnalytics();
+
+      expect(rest).toEqual([]);
+      expect(rsi).toEqual({
+        factor: "rsi",
+        label: "RSI oversold",
+        totalTrades: 1,
+        winRate: 100,
+        attributedPnL: expect.closeTo(30 * 15 / 35, 8),
+        avgPoints: 15,
+      });
+      // Labels come from the first trade the factor shows up in
+      expect(volume).toEqual({
+        factor: "volume",
+        label: "High volume breakout",
+        totalTrades: 2,
+        winRate: 50,
+        attributedPnL: expect.closeTo(30 * 20 / 35 - 10 * 20 / 30, 8),
+        avgPoints: 20,
+      });
+      expect(liquidity).toEqual({
+        factor: "liquidity",
+        label: "High liquidity",
+        totalTrades: 1,
+        winRate: 0,
+        attributedPnL: expect.closeTo(-10 * 10 / 30, 8),
+        avgPoints: 10,
+      });
+    });
+
+    it("attributes all of a trade's PnL when something argued for it", async () => {
+      const attributed = (await analytics.generateFactorAnalytics()).reduce((sum, f) => sum + f.attributedPnL, 0);
+      expect(attributed).toBeCloseTo(30 - 10, 8);
+    });
+  });
+});
@@ -1,13 +1,11 @@
-import { storage } from "./storage";
-import type { Token } from "@shared/schema";
-import type { Trade } from "@shared/trading-schema";
+import { storage as defaultStorage, type IStorage } from "./storage";
+import type { Trade, TradingSignal } from "@shared/trading-schema";
+import { SOCIAL_MENTION_WINDOW_MS } from "./entity-resolution";
+import { weightedSentiment } from "./sentiment";
 import type { 
   PerformanceMetrics, 
   StrategyPerformance, 
-  MarketConditions,
-  InsertPerformanceMetrics,
-  InsertStrategyPerformance,
-  InsertMarketConditions
+  MarketConditions
 } from "@shared/analytics-schema";
 
 interface TradeAnalysis {
@@ -48,149 +46,75 @@ interface StrategyAnalytics {
   reliability: number;
 }
 
+interface FactorAnalytics {
+  factor: string; // Factor id
+  label: string;
+  totalTrades: number; // Closed trades the factor contributed to
+  winRate: number;
+  attributedPnL: number; // Its share of those trades' PnL
+  avgPoints: number;
+}
+
 export class AnalyticsEngine {
-  private performanceHistory: PerformanceMetrics[] = [];
-  private strategyHistory: StrategyPerformance[] = [];
-  private marketHistory: MarketConditions[] = [];
-  private tradeHistory: Trade[] = [];
+  constructor(
+    private storage: IStorage = defaultStorage,
+    private now: () => number = Date.now
+  ) {}
 
-  constructor() {
-    this.initializeAnalytics();
+  async recordTrade(trade: Trade, strategy: string, signal: Pick<TradingSignal, 'confidence' | 'reason' | 'factors'>) {
+    await this.storage.createStrategyPerformance({
+      strategyName: strategy,
+      tokenAddress: trade.tokenAddress,
+      entryPrice: trade.price,
+      quantity: trade.quantity,
+      entryTime: trade.timestamp,
+      confidence: signal.confidence,
+      reason: signal.reason,
+      factors: signal.factors,
+      outcome: 'ACTIVE'
+    });
+    
+    console.log(`📝 Trade recorded for analytics: ${trade.action} ${trade.tokenAddress}`);
   }
 
-  private async initializeAnalytics() {
-    // Generate historical performance data for the last 30 days
-    this.generateHistoricalData();
-    console.log('📊 Analytics engine initialized with historical data');
-  }
+  // A sell closes the whole position, which may have been built by several
+  // buys: every open entry is closed and the ledger's net `realizedPnL` is
+  // split across them by quantity. Without it a $50 position per entry is assumed.
+  async updateTradeExit(tokenAddress: string, exitPrice: number, exitTime: Date, realizedPnL?: number) {
+    const entries = await this.storage.getActiveStrategyPerformance(tokenAddress);
+    if (entries.length === 0) return;
 
-  private generateHistoricalData() {
-    const now = Date.now();
-    const thirtyDaysAgo = now - (30 * 24 * 60 * 60 * 1000);
-    
-    // Generate daily performance metrics for last 30 days
-    for (let i = 0; i < 30; i++) {
-      const date = new Date(thirtyDaysAgo + (i * 24 * 60 * 60 * 1000));
-      const dayPnL = (Math.random() - 0.45) * 200; // Slightly profitable bias
-      const trades = Math.floor(Math.random() * 15) + 5;
-      const winRate = 0.6 + (Math.random() * 0.3); // 60-90% win rate
-      
-      this.performanceHistory.push({
-        id: i + 1,
-        date,
-        totalPnL: dayPnL,
-        winRate,
-        totalTrades: trades,
-        avgTradeSize: 50 + (Math.random() * 100),
-        maxDrawdown: Math.random() * 15,
-        sharpeRatio: 1.2 + (Math.random() * 0.8),
-        portfolioValue: 1000 + (dayPnL * (i + 1))
-      });
-    }
+    // Entries recorded before quantities were stored share the PnL equally
+    const byQuantity = entries.every(entry => (entry.quantity ?? 0) > 0);
+    const weight = (entry: StrategyPerformance) => byQuantity ? entry.quantity! : 1;
+    const totalWeight = entries.reduce((sum, entry) => sum + weight(entry), 0);
 
-    // Generate strategy performance data
-    const strategies = [
-      'Technical Breakout',
-      'Volume Spike',
-      'Social Momentum',
-      'Mean Reversion',
-      'Trend Following'
-    ];
+    for (const entry of entries) {
+      const duration = Math.floor((exitTime.getTime() - new Date(entry.entryTime).getTime()) / 60000);
+      const priceChange = (exitPrice - entry.entryPrice) / entry.entryPrice;
+      const pnl = realizedPnL !== undefined ? realizedPnL * (weight(entry) / totalWeight) : priceChange * 50;
+      const cost = byQuantity ? entry.entryPrice * entry.quantity! : 50;
+      const pnlPercentage = (pnl / cost) * 100;
+      const outcome = pnl > 0 ? 'WIN' : pnl < 0 ? 'LOSS' : 'BREAKEVEN';
 
-    for (let i = 0; i < 100; i++) {
-      const strategy = strategies[Math.floor(Math.random() * strategies.length)];
-      const entryTime = new Date(thirtyDaysAgo + (Math.random() * 30 * 24 * 60 * 60 * 1000));
-      const duration = Math.floor(Math.random() * 1440); // 0-24 hours in minutes
-      const exitTime = new Date(entryTime.getTime() + (duration * 60 * 1000));
-      
-      const entryPrice = 0.001 + (Math.random() * 0.1);
-      const priceChange = (Math.random() - 0.4) * 0.5; // Slight profit bias
-      const exitPrice = entryPrice * (1 + priceChange);
-      const pnlPercentage = ((exitPrice - entryPrice) / entryPrice) * 100;
-      
-      this.strategyHistory.push({
-        id: i + 1,
-        strategyName: strategy,
-        tokenAddress: `token_${Math.floor(Math.random() * 50)}`,
-        entryPrice,
+      await this.storage.updateStrategyPerformance(entry.id, {
         exitPrice,
-        entryTime,
         exitTime,
-        pnl: pnlPercentage * 50, // Assuming $50 base position
-        pnlPercentage,
         duration,
-        confidence: 60 + (Math.random() * 35),
-        reason: `${strategy} signal detected`,
-        outcome: pnlPercentage > 0 ? 'WIN' : pnlPercentage < -5 ? 'LOSS' : 'BREAKEVEN'
+        pnlPercentage,
+        pnl,
+        outcome
       });
-    }
 
-    // Generate market conditions data
-    for (let i = 0; i < 30; i++) {
-      const timestamp = new Date(thirtyDaysAgo + (i * 24 * 60 * 60 * 1000));
-      const trends = ['BULLISH', 'BEARISH', 'SIDEWAYS'];
-      
-      this.marketHistory.push({
-        id: i + 1,
-        timestamp,
-        overallTrend: trends[Math.floor(Math.random() * trends.length)],
-        volatilityIndex: Math.random() * 100,
-        totalMarketVolume: 1000000 + (Math.random() * 5000000),
-        topPerformers: [`token_${i}`, `token_${i+1}`, `token_${i+2}`],
-        marketSentiment: (Math.random() - 0.5) * 2 // -1 to 1
-      });
+      console.log(`📊 Trade exit recorded: ${outcome} ${pnlPercentage.toFixed(2)}%`);
     }
-  }
-
-  async recordTrade(trade: Trade, strategy: string, confidence: number, reason: string) {
-    this.tradeHistory.push(trade);
-    
-    const strategyRecord: StrategyPerformance = {
-      id: Date.now(),
-      strategyName: strategy,
-      tokenAddress: trade.tokenAddress,
-      entryPrice: trade.price,
-      exitPrice: null,
-      entryTime: trade.timestamp,
-      exitTime: null,
-      pnl: null,
-      pnlPercentage: null,
-      duration: null,
-      confidence,
-      reason,
-      outcome: 'ACTIVE'
-    };
-    
-    this.strategyHistory.push(strategyRecord);
-    console.log(`📝 Trade recorded for analytics: ${trade.action} ${trade.tokenAddress}`);
-  }
 
-  async updateTradeExit(tokenAddress: string, exitPrice: number, exitTime: Date) {
-    const activeStrategy = this.strategyHistory.find(s => 
-      s.tokenAddress === tokenAddress && s.outcome === 'ACTIVE'
-    );
-    
-    if (activeStrategy && activeStrategy.entryPrice) {
-      activeStrategy.exitPrice = exitPrice;
-      activeStrategy.exitTime = exitTime;
-      activeStrategy.duration = Math.floor((exitTime.getTime() - activeStrategy.entryTime.getTime()) / 60000);
-      activeStrategy.pnlPercentage = ((exitPrice - activeStrategy.entryPrice) / activeStrategy.entryPrice) * 100;
-      activeStrategy.pnl = activeStrategy.pnlPercentage * 50; // Assuming $50 position
-      
-      if (activeStrategy.pnlPercentage > 5) {
-        activeStrategy.outcome = 'WIN';
-      } else if (activeStrategy.pnlPercentage < -5) {
-        activeStrategy.outcome = 'LOSS';
-      } else {
-        activeStrategy.outcome = 'BREAKEVEN';
-      }
-      
-      console.log(`📊 Trade exit recorded: ${activeStrategy.outcome} ${activeStrategy.pnlPercentage?.toFixed(2)}%`);
-    }
+    await this.updateDailyMetrics();
   }
 
   async generateTradeAnalysis(): Promise<TradeAnalysis> {
-    const completedTrades = this.strategyHistory.filter(s => s.outcome !== 'ACTIVE');
+    const strategyHistory = await this.storage.getStrategyPerformance(1000);
+    const completedTrades = strategyHistory.filter(s => s.outcome !== 'ACTIVE');
     const winningTrades = completedTrades.filter(t => t.outcome === 'WIN');
     const losingTrades = completedTrades.filter(t => t.outcome === 'LOSS');
     
@@ -246,7 +170,7 @@ export class AnalyticsEngine {
   }
 
   async generatePortfolioAnalytics(): Promise<PortfolioAnalytics> {
-    const recentMetrics = this.performanceHistory.slice(-30);
+    const recentMetrics = await this.storage.getPerformanceMetrics(30);
     const dailyReturns = recentMetrics.map(m => m.totalPnL);
     
     const totalValue = recentMetrics[recentMetrics.length - 1]?.portfolioValue || 1000;
@@ -255,8 +179,8 @@ export class AnalyticsEngine {
     const monthlyPnL = dailyReturns.reduce((sum, pnl) => sum + pnl, 0);
     
     // Calculate Sharpe ratio (simplified)
-    const avgReturn = dailyReturns.reduce((sum, ret) => sum + ret, 0) / dailyReturns.length;
-    const variance = dailyReturns.reduce((sum, ret) => sum + Math.pow(ret - avgReturn, 2), 0) / dailyReturns.length;
+    const avgReturn = dailyReturns.length > 0 ? dailyReturns.reduce((sum, ret) => sum + ret, 0) / dailyReturns.length : 0;
+    const variance = dailyReturns.length > 0 ? dailyReturns.reduce((sum, ret) => sum + Math.pow(ret - avgReturn, 2), 0) / dailyReturns.length : 0;
     const volatility = Math.sqrt(variance);
     const sharpeRatio = volatility > 0 ? (avgReturn / volatility) : 0;
     
@@ -293,7 +217,8 @@ export class AnalyticsEngine {
     const strategyMap = new Map<string, StrategyPerformance[]>();
     
     // Group trades by strategy
-    this.strategyHistory
+    const strategyHistory = await this.storage.getStrategyPerformance(1000);
+    strategyHistory
       .filter(s => s.outcome !== 'ACTIVE')
       .forEach(trade => {
         const trades = strategyMap.get(trade.strategyName) || [];
@@ -334,49 +259,125 @@ export class AnalyticsEngine {
     return analytics.sort((a, b) => b.profitability - a.profitability);
   }
 
-  getPerformanceHistory(): PerformanceMetrics[] {
-    return this.performanceHistory.slice(-30); // Last 30 days
+  // Splits each closed trade's PnL across the factors that argued for it, in
+  // proportion to their points; factors that counted against get no share
+  async generateFactorAnalytics(): Promise<FactorAnalytics[]> {
+    const strategyHistory = await this.storage.getStrategyPerformance(1000);
+    const stats = new Map<string, { label: string; trades: number; wins: number; pnl: number; points: number }>();
+
+    for (const trade of strategyHistory.filter(s => s.outcome !== 'ACTIVE')) {
+      const contributing = trade.factors.filter(f => f.points > 0);
+      const totalPoints = contributing.reduce((sum, f) => sum + f.points, 0);
+
+      for (const f of contributing) {
+        const entry = stats.get(f.id) || { label: f.label, trades: 0, wins: 0, pnl: 0, points: 0 };
+        entry.trades++;
+        entry.points += f.points;
+        entry.pnl += (trade.pnl || 0) * (f.points / totalPoints);
+        if (trade.outcome === 'WIN') entry.wins++;
+        stats.set(f.id, entry);
+      }
+    }
+
+    return Array.from(stats.entries())
+      .map(([factor, entry]) => ({
+        factor,
+        label: entry.label,
+        totalTrades: entry.trades,
+        winRate: (entry.wins / entry.trades) * 100,
+        attributedPnL: entry.pnl,
+        avgPoints: entry.points / entry.trades,
+      }))
+      .sort((a, b) => b.attributedPnL - a.attributedPnL);
+  }
+
+  async getPerformanceHistory(): Promise<PerformanceMetrics[]> {
+    return this.storage.getPerformanceMetrics(30); // Last 30 days
   }
 
-  getStrategyHistory(): StrategyPerformance[] {
-    return this.strategyHistory.slice(-100); // Last 100 trades
+  async getStrategyHistory(): Promise<StrategyPerformance[]> {
+    return this.storage.getStrategyPerformance(100); // Last 100 trades
   }
 
-  getMarketHistory(): MarketConditions[] {
-    return this.marketHistory.slice(-30); // Last 30 days
+  async getMarketHistory(): Promise<MarketConditions[]> {
+    return this.storage.getMarketConditions(30); // Last 30 snapshots
   }
 
   async updateDailyMetrics() {
-    const today = new Date();
+    const today = new Date(this.now());
     today.setHours(0, 0, 0, 0);
     
     const tradeAnalysis = await this.generateTradeAnalysis();
     const portfolioAnalytics = await this.generatePortfolioAnalytics();
     
-    const todayMetrics: PerformanceMetrics = {
-      id: Date.now(),
+    // Realized P&L of positions closed today
+    const strategyHistory = await this.storage.getStrategyPerformance(1000);
+    const closedToday = strategyHistory.filter(s =>
+      s.exitTime && new Date(s.exitTime).getTime() >= today.getTime()
+    );
+    const dailyPnL = closedToday.reduce((sum, s) => sum + (s.pnl || 0), 0);
+    
+    const buysToday = (await this.storage.getTrades(1000)).filter(t =>
+      t.action === 'BUY' && new Date(t.timestamp).getTime() >= today.getTime()
+    );
+    const avgTradeSize = buysToday.length > 0
+      ? buysToday.reduce((sum, t) => sum + t.amount, 0) / buysToday.length
+      : 0;
+    
+    // Carry the portfolio value forward from the previous day
+    const previousMetrics = (await this.storage.getPerformanceMetrics(30)).filter(m =>
+      new Date(m.date).getTime() < today.getTime()
+    );
+    const previousValue = previousMetrics[previousMetrics.length - 1]?.portfolioValue ?? 1000;
+    
+    await this.storage.upsertPerformanceMetrics({
       date: today,
-      totalPnL: portfolioAnalytics.dailyPnL,
+      totalPnL: dailyPnL,
       winRate: tradeAnalysis.winRate,
       totalTrades: tradeAnalysis.totalTrades,
-      avgTradeSize: 75, // Average position size
+      avgTradeSize,
       maxDrawdown: portfolioAnalytics.maxDrawdown,
       sharpeRatio: portfolioAnalytics.sharpeRatio,
-      portfolioValue: portfolioAnalytics.totalValue
-    };
+      portfolioValue: previousValue + dailyPnL
+    });
     
-    // Update or add today's metrics
-    const existingIndex = this.performanceHistory.findIndex(
-      m => m.date.toDateString() === today.toDateString()
-    );
+    await this.recordMarketConditions();
     
-    if (existingIndex >= 0) {
-      this.performanceHistory[existingIndex] = todayMetrics;
-    } else {
-      this.performanceHistory.push(todayMetrics);
-    }
+    console.log(`📊 Daily metrics updated: ${tradeAnalysis.totalTrades} trades, ${dailyPnL.toFixed(2)} PnL`);
+  }
+
+  async recordMarketConditions() {
+    const tokens = await this.storage.getAllTokens();
+    if (tokens.length === 0) return;
+    
+    const changes = tokens.map(t => t.priceChange);
+    const avgChange = changes.reduce((sum, c) => sum + c, 0) / changes.length;
+    const variance = changes.reduce((sum, c) => sum + Math.pow(c - avgChange, 2), 0) / changes.length;
     
-    console.log(`📊 Daily metrics updated: ${tradeAnalysis.totalTrades} trades, ${portfolioAnalytics.dailyPnL.toFixed(2)} PnL`);
+    // Market breadth: share of advancing minus declining tokens, -1 to 1
+    const advancers = changes.filter(c => c > 0).length;
+    const decliners = changes.filter(c => c < 0).length;
+
+    // Sentiment is the mood of the last day's token chatter, or breadth when nobody's talking
+    const since = this.now() - SOCIAL_MENTION_WINDOW_MS;
+    const mentions = await this.storage.getLinkedSocialMentions(new Date(since));
+    const marketSentiment = mentions.length > 0
+      ? weightedSentiment(mentions, since)
+      : (advancers - decliners) / tokens.length;
+    
+    const topPerformers = [...tokens]
+      .sort((a, b) => b.priceChange - a.priceChange)
+      .slice(0, 3)
+      .map(t => t.symbol);
+    
+    await this.storage.createMarketConditions({
+      timestamp: new Date(this.now()),
+      overallTrend: avgChange > 5 ? 'BULLISH' : avgChange < -5 ? 'BEARISH' : 'SIDEWAYS',
+      volatilityIndex: Math.min(Math.sqrt(variance), 100),
+      totalMarketVolume: tokens.reduce((sum, t) => sum + t.volume, 0),
+      topPerformers,
+      marketSentiment
+    });
   }
 }
 
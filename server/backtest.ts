@@ -0,0 +1,201 @@
+import { readFileSync } from "fs";
+import { parseArgs } from "util";
+import { storage, MemStorage } from "./storage";
+import { TradingBot } from "./trading-bot";
+import { AnalyticsEngine } from "./analytics-engine";
+import type { MarketDataProvider, NewPair, ListedToken, PriceQuote } from "./market-data";
+import { insertBotSettingsSchema } from "@shared/trading-schema";
+
+/**
+ * Replays recorded token snapshots through the live TradingBot code on a
+ * simulated clock:
+ *
+ *   npm run backtest -- --from 2024-05-01 --to 2024-05-02 --settings settings.json [--input snapshots.jsonl]
+ *
+ * Without --input, snapshots are read from the token_snapshots table. A JSONL
+ * input has one snapshot per line: { tokenAddress, timestamp, price, liquidity,
+ * holders, volume, priceChange, transactions, socialMentions, name?, symbol?, launchTime? }.
+ */
+
+interface ReplaySnapshot {
+  tokenAddress: string;
+  name: string;
+  symbol: string;
+  launchTime: Date;
+  timestamp: Date;
+  price: number | null;
+  liquidity: number;
+  holders: number;
+  volume: number;
+  priceChange: number;
+  transactions: number;
+  socialMentions: number;
+}
+
+// Serves quotes from whatever snapshot was replayed last for each token
+class SnapshotQuoteProvider implements MarketDataProvider {
+  readonly name = 'backtest';
+  private quotes = new Map<string, PriceQuote>();
+
+  update(snapshot: ReplaySnapshot) {
+    this.quotes.set(snapshot.tokenAddress, {
+      price: snapshot.price,
+      volume24h: snapshot.volume,
+      priceChange24h: snapshot.priceChange
+    });
+  }
+
+  async getNewPairs(): Promise<NewPair[]> {
+    return [];
+  }
+
+  async getTokenList(): Promise<ListedToken[]> {
+    return [];
+  }
+
+  async getQuote(tokenAddress: string): Promise<PriceQuote | null> {
+    return this.quotes.get(tokenAddress) ?? null;
+  }
+}
+
+function loadSnapshotsFromFile(path: string, from: Date, to: Date): ReplaySnapshot[] {
+  return readFileSync(path, 'utf8')
+    .split('\n')
+    .filter(line => line.trim())
+    .map(line => {
+      const row = JSON.parse(line);
+      const timestamp = new Date(row.timestamp);
+      return {
+        tokenAddress: row.tokenAddress,
+        name: row.name ?? row.tokenAddress,
+        symbol: row.symbol ?? row.tokenAddress.slice(0, 4),
+        launchTime: new Date(row.launchTime ?? row.timestamp),
+        timestamp,
+        price: row.price ?? null,
+        liquidity: row.liquidity ?? 0,
+        holders: row.holders ?? 0,
+        volume: row.volume ?? 0,
+        priceChange: row.priceChange ?? 0,
+        transactions: row.transactions ?? 0,
+        socialMentions: row.socialMentions ?? 0
+      };
+    })
+    .filter(snapshot => snapshot.timestamp >= from && snapshot.timestamp <= to);
+}
+
+async function loadSnapshotsFromStorage(from: Date, to: Date): Promise<ReplaySnapshot[]> {
+  const snapshots: ReplaySnapshot[] = [];
+  for (const token of await storage.getAllTokens()) {
+    for (const snapshot of await storage.getTokenSnapshots(token.address, from, to)) {
+      snapshots.push({
+        ...snapshot,
+        name: token.name,
+        symbol: token.symbol,
+        launchTime: new Date(token.launchTime)
+      });
+    }
+  }
+  return snapshots;
+}
+
+async function runBacktest() {
+  const { values } = parseArgs({
+    options: {
+      from: { type: 'string' },
+      to: { type: 'string' },
+      settings: { type: 'string' },
+      input: { type: 'string' },
+      verbose: { type: 'boolean', default: false }
+    }
+  });
+
+  const from = values.from ? new Date(values.from) : new Date(0);
+  const to = values.to ? new Date(values.to) : new Date();
+  if (isNaN(from.getTime()) || isNaN(to.getTime())) {
+    throw new Error('--from and --to must be valid dates');
+  }
+
+  const settings = insertBotSettingsSchema
+    .partial()
+    .parse(values.settings ? JSON.parse(readFileSync(values.settings, 'utf8')) : {});
+
+  const snapshots = values.input
+    ? loadSnapshotsFromFile(values.input, from, to)
+    : await loadSnapshotsFromStorage(from, to);
+  snapshots.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+
+  // Bot logging is noisy; only the report goes to stdout unless --verbose
+  const log = console.log;
+  if (!values.verbose) console.log = () => {};
+
+  // Everything the bot touches is isolated from the live storage
+  let simulatedTime = from.getTime();
+  const clock = () => simulatedTime;
+  const simStorage = new MemStorage();
+  const quotes = new SnapshotQuoteProvider();
+  const analytics = new AnalyticsEngine(simStorage, clock);
+  const bot = new TradingBot({ marketData: quotes, storage: simStorage, analytics, clock, schedule: false });
+  await bot.updateSettings({ ...settings, enabled: true });
+
+  let ticks = 0;
+  for (let i = 0; i < snapshots.length; ) {
+    const tickTime = snapshots[i].timestamp.getTime();
+    simulatedTime = tickTime;
+
+    // Apply every snapshot recorded at this instant
+    for (; i < snapshots.length && snapshots[i].timestamp.getTime() === tickTime; i++) {
+      const snapshot = snapshots[i];
+      const metrics = {
+        liquidity: snapshot.liquidity,
+        holders: snapshot.holders,
+        volume: snapshot.volume,
+        priceChange: snapshot.priceChange,
+        transactions: snapshot.transactions,
+        socialMentions: snapshot.socialMentions
+      };
+      const existing = await simStorage.getToken(snapshot.tokenAddress);
+      if (existing) {
+        await simStorage.updateToken(snapshot.tokenAddress, metrics);
+      } else {
+        await simStorage.createToken({
+          ...metrics,
+          address: snapshot.tokenAddress,
+          name: snapshot.name,
+          symbol: snapshot.symbol,
+          launchTime: snapshot.launchTime,
+          // Snapshots carry no risk data; without a score the bot's risk veto would block every buy
+          riskScore: 0,
+          riskReasons: ['Not assessed in backtests'],
+        });
+      }
+      quotes.update(snapshot);
+    }
+
+    await bot.collectMarketData();
+    await bot.updateTechnicalIndicators();
+    await bot.executeFullTradingCycle();
+    await bot.monitorRiskLimits();
+    ticks++;
+  }
+
+  console.log = log;
+
+  const report = {
+    period: { from: from.toISOString(), to: to.toISOString() },
+    snapshots: snapshots.length,
+    ticks,
+    settings: bot.getSettings(),
+    trades: (await simStorage.getTrades(Number.MAX_SAFE_INTEGER)).length,
+    tradeAnalysis: await analytics.generateTradeAnalysis(),
+    strategyAnalytics: await analytics.generateStrategyAnalytics(),
+    portfolio: await bot.getPortfolioStatus()
+  };
+  console.log(JSON.stringify(report, null, 2));
+}
+
+runBacktest()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error('Backtest failed:', error);
+    process.exit(1);
+  });
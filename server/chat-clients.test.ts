@@ -0,0 +1,221 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from "vitest";
+import { createServer, type Server } from "http";
+import type { AddressInfo } from "net";
+import { TelegramClient, DiscordClient, ChatApiError } from "./chat-clients";
+import { ChatSender } from "./chat-notifications";
+import type { ChatIntegration } from "@shared/alert-schema";
+
+interface Reply {
+  status: number;
+  body?: unknown;
+  headers?: Record<string, string>;
+}
+
+interface Received {
+  url: string;
+  body: any;
+  at: number;
+}
+
+// Local stand-in for api.telegram.org and discord.com: answers from a queue of
+// scripted replies (then 200 OK) and records every request it gets
+let server: Server;
+let baseUrl: string;
+let replies: Reply[] = [];
+let received: Received[] = [];
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    let data = '';
+    req.on('data', chunk => { data += chunk; });
+    req.on('end', () => {
+      received.push({ url: req.url!, body: JSON.parse(data), at: Date.now() });
+      const reply = replies.shift() ?? { status: 200, body: { ok: true, result: { message_id: received.length } } };
+      res.writeHead(reply.status, { 'Content-Type': 'application/json', ...reply.headers });
+      res.end(JSON.stringify(reply.body ?? {}));
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+beforeEach(() => {
+  replies = [];
+  received = [];
+});
+
+const gaps = () => received.slice(1).map((request, i) => request.at - received[i].at);
+
+describe("TelegramClient", () => {
+  const telegram = () => new TelegramClient(baseUrl, "123:abc");
+
+  it("posts HTML messages with inline link buttons", async () => {
+    const result = await telegram().sendMessage("42", {
+      text: "<b>hi</b>",
+      buttons: [{ text: "DexScreener", url: "https://dexscreener.com/solana/x" }],
+    });
+
+    expect(result).toEqual({ ok: true, result: { message_id: 1 } });
+    expect(received[0].url).toBe("/bot123:abc/sendMessage");
+    expect(received[0].body).toMatchObject({
+      chat_id: "42",
+      text: "<b>hi</b>",
+      parse_mode: "HTML",
+      reply_markup: { inline_keyboard: [[{ text: "DexScreener", url: "https://dexscreener.com/solana/x" }]] },
+    });
+  });
+
+  it("retries 5xx responses with backoff", async () => {
+    replies = [{ status: 502, body: { ok: false, description: "Bad Gateway" } }];
+
+    await telegram().sendMessage("42", { text: "retry" });
+
+    expect(received).toHaveLength(2);
+    expect(gaps()[0]).toBeGreaterThanOrEqual(450);
+  });
+
+  it("gives up after three attempts", async () => {
+    replies = Array(3).fill({ status: 500, body: { ok: false, description: "Internal Server Error" } });
+
+    const error = await telegram().sendMessage("42", { text: "down" }).catch(e => e);
+
+    expect(error).toBeInstanceOf(ChatApiError);
+    expect(error).toMatchObject({ message: "Internal Server Error", status: 500 });
+    expect(received).toHaveLength(3);
+  }, 10000);
+
+  it("does not retry client errors", async () => {
+    replies = [{ status: 400, body: { ok: false, description: "Bad Request: chat not found" } }];
+
+    await expect(telegram().sendMessage("42", { text: "nope" })).rejects.toThrow("Bad Request: chat not found");
+    expect(received).toHaveLength(1);
+  });
+
+  it("waits as long as a 429 asks", async () => {
+    replies = [{
+      status: 429,
+      headers: { 'Retry-After': '1' },
+      body: { ok: false, description: "Too Many Requests: retry after 1", parameters: { retry_after: 1 } },
+    }];
+
+    await telegram().sendMessage("42", { text: "busy" });
+
+    expect(received).toHaveLength(2);
+    expect(gaps()[0]).toBeGreaterThanOrEqual(950);
+  });
+
+  it("honors retry_after in the body when there is no header", async () => {
+    replies = [{ status: 429, body: { ok: false, parameters: { retry_after: 1 } } }];
+
+    await telegram().sendMessage("42", { text: "busy" });
+
+    expect(gaps()[0]).toBeGreaterThanOrEqual(950);
+  });
+
+  it("spaces messages to the same chat but not across chats", async () => {
+    const client = telegram();
+
+    await Promise.all([
+      client.sendMessage("1", { text: "a" }),
+      client.sendMessage("1", { text: "b" }),
+      client.sendMessage("2", { text: "c" }),
+    ]);
+
+    const at = (text: string) => received.find(request => request.body.text === text)!.at;
+    expect(received.map(request => request.body.text)).toEqual(["a", "c", "b"]);
+    expect(at("b") - at("a")).toBeGreaterThanOrEqual(1050);
+    expect(at("c") - at("a")).toBeLessThan(500);
+  });
+
+  it("needs a bot token", async () => {
+    await expect(new TelegramClient(baseUrl, undefined).sendMessage("42", { text: "x" }))
+      .rejects.toThrow("No Telegram bot token configured");
+    expect(received).toHaveLength(0);
+  });
+});
+
+describe("DiscordClient", () => {
+  const discord = () => new DiscordClient(`${baseUrl}/api/webhooks`);
+  const webhook = () => `${baseUrl}/api/webhooks/1/token`;
+
+  it("only posts to webhooks under the base URL", async () => {
+    const client = discord();
+
+    expect(client.isAllowedWebhook(webhook())).toBe(true);
+    expect(client.isAllowedWebhook(`${baseUrl}/api/webhooksevil/1`)).toBe(false);
+    await expect(client.sendEmbed("http://169.254.169.254/latest", { title: "x" }))
+      .rejects.toThrow("Webhook URL is not a Discord webhook");
+    expect(received).toHaveLength(0);
+  });
+
+  it("asks Discord to confirm delivery and blocks mentions", async () => {
+    await discord().sendEmbed(webhook(), { title: "Hello", color: 1 });
+
+    expect(received[0].url).toBe("/api/webhooks/1/token?wait=true");
+    expect(received[0].body).toEqual({ embeds: [{ title: "Hello", color: 1 }], allowed_mentions: { parse: [] } });
+  });
+
+  it("retries 5xx and honors Retry-After", async () => {
+    replies = [
+      { status: 503, body: { message: "Service Unavailable" } },
+      { status: 429, headers: { 'Retry-After': '1' }, body: { message: "You are being rate limited.", retry_after: 1 } },
+    ];
+
+    await discord().sendEmbed(webhook(), { title: "Eventually" });
+
+    expect(received).toHaveLength(3);
+    expect(gaps()[0]).toBeGreaterThanOrEqual(450);
+    expect(gaps()[1]).toBeGreaterThanOrEqual(950);
+  });
+
+  it("spaces requests to the same webhook", async () => {
+    const client = discord();
+
+    await Promise.all(["a", "b", "c"].map(title => client.sendEmbed(webhook(), { title })));
+
+    expect(received.map(request => request.body.embeds[0].title)).toEqual(["a", "b", "c"]);
+    gaps().forEach(gap => expect(gap).toBeGreaterThanOrEqual(380));
+  });
+});
+
+describe("ChatSender", () => {
+  const integration = (config: ChatIntegration['config']) =>
+    ({ id: 1, userId: 1, name: "Desk", config, enabled: true, notifyAlerts: true, notifyTrades: false }) as ChatIntegration;
+  const card = {
+    title: "🚨 <PEPE> · High alert",
+    description: "Liquidity & holders up",
+    fields: [{ name: "Liquidity", value: "$12.0K" }, { name: "Address", value: "So1" }],
+    links: [{ text: "DexScreener", url: "https://dexscreener.com/solana/So1" }],
+    color: 0xef4444,
+    timestamp: new Date("2024-01-01T00:00:00Z"),
+  };
+
+  it("renders escaped HTML for Telegram", async () => {
+    const sender = new ChatSender(new TelegramClient(baseUrl), new DiscordClient(`${baseUrl}/api/webhooks`));
+
+    await sender.send(integration({ platform: "telegram", chatId: "42", botToken: "9:xyz" }), card);
+
+    expect(received[0].url).toBe("/bot9:xyz/sendMessage");
+    expect(received[0].body.text).toBe(
+      "<b>🚨 &lt;PEPE&gt; · High alert</b>\nLiquidity &amp; holders up\n\nLiquidity: <code>$12.0K</code>\nAddress: <code>So1</code>"
+    );
+    expect(received[0].body.reply_markup.inline_keyboard[0]).toEqual(card.links);
+  });
+
+  it("renders an embed for Discord", async () => {
+    const sender = new ChatSender(new TelegramClient(baseUrl), new DiscordClient(`${baseUrl}/api/webhooks`));
+
+    await sender.send(integration({ platform: "discord", webhookUrl: `${baseUrl}/api/webhooks/7/t` }), card);
+
+    expect(received[0].body.embeds[0]).toEqual({
+      title: card.title,
+      url: card.links[0].url,
+      description: "Liquidity & holders up\n[DexScreener](https://dexscreener.com/solana/So1)",
+      color: 0xef4444,
+      fields: [{ name: "Liquidity", value: "$12.0K", inline: true }, { name: "Address", value: "So1", inline: false }],
+      timestamp: "2024-01-01T00:00:00.000Z",
+    });
+  });
+});
@@ -0,0 +1,157 @@
+// Minimal Telegram Bot API and Discord webhook clients. Both retry
+// rate-limited and transient failures and space out messages per
+// destination to stay under each platform's limits.
+
+const REQUEST_TIMEOUT_MS = 10000;
+const MAX_ATTEMPTS = 3;
+const BASE_BACKOFF_MS = 500;
+const MAX_RETRY_WAIT_MS = 30000;
+
+const sleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+export class ChatApiError extends Error {
+  constructor(message: string, public status?: number) {
+    super(message);
+  }
+}
+
+// Runs tasks one at a time per key, at least `intervalMs` apart
+export class RateLimiter {
+  private queues = new Map<string, Promise<void>>();
+
+  constructor(private intervalMs: number) {}
+
+  schedule<T>(key: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.queues.get(key) ?? Promise.resolve();
+    const run = previous.then(task);
+    const slot = run.then(() => sleep(this.intervalMs), () => sleep(this.intervalMs));
+    this.queues.set(key, slot);
+    slot.then(() => {
+      if (this.queues.get(key) === slot) this.queues.delete(key);
+    });
+    return run;
+  }
+}
+
+// POST JSON, retrying network errors, 5xx and 429s. Waits as long as the
+// platform asks (Retry-After or a retry_after field in the body), otherwise
+// backs off exponentially.
+async function postWithRetry(url: string, payload: unknown): Promise<any> {
+  let lastError = new ChatApiError('Request failed');
+
+  for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+    let waitMs = BASE_BACKOFF_MS * 2 ** (attempt - 1);
+
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(payload),
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      });
+    } catch (error) {
+      lastError = new ChatApiError((error as Error).message);
+      if (attempt < MAX_ATTEMPTS) await sleep(waitMs);
+      continue;
+    }
+
+    const body = safeJson(await response.text());
+    if (response.ok) return body;
+
+    lastError = new ChatApiError(body?.description || body?.message || `HTTP ${response.status}`, response.status);
+    // Anything else (bad token, unknown chat, deleted webhook) won't succeed on retry
+    if (response.status !== 429 && response.status < 500) throw lastError;
+
+    const retryAfter = Number(response.headers.get('retry-after') ?? body?.retry_after ?? body?.parameters?.retry_after);
+    if (retryAfter > 0) waitMs = Math.min(retryAfter * 1000, MAX_RETRY_WAIT_MS);
+    if (attempt < MAX_ATTEMPTS) await sleep(waitMs);
+  }
+
+  throw lastError;
+}
+
+function safeJson(text: string): any {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return null;
+  }
+}
+
+export interface TelegramButton {
+  text: string;
+  url: string;
+}
+
+export interface TelegramMessage {
+  text: string; // HTML parse mode
+  buttons?: TelegramButton[];
+}
+
+// Base URL is configurable so a local stand-in can replace api.telegram.org
+export class TelegramClient {
+  // Telegram allows about one message per second per chat
+  private limiter = new RateLimiter(1100);
+
+  constructor(
+    private baseUrl = process.env.TELEGRAM_API_BASE_URL || 'https://api.telegram.org',
+    private defaultBotToken = process.env.TELEGRAM_BOT_TOKEN
+  ) {}
+
+  async sendMessage(chatId: string, message: TelegramMessage, botToken = this.defaultBotToken) {
+    if (!botToken) {
+      throw new ChatApiError('No Telegram bot token configured');
+    }
+
+    return this.limiter.schedule(`${botToken}:${chatId}`, () =>
+      postWithRetry(`${this.baseUrl.replace(/\/$/, '')}/bot${botToken}/sendMessage`, {
+        chat_id: chatId,
+        text: message.text,
+        parse_mode: 'HTML',
+        disable_web_page_preview: true,
+        reply_markup: message.buttons?.length
+          ? { inline_keyboard: [message.buttons.map(({ text, url }) => ({ text, url }))] }
+          : undefined,
+      })
+    );
+  }
+}
+
+export interface DiscordEmbed {
+  title: string;
+  description?: string;
+  url?: string;
+  color?: number;
+  fields?: { name: string; value: string; inline?: boolean }[];
+  timestamp?: string;
+}
+
+// Only URLs under the base are accepted, so webhook settings can't be used to
+// make the server call arbitrary hosts. Override the base to test locally.
+export class DiscordClient {
+  // Discord webhooks allow 5 requests per 2 seconds
+  private limiter = new RateLimiter(400);
+
+  constructor(private baseUrl = process.env.DISCORD_WEBHOOK_BASE_URL || 'https://discord.com/api/webhooks') {}
+
+  isAllowedWebhook(webhookUrl: string): boolean {
+    return webhookUrl.startsWith(`${this.baseUrl.replace(/\/$/, '')}/`);
+  }
+
+  async sendEmbed(webhookUrl: string, embed: DiscordEmbed) {
+    if (!this.isAllowedWebhook(webhookUrl)) {
+      throw new ChatApiError('Webhook URL is not a Discord webhook');
+    }
+
+    return this.limiter.schedule(webhookUrl, () =>
+      postWithRetry(`${webhookUrl}${webhookUrl.includes('?') ? '&' : '?'}wait=true`, {
+        embeds: [embed],
+        allowed_mentions: { parse: [] },
+      })
+    );
+  }
+}
+
+export const telegramClient = new TelegramClient();
+export const discordClient = new DiscordClient();
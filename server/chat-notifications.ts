@@ -0,0 +1,172 @@
+import { storage as defaultStorage, type IStorage } from "./storage";
+import { eventBus } from "./events";
+import { telegramClient, discordClient, type TelegramClient, type DiscordClient } from "./chat-clients";
+import type { AlertMessage, NotificationChannel } from "./notifications";
+import type { Token } from "@shared/schema";
+import { chainLink, getChain } from "@shared/chains";
+import type { Trade } from "@shared/trading-schema";
+import type { AlertRule, ChatIntegration, ChatPlatform } from "@shared/alert-schema";
+
+// Platform-neutral message, rendered as Telegram HTML or a Discord embed
+export interface ChatCard {
+  title: string;
+  description: string;
+  fields: { name: string; value: string }[];
+  links: { text: string; url: string }[];
+  color: number;
+  timestamp: Date;
+}
+
+const COLORS = { alert: 0xef4444, buy: 0x22c55e, sell: 0xf97316, info: 0x3b82f6 };
+
+// Same compact formats the token table uses
+const formatCurrency = (amount: number) =>
+  amount >= 1000 ? `$${(amount / 1000).toFixed(1)}K` : `$${amount.toFixed(0)}`;
+
+const formatAge = (launchTime: Date | string, now: Date) => {
+  const minutes = Math.floor((now.getTime() - new Date(launchTime).getTime()) / (1000 * 60));
+  return minutes < 60 ? `${minutes}m` : `${Math.floor(minutes / 60)}h`;
+};
+
+const formatPrice = (price: number) => `$${price.toPrecision(4)}`;
+
+const tokenLinks = (address: string, chain = 'solana') => [
+  { text: 'DexScreener', url: chainLink(chain, 'dexScreener', address) },
+  { text: getChain(chain).swap.name, url: chainLink(chain, 'swap', address) },
+];
+
+export function alertCard(alert: AlertMessage): ChatCard {
+  const { token } = alert;
+  return {
+    title: `🚨 ${token.symbol} · ${alert.title}`,
+    description: alert.message,
+    fields: [
+      { name: 'Token', value: `${token.name} (${token.symbol}) · ${getChain(token.chain).name}` },
+      { name: 'Liquidity', value: formatCurrency(token.liquidity) },
+      { name: 'Holders', value: token.holders.toLocaleString('en-US') },
+      { name: 'Age', value: formatAge(token.launchTime, alert.triggeredAt) },
+      { name: '24h Change', value: `${token.priceChange >= 0 ? '+' : ''}${token.priceChange.toFixed(0)}%` },
+      { name: 'Address', value: token.address },
+    ],
+    links: tokenLinks(token.address, token.chain),
+    color: COLORS.alert,
+    timestamp: alert.triggeredAt,
+  };
+}
+
+export function tradeCard(trade: Trade, token?: Token): ChatCard {
+  const buying = trade.action === 'BUY';
+  const symbol = token?.symbol ?? `${trade.tokenAddress.slice(0, 6)}...`;
+  return {
+    title: `${buying ? '🟢 Bot bought' : '🔴 Bot sold'} ${symbol}`,
+    description: `Paper trade executed at ${formatPrice(trade.price)}`,
+    fields: [
+      { name: buying ? 'Spent' : 'Received', value: `$${trade.amount.toFixed(2)}` },
+      { name: 'Quantity', value: trade.quantity.toLocaleString('en-US', { maximumFractionDigits: 2 }) },
+      { name: 'Fee', value: `$${trade.fee.toFixed(2)}` },
+      ...(token ? [{ name: 'Liquidity', value: formatCurrency(token.liquidity) }] : []),
+    ],
+    links: tokenLinks(trade.tokenAddress, token?.chain),
+    color: buying ? COLORS.buy : COLORS.sell,
+    timestamp: new Date(trade.timestamp),
+  };
+}
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+export class ChatSender {
+  constructor(
+    private telegram: TelegramClient = telegramClient,
+    private discord: DiscordClient = discordClient
+  ) {}
+
+  async send(integration: ChatIntegration, card: ChatCard) {
+    const { config } = integration;
+    if (config.platform === 'telegram') {
+      const text = [
+        `<b>${escapeHtml(card.title)}</b>`,
+        escapeHtml(card.description),
+        '',
+        ...card.fields.map(field => `${escapeHtml(field.name)}: <code>${escapeHtml(field.value)}</code>`),
+      ].join('\n');
+      await this.telegram.sendMessage(config.chatId, { text, buttons: card.links }, config.botToken);
+    } else {
+      await this.discord.sendEmbed(config.webhookUrl, {
+        title: card.title,
+        url: card.links[0]?.url,
+        description: [card.description, card.links.map(link => `[${link.text}](${link.url})`).join(' · ')]
+          .filter(Boolean)
+          .join('\n'),
+        color: card.color,
+        fields: card.fields.map(field => ({ ...field, inline: field.name !== 'Address' })),
+        timestamp: card.timestamp.toISOString(),
+      });
+    }
+  }
+
+  sendTest(integration: ChatIntegration) {
+    return this.send(integration, {
+      title: '✅ Meme Coin Radar connected',
+      description: `Notifications for "${integration.name}" will arrive here.`,
+      fields: [],
+      links: [],
+      color: COLORS.info,
+      timestamp: new Date(),
+    });
+  }
+}
+
+export const chatSender = new ChatSender();
+
+// Delivers alert cards to the rule owner's integrations on one platform
+export class ChatChannel implements NotificationChannel {
+  constructor(
+    readonly name: ChatPlatform,
+    private storage: IStorage = defaultStorage,
+    private sender: ChatSender = chatSender
+  ) {}
+
+  private async targets(userId: number): Promise<ChatIntegration[]> {
+    return (await this.storage.getChatIntegrations(userId)).filter(integration =>
+      integration.enabled && integration.notifyAlerts && integration.config.platform === this.name
+    );
+  }
+
+  async appliesTo(rule: AlertRule): Promise<boolean> {
+    return (await this.targets(rule.userId)).length > 0;
+  }
+
+  // Succeeds if at least one of the user's chats got the card
+  async send(rule: AlertRule, alert: AlertMessage) {
+    const targets = await this.targets(rule.userId);
+    const card = alertCard(alert);
+    const results = await Promise.allSettled(targets.map(integration => this.sender.send(integration, card)));
+
+    const failed = results.filter((result): result is PromiseRejectedResult => result.status === 'rejected');
+    if (failed.length === targets.length && failed.length > 0) {
+      throw failed[0].reason;
+    }
+  }
+}
+
+// Post every bot execution to integrations that opted into trades
+export function startTradeNotifications(storage: IStorage = defaultStorage, sender: ChatSender = chatSender) {
+  return eventBus.subscribe((event) => {
+    if (event.type !== 'trade.executed' || event.data.status !== 'EXECUTED') return;
+    const trade = event.data;
+
+    (async () => {
+      const integrations = (await storage.getChatIntegrations())
+        .filter(integration => integration.enabled && integration.notifyTrades);
+      if (integrations.length === 0) return;
+
+      const card = tradeCard(trade, await storage.getToken(trade.tokenAddress));
+      await Promise.all(integrations.map(integration =>
+        sender.send(integration, card).catch(error => {
+          console.warn(`⚠️ Trade notification to ${integration.config.platform} integration ${integration.id} failed:`, error.message);
+        })
+      ));
+    })().catch(console.error);
+  });
+}
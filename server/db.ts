@@ -0,0 +1,16 @@
+import { Pool, neonConfig } from "@neondatabase/serverless";
+import { drizzle } from "drizzle-orm/neon-serverless";
+import ws from "ws";
+import * as schema from "@shared/schema";
+import * as tradingSchema from "@shared/trading-schema";
+import * as analyticsSchema from "@shared/analytics-schema";
+import * as alertSchema from "@shared/alert-schema";
+
+neonConfig.webSocketConstructor = ws;
+
+export function createDb(connectionString: string) {
+  const pool = new Pool({ connectionString });
+  return drizzle({ client: pool, schema: { ...schema, ...tradingSchema, ...analyticsSchema, ...alertSchema } });
+}
+
+export type Database = ReturnType<typeof createDb>;
@@ -0,0 +1,93 @@
+import { describe, it, expect } from "vitest";
+import type { Token } from "@shared/schema";
+import { extractEntities, TokenResolver } from "./entity-resolution";
+
+const BONK = "DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263";
+const POPCAT = "7GCihgDB8fe6KNjn2MYtkzZcRjQy3t9GHdC8uHYmW2hr";
+const POPCAT_SOL = "EKpQGSJtjMFqKZ9KQanSqYXRcF8fBopzLHYxdM65zcjm";
+const CAT_A = "A8C3xuqscfmyLrte3VmTqrAq8kgMASius9AFNANwpump";
+const CAT_B = "Df6yfrKC8kZE3KNkrHERKzAetSxbrWeniQfyJY4Jpump";
+const PEPE_ETH = "0x6982508145454ce325ddbe47a25d4ec3d2311933";
+
+const token = (address: string, name: string, symbol: string) => ({ address, name, symbol }) as Token;
+
+const tokens = [
+  token(BONK, "Bonk", "BONK"),
+  token(POPCAT, "Popcat", "POPCAT"),
+  token(POPCAT_SOL, "Popcat Solana", "PCS"),
+  // Two unrelated tokens sharing a ticker
+  token(CAT_A, "Catwifhat", "CAT"),
+  token(CAT_B, "Simon Cat", "CAT"),
+  token(PEPE_ETH, "Pepe", "PEPE"),
+  token("AiShortName1111111111111111111111", "Ai", "AI"),
+];
+
+const resolver = new TokenResolver(tokens);
+const resolve = (content: string) => resolver.resolve(content)?.address;
+
+describe("extractEntities", () => {
+  it("finds addresses on both chain families and upper-cased cashtags", () => {
+    expect(extractEntities(`$bonk and $Pepe at ${BONK} / ${PEPE_ETH.toUpperCase().replace("0X", "0x")}`)).toEqual({
+      addresses: [BONK, PEPE_ETH],
+      cashtags: ["BONK", "PEPE"],
+    });
+  });
+
+  it("doesn't read the tail of an EVM address as a Solana address", () => {
+    expect(extractEntities(`at ${PEPE_ETH}`).addresses).toEqual([PEPE_ETH]);
+  });
+
+  it("ignores prices, emails and partial matches", () => {
+    expect(extractEntities("up to $5 today, mail me@x.io, a$BONK")).toEqual({ addresses: [], cashtags: [] });
+  });
+});
+
+describe("TokenResolver", () => {
+  it("resolves an unambiguous cashtag", () => {
+    expect(resolve("$BONK is sending")).toBe(BONK);
+    expect(resolve("$bonk is sending")).toBe(BONK);
+  });
+
+  it("leaves a cashtag shared by several tokens unresolved", () => {
+    expect(resolve("$CAT to the moon")).toBeUndefined();
+  });
+
+  it("resolves a shared cashtag when the post also names one of its tokens", () => {
+    expect(resolve("$CAT (Simon Cat) looks strong")).toBe(CAT_B);
+  });
+
+  it("prefers a contract address over any ticker or name", () => {
+    expect(resolve(`$BONK is old news, Popcat too, aping ${CAT_A}`)).toBe(CAT_A);
+    // EVM addresses match whatever their checksum casing
+    expect(resolve(`$BONK vs 0x6982508145454Ce325dDbE47a25d4ec3d2311933`)).toBe(PEPE_ETH);
+  });
+
+  it("falls back to tickers when the address isn't a tracked token", () => {
+    expect(resolve(`$BONK, not ${"1".repeat(32)}`)).toBe(BONK);
+  });
+
+  it("matches names on word boundaries only", () => {
+    expect(resolve("Popcat is the cat")).toBe(POPCAT);
+    expect(resolve("popcats everywhere")).toBeUndefined();
+    expect(resolve("bonkers market today")).toBeUndefined();
+    expect(resolve("I got bonk'd")).toBe(BONK);
+  });
+
+  it("keeps the longest name when one contains another", () => {
+    expect(resolve("Popcat Solana is live")).toBe(POPCAT_SOL);
+  });
+
+  it("doesn't count a cashtag as naming the token", () => {
+    // "$BONK" alone shouldn't also make "Bonk" a named token and clash with Popcat
+    expect(resolve("$BONK and Popcat")).toBe(BONK);
+  });
+
+  it("leaves posts naming several tokens unresolved", () => {
+    expect(resolve("Bonk or Popcat?")).toBeUndefined();
+  });
+
+  it("skips names too short to match on", () => {
+    expect(resolve("AI is the future")).toBeUndefined();
+    expect(resolve("$AI")).toBe("AiShortName1111111111111111111111");
+  });
+});
@@ -0,0 +1,82 @@
+import type { Token } from "@shared/schema";
+import { normalizeAddress } from "@shared/chains";
+
+// Token.socialMentions counts linked mentions posted within this window
+export const SOCIAL_MENTION_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+// Names shorter than this ("Cope", "Step" are fine; "Ai" isn't) are too noisy to match on
+const MIN_NAME_LENGTH = 4;
+
+// Whole words only: the hex tail of an EVM address is often valid base58 too
+const SOLANA_ADDRESS = /(?<!\w)[1-9A-HJ-NP-Za-km-z]{32,44}(?!\w)/g;
+const EVM_ADDRESS = /(?<!\w)0x[0-9a-fA-F]{40}(?!\w)/g;
+const CASHTAG = /(?<![\w$])\$([A-Za-z][A-Za-z0-9]{1,9})(?![\w])/g;
+
+export interface MentionEntities {
+  addresses: string[]; // EVM addresses lower-cased, as they're stored
+  cashtags: string[]; // Upper-cased, without the $
+}
+
+export function extractEntities(content: string): MentionEntities {
+  const unique = (values: string[]) => Array.from(new Set(values));
+  return {
+    addresses: unique([
+      ...(content.match(SOLANA_ADDRESS) || []),
+      ...(content.match(EVM_ADDRESS) || []).map(normalizeAddress),
+    ]),
+    cashtags: unique(Array.from(content.matchAll(CASHTAG), match => match[1].toUpperCase())),
+  };
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Links mention text to a known token. Contract addresses are exact and win
+ * outright; otherwise a cashtag, then a token name, must point at exactly one
+ * token. Tickers shared by several tokens are only resolved when the post
+ * also names one of them; anything still ambiguous stays unlinked.
+ */
+export class TokenResolver {
+  private byAddress = new Map<string, Token>();
+  private bySymbol = new Map<string, Token[]>();
+  private names: { pattern: RegExp; token: Token }[] = [];
+
+  constructor(tokens: Token[]) {
+    for (const token of tokens) {
+      this.byAddress.set(token.address, token);
+
+      const symbol = token.symbol.toUpperCase();
+      this.bySymbol.set(symbol, [...(this.bySymbol.get(symbol) || []), token]);
+
+      if (token.name.trim().length >= MIN_NAME_LENGTH) {
+        this.names.push({ pattern: new RegExp(`(?<!\\w)${escapeRegExp(token.name.trim())}(?!\\w)`, 'i'), token });
+      }
+    }
+  }
+
+  // The first token the post clearly refers to
+  resolve(content: string): Token | undefined {
+    const { addresses, cashtags } = extractEntities(content);
+
+    const byAddress = addresses.map(address => this.byAddress.get(address)).find(Boolean);
+    if (byAddress) return byAddress;
+
+    // Names are matched in the prose only, so "$BONK" alone doesn't also count as naming Bonk
+    const prose = content.replace(CASHTAG, ' ');
+    const hits = this.names.filter(({ pattern }) => pattern.test(prose)).map(({ token }) => token);
+    // "Popcat Solana" also contains "Popcat"; keep only the longest names that matched
+    const named = hits.filter(token => !hits.some(other =>
+      other.name.length > token.name.length && other.name.toLowerCase().includes(token.name.toLowerCase())
+    ));
+
+    for (const tag of cashtags) {
+      const candidates = this.bySymbol.get(tag) || [];
+      if (candidates.length === 1) return candidates[0];
+
+      const confirmed = candidates.filter(token => named.includes(token));
+      if (confirmed.length === 1) return confirmed[0];
+    }
+
+    return named.length === 1 ? named[0] : undefined;
+  }
+}
@@ -0,0 +1,61 @@
+import type { Request, Response } from "express";
+import { eventBus, isVisibleTo, type ServerEvent } from "./events";
+
+const HEARTBEAT_MS = 15000;
+const RETRY_MS = 3000;
+
+// GET /api/stream: the /ws events as Server-Sent Events, for clients whose
+// proxies drop WebSockets. Browsers send Last-Event-ID on reconnect and get
+// whatever they missed replayed from the event log.
+export function handleEventStream(req: Request, res: Response) {
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    'Connection': 'keep-alive',
+    'X-Accel-Buffering': 'no', // Stop nginx from buffering the stream
+  });
+  res.write(`retry: ${RETRY_MS}\n\n`);
+
+  const userId = req.user?.id;
+  const send = (event: ServerEvent, id: number) => {
+    // Skipped ids are harmless: resume only needs the last one seen
+    if (!isVisibleTo(event, userId)) return;
+    res.write(`id: ${id}\ndata: ${JSON.stringify(event)}\n\n`);
+  };
+
+  // Subscribe before replaying so nothing published in between is lost
+  const buffered: [ServerEvent, number][] = [];
+  let replaying = true;
+  const unsubscribe = eventBus.subscribe((event, id) => {
+    if (replaying) buffered.push([event, id]);
+    else send(event, id);
+  });
+
+  const lastEventId = Number(req.header('Last-Event-ID') ?? req.query.lastEventId);
+  let lastSent = 0;
+  if (Number.isInteger(lastEventId) && lastEventId > 0) {
+    const missed = eventBus.since(lastEventId);
+    if (missed === null) {
+      // Too far behind the log or from before a restart; tell the client to refetch everything
+      res.write(`event: resync\ndata: {}\n\n`);
+    } else {
+      for (const { id, event } of missed) {
+        send(event, id);
+        lastSent = id;
+      }
+    }
+  }
+
+  for (const [event, id] of buffered) {
+    if (id > lastSent) send(event, id);
+  }
+  replaying = false;
+
+  // Comment lines keep idle proxies from closing the connection
+  const heartbeat = setInterval(() => res.write(': ping\n\n'), HEARTBEAT_MS);
+
+  req.on('close', () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+  });
+}
@@ -0,0 +1,33 @@
+import { describe, it, expect } from "vitest";
+import { EventBus, type ServerEvent } from "./events";
+
+const stats: ServerEvent = {
+  type: "stats",
+  data: { totalFound: 0, filtered: 0, highAlert: 0, last15min: 0, avgLiquidity: 0, socialMentions: 0, successRate: 0 },
+};
+
+function busWith(count: number) {
+  const bus = new EventBus();
+  for (let i = 0; i < count; i++) bus.publish(stats);
+  return bus;
+}
+
+describe("EventBus.since", () => {
+  it("replays events after the last one the client saw", () => {
+    expect(busWith(5).since(3)?.map(logged => logged.id)).toEqual([4, 5]);
+  });
+
+  it("returns nothing when the client is up to date", () => {
+    expect(busWith(5).since(5)).toEqual([]);
+  });
+
+  it("asks for a resync when the id is from before a restart", () => {
+    expect(busWith(2).since(3)).toBeNull();
+    expect(busWith(0).since(1)).toBeNull();
+  });
+
+  it("asks for a resync when missed events were evicted", () => {
+    expect(busWith(1005).since(2)).toBeNull();
+    expect(busWith(1005).since(5)?.[0].id).toBe(6);
+  });
+});
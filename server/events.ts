@@ -0,0 +1,71 @@
+import { EventEmitter } from "events";
+import type { Token } from "@shared/schema";
+import type { TradingSignal, Trade } from "@shared/trading-schema";
+import type { AlertEvent } from "@shared/alert-schema";
+import type { TokenStats } from "./token-stats";
+
+// Everything pushed to live clients. `data` is the same shape the REST
+// endpoints return so clients can drop it straight into their caches.
+export type ServerEvent =
+  | { type: 'token.created'; data: Token }
+  | { type: 'token.updated'; data: Token }
+  | { type: 'token.highAlert'; data: Token }
+  | { type: 'signal.generated'; data: TradingSignal }
+  | { type: 'trade.executed'; data: Trade }
+  | { type: 'stats'; data: TokenStats }
+  | { type: 'alert.triggered'; data: AlertEvent };
+
+export type ServerEventType = ServerEvent['type'];
+
+// Alerts go only to the user who owns the rule; everything else is public
+export function isVisibleTo(event: ServerEvent, userId: number | undefined): boolean {
+  return event.type !== 'alert.triggered' || event.data.userId === userId;
+}
+
+export interface LoggedEvent {
+  id: number;
+  event: ServerEvent;
+}
+
+// Enough to cover a reconnect of a minute or two at the aggregator's pace
+const EVENT_LOG_SIZE = 1000;
+
+export class EventBus {
+  private emitter = new EventEmitter();
+  // Ring buffer of recent events so stream clients can resume after a drop
+  private log: LoggedEvent[] = [];
+  private nextId = 1;
+
+  constructor() {
+    // One listener per connected client
+    this.emitter.setMaxListeners(0);
+  }
+
+  publish(event: ServerEvent) {
+    const logged = { id: this.nextId++, event };
+    this.log.push(logged);
+    if (this.log.length > EVENT_LOG_SIZE) {
+      this.log.shift();
+    }
+    this.emitter.emit('event', logged);
+  }
+
+  // Returns an unsubscribe function
+  subscribe(listener: (event: ServerEvent, id: number) => void): () => void {
+    const handler = ({ id, event }: LoggedEvent) => listener(event, id);
+    this.emitter.on('event', handler);
+    return () => this.emitter.off('event', handler);
+  }
+
+  // Events published after `lastId`, or null when the caller has to resync from
+  // the REST endpoints: some were evicted, or the id is from before a restart
+  since(lastId: number): LoggedEvent[] | null {
+    if (lastId >= this.nextId) return null;
+    if (lastId === this.nextId - 1) return [];
+    const oldest = this.log[0]?.id ?? this.nextId;
+    if (lastId < oldest - 1) return null;
+    return this.log.filter(logged => logged.id > lastId);
+  }
+}
+
+export const eventBus = new EventBus();
@@ -0,0 +1,255 @@
+import { describe, it, expect, afterEach } from "vitest";
+import type { FilterRule, FilterRuleSets, InsertToken } from "@shared/schema";
+import { MemStorage } from "./storage";
+import { eventBus } from "./events";
+import {
+  DEFAULT_RULE_SETS,
+  evaluateRule,
+  explainRule,
+  validateRuleSets,
+  FilterRulesEngine,
+  type RuleSubject,
+} from "./filter-rules";
+
+const NOW = Date.parse("2025-06-02T12:00:00Z");
+const minutesAgo = (minutes: number) => new Date(NOW - minutes * 60 * 1000);
+
+const subject = (overrides: Partial<RuleSubject> = {}): RuleSubject => ({
+  address: "Mint0001",
+  name: "Moon Cat",
+  symbol: "MCAT",
+  chain: "solana",
+  liquidity: 10000,
+  holders: 100,
+  volume: 50000,
+  priceChange: 12,
+  transactions: 300,
+  socialMentions: 60,
+  launchTime: minutesAgo(30),
+  ...overrides,
+});
+
+const compare = (field: any, op: any, value: number | string): FilterRule => ({ type: "compare", field, op, value });
+const evaluate = (rule: FilterRule, token = subject(), ruleSets: FilterRuleSets = DEFAULT_RULE_SETS) =>
+  evaluateRule(rule, token, ruleSets, NOW);
+
+describe("evaluateRule", () => {
+  it.each([
+    ["eq", 10000, true], ["eq", 9999, false],
+    ["neq", 9999, true], ["neq", 10000, false],
+    ["gt", 9999, true], ["gt", 10000, false],
+    ["gte", 10000, true], ["gte", 10001, false],
+    ["lt", 10001, true], ["lt", 10000, false],
+    ["lte", 10000, true], ["lte", 9999, false],
+  ])("compares numbers: liquidity %s %d is %s", (op, value, expected) => {
+    expect(evaluate(compare("liquidity", op, value))).toBe(expected);
+  });
+
+  it("compares strings case-insensitively", () => {
+    expect(evaluate(compare("symbol", "eq", "mcat"))).toBe(true);
+    expect(evaluate(compare("name", "contains", "CAT"))).toBe(true);
+    expect(evaluate(compare("chain", "neq", "solana"))).toBe(false);
+  });
+
+  it("fails comparisons across types instead of coercing", () => {
+    expect(evaluate(compare("liquidity", "eq", "10000"))).toBe(false);
+    expect(evaluate(compare("symbol", "gt", "A"))).toBe(false);
+  });
+
+  it("checks age windows inclusively", () => {
+    expect(evaluate({ type: "age", maxMinutes: 30 })).toBe(true);
+    expect(evaluate({ type: "age", maxMinutes: 29 })).toBe(false);
+    expect(evaluate({ type: "age", minMinutes: 30 })).toBe(true);
+    expect(evaluate({ type: "age", minMinutes: 10, maxMinutes: 20 })).toBe(false);
+    // Stored rows carry the launch time as a string
+    expect(evaluate({ type: "age", maxMinutes: 60 }, subject({ launchTime: minutesAgo(45).toISOString() }))).toBe(true);
+  });
+
+  it("combines rules with all and any", () => {
+    const pass = compare("holders", "gte", 50);
+    const fail = compare("holders", "gte", 500);
+    expect(evaluate({ type: "all", rules: [pass, pass] })).toBe(true);
+    expect(evaluate({ type: "all", rules: [pass, fail] })).toBe(false);
+    expect(evaluate({ type: "any", rules: [fail, pass] })).toBe(true);
+    expect(evaluate({ type: "any", rules: [fail] })).toBe(false);
+    // The empty cases are the identities
+    expect(evaluate({ type: "all", rules: [] })).toBe(true);
+    expect(evaluate({ type: "any", rules: [] })).toBe(false);
+  });
+
+  it("follows rule set references", () => {
+    expect(evaluate({ type: "ruleSet", name: "filter" })).toBe(true);
+    expect(evaluate({ type: "ruleSet", name: "filter" }, subject({ holders: 5 }))).toBe(false);
+    expect(evaluate({ type: "ruleSet", name: "missing" })).toBe(false);
+  });
+
+  it("applies the default sets", () => {
+    expect(evaluate(DEFAULT_RULE_SETS.filter)).toBe(true);
+    expect(evaluate(DEFAULT_RULE_SETS.highAlert)).toBe(false);
+    expect(evaluate(DEFAULT_RULE_SETS.highAlert, subject({ liquidity: 20000 }))).toBe(true);
+    // High alert requires passing the filter first
+    expect(evaluate(DEFAULT_RULE_SETS.highAlert, subject({ launchTime: minutesAgo(300), liquidity: 20000 }))).toBe(false);
+    expect(evaluate(DEFAULT_RULE_SETS.highAlert, subject({ socialMentions: 50 }))).toBe(false);
+  });
+});
+
+describe("validateRuleSets", () => {
+  const sets = (filter: FilterRule, extra: FilterRuleSets = {}): FilterRuleSets =>
+    ({ filter, highAlert: { type: "all", rules: [] }, ...extra });
+
+  it("accepts the defaults", () => {
+    expect(validateRuleSets(DEFAULT_RULE_SETS)).toEqual([]);
+  });
+
+  it("checks value types against the field", () => {
+    expect(validateRuleSets(sets(compare("liquidity", "gte", "5000"))))
+      .toEqual(["filter: liquidity must be compared with a number"]);
+    expect(validateRuleSets(sets(compare("symbol", "eq", 5))))
+      .toEqual(["filter: symbol must be compared with a string"]);
+  });
+
+  it("checks operators against the field", () => {
+    expect(validateRuleSets(sets(compare("symbol", "gt", "A"))))
+      .toEqual(["filter: gt is not supported on symbol"]);
+    expect(validateRuleSets(sets(compare("holders", "contains", 5))))
+      .toEqual(["filter: contains is not supported on holders"]);
+  });
+
+  it("reports nested problems by path", () => {
+    const nested: FilterRule = { type: "any", rules: [compare("holders", "gte", 5), { type: "all", rules: [{ type: "age", minMinutes: 60, maxMinutes: 10 }] }] };
+    expect(validateRuleSets(sets(nested))).toEqual(["filter.rules[1].rules[0]: minMinutes is greater than maxMinutes"]);
+  });
+
+  it("rejects references to unknown rule sets", () => {
+    expect(validateRuleSets(sets({ type: "ruleSet", name: "nope" }))).toEqual(["filter: unknown rule set 'nope'"]);
+  });
+
+  it("rejects direct and indirect reference cycles", () => {
+    expect(validateRuleSets(sets({ type: "ruleSet", name: "filter" }))).toEqual(["filter: rule set references itself"]);
+
+    const indirect = sets({ type: "ruleSet", name: "a" }, {
+      a: { type: "all", rules: [{ type: "ruleSet", name: "b" }] },
+      b: { type: "any", rules: [compare("holders", "gte", 1), { type: "ruleSet", name: "filter" }] },
+    });
+    expect(validateRuleSets(indirect)).toEqual(["filter: rule set references itself"]);
+  });
+
+  it("allows several sets to share one without a cycle", () => {
+    expect(validateRuleSets(sets({ type: "ruleSet", name: "base" }, {
+      base: compare("holders", "gte", 1),
+      highAlert: { type: "all", rules: [{ type: "ruleSet", name: "base" }, { type: "ruleSet", name: "filter" }] },
+    }))).toEqual([]);
+  });
+});
+
+describe("explainRule", () => {
+  it("mirrors the rule tree with each rule's result and the token's value", () => {
+    const token = subject({ holders: 10 });
+    expect(explainRule(DEFAULT_RULE_SETS.highAlert, token, DEFAULT_RULE_SETS, NOW)).toEqual({
+      description: "all of",
+      passed: false,
+      children: [
+        {
+          description: 'rule set "filter"',
+          passed: false,
+          children: [{
+            description: "all of",
+            passed: false,
+            children: [
+              { description: "liquidity ≥ 5000", passed: true, actual: 10000 },
+              { description: "holders ≥ 20", passed: false, actual: 10 },
+              { description: "transactions ≥ 20", passed: true, actual: 300 },
+              { description: "age at most 240m", passed: true, actual: 30 },
+            ],
+          }],
+        },
+        { description: "socialMentions > 50", passed: true, actual: 60 },
+        { description: "liquidity > 15000", passed: false, actual: 10000 },
+      ],
+    });
+  });
+
+  it("describes both age bounds and missing rule sets", () => {
+    expect(explainRule({ type: "age", minMinutes: 5, maxMinutes: 60 }, subject(), DEFAULT_RULE_SETS, NOW))
+      .toEqual({ description: "age at least 5m and at most 60m", passed: true, actual: 30 });
+    expect(explainRule({ type: "ruleSet", name: "gone" }, subject(), DEFAULT_RULE_SETS, NOW))
+      .toEqual({ description: 'rule set "gone"', passed: false, children: [] });
+  });
+});
+
+describe("FilterRulesEngine", () => {
+  let unsubscribe = () => {};
+  afterEach(() => unsubscribe());
+
+  const token = (address: string, overrides: Partial<InsertToken> = {}): InsertToken => ({
+    address,
+    name: `Token ${address}`,
+    symbol: address.toUpperCase(),
+    launchTime: minutesAgo(30),
+    liquidity: 10000,
+    holders: 100,
+    transactions: 300,
+    ...overrides,
+  });
+
+  const setup = async () => {
+    const storage = new MemStorage();
+    const engine = new FilterRulesEngine(storage, () => NOW);
+    await storage.createToken(token("small", { liquidity: 2000, isFiltered: false }));
+    await storage.createToken(token("big", { liquidity: 20000, socialMentions: 80, isFiltered: true, isHighAlert: true }));
+    await storage.createToken(token("mid", { isFiltered: true }));
+    return { storage, engine };
+  };
+
+  it("explains against the current rule sets", async () => {
+    const { engine } = await setup();
+    const explanation = engine.explain(subject({ holders: 10 }));
+    expect(explanation.filter.passed).toBe(false);
+    expect(explanation.highAlert.description).toBe("all of");
+  });
+
+  it("re-flags stored tokens when rules are saved, and announces the changes", async () => {
+    const { storage, engine } = await setup();
+    const events: [string, string][] = [];
+    unsubscribe = eventBus.subscribe(event => {
+      if (event.type === "token.updated" || event.type === "token.highAlert") events.push([event.type, event.data.address]);
+    });
+
+    const loose: FilterRuleSets = {
+      filter: compare("liquidity", "gte", 1000),
+      highAlert: { type: "all", rules: [{ type: "ruleSet", name: "filter" }, compare("holders", "gte", 50)] },
+    };
+    // "big" already had both flags
+    expect(await engine.save(loose)).toBe(2);
+
+    const flags = async (address: string) => {
+      const { isFiltered, isHighAlert } = (await storage.getToken(address))!;
+      return { isFiltered, isHighAlert };
+    };
+    expect(await flags("small")).toEqual({ isFiltered: true, isHighAlert: true });
+    expect(await flags("mid")).toEqual({ isFiltered: true, isHighAlert: true });
+    expect(await flags("big")).toEqual({ isFiltered: true, isHighAlert: true });
+    expect(events).toEqual(expect.arrayContaining([
+      ["token.updated", "small"], ["token.highAlert", "small"],
+      ["token.updated", "mid"], ["token.highAlert", "mid"],
+    ]));
+    expect(events.filter(([, address]) => address === "big")).toEqual([]);
+    // Saving the same rules again changes nothing
+    expect(await engine.save(loose)).toBe(0);
+
+    // The saved sets survive a restart
+    const restarted = new FilterRulesEngine(storage, () => NOW);
+    await restarted.load();
+    expect(restarted.getRuleSets()).toEqual(loose);
+  });
+
+  it("refuses invalid rule sets without touching storage", async () => {
+    const { storage, engine } = await setup();
+
+    await expect(engine.save({ filter: { type: "ruleSet", name: "filter" }, highAlert: { type: "all", rules: [] } }))
+      .rejects.toThrow("Invalid rule sets: filter: rule set references itself");
+    expect(await storage.getFilterRuleSets()).toEqual([]);
+    expect(engine.getRuleSets()).toBe(DEFAULT_RULE_SETS);
+    expect((await storage.getToken("small"))!.isFiltered).toBe(false);
+  });
+});
@@ -0,0 +1,248 @@
+import { storage as defaultStorage, type IStorage } from "./storage";
+import { eventBus } from "./events";
+import type { Token, FilterRule, FilterRuleSets, RuleField, RuleOperator } from "@shared/schema";
+
+// Everything a rule can look at; launchTime drives age windows
+export type RuleSubject = Pick<Token, RuleField> & { launchTime: Date | string };
+
+const NUMERIC_FIELDS: RuleField[] = ['liquidity', 'holders', 'volume', 'priceChange', 'transactions', 'socialMentions'];
+
+// Matches the thresholds that used to be hard-coded in the token aggregator
+export const DEFAULT_RULE_SETS: FilterRuleSets = {
+  filter: {
+    type: 'all',
+    rules: [
+      { type: 'compare', field: 'liquidity', op: 'gte', value: 5000 },
+      { type: 'compare', field: 'holders', op: 'gte', value: 20 },
+      { type: 'compare', field: 'transactions', op: 'gte', value: 20 },
+      { type: 'age', maxMinutes: 240 }, // 4 hours
+    ],
+  },
+  highAlert: {
+    type: 'all',
+    rules: [
+      { type: 'ruleSet', name: 'filter' },
+      { type: 'compare', field: 'socialMentions', op: 'gt', value: 50 },
+      { type: 'compare', field: 'liquidity', op: 'gt', value: 15000 },
+    ],
+  },
+};
+
+// Checks what the zod schema can't: field/value types and rule set references
+export function validateRuleSets(ruleSets: FilterRuleSets): string[] {
+  const problems: string[] = [];
+
+  const check = (rule: FilterRule, path: string) => {
+    switch (rule.type) {
+      case 'compare': {
+        const numeric = NUMERIC_FIELDS.includes(rule.field);
+        if (numeric && typeof rule.value !== 'number') {
+          problems.push(`${path}: ${rule.field} must be compared with a number`);
+        } else if (!numeric && typeof rule.value !== 'string') {
+          problems.push(`${path}: ${rule.field} must be compared with a string`);
+        } else if (!numeric && !['eq', 'neq', 'contains'].includes(rule.op)) {
+          problems.push(`${path}: ${rule.op} is not supported on ${rule.field}`);
+        } else if (numeric && rule.op === 'contains') {
+          problems.push(`${path}: contains is not supported on ${rule.field}`);
+        }
+        break;
+      }
+      case 'age':
+        if (rule.minMinutes !== undefined && rule.maxMinutes !== undefined && rule.minMinutes > rule.maxMinutes) {
+          problems.push(`${path}: minMinutes is greater than maxMinutes`);
+        }
+        break;
+      case 'all':
+      case 'any':
+        rule.rules.forEach((child, i) => check(child, `${path}.rules[${i}]`));
+        break;
+      case 'ruleSet':
+        if (!(rule.name in ruleSets)) {
+          problems.push(`${path}: unknown rule set '${rule.name}'`);
+        }
+        break;
+    }
+  };
+
+  for (const [name, rule] of Object.entries(ruleSets)) {
+    check(rule, name);
+  }
+
+  // Reject reference cycles so evaluation always terminates
+  const references = (rule: FilterRule): string[] =>
+    rule.type === 'ruleSet' ? [rule.name]
+      : rule.type === 'all' || rule.type === 'any' ? rule.rules.flatMap(references)
+      : [];
+
+  const visiting = new Set<string>();
+  const done = new Set<string>();
+  const visit = (name: string): boolean => {
+    if (done.has(name) || !(name in ruleSets)) return true;
+    if (visiting.has(name)) return false;
+    visiting.add(name);
+    const ok = references(ruleSets[name]).every(visit);
+    visiting.delete(name);
+    done.add(name);
+    return ok;
+  };
+  for (const name of Object.keys(ruleSets)) {
+    if (!visit(name)) {
+      problems.push(`${name}: rule set references itself`);
+    }
+  }
+
+  return problems;
+}
+
+export function evaluateRule(rule: FilterRule, token: RuleSubject, ruleSets: FilterRuleSets, now = Date.now()): boolean {
+  switch (rule.type) {
+    case 'compare': {
+      const actual = token[rule.field];
+      if (typeof actual === 'number' && typeof rule.value === 'number') {
+        switch (rule.op) {
+          case 'eq': return actual === rule.value;
+          case 'neq': return actual !== rule.value;
+          case 'gt': return actual > rule.value;
+          case 'gte': return actual >= rule.value;
+          case 'lt': return actual < rule.value;
+          case 'lte': return actual <= rule.value;
+          default: return false;
+        }
+      }
+      if (typeof actual === 'string' && typeof rule.value === 'string') {
+        const a = actual.toLowerCase();
+        const b = rule.value.toLowerCase();
+        switch (rule.op) {
+          case 'eq': return a === b;
+          case 'neq': return a !== b;
+          case 'contains': return a.includes(b);
+          default: return false;
+        }
+      }
+      return false;
+    }
+    case 'age': {
+      const ageMinutes = (now - new Date(token.launchTime).getTime()) / (1000 * 60);
+      return (rule.minMinutes === undefined || ageMinutes >= rule.minMinutes) &&
+             (rule.maxMinutes === undefined || ageMinutes <= rule.maxMinutes);
+    }
+    case 'all':
+      return rule.rules.every(child => evaluateRule(child, token, ruleSets, now));
+    case 'any':
+      return rule.rules.some(child => evaluateRule(child, token, ruleSets, now));
+    case 'ruleSet': {
+      const referenced = ruleSets[rule.name];
+      return referenced ? evaluateRule(referenced, token, ruleSets, now) : false;
+    }
+  }
+}
+
+// Why a rule passed or failed, mirroring the rule tree
+export interface RuleExplanation {
+  description: string;
+  passed: boolean;
+  actual?: number | string; // The token's value for compare and age rules
+  children?: RuleExplanation[];
+}
+
+const OPERATOR_SYMBOLS: Record<RuleOperator, string> = {
+  eq: '=', neq: '≠', gt: '>', gte: '≥', lt: '<', lte: '≤', contains: 'contains',
+};
+
+export function explainRule(rule: FilterRule, token: RuleSubject, ruleSets: FilterRuleSets, now = Date.now()): RuleExplanation {
+  const passed = evaluateRule(rule, token, ruleSets, now);
+  switch (rule.type) {
+    case 'compare':
+      return { description: `${rule.field} ${OPERATOR_SYMBOLS[rule.op]} ${rule.value}`, passed, actual: token[rule.field] };
+    case 'age': {
+      const bounds = [
+        rule.minMinutes !== undefined && `at least ${rule.minMinutes}m`,
+        rule.maxMinutes !== undefined && `at most ${rule.maxMinutes}m`,
+      ].filter(Boolean).join(' and ');
+      const ageMinutes = Math.floor((now - new Date(token.launchTime).getTime()) / (1000 * 60));
+      return { description: `age ${bounds}`, passed, actual: ageMinutes };
+    }
+    case 'all':
+    case 'any':
+      return {
+        description: rule.type === 'all' ? 'all of' : 'any of',
+        passed,
+        children: rule.rules.map(child => explainRule(child, token, ruleSets, now)),
+      };
+    case 'ruleSet': {
+      const referenced = ruleSets[rule.name];
+      return {
+        description: `rule set "${rule.name}"`,
+        passed,
+        children: referenced ? [explainRule(referenced, token, ruleSets, now)] : [],
+      };
+    }
+  }
+}
+
+export class FilterRulesEngine {
+  private ruleSets: FilterRuleSets = DEFAULT_RULE_SETS;
+
+  constructor(private storage: IStorage = defaultStorage, private now: () => number = Date.now) {}
+
+  // Restore saved rule sets; the defaults apply until something is saved
+  async load() {
+    const saved = await this.storage.getFilterRuleSets();
+    if (saved.length > 0) {
+      this.ruleSets = Object.fromEntries(saved.map(ruleSet => [ruleSet.name, ruleSet.rule]));
+    }
+  }
+
+  getRuleSets(): FilterRuleSets {
+    return this.ruleSets;
+  }
+
+  evaluate(token: RuleSubject): { isFiltered: boolean; isHighAlert: boolean } {
+    const now = this.now();
+    return {
+      isFiltered: evaluateRule(this.ruleSets.filter, token, this.ruleSets, now),
+      isHighAlert: evaluateRule(this.ruleSets.highAlert, token, this.ruleSets, now),
+    };
+  }
+
+  explain(token: RuleSubject): { filter: RuleExplanation; highAlert: RuleExplanation } {
+    const now = this.now();
+    return {
+      filter: explainRule(this.ruleSets.filter, token, this.ruleSets, now),
+      highAlert: explainRule(this.ruleSets.highAlert, token, this.ruleSets, now),
+    };
+  }
+
+  // Persist new rule sets and re-flag every stored token; returns how many changed
+  async save(ruleSets: FilterRuleSets): Promise<number> {
+    const problems = validateRuleSets(ruleSets);
+    if (problems.length > 0) {
+      throw new Error(`Invalid rule sets: ${problems.join('; ')}`);
+    }
+
+    await this.storage.replaceFilterRuleSets(
+      Object.entries(ruleSets).map(([name, rule]) => ({ name, rule }))
+    );
+    this.ruleSets = ruleSets;
+
+    let updated = 0;
+    for (const token of await this.storage.getAllTokens()) {
+      const flags = this.evaluate(token);
+      if (flags.isFiltered !== token.isFiltered || flags.isHighAlert !== token.isHighAlert) {
+        const saved = await this.storage.updateToken(token.address, flags, token.chain);
+        updated++;
+        if (!saved) continue;
+
+        eventBus.publish({ type: 'token.updated', data: saved });
+        if (saved.isHighAlert && !token.isHighAlert) {
+          eventBus.publish({ type: 'token.highAlert', data: saved });
+        }
+      }
+    }
+
+    console.log(`🧮 Filter rules saved - ${updated} tokens re-flagged`);
+    return updated;
+  }
+}
+
+export const filterRulesEngine = new FilterRulesEngine();
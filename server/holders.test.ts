@@ -0,0 +1,183 @@
+import { describe, it, expect, afterAll } from "vitest";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import { MemStorage } from "./storage";
+import {
+  giniCoefficient,
+  summarizeHolders,
+  MockHolderDataProvider,
+  HolderTracker,
+  type HolderDataProvider,
+} from "./holders";
+
+// Balances per wallet, in the HOLDER_FIXTURE_FILE format
+const FIXTURES: Record<string, number[]> = {
+  even: Array(20).fill(50),
+  whale: [900, ...Array(10).fill(10)],
+  ladder: [1, 2, 3, 4, 5],
+  dust: [0, 0, 5, 5],
+};
+
+const NOW = Date.parse("2024-06-01T12:00:00Z");
+const minutesAgo = (minutes: number) => new Date(NOW - minutes * 60 * 1000);
+
+const tempDirs: string[] = [];
+afterAll(() => tempDirs.forEach(dir => rmSync(dir, { recursive: true, force: true })));
+
+describe("giniCoefficient", () => {
+  it("is 0 for an even spread", () => {
+    expect(giniCoefficient(FIXTURES.even)).toBeCloseTo(0, 10);
+    expect(giniCoefficient([7])).toBe(0);
+  });
+
+  it("matches hand-computed values", () => {
+    expect(giniCoefficient([1, 3])).toBeCloseTo(0.25, 10);
+    expect(giniCoefficient(FIXTURES.ladder)).toBeCloseTo(4 / 15, 10);
+    expect(giniCoefficient([5, 4, 3, 2, 1])).toBeCloseTo(4 / 15, 10); // Order doesn't matter
+    expect(giniCoefficient(FIXTURES.whale)).toBeCloseTo(89 / 110, 10);
+  });
+
+  it("ignores empty wallets and empty input", () => {
+    expect(giniCoefficient(FIXTURES.dust)).toBeCloseTo(0, 10);
+    expect(giniCoefficient([])).toBe(0);
+    expect(giniCoefficient([0, 0])).toBe(0);
+  });
+});
+
+describe("summarizeHolders", () => {
+  const complete = (balances: number[], supply = balances.reduce((sum, b) => sum + b, 0)) =>
+    summarizeHolders({ balances, complete: true, supply });
+
+  it("reports holders, top-10 share and Gini for a full distribution", () => {
+    expect(complete(FIXTURES.even)).toEqual({ holders: 20, top10HolderPercent: 50, holderGini: 0 });
+    expect(complete(FIXTURES.whale)).toEqual({ holders: 11, top10HolderPercent: 99, holderGini: 0.809 });
+    expect(complete(FIXTURES.ladder)).toEqual({ holders: 5, top10HolderPercent: 100, holderGini: 0.267 });
+    expect(complete(FIXTURES.dust)).toEqual({ holders: 2, top10HolderPercent: 100, holderGini: 0 });
+  });
+
+  it("measures the top-10 share against total supply", () => {
+    // Half the supply sits in accounts the provider didn't list (e.g. burned)
+    expect(complete(FIXTURES.even, 2000).top10HolderPercent).toBe(25);
+  });
+
+  it("falls back to the listed balances without a supply", () => {
+    expect(complete(FIXTURES.whale, 0).top10HolderPercent).toBe(99);
+  });
+
+  it("only reports the top-10 share from a partial list", () => {
+    expect(summarizeHolders({ balances: [400, 300, 200], complete: false, supply: 1000 })).toEqual({ top10HolderPercent: 90 });
+  });
+
+  it("has no share to report when nothing is held", () => {
+    expect(complete([])).toEqual({ holders: 0, top10HolderPercent: null, holderGini: 0 });
+  });
+});
+
+describe("MockHolderDataProvider", () => {
+  it("serves fixture balances as complete distributions", async () => {
+    expect(await new MockHolderDataProvider(FIXTURES).getHolderBalances("whale")).toEqual({
+      balances: FIXTURES.whale,
+      complete: true,
+      supply: 1000,
+    });
+  });
+
+  it("reads fixtures from a file", async () => {
+    const dir = mkdtempSync(path.join(tmpdir(), "holders-"));
+    tempDirs.push(dir);
+    const file = path.join(dir, "holders.json");
+    writeFileSync(file, JSON.stringify(FIXTURES));
+
+    const provider = MockHolderDataProvider.fromFile(file);
+    expect(summarizeHolders((await provider.getHolderBalances("ladder"))!)).toEqual({
+      holders: 5,
+      top10HolderPercent: 100,
+      holderGini: 0.267,
+    });
+  });
+
+  it("generates a stable, concentrated distribution that grows over time", async () => {
+    let now = NOW;
+    const provider = new MockHolderDataProvider({}, () => now);
+
+    const first = summarizeHolders((await provider.getHolderBalances("Generated1"))!);
+    expect(summarizeHolders((await provider.getHolderBalances("Generated1"))!)).toEqual(first);
+    expect(first.holders).toBeGreaterThanOrEqual(20);
+    expect(first.holderGini).toBeGreaterThan(0.5);
+    expect(first.top10HolderPercent).toBeGreaterThan(50);
+
+    now += 10 * 60 * 60 * 1000;
+    const later = summarizeHolders((await provider.getHolderBalances("Generated1"))!);
+    expect(later.holders).toBeGreaterThanOrEqual(first.holders!);
+  });
+});
+
+describe("HolderTracker", () => {
+  const seed = async (storage: MemStorage, addresses: string[]) => {
+    for (const address of addresses) {
+      await storage.createToken({ address, name: address, symbol: address, launchTime: minutesAgo(60) });
+    }
+  };
+
+  it("stores fixture metrics for tokens due a refresh", async () => {
+    const storage = new MemStorage();
+    await seed(storage, ["even", "whale"]);
+    await storage.updateToken("even", { holdersCheckedAt: minutesAgo(1) });
+
+    const updates = await new HolderTracker(new MockHolderDataProvider(FIXTURES), storage, () => NOW)
+      .refreshStale(["even", "whale"]);
+
+    expect(Array.from(updates.entries())).toEqual([
+      ["whale", { holders: 11, top10HolderPercent: 99, holderGini: 0.809, holdersCheckedAt: new Date(NOW) }],
+    ]);
+  });
+
+  it("skips tokens the provider has no data for", async () => {
+    const storage = new MemStorage();
+    await seed(storage, ["ladder", "unknown"]);
+    const provider: HolderDataProvider = {
+      name: "fixture-only",
+      getHolderBalances: async mint => FIXTURES[mint]
+        ? { balances: FIXTURES[mint], complete: true, supply: 15 }
+        : null,
+    };
+
+    const updates = await new HolderTracker(provider, storage, () => NOW).refreshStale(["ladder", "unknown"]);
+
+    expect(Array.from(updates.keys())).toEqual(["ladder"]);
+  });
+
+  it("refreshes at most ten tokens per pass", async () => {
+    const storage = new MemStorage();
+    const addresses = Array.from({ length: 12 }, (_, i) => `Mint${i}`);
+    await seed(storage, addresses);
+
+    const updates = await new HolderTracker(new MockHolderDataProvider({}, () => NOW), storage, () => NOW)
+      .refreshStale(addresses);
+
+    expect(updates.size).toBe(10);
+  });
+
+  it("derives hourly holder growth from snapshots", async () => {
+    const storage = new MemStorage();
+    await seed(storage, ["whale"]);
+    // Snapshots taken before the first holder check recorded 0 holders
+    await storage.createTokenSnapshots([
+      { tokenAddress: "whale", timestamp: minutesAgo(50), holders: 0 },
+      { tokenAddress: "whale", timestamp: minutesAgo(30), holders: 100 },
+      { tokenAddress: "whale", timestamp: minutesAgo(10), holders: 120 },
+    ]);
+    const tracker = new HolderTracker(new MockHolderDataProvider(FIXTURES), storage, () => NOW);
+
+    expect(await tracker.growthRate("whale", 130)).toBe(60); // 30 holders in half an hour
+    expect(await tracker.growthRate("even", 20)).toBeNull();
+  });
+
+  it("needs a few minutes of history before reporting growth", async () => {
+    const storage = new MemStorage();
+    await storage.createTokenSnapshots([{ tokenAddress: "whale", timestamp: minutesAgo(2), holders: 100 }]);
+
+    expect(await new HolderTracker(new MockHolderDataProvider(FIXTURES), storage, () => NOW).growthRate("whale", 110)).toBeNull();
+  });
+});
@@ -0,0 +1,225 @@
+import axios from "axios";
+import { createHash } from "crypto";
+import { readFileSync } from "fs";
+import { storage as defaultStorage, type IStorage } from "./storage";
+
+// Token balances per wallet, as a provider sees them
+
+export interface HolderBalances {
+  // Every wallet with a non-zero balance when `complete`, otherwise only the largest ones
+  balances: number[];
+  complete: boolean;
+  supply: number; // Total supply in token units
+}
+
+export interface HolderDataProvider {
+  readonly name: string;
+  getHolderBalances(mint: string): Promise<HolderBalances | null>;
+}
+
+export interface HolderMetrics {
+  holders: number;
+  top10HolderPercent: number | null; // Share of supply held by the ten largest wallets, 0-100
+  holderGini: number | null; // 0 (evenly spread) to 1 (one wallet holds everything)
+}
+
+const TOP_N = 10;
+
+// Gini coefficient over wallet balances
+export function giniCoefficient(balances: number[]): number {
+  const sorted = balances.filter(balance => balance > 0).sort((a, b) => a - b);
+  const n = sorted.length;
+  const total = sorted.reduce((sum, balance) => sum + balance, 0);
+  if (n === 0 || total === 0) return 0;
+
+  const weighted = sorted.reduce((sum, balance, i) => sum + (i + 1) * balance, 0);
+  return (2 * weighted) / (n * total) - (n + 1) / n;
+}
+
+// Holder count and Gini need the full distribution; top-10 share only needs the largest wallets
+export function summarizeHolders({ balances, complete, supply }: HolderBalances): Partial<HolderMetrics> {
+  const held = balances.filter(balance => balance > 0).sort((a, b) => b - a);
+  const total = supply > 0 ? supply : held.reduce((sum, balance) => sum + balance, 0);
+  const top = held.slice(0, TOP_N).reduce((sum, balance) => sum + balance, 0);
+
+  return {
+    ...(complete ? { holders: held.length, holderGini: Math.round(giniCoefficient(held) * 1000) / 1000 } : {}),
+    top10HolderPercent: total > 0 ? Math.round((top / total) * 10000) / 100 : null,
+  };
+}
+
+const describeError = (error: unknown) =>
+  axios.isAxiosError(error) ? [error.response?.status, error.response?.statusText] : [error];
+
+const TOKEN_PROGRAM_ID = 'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA';
+const TOKEN_2022_PROGRAM_ID = 'TokenzQdBNbLqP5VEhdkAS6EPFLC1PHnBqCXEpPxuEb';
+
+interface ParsedTokenAccount {
+  account: { data: { parsed: { info: { owner: string; tokenAmount: { uiAmount: number | null } } } } };
+}
+
+/**
+ * Solana JSON-RPC (SOLANA_RPC_URL). `getProgramAccounts` lists every token
+ * account for the mint, which gives the true holder count; many public
+ * endpoints refuse it for the token program, in which case we fall back to
+ * `getTokenLargestAccounts` (top 20 accounts, so concentration only).
+ */
+export class SolanaRpcHolderProvider implements HolderDataProvider {
+  readonly name = 'rpc';
+  private requestId = 0;
+
+  constructor(private readonly rpcUrl = process.env.SOLANA_RPC_URL || 'https://api.mainnet-beta.solana.com') {}
+
+  private async call<T>(method: string, params: unknown[]): Promise<T> {
+    const { data } = await axios.post(this.rpcUrl, { jsonrpc: '2.0', id: ++this.requestId, method, params }, { timeout: 30000 });
+    if (data.error) {
+      throw new Error(`${method}: ${data.error.message}`);
+    }
+    return data.result;
+  }
+
+  // Balances per owner, since one wallet can hold several token accounts
+  private async getAllBalances(mint: string): Promise<number[]> {
+    for (const programId of [TOKEN_PROGRAM_ID, TOKEN_2022_PROGRAM_ID]) {
+      const accounts = await this.call<ParsedTokenAccount[]>('getProgramAccounts', [
+        programId,
+        { encoding: 'jsonParsed', filters: [{ memcmp: { offset: 0, bytes: mint } }] },
+      ]);
+      if (accounts.length === 0) continue;
+
+      const byOwner = new Map<string, number>();
+      for (const { account } of accounts) {
+        const { owner, tokenAmount } = account.data.parsed.info;
+        byOwner.set(owner, (byOwner.get(owner) || 0) + (tokenAmount.uiAmount || 0));
+      }
+      return Array.from(byOwner.values());
+    }
+    return [];
+  }
+
+  async getHolderBalances(mint: string): Promise<HolderBalances | null> {
+    try {
+      const supply = await this.call<{ value: { uiAmount: number | null } }>('getTokenSupply', [mint]);
+
+      try {
+        return { balances: await this.getAllBalances(mint), complete: true, supply: supply.value.uiAmount || 0 };
+      } catch {
+        // The endpoint refused getProgramAccounts; settle for concentration from the largest accounts
+        const largest = await this.call<{ value: { uiAmount: number | null }[] }>('getTokenLargestAccounts', [mint]);
+        return {
+          balances: largest.value.map(account => account.uiAmount || 0),
+          complete: false,
+          supply: supply.value.uiAmount || 0,
+        };
+      }
+    } catch (error) {
+      console.error(`Solana RPC holder error (${mint}):`, ...describeError(error));
+      return null;
+    }
+  }
+}
+
+/**
+ * Offline provider. Reads HOLDER_FIXTURE_FILE (`{ "<mint>": number[] }`, one
+ * balance per wallet) when set; tokens not in it get a generated long-tailed
+ * distribution from a hash of the address that gains holders over time, so
+ * growth rates have something to measure.
+ */
+export class MockHolderDataProvider implements HolderDataProvider {
+  readonly name = 'mock';
+  private readonly startedAt: number;
+
+  constructor(
+    private readonly fixtures: Record<string, number[]> = {},
+    private readonly now: () => number = Date.now
+  ) {
+    this.startedAt = now();
+  }
+
+  static fromFile(path: string): MockHolderDataProvider {
+    return new MockHolderDataProvider(JSON.parse(readFileSync(path, 'utf8')));
+  }
+
+  async getHolderBalances(mint: string): Promise<HolderBalances | null> {
+    const fixture = this.fixtures[mint];
+    if (fixture) {
+      return { balances: fixture, complete: true, supply: fixture.reduce((sum, balance) => sum + balance, 0) };
+    }
+
+    const bytes = createHash('sha256').update(mint).digest();
+    const baseHolders = 20 + bytes[0] * 2; // 20-530
+    const growthPerHour = bytes[1] / 2; // 0-127
+    const skew = 1 + bytes[2] / 128; // Pareto-style exponent, higher is more concentrated
+    const hours = (this.now() - this.startedAt) / (60 * 60 * 1000);
+    const holders = Math.floor(baseHolders + growthPerHour * hours);
+
+    const balances = Array.from({ length: holders }, (_, i) => 1_000_000 / Math.pow(i + 1, skew));
+    return { balances, complete: true, supply: balances.reduce((sum, balance) => sum + balance, 0) };
+  }
+}
+
+export function createHolderDataProvider(config = process.env.HOLDER_DATA_PROVIDER || 'rpc'): HolderDataProvider {
+  switch (config.trim()) {
+    case 'rpc':
+      return new SolanaRpcHolderProvider();
+    case 'mock':
+      return process.env.HOLDER_FIXTURE_FILE
+        ? MockHolderDataProvider.fromFile(process.env.HOLDER_FIXTURE_FILE)
+        : new MockHolderDataProvider();
+    default:
+      throw new Error(`Unknown holder data provider: ${config}`);
+  }
+}
+
+const REFRESH_AFTER_MS = 2 * 60 * 1000; // Holder counts move fast on new launches
+const MAX_REFRESHES_PER_PASS = 10; // getProgramAccounts is heavy; spread the load
+const GROWTH_WINDOW_MS = 60 * 60 * 1000;
+const MIN_GROWTH_SPAN_MS = 5 * 60 * 1000; // Too little history makes the rate noise
+
+export interface HolderUpdate extends Partial<HolderMetrics> {
+  holdersCheckedAt: Date;
+}
+
+export class HolderTracker {
+  constructor(
+    private provider: HolderDataProvider = createHolderDataProvider(),
+    private storage: IStorage = defaultStorage,
+    private now: () => number = Date.now
+  ) {}
+
+  // Refreshes tokens never checked, then the longest-unchecked, up to the per-pass limit
+  async refreshStale(tokenAddresses: string[]): Promise<Map<string, HolderUpdate>> {
+    const lastChecked = await Promise.all(tokenAddresses.map(async address => ({
+      address,
+      checkedAt: (await this.storage.getToken(address))?.holdersCheckedAt?.getTime() ?? 0,
+    })));
+    const due = lastChecked
+      .filter(({ checkedAt }) => this.now() - checkedAt >= REFRESH_AFTER_MS)
+      .sort((a, b) => a.checkedAt - b.checkedAt)
+      .slice(0, MAX_REFRESHES_PER_PASS);
+
+    const updates = new Map<string, HolderUpdate>();
+    await Promise.all(due.map(async ({ address }) => {
+      const balances = await this.provider.getHolderBalances(address);
+      if (balances) {
+        updates.set(address, { ...summarizeHolders(balances), holdersCheckedAt: new Date(this.now()) });
+      }
+    }));
+    return updates;
+  }
+
+  // Holders gained per hour, from the snapshots of the last hour; null without enough history
+  async growthRate(tokenAddress: string, currentHolders: number): Promise<number | null> {
+    const now = this.now();
+    const snapshots = await this.storage.getTokenSnapshots(tokenAddress, new Date(now - GROWTH_WINDOW_MS), new Date(now));
+    // Snapshots from before the first holder check recorded 0
+    const first = snapshots.find(snapshot => snapshot.holders > 0);
+    if (!first) return null;
+
+    const span = now - new Date(first.timestamp).getTime();
+    if (span < MIN_GROWTH_SPAN_MS) return null;
+    return Math.round(((currentHolders - first.holders) / (span / GROWTH_WINDOW_MS)) * 10) / 10;
+  }
+}
+
+export const holderTracker = new HolderTracker();
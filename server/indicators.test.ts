@@ -0,0 +1,104 @@
+import { describe, it, expect } from "vitest";
+import { sma, ema, emaSeries, rsi, macd, bollingerBands } from "./indicators";
+
+// Reference series and values from StockCharts' indicator worksheets
+const EMA_CLOSES = [
+  22.27, 22.19, 22.08, 22.17, 22.18, 22.13, 22.23, 22.43, 22.24, 22.29,
+  22.15, 22.39, 22.38, 22.61, 23.36, 24.05, 23.75, 23.83, 23.95, 23.63,
+];
+const EMA_10 = [22.22, 22.21, 22.24, 22.27, 22.33, 22.52, 22.80, 22.97, 23.13, 23.28, 23.34];
+
+const RSI_CLOSES = [
+  44.34, 44.09, 44.15, 43.61, 44.33, 44.83, 45.10, 45.42, 45.84, 46.08,
+  45.89, 46.03, 45.61, 46.28, 46.28, 46.00, 46.03, 46.41, 46.22, 45.64,
+];
+const RSI_14 = [70.46, 66.25, 66.48, 69.35, 66.29, 57.92];
+
+const linear = (length: number, slope = 1) => Array.from({ length }, (_, i) => 100 + i * slope);
+
+describe("sma", () => {
+  it("averages the last `period` values", () => {
+    expect(sma([1, 2, 3, 4, 5], 3)).toBe(4);
+    expect(sma(EMA_CLOSES.slice(0, 10), 10)).toBeCloseTo(22.22, 2);
+  });
+
+  it("returns null without enough samples or a positive period", () => {
+    expect(sma([1, 2], 3)).toBeNull();
+    expect(sma([1, 2, 3], 0)).toBeNull();
+  });
+});
+
+describe("ema", () => {
+  it("matches the reference 10-period EMA", () => {
+    const series = emaSeries(EMA_CLOSES.slice(0, 20), 10);
+    expect(series).toHaveLength(EMA_10.length);
+    series.forEach((value, i) => expect(value).toBeCloseTo(EMA_10[i], 2));
+    expect(ema(EMA_CLOSES, 10)).toBeCloseTo(23.34, 2);
+  });
+
+  it("returns null until the seed SMA is available", () => {
+    expect(ema(EMA_CLOSES.slice(0, 9), 10)).toBeNull();
+    expect(emaSeries(EMA_CLOSES.slice(0, 9), 10)).toEqual([]);
+  });
+});
+
+describe("rsi", () => {
+  it("matches Wilder's reference RSI(14)", () => {
+    RSI_14.forEach((expected, i) => {
+      expect(rsi(RSI_CLOSES.slice(0, 15 + i), 14)).toBeCloseTo(expected, 1);
+    });
+  });
+
+  it("needs period + 1 prices", () => {
+    expect(rsi(RSI_CLOSES.slice(0, 14), 14)).toBeNull();
+    expect(rsi(RSI_CLOSES.slice(0, 15), 14)).not.toBeNull();
+  });
+
+  it("is neutral on a flat series and saturates on one-way moves", () => {
+    expect(rsi(Array(20).fill(1.5), 14)).toBe(50);
+    expect(rsi(linear(20), 14)).toBe(100);
+    expect(rsi(linear(20, -1), 14)).toBe(0);
+  });
+});
+
+describe("macd", () => {
+  // An EMA of a straight line lags it by exactly (period - 1) / 2 once seeded,
+  // so MACD(12, 26) on a slope-s line is (12.5 - 5.5) * s with a flat signal
+  it("settles at the analytic value on a linear series", () => {
+    const rising = macd(linear(60, 2));
+    expect(rising?.macd).toBeCloseTo(14, 10);
+    expect(rising?.signal).toBeCloseTo(14, 10);
+    expect(rising?.histogram).toBeCloseTo(0, 10);
+
+    expect(macd(linear(60, -1))?.macd).toBeCloseTo(-7, 10);
+  });
+
+  it("turns the histogram positive when price accelerates", () => {
+    const prices = [...Array(40).fill(100), 101, 103, 106, 110];
+    const result = macd(prices);
+    expect(result!.macd).toBeGreaterThan(result!.signal);
+    expect(result!.histogram).toBeGreaterThan(0);
+  });
+
+  it("needs slow + signal - 1 prices and a fast period below the slow one", () => {
+    expect(macd(linear(33))).toBeNull();
+    expect(macd(linear(34))).not.toBeNull();
+    expect(macd(linear(60), 26, 12, 9)).toBeNull();
+  });
+});
+
+describe("bollingerBands", () => {
+  it("uses the population standard deviation", () => {
+    // Mean 5, standard deviation 2
+    expect(bollingerBands([2, 4, 4, 4, 5, 5, 7, 9], 8, 2)).toEqual({ upper: 9, middle: 5, lower: 1 });
+  });
+
+  it("collapses onto the mean for a flat series", () => {
+    expect(bollingerBands(Array(20).fill(3))).toEqual({ upper: 3, middle: 3, lower: 3 });
+  });
+
+  it("returns null until `period` samples exist", () => {
+    expect(bollingerBands(linear(19))).toBeNull();
+    expect(bollingerBands(linear(20))).not.toBeNull();
+  });
+});
@@ -0,0 +1,104 @@
+// Pure technical indicator functions. Inputs are ordered oldest -> newest and
+// every function returns null until it has enough samples to be meaningful.
+
+export interface MACDResult {
+  macd: number;
+  signal: number;
+  histogram: number;
+}
+
+export interface BollingerBandsResult {
+  upper: number;
+  middle: number;
+  lower: number;
+}
+
+export function sma(values: number[], period: number): number | null {
+  if (period <= 0 || values.length < period) return null;
+  const window = values.slice(-period);
+  return window.reduce((sum, v) => sum + v, 0) / period;
+}
+
+// EMA series seeded with the SMA of the first `period` values.
+// The returned array is aligned so that result[0] corresponds to values[period - 1].
+export function emaSeries(values: number[], period: number): number[] {
+  if (period <= 0 || values.length < period) return [];
+
+  const k = 2 / (period + 1);
+  let current = values.slice(0, period).reduce((sum, v) => sum + v, 0) / period;
+  const series = [current];
+
+  for (let i = period; i < values.length; i++) {
+    current = values[i] * k + current * (1 - k);
+    series.push(current);
+  }
+  return series;
+}
+
+export function ema(values: number[], period: number): number | null {
+  const series = emaSeries(values, period);
+  return series.length > 0 ? series[series.length - 1] : null;
+}
+
+// Wilder's RSI; needs period + 1 prices to produce `period` changes
+export function rsi(values: number[], period = 14): number | null {
+  if (period <= 0 || values.length < period + 1) return null;
+
+  let avgGain = 0;
+  let avgLoss = 0;
+  for (let i = 1; i <= period; i++) {
+    const change = values[i] - values[i - 1];
+    if (change > 0) avgGain += change;
+    else avgLoss -= change;
+  }
+  avgGain /= period;
+  avgLoss /= period;
+
+  for (let i = period + 1; i < values.length; i++) {
+    const change = values[i] - values[i - 1];
+    avgGain = (avgGain * (period - 1) + Math.max(change, 0)) / period;
+    avgLoss = (avgLoss * (period - 1) + Math.max(-change, 0)) / period;
+  }
+
+  if (avgLoss === 0) return avgGain === 0 ? 50 : 100;
+  const rs = avgGain / avgLoss;
+  return 100 - 100 / (1 + rs);
+}
+
+// Needs slowPeriod + signalPeriod - 1 prices
+export function macd(values: number[], fastPeriod = 12, slowPeriod = 26, signalPeriod = 9): MACDResult | null {
+  if (fastPeriod >= slowPeriod || values.length < slowPeriod + signalPeriod - 1) return null;
+
+  const fast = emaSeries(values, fastPeriod);
+  const slow = emaSeries(values, slowPeriod);
+
+  // Align the fast series with the start of the slow one
+  const offset = slowPeriod - fastPeriod;
+  const macdLine = slow.map((slowValue, i) => fast[i + offset] - slowValue);
+
+  const signalLine = emaSeries(macdLine, signalPeriod);
+  if (signalLine.length === 0) return null;
+
+  const macdValue = macdLine[macdLine.length - 1];
+  const signalValue = signalLine[signalLine.length - 1];
+  return {
+    macd: macdValue,
+    signal: signalValue,
+    histogram: macdValue - signalValue,
+  };
+}
+
+export function bollingerBands(values: number[], period = 20, stdDevMultiplier = 2): BollingerBandsResult | null {
+  const middle = sma(values, period);
+  if (middle === null) return null;
+
+  const window = values.slice(-period);
+  const variance = window.reduce((sum, v) => sum + Math.pow(v - middle, 2), 0) / period;
+  const stdDev = Math.sqrt(variance);
+
+  return {
+    upper: middle + stdDevMultiplier * stdDev,
+    middle,
+    lower: middle - stdDevMultiplier * stdDev,
+  };
+}
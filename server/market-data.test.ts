@@ -0,0 +1,162 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach, vi } from "vitest";
+import { createServer, type Server } from "http";
+import type { AddressInfo } from "net";
+import { chainIds, isValidAddress } from "@shared/chains";
+import { DexScreenerProvider, randomAddress } from "./market-data";
+
+// Trimmed from api.dexscreener.com responses recorded at RECORDED_AT
+const RECORDED_AT = Date.parse("2025-06-02T12:00:00Z");
+const hoursBefore = (hours: number) => RECORDED_AT - hours * 60 * 60 * 1000;
+
+const SOL_NEW = "7GCihgDB8fe6KNjn2MYtkzZcRjQy3t9GHdC8uHYmW2hr";
+const SOL_OLD = "EKpQGSJtjMFqKZ9KQanSqYXRcF8fBopzLHYxdM65zcjm";
+const BASE_NEW = "0x4F9Fd6Be4a90f2620860d680c0d4d5Fb53d1A825";
+
+const profiles = [
+  { url: `https://dexscreener.com/solana/${SOL_NEW}`, chainId: "solana", tokenAddress: SOL_NEW },
+  { url: `https://dexscreener.com/solana/${SOL_OLD}`, chainId: "solana", tokenAddress: SOL_OLD },
+  { url: `https://dexscreener.com/base/${BASE_NEW}`, chainId: "base", tokenAddress: BASE_NEW },
+  { url: "https://dexscreener.com/sui/0x2::sui::SUI", chainId: "sui", tokenAddress: "0x2::sui::SUI" },
+];
+
+const pair = (chainId: string, pairAddress: string, baseToken: { address: string; name: string; symbol: string }, fields: Record<string, unknown>) => ({
+  chainId,
+  dexId: "raydium",
+  url: `https://dexscreener.com/${chainId}/${pairAddress.toLowerCase()}`,
+  pairAddress,
+  baseToken,
+  quoteToken: { address: "So11111111111111111111111111111111111111112", name: "Wrapped SOL", symbol: "SOL" },
+  ...fields,
+});
+
+const solanaPairs = [
+  pair("solana", "9Gd5Yq6D1rqhV6s8oZ3fq3iRk9F1H7xv3LZdYx3AJz1s", { address: SOL_NEW, name: "Gigachad Cat", symbol: "GCAT" }, {
+    priceUsd: "0.0004213",
+    liquidity: { usd: 48210.55 },
+    volume: { h24: 310442.1 },
+    priceChange: { h24: 182.4 },
+    txns: { h24: { buys: 2411, sells: 1980 } },
+    pairCreatedAt: hoursBefore(3),
+  }),
+  // A thinner pool for the same token
+  pair("solana", "3xUq1d8wHbq2T4bDw7Cm1X9vSpnHcBXwcVjJ4sR5eP4Q", { address: SOL_NEW, name: "Gigachad Cat", symbol: "GCAT" }, {
+    priceUsd: "0.0004190",
+    liquidity: { usd: 2150 },
+    volume: { h24: 1200 },
+    priceChange: { h24: 170.2 },
+    txns: { h24: { buys: 31, sells: 12 } },
+    pairCreatedAt: hoursBefore(2),
+  }),
+  pair("solana", "5mV4qFzS2nC8x3bWk1rYtD6eH9uJ7aLpQ2vG8sZ4cN1R", { address: SOL_OLD, name: "Old Dog", symbol: "ODOG" }, {
+    priceUsd: "0.012",
+    liquidity: { usd: 91000 },
+    volume: { h24: 50000 },
+    priceChange: { h24: -4.1 },
+    txns: { h24: { buys: 300, sells: 280 } },
+    pairCreatedAt: hoursBefore(24 * 40),
+  }),
+];
+
+const basePairs = [
+  pair("base", "0xA1b2C3d4E5f60718293a4B5c6D7e8F9012345678", { address: BASE_NEW, name: "Based Frog", symbol: "BFROG" }, {
+    dexId: "uniswap",
+    priceUsd: "0.00000871",
+    liquidity: { usd: 650 },
+    volume: { h24: 900 },
+    priceChange: { h24: 12 },
+    txns: { h24: { buys: 20, sells: 3 } },
+    pairCreatedAt: hoursBefore(1),
+  }),
+];
+
+// Local stand-in for api.dexscreener.com that serves the recordings
+let server: Server;
+let baseUrl: string;
+let requested: string[] = [];
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    requested.push(req.url!);
+    const body =
+      req.url === "/token-profiles/latest/v1" ? profiles :
+      req.url?.startsWith("/tokens/v1/solana/") ? solanaPairs :
+      req.url?.startsWith("/tokens/v1/base/") ? basePairs :
+      null;
+    res.writeHead(body ? 200 : 404, { "Content-Type": "application/json" });
+    res.end(JSON.stringify(body ?? { error: "Not found" }));
+  });
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+beforeEach(() => {
+  requested = [];
+  // Only the clock: the HTTP round trips need real timers
+  vi.useFakeTimers({ toFake: ["Date"] });
+  vi.setSystemTime(RECORDED_AT);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("DexScreenerProvider.getNewPairs", () => {
+  it("looks up the latest listed tokens per chain and keeps their young, liquid pairs", async () => {
+    const pairs = await new DexScreenerProvider(["solana", "base"], baseUrl).getNewPairs();
+
+    expect(requested).toEqual([
+      "/token-profiles/latest/v1",
+      `/tokens/v1/solana/${SOL_NEW},${SOL_OLD}`,
+      `/tokens/v1/base/${BASE_NEW}`,
+    ]);
+    // The 40-day-old pair and the $650 Base pool are dropped; GCAT keeps its deepest pool
+    expect(pairs).toEqual([{
+      address: SOL_NEW,
+      name: "Gigachad Cat",
+      symbol: "GCAT",
+      chain: "solana",
+      priceUsd: 0.0004213,
+      liquidity: 48210.55,
+      volume24h: 310442.1,
+      priceChange24h: 182.4,
+      transactions24h: 4391,
+      pairCreatedAt: hoursBefore(3),
+    }]);
+  });
+
+  it("asks only about enabled chains", async () => {
+    await new DexScreenerProvider(["solana"], baseUrl).getNewPairs();
+
+    expect(requested).toEqual(["/token-profiles/latest/v1", `/tokens/v1/solana/${SOL_NEW},${SOL_OLD}`]);
+  });
+
+  it("skips the lookup when no listed token is on the chain", async () => {
+    expect(await new DexScreenerProvider(["bsc"], baseUrl).getNewPairs()).toEqual([]);
+    expect(requested).toEqual(["/token-profiles/latest/v1"]);
+  });
+});
+
+describe("randomAddress", () => {
+  it.each(chainIds)("makes addresses %s accepts", (chain) => {
+    for (let i = 0; i < 50; i++) {
+      expect(isValidAddress(chain, randomAddress(chain))).toBe(true);
+    }
+  });
+
+  it("is deterministic for a given random source", () => {
+    const seeded = () => {
+      let n = 0;
+      return () => (n = (n * 9301 + 49297) % 233280) / 233280;
+    };
+    expect(randomAddress("solana", seeded())).toBe(randomAddress("solana", seeded()));
+    expect(randomAddress("base", seeded())).toMatch(/^0x[0-9a-f]{40}$/);
+  });
+
+  it("covers the whole alphabet at the edges of the random range", () => {
+    expect(randomAddress("solana", () => 0)).toBe("1".repeat(44));
+    expect(randomAddress("solana", () => 0.9999)).toBe("z".repeat(44));
+    expect(randomAddress("ethereum", () => 0.9999)).toBe(`0x${"f".repeat(40)}`);
+  });
+});
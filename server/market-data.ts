@@ -0,0 +1,449 @@
+import axios from "axios";
+import { readFileSync } from "fs";
+import { CHAINS, chainIds, isChainId, normalizeAddress, type ChainId } from "@shared/chains";
+
+// Normalized market data shapes shared by every provider
+
+export interface NewPair {
+  address: string;
+  name: string;
+  symbol: string;
+  chain: string;
+  priceUsd: number | null;
+  liquidity: number;
+  volume24h: number;
+  priceChange24h: number;
+  transactions24h: number;
+  pairCreatedAt: number | null;
+}
+
+export interface ListedToken {
+  address: string;
+  name: string;
+  symbol: string;
+  chain: string;
+}
+
+export interface PriceQuote {
+  price: number | null;
+  volume24h: number | null;
+  priceChange24h: number | null;
+}
+
+export interface MarketDataProvider {
+  readonly name: string;
+  // Recently created pairs with liquidity/volume metrics
+  getNewPairs(): Promise<NewPair[]>;
+  // Known tokens without metrics
+  getTokenList(): Promise<ListedToken[]>;
+  getQuote(tokenAddress: string): Promise<PriceQuote | null>;
+}
+
+interface DexScreenerPair {
+  chainId: string;
+  dexId: string;
+  url: string;
+  pairAddress: string;
+  priceUsd?: string;
+  baseToken: {
+    address: string;
+    name: string;
+    symbol: string;
+  };
+  liquidity?: {
+    usd?: number;
+  };
+  volume?: {
+    h24?: number;
+  };
+  priceChange?: {
+    h24?: number;
+  };
+  txns?: {
+    h24?: {
+      buys?: number;
+      sells?: number;
+    };
+  };
+  pairCreatedAt?: number;
+}
+
+/**
+ * Chains to aggregate, from a comma-separated ENABLED_CHAINS
+ * (e.g. `solana,base`). Defaults to Solana, where holder and risk data exist.
+ */
+export function parseEnabledChains(config = process.env.ENABLED_CHAINS || 'solana'): ChainId[] {
+  const chains = config.split(',').map(chain => chain.trim()).filter(Boolean);
+  for (const chain of chains) {
+    if (!isChainId(chain)) {
+      throw new Error(`Unknown chain: ${chain} (supported: ${chainIds.join(', ')})`);
+    }
+  }
+  return Array.from(new Set(chains as ChainId[]));
+}
+
+export const enabledChains = parseEnabledChains();
+
+const USER_AGENT = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36';
+
+const describeError = (error: unknown) =>
+  axios.isAxiosError(error) ? [error.response?.status, error.response?.statusText] : [error];
+
+// An entry in DexScreener's feed of recently listed token profiles
+interface DexScreenerTokenProfile {
+  chainId: string;
+  tokenAddress: string;
+}
+
+// The tokens endpoint takes at most 30 addresses per call
+const TOKENS_PER_REQUEST = 30;
+
+export class DexScreenerProvider implements MarketDataProvider {
+  readonly name = 'dexscreener';
+
+  constructor(
+    private readonly chains: ChainId[] = enabledChains,
+    private readonly baseUrl = process.env.DEXSCREENER_API_BASE_URL || "https://api.dexscreener.com"
+  ) {}
+
+  // DexScreener has no "new pairs on chain X" endpoint: take the tokens it
+  // most recently listed, look up their pairs per chain, keep the young ones
+  async getNewPairs(): Promise<NewPair[]> {
+    const profiles = await this.getLatestProfiles();
+    const results = await Promise.all(this.chains.map(chain => {
+      const { dexScreenerId } = CHAINS[chain];
+      const addresses = profiles
+        .filter(profile => profile.chainId === dexScreenerId)
+        .map(profile => profile.tokenAddress);
+      return this.getChainPairs(chain, Array.from(new Set(addresses)));
+    }));
+    return results.flat();
+  }
+
+  private async getLatestProfiles(): Promise<DexScreenerTokenProfile[]> {
+    try {
+      const response = await axios.get(`${this.baseUrl}/token-profiles/latest/v1`, {
+        timeout: 15000,
+        headers: {
+          'User-Agent': USER_AGENT
+        }
+      });
+      return Array.isArray(response.data) ? response.data : [];
+    } catch (error) {
+      console.error('DexScreener API error (token profiles):', ...describeError(error));
+      return [];
+    }
+  }
+
+  private async getChainPairs(chain: ChainId, addresses: string[]): Promise<NewPair[]> {
+    const { dexScreenerId } = CHAINS[chain];
+    const pairs: DexScreenerPair[] = [];
+    try {
+      for (let i = 0; i < addresses.length; i += TOKENS_PER_REQUEST) {
+        const batch = addresses.slice(i, i + TOKENS_PER_REQUEST);
+        const response = await axios.get(`${this.baseUrl}/tokens/v1/${dexScreenerId}/${batch.join(',')}`, {
+          timeout: 15000,
+          headers: {
+            'User-Agent': USER_AGENT
+          }
+        });
+        if (Array.isArray(response.data)) pairs.push(...response.data);
+      }
+    } catch (error) {
+      console.error(`DexScreener API error (${chain}):`, ...describeError(error));
+      return [];
+    }
+
+    if (pairs.length > 0) {
+      console.log(`Fetched ${pairs.length} ${chain} pairs from DexScreener`);
+    }
+    const seen = new Set<string>();
+    return pairs
+      .filter(pair =>
+        pair.chainId === dexScreenerId &&
+        pair.pairCreatedAt &&
+        Date.now() - pair.pairCreatedAt < 24 * 60 * 60 * 1000 && // Last 24 hours
+        pair.liquidity?.usd && pair.liquidity.usd > 1000 // Min $1K liquidity
+      )
+      // A token can have several pools; keep its most liquid one
+      .sort((a, b) => (b.liquidity?.usd || 0) - (a.liquidity?.usd || 0))
+      .filter(pair => {
+        const address = normalizeAddress(pair.baseToken.address);
+        if (seen.has(address)) return false;
+        seen.add(address);
+        return true;
+      })
+      .slice(0, 50)
+      .map(pair => ({
+        address: normalizeAddress(pair.baseToken.address),
+        name: pair.baseToken.name,
+        symbol: pair.baseToken.symbol,
+        chain,
+        priceUsd: pair.priceUsd ? parseFloat(pair.priceUsd) : null,
+        liquidity: pair.liquidity?.usd || 0,
+        volume24h: pair.volume?.h24 || 0,
+        priceChange24h: pair.priceChange?.h24 || 0,
+        transactions24h: (pair.txns?.h24?.buys || 0) + (pair.txns?.h24?.sells || 0),
+        pairCreatedAt: pair.pairCreatedAt || null
+      }));
+  }
+
+  async getTokenList(): Promise<ListedToken[]> {
+    return [];
+  }
+
+  async getQuote(tokenAddress: string): Promise<PriceQuote | null> {
+    try {
+      const response = await axios.get(`${this.baseUrl}/latest/dex/tokens/${tokenAddress}`, {
+        timeout: 5000
+      });
+      const pair: DexScreenerPair | undefined = response.data?.pairs?.[0];
+      if (!pair) return null;
+
+      return {
+        price: parseFloat(pair.priceUsd || '0') || null,
+        volume24h: pair.volume?.h24 ?? null,
+        priceChange24h: pair.priceChange?.h24 ?? null
+      };
+    } catch (error) {
+      return null;
+    }
+  }
+}
+
+// Solana only
+export class JupiterProvider implements MarketDataProvider {
+  readonly name = 'jupiter';
+
+  constructor(
+    private readonly tokenListUrl = "https://token.jup.ag",
+    private readonly priceUrl = "https://price.jup.ag/v4"
+  ) {}
+
+  async getNewPairs(): Promise<NewPair[]> {
+    return [];
+  }
+
+  async getTokenList(): Promise<ListedToken[]> {
+    try {
+      // Get verified token list from Jupiter
+      const response = await axios.get(`${this.tokenListUrl}/all`, {
+        timeout: 15000,
+        headers: {
+          'Accept': 'application/json',
+          'User-Agent': USER_AGENT
+        }
+      });
+
+      if (response.data && Array.isArray(response.data)) {
+        console.log(`Fetched ${response.data.length} tokens from Jupiter`);
+        // Return a subset of verified tokens for analysis
+        return response.data
+          .filter((token: any) =>
+            token.chainId === 101 && // Solana mainnet
+            token.symbol && token.name && token.address
+          )
+          .slice(0, 100)
+          .map((token: any) => ({ address: token.address, name: token.name, symbol: token.symbol, chain: 'solana' }));
+      }
+      return [];
+    } catch (error) {
+      console.error('Jupiter API error:', ...describeError(error));
+      return [];
+    }
+  }
+
+  async getQuote(tokenAddress: string): Promise<PriceQuote | null> {
+    try {
+      const response = await axios.get(`${this.priceUrl}/price?ids=${tokenAddress}`, {
+        timeout: 5000
+      });
+      const price = response.data?.data?.[tokenAddress]?.price;
+      return price ? { price, volume24h: null, priceChange24h: null } : null;
+    } catch (error) {
+      return null;
+    }
+  }
+}
+
+// Fans out to several providers; quotes are merged field by field in provider order
+export class CompositeMarketDataProvider implements MarketDataProvider {
+  readonly name: string;
+
+  constructor(private readonly providers: MarketDataProvider[]) {
+    this.name = providers.map(p => p.name).join('+');
+  }
+
+  async getNewPairs(): Promise<NewPair[]> {
+    const results = await Promise.all(this.providers.map(p => p.getNewPairs()));
+    return results.flat();
+  }
+
+  async getTokenList(): Promise<ListedToken[]> {
+    const results = await Promise.all(this.providers.map(p => p.getTokenList()));
+    return results.flat();
+  }
+
+  async getQuote(tokenAddress: string): Promise<PriceQuote | null> {
+    const quotes = await Promise.all(this.providers.map(p => p.getQuote(tokenAddress)));
+    const merged: PriceQuote = { price: null, volume24h: null, priceChange24h: null };
+    for (const quote of quotes) {
+      if (!quote) continue;
+      merged.price ??= quote.price;
+      merged.volume24h ??= quote.volume24h;
+      merged.priceChange24h ??= quote.priceChange24h;
+    }
+    return merged.price !== null ? merged : null;
+  }
+}
+
+// Small seeded PRNG (mulberry32) so mock data is reproducible
+function createRandom(seed: number) {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+const BASE58_ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+const HEX_ALPHABET = '0123456789abcdef';
+
+// Well-formed for the chain, so generated tokens pass the same address checks as real ones
+export function randomAddress(chain: ChainId, random: () => number = Math.random): string {
+  const pick = (alphabet: string, length: number) =>
+    Array.from({ length }, () => alphabet[Math.floor(random() * alphabet.length)]).join('');
+  return CHAINS[chain].family === 'evm' ? `0x${pick(HEX_ALPHABET, 40)}` : pick(BASE58_ALPHABET, 44);
+}
+
+/**
+ * Deterministic offline provider. Plays back a fixed list of frames: each
+ * getNewPairs() call returns the next frame, and each getQuote() call walks
+ * that token's price path one step. Frames come from a JSONL recording
+ * (one `{ "pairs": NewPair[] }` object per line) or are generated from a seed.
+ */
+export class MockMarketDataProvider implements MarketDataProvider {
+  readonly name = 'mock';
+  private frameIndex = 0;
+  private quoteIndex = new Map<string, number>();
+  private pricePaths = new Map<string, NewPair[]>();
+
+  constructor(private readonly frames: NewPair[][]) {
+    for (const frame of frames) {
+      for (const pair of frame) {
+        const path = this.pricePaths.get(pair.address) || [];
+        path.push(pair);
+        this.pricePaths.set(pair.address, path);
+      }
+    }
+  }
+
+  static fromFile(path: string): MockMarketDataProvider {
+    const frames = readFileSync(path, 'utf8')
+      .split('\n')
+      .filter(line => line.trim())
+      .map(line => JSON.parse(line).pairs as NewPair[]);
+    return new MockMarketDataProvider(frames);
+  }
+
+  // Tokens are spread round-robin across `chains`
+  static generate(seed = 42, frameCount = 500, now = Date.now(), chains: ChainId[] = ['solana']): MockMarketDataProvider {
+    const random = createRandom(seed);
+    const templates = [
+      { symbol: 'BONK', name: 'Bonk', basePrice: 0.00001 },
+      { symbol: 'WIF', name: 'dogwifhat', basePrice: 2.34 },
+      { symbol: 'PEPE', name: 'Pepe', basePrice: 0.000008 },
+      { symbol: 'SAMO', name: 'Samoyed Coin', basePrice: 0.015 },
+      { symbol: 'COPE', name: 'Cope', basePrice: 0.12 },
+      { symbol: 'FOXY', name: 'Foxy', basePrice: 0.045 },
+      { symbol: 'STEP', name: 'Step Finance', basePrice: 0.78 },
+      { symbol: 'RAY', name: 'Raydium', basePrice: 3.2 },
+    ];
+
+    const tokens = templates.map((template, i) => ({
+      ...template,
+      chain: chains[i % chains.length],
+      address: randomAddress(chains[i % chains.length], random),
+      createdAt: now - random() * 3 * 60 * 60 * 1000, // Last 3 hours
+      liquidity: 10000 + random() * 90000,
+      volume: 5000 + random() * 50000,
+      transactions: 20 + Math.floor(random() * 500),
+      logPrice: 0
+    }));
+
+    const frames: NewPair[][] = [];
+    for (let i = 0; i < frameCount; i++) {
+      frames.push(tokens.map(token => {
+        // Random walk in log space with a little drift
+        token.logPrice += (random() - 0.48) * 0.04;
+        token.liquidity *= 1 + (random() - 0.45) * 0.02;
+        token.volume *= 1 + (random() - 0.45) * 0.05;
+        token.transactions += Math.floor(random() * 5);
+
+        return {
+          address: token.address,
+          name: token.name,
+          symbol: token.symbol,
+          chain: token.chain,
+          priceUsd: token.basePrice * Math.exp(token.logPrice),
+          liquidity: token.liquidity,
+          volume24h: token.volume,
+          priceChange24h: (Math.exp(token.logPrice) - 1) * 100,
+          transactions24h: token.transactions,
+          pairCreatedAt: token.createdAt
+        };
+      }));
+    }
+    return new MockMarketDataProvider(frames);
+  }
+
+  async getNewPairs(): Promise<NewPair[]> {
+    if (this.frames.length === 0) return [];
+    const frame = this.frames[Math.min(this.frameIndex, this.frames.length - 1)];
+    this.frameIndex++;
+    return frame;
+  }
+
+  async getTokenList(): Promise<ListedToken[]> {
+    return [];
+  }
+
+  async getQuote(tokenAddress: string): Promise<PriceQuote | null> {
+    const path = this.pricePaths.get(tokenAddress);
+    if (!path || path.length === 0) return null;
+
+    const index = this.quoteIndex.get(tokenAddress) ?? 0;
+    this.quoteIndex.set(tokenAddress, index + 1);
+    const pair = path[Math.min(index, path.length - 1)];
+    return { price: pair.priceUsd, volume24h: pair.volume24h, priceChange24h: pair.priceChange24h };
+  }
+}
+
+/**
+ * Builds the provider from a comma-separated list, e.g. MARKET_DATA_PROVIDER=jupiter,dexscreener.
+ * `mock` replays MARKET_DATA_REPLAY_FILE when set, otherwise generates data from MARKET_DATA_SEED.
+ */
+export function createMarketDataProvider(config = process.env.MARKET_DATA_PROVIDER || 'jupiter,dexscreener'): MarketDataProvider {
+  const providers = config.split(',').map(name => name.trim()).filter(Boolean).map((name): MarketDataProvider | null => {
+    switch (name) {
+      case 'dexscreener':
+        return new DexScreenerProvider();
+      case 'jupiter':
+        // Only lists Solana tokens
+        return enabledChains.includes('solana') ? new JupiterProvider() : null;
+      case 'mock':
+        return process.env.MARKET_DATA_REPLAY_FILE
+          ? MockMarketDataProvider.fromFile(process.env.MARKET_DATA_REPLAY_FILE)
+          : MockMarketDataProvider.generate(Number(process.env.MARKET_DATA_SEED) || 42, undefined, undefined, enabledChains);
+      default:
+        throw new Error(`Unknown market data provider: ${name}`);
+    }
+  }).filter((provider): provider is MarketDataProvider => provider !== null);
+
+  return providers.length === 1 ? providers[0] : new CompositeMarketDataProvider(providers);
+}
+
+export const marketDataProvider = createMarketDataProvider();
@@ -0,0 +1,127 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { EventEmitter } from "events";
+import https from "https";
+import type { AlertRule } from "@shared/alert-schema";
+import type { Token } from "@shared/schema";
+import { isPublicAddress, webhookUrlProblem, pinnedLookup, WebhookChannel } from "./notifications";
+
+describe("isPublicAddress", () => {
+  it("refuses loopback, private, link-local and metadata addresses", () => {
+    for (const address of [
+      "127.0.0.1", "10.1.2.3", "172.16.0.1", "172.31.255.255", "192.168.1.1", "169.254.169.254",
+      "100.64.0.1", "0.0.0.0", "224.0.0.1", "255.255.255.255",
+      "::1", "::", "fe80::1", "fd00:ec2::254", "::ffff:127.0.0.1", "::ffff:10.0.0.1",
+    ]) {
+      expect(isPublicAddress(address), address).toBe(false);
+    }
+  });
+
+  it("accepts public addresses", () => {
+    for (const address of ["8.8.8.8", "172.32.0.1", "1.1.1.1", "2606:4700:4700::1111", "::ffff:8.8.8.8"]) {
+      expect(isPublicAddress(address), address).toBe(true);
+    }
+  });
+});
+
+describe("webhookUrlProblem", () => {
+  it("requires https", async () => {
+    expect(await webhookUrlProblem("http://8.8.8.8/hook")).toBe("Webhook URL must use https");
+    expect(await webhookUrlProblem("not a url")).toBe("Webhook URL is invalid");
+  });
+
+  it("refuses hosts that are or resolve to private addresses", async () => {
+    for (const url of [
+      "https://127.0.0.1/hook", "https://169.254.169.254/latest/meta-data", "https://[::1]:8443/hook",
+      "https://localhost/hook",
+    ]) {
+      expect(await webhookUrlProblem(url), url).toBe("Webhook URL must point at a public host");
+    }
+  });
+
+  it("accepts a public https host", async () => {
+    expect(await webhookUrlProblem("https://8.8.8.8/hook")).toBeUndefined();
+  });
+});
+
+describe("pinnedLookup", () => {
+  it("answers every query with the pinned address", () => {
+    const lookup = pinnedLookup("93.184.216.34");
+    const single = vi.fn();
+    const all = vi.fn();
+
+    lookup("hooks.example.com", {}, single);
+    lookup("anything.else", { all: true }, all);
+
+    expect(single).toHaveBeenCalledWith(null, "93.184.216.34", 4);
+    expect(all).toHaveBeenCalledWith(null, [{ address: "93.184.216.34", family: 4 }]);
+  });
+});
+
+describe("WebhookChannel", () => {
+  afterEach(() => vi.restoreAllMocks());
+
+  const rule = (url: string) => ({
+    id: 1,
+    name: "Hook",
+    condition: { type: "highAlert" },
+    channels: { inApp: false, webhook: { url, secret: "0123456789abcdef" } },
+  }) as AlertRule;
+  const alert = { title: "t", message: "m", token: {} as Token, triggeredAt: new Date() };
+
+  // Stands in for the network: records where the socket would connect, by
+  // running the request's own lookup the way net.connect does, then replies
+  const fakeRequest = (status: number) => {
+    const connections: string[] = [];
+    const request = vi.spyOn(https, "request").mockImplementation(((url: URL, options: https.RequestOptions, onResponse: (res: unknown) => void) => {
+      options.lookup!(url.hostname, { all: true }, (_err: unknown, addresses: any) => connections.push(addresses[0].address));
+      const req = Object.assign(new EventEmitter(), {
+        end: () => onResponse({ statusCode: status, resume: () => {} }),
+        destroy: () => {},
+      });
+      return req;
+    }) as any);
+    return { request, connections };
+  };
+
+  it("never contacts a refused host", async () => {
+    const { request } = fakeRequest(200);
+
+    await expect(new WebhookChannel().send(rule("https://169.254.169.254/latest"), alert))
+      .rejects.toThrow("Webhook URL must point at a public host");
+    expect(request).not.toHaveBeenCalled();
+  });
+
+  it("connects to the address it checked even when DNS answers differently afterwards", async () => {
+    // A rebinding resolver: public for the check, loopback for anyone asking again
+    const resolve = vi.fn()
+      .mockResolvedValueOnce(["93.184.216.34"])
+      .mockResolvedValue(["127.0.0.1"]);
+    const { request, connections } = fakeRequest(200);
+
+    await new WebhookChannel(resolve).send(rule("https://hooks.example.com/alerts"), alert);
+
+    expect(resolve).toHaveBeenCalledTimes(1);
+    expect(connections).toEqual(["93.184.216.34"]);
+    const [url, options] = request.mock.calls[0] as unknown as [URL, https.RequestOptions];
+    // The host name stays on the request, so TLS checks the certificate against it
+    expect(url.hostname).toBe("hooks.example.com");
+    expect(options.agent).toBe(false);
+  });
+
+  it("refuses a host whose DNS now points somewhere private", async () => {
+    const resolve = vi.fn().mockResolvedValue(["93.184.216.34", "10.0.0.5"]);
+    const { request } = fakeRequest(200);
+
+    await expect(new WebhookChannel(resolve).send(rule("https://hooks.example.com/alerts"), alert))
+      .rejects.toThrow("Webhook URL must point at a public host");
+    expect(request).not.toHaveBeenCalled();
+  });
+
+  it("treats redirects and errors as failed deliveries", async () => {
+    const resolve = vi.fn().mockResolvedValue(["93.184.216.34"]);
+    fakeRequest(302);
+
+    await expect(new WebhookChannel(resolve).send(rule("https://hooks.example.com/alerts"), alert))
+      .rejects.toThrow("Webhook responded with 302");
+  });
+});
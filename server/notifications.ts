@@ -0,0 +1,237 @@
+import { createHmac } from "crypto";
+import type { LookupAddress } from "dns";
+import { lookup } from "dns/promises";
+import https from "https";
+import { BlockList, isIP, type LookupFunction } from "net";
+import nodemailer, { type Transporter } from "nodemailer";
+import type { Token } from "@shared/schema";
+import type { AlertRule } from "@shared/alert-schema";
+import { chainLink, getChain } from "@shared/chains";
+import { ChatChannel } from "./chat-notifications";
+
+const WEBHOOK_TIMEOUT_MS = 10000;
+
+export interface AlertMessage {
+  title: string;
+  message: string;
+  token: Token;
+  triggeredAt: Date;
+}
+
+// An external delivery target. In-app alerts go over the event bus instead.
+export interface NotificationChannel {
+  readonly name: string;
+  appliesTo(rule: AlertRule): boolean | Promise<boolean>;
+  send(rule: AlertRule, alert: AlertMessage): Promise<void>;
+}
+
+// Receivers recompute this over "<timestamp>.<raw body>" with their copy of
+// the secret and compare it to the X-Radar-Signature header
+export function signWebhookPayload(secret: string, timestamp: string, body: string): string {
+  return `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+}
+
+// Loopback, private, link-local (which holds the 169.254.169.254 cloud
+// metadata endpoint), carrier-grade NAT, multicast and reserved ranges
+const nonPublicRanges = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3],
+] as const) {
+  nonPublicRanges.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [['::', 127], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]] as const) {
+  nonPublicRanges.addSubnet(network, prefix, 'ipv6');
+}
+
+export function isPublicAddress(address: string): boolean {
+  // IPv4-mapped IPv6 (::ffff:10.0.0.1) is checked as the IPv4 address it wraps
+  const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i)?.[1];
+  const ip = mapped ?? address;
+  const family = isIP(ip);
+  if (!family) return false;
+  return !nonPublicRanges.check(ip, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+export type HostResolver = (host: string) => Promise<string[]>;
+
+const resolveHost: HostResolver = async host =>
+  isIP(host) ? [host] : (await lookup(host, { all: true })).map(entry => entry.address);
+
+type WebhookTarget = { url: URL; address: string; problem?: undefined } | { problem: string };
+
+// Webhook URLs are user-supplied, so they must be https and every address the
+// host resolves to must be public. On success, `address` is the one to connect to.
+async function checkWebhookUrl(url: string, resolve: HostResolver): Promise<WebhookTarget> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return { problem: 'Webhook URL is invalid' };
+  }
+  if (parsed.protocol !== 'https:') return { problem: 'Webhook URL must use https' };
+
+  let addresses: string[];
+  try {
+    addresses = await resolve(parsed.hostname.replace(/^\[|\]$/g, ''));
+  } catch {
+    return { problem: 'Webhook host could not be resolved' };
+  }
+  if (addresses.length === 0 || !addresses.every(isPublicAddress)) {
+    return { problem: 'Webhook URL must point at a public host' };
+  }
+  return { url: parsed, address: addresses[0] };
+}
+
+// Returns why a URL is refused
+export async function webhookUrlProblem(url: string, resolve: HostResolver = resolveHost): Promise<string | undefined> {
+  return (await checkWebhookUrl(url, resolve)).problem;
+}
+
+// A socket lookup that answers every query with `address`, so the connection
+// goes to the address that was checked instead of whatever DNS says now
+export function pinnedLookup(address: string): LookupFunction {
+  const family = isIP(address);
+  return (_hostname, options, callback) => {
+    if (options.all) {
+      (callback as (err: null, addresses: LookupAddress[]) => void)(null, [{ address, family }]);
+    } else {
+      callback(null, address, family);
+    }
+  };
+}
+
+export class WebhookChannel implements NotificationChannel {
+  readonly name = 'webhook';
+
+  constructor(private readonly resolve: HostResolver = resolveHost) {}
+
+  appliesTo(rule: AlertRule): boolean {
+    return !!rule.channels.webhook;
+  }
+
+  async send(rule: AlertRule, alert: AlertMessage) {
+    const webhook = rule.channels.webhook!;
+    // Checked again at send time: DNS may have changed since the rule was saved
+    const target = await checkWebhookUrl(webhook.url, this.resolve);
+    if (target.problem !== undefined) {
+      throw new Error(target.problem);
+    }
+
+    const body = JSON.stringify({
+      rule: { id: rule.id, name: rule.name, condition: rule.condition },
+      title: alert.title,
+      message: alert.message,
+      token: alert.token,
+      triggeredAt: alert.triggeredAt.toISOString(),
+    });
+    const timestamp = Math.floor(alert.triggeredAt.getTime() / 1000).toString();
+
+    const status = await postPinned(target.url, target.address, {
+      'Content-Type': 'application/json',
+      'X-Radar-Timestamp': timestamp,
+      'X-Radar-Signature': signWebhookPayload(webhook.secret, timestamp, body),
+    }, body);
+    // Redirects aren't followed: one could lead anywhere, including internal hosts
+    if (status < 200 || status >= 300) {
+      throw new Error(`Webhook responded with ${status}`);
+    }
+  }
+}
+
+// POSTs over a fresh connection to `address`. TLS still verifies the
+// certificate against the URL's host name.
+function postPinned(url: URL, address: string, headers: Record<string, string>, body: string): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const request = https.request(url, {
+      method: 'POST',
+      headers: { ...headers, 'Content-Length': Buffer.byteLength(body) },
+      lookup: pinnedLookup(address),
+      agent: false, // A pooled socket may have been opened to another address
+      timeout: WEBHOOK_TIMEOUT_MS,
+    }, response => {
+      response.resume();
+      resolve(response.statusCode ?? 0);
+    });
+    request.on('timeout', () => request.destroy(new Error('Webhook timed out')));
+    request.on('error', reject);
+    request.end(body);
+  });
+}
+
+// SMTP settings come from SMTP_URL, or SMTP_HOST / SMTP_PORT / SMTP_USER /
+// SMTP_PASS; SMTP_FROM sets the sender
+export class EmailChannel implements NotificationChannel {
+  readonly name = 'email';
+  private transporter: Transporter | null = null;
+
+  appliesTo(rule: AlertRule): boolean {
+    return !!rule.channels.email;
+  }
+
+  private getTransporter(): Transporter {
+    if (this.transporter) return this.transporter;
+
+    const timeouts = { connectionTimeout: 10000, greetingTimeout: 10000, socketTimeout: 20000 };
+    if (process.env.SMTP_URL) {
+      this.transporter = nodemailer.createTransport({ url: process.env.SMTP_URL, ...timeouts });
+    } else if (process.env.SMTP_HOST) {
+      const port = Number(process.env.SMTP_PORT) || 587;
+      this.transporter = nodemailer.createTransport({
+        host: process.env.SMTP_HOST,
+        port,
+        secure: port === 465,
+        auth: process.env.SMTP_USER
+          ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS }
+          : undefined,
+        ...timeouts,
+      });
+    } else {
+      throw new Error('SMTP is not configured');
+    }
+    return this.transporter;
+  }
+
+  async send(rule: AlertRule, alert: AlertMessage) {
+    const { token } = alert;
+    await this.getTransporter().sendMail({
+      from: process.env.SMTP_FROM || 'Meme Coin Radar <alerts@localhost>',
+      to: rule.channels.email!.to,
+      subject: `[${rule.name}] ${alert.title}`,
+      text: [
+        alert.message,
+        '',
+        `Token: ${token.name} (${token.symbol}) on ${getChain(token.chain).name}`,
+        `Address: ${token.address}`,
+        `Explorer: ${chainLink(token.chain, 'explorer', token.address)}`,
+        `Liquidity: $${token.liquidity.toFixed(0)} | Holders: ${token.holders} | 24h change: ${token.priceChange.toFixed(1)}%`,
+        `Triggered at ${alert.triggeredAt.toISOString()}`,
+      ].join('\n'),
+    });
+  }
+}
+
+export class Notifier {
+  constructor(private channels: NotificationChannel[]) {}
+
+  // Sends on every channel the rule uses; returns the names that succeeded
+  async deliver(rule: AlertRule, alert: AlertMessage): Promise<string[]> {
+    const applies = await Promise.all(this.channels.map(channel => channel.appliesTo(rule)));
+    const channels = this.channels.filter((_, i) => applies[i]);
+    const results = await Promise.allSettled(channels.map(channel => channel.send(rule, alert)));
+
+    return channels.flatMap((channel, i) => {
+      const result = results[i];
+      if (result.status === 'fulfilled') return [channel.name];
+      console.warn(`⚠️ ${channel.name} delivery failed for alert rule ${rule.id}:`, result.reason?.message ?? result.reason);
+      return [];
+    });
+  }
+}
+
+export const notifier = new Notifier([
+  new WebhookChannel(),
+  new EmailChannel(),
+  new ChatChannel('telegram'),
+  new ChatChannel('discord'),
+]);
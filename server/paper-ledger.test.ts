@@ -0,0 +1,139 @@
+import { describe, it, expect } from "vitest";
+import { PaperLedger } from "./paper-ledger";
+
+const TOKEN = "TokenA";
+
+// 1% fee and no slippage keeps the arithmetic readable
+const ledger = () => new PaperLedger(1000, 100, 0);
+
+describe("PaperLedger", () => {
+  describe("fees and slippage", () => {
+    it("takes the fee out of the amount spent on a buy", () => {
+      const book = ledger();
+      expect(book.buy(TOKEN, 100, 2)).toEqual({ quantity: 49.5, price: 2, notional: 100, fee: 1 });
+      expect(book.availableBalance).toBe(900);
+      expect(book.getPosition(TOKEN)).toEqual({ tokenAddress: TOKEN, quantity: 49.5, costBasis: 100 });
+    });
+
+    it("takes the fee out of the proceeds of a sell", () => {
+      const book = ledger();
+      book.buy(TOKEN, 100, 1);
+      const fill = book.sell(TOKEN, 2)!;
+
+      expect(fill.quantity).toBe(99);
+      expect(fill.fee).toBeCloseTo(1.98);
+      expect(fill.notional).toBeCloseTo(196.02);
+      expect(fill.realizedPnL).toBeCloseTo(96.02);
+      expect(book.snapshot(() => undefined).feesPaid).toBeCloseTo(2.98);
+    });
+
+    it("buys above and sells below the market by the slippage", () => {
+      const book = new PaperLedger(1000, 30, 50);
+      const buy = book.buy(TOKEN, 100, 1)!;
+      expect(buy.price).toBeCloseTo(1.005);
+      expect(buy.fee).toBeCloseTo(0.3);
+      expect(buy.quantity).toBeCloseTo(99.7 / 1.005);
+
+      const sell = book.sell(TOKEN, 1)!;
+      expect(sell.price).toBeCloseTo(0.995);
+      // A round trip at an unchanged price loses both fees and both slippages
+      expect(sell.realizedPnL).toBeCloseTo((99.7 / 1.005) * 0.995 * 0.997 - 100);
+      expect(sell.realizedPnL).toBeLessThan(0);
+    });
+
+    it("applies new costs to later fills", () => {
+      const book = ledger();
+      book.setCosts(0, 0);
+      expect(book.buy(TOKEN, 100, 1)).toEqual({ quantity: 100, price: 1, notional: 100, fee: 0 });
+    });
+  });
+
+  describe("repeat buys", () => {
+    it("adds to one position at the average cost", () => {
+      const book = ledger();
+      book.buy(TOKEN, 100, 1); // 99 tokens
+      book.buy(TOKEN, 100, 2); // 49.5 tokens
+
+      expect(book.getPositions()).toHaveLength(1);
+      const [position] = book.snapshot(() => 2).positions;
+      expect(position.quantity).toBeCloseTo(148.5);
+      expect(position.costBasis).toBe(200);
+      // Fees are part of the cost
+      expect(position.avgPrice).toBeCloseTo(200 / 148.5);
+      expect(position.unrealizedPnL).toBeCloseTo(148.5 * 2 - 200);
+      expect(book.availableBalance).toBe(800);
+    });
+  });
+
+  describe("partial sells", () => {
+    it("realizes PnL against the sold share of the cost basis and keeps the rest open", () => {
+      const book = ledger();
+      book.buy(TOKEN, 100, 1);
+      book.buy(TOKEN, 100, 2);
+
+      const fill = book.sell(TOKEN, 3, 74.25)!; // Half the position
+      expect(fill.quantity).toBe(74.25);
+      expect(fill.notional).toBeCloseTo(220.5225);
+      expect(fill.realizedPnL).toBeCloseTo(120.5225);
+
+      expect(book.getPosition(TOKEN)).toEqual({ tokenAddress: TOKEN, quantity: 74.25, costBasis: 100 });
+      let snapshot = book.snapshot(() => 3);
+      expect(snapshot.closedTrades).toBe(0);
+      expect(snapshot.activeTrades).toBe(1);
+      expect(snapshot.availableBalance).toBeCloseTo(1020.5225);
+
+      // The rest goes at a loss against its (unchanged) average cost
+      expect(book.sell(TOKEN, 1)!.realizedPnL).toBeCloseTo(73.5075 - 100);
+      snapshot = book.snapshot(() => undefined);
+      expect(snapshot).toMatchObject({ activeTrades: 0, closedTrades: 1, positions: [] });
+      expect(snapshot.realizedPnL).toBeCloseTo(120.5225 + 73.5075 - 100);
+      expect(snapshot.feesPaid).toBeCloseTo(1 + 1 + 2.2275 + 0.7425);
+      expect(snapshot.totalValue).toBeCloseTo(1000 + snapshot.realizedPnL);
+    });
+
+    it("never sells more than it holds", () => {
+      const book = ledger();
+      book.buy(TOKEN, 100, 1);
+
+      expect(book.sell(TOKEN, 1, 500)!.quantity).toBe(99);
+      expect(book.getPosition(TOKEN)).toBeUndefined();
+    });
+  });
+
+  describe("snapshot", () => {
+    it("values unpriced positions at cost and counts wins", () => {
+      const book = ledger();
+      book.buy("win", 100, 1);
+      book.buy("loss", 100, 1);
+      book.buy("open", 100, 1);
+      book.sell("win", 2);
+      book.sell("loss", 0.5);
+
+      const snapshot = book.snapshot(() => undefined);
+      expect(snapshot.positions).toEqual([expect.objectContaining({ tokenAddress: "open", marketPrice: null, marketValue: 100, unrealizedPnL: 0 })]);
+      expect(snapshot.closedTrades).toBe(2);
+      expect(snapshot.successRate).toBe(50);
+    });
+  });
+
+  it("refuses fills it can't make", () => {
+    const book = ledger();
+    expect(book.buy(TOKEN, 1001, 1)).toBeNull();
+    expect(book.buy(TOKEN, 0, 1)).toBeNull();
+    expect(book.buy(TOKEN, 100, 0)).toBeNull();
+    expect(book.sell(TOKEN, 1)).toBeNull();
+    book.buy(TOKEN, 100, 1);
+    expect(book.sell(TOKEN, 0)).toBeNull();
+  });
+
+  it("resets to the initial balance", () => {
+    const book = ledger();
+    book.buy(TOKEN, 100, 1);
+    book.sell(TOKEN, 2);
+    book.reset();
+
+    expect(book.snapshot(() => undefined)).toMatchObject({
+      totalValue: 1000, realizedPnL: 0, feesPaid: 0, closedTrades: 0, positions: [],
+    });
+  });
+});
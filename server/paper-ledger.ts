@@ -0,0 +1,174 @@
+// Paper-trading ledger: cash plus per-token positions tracked in token
+// quantity, with fees and slippage applied to every fill.
+
+export interface LedgerPosition {
+  tokenAddress: string;
+  quantity: number;
+  costBasis: number; // USD spent including fees
+}
+
+export interface Fill {
+  quantity: number;
+  price: number; // Execution price after slippage
+  notional: number; // USD spent on a buy, USD received on a sell (both net of fees)
+  fee: number;
+}
+
+export interface SellFill extends Fill {
+  realizedPnL: number;
+}
+
+export interface PositionSnapshot extends LedgerPosition {
+  avgPrice: number;
+  marketPrice: number | null;
+  marketValue: number;
+  unrealizedPnL: number;
+}
+
+export interface LedgerSnapshot {
+  totalValue: number;
+  availableBalance: number;
+  realizedPnL: number;
+  unrealizedPnL: number;
+  totalProfit: number;
+  feesPaid: number;
+  activeTrades: number;
+  closedTrades: number;
+  successRate: number;
+  positions: PositionSnapshot[];
+}
+
+export class PaperLedger {
+  private cash: number;
+  private positions = new Map<string, LedgerPosition>();
+  private realizedPnL = 0;
+  private feesPaid = 0;
+  private closedTrades = 0;
+  private winningTrades = 0;
+
+  constructor(
+    private readonly initialBalance = 1000,
+    private feeBps = 30,
+    private slippageBps = 50
+  ) {
+    this.cash = initialBalance;
+  }
+
+  setCosts(feeBps: number, slippageBps: number) {
+    this.feeBps = feeBps;
+    this.slippageBps = slippageBps;
+  }
+
+  get availableBalance(): number {
+    return this.cash;
+  }
+
+  getPosition(tokenAddress: string): LedgerPosition | undefined {
+    return this.positions.get(tokenAddress);
+  }
+
+  getPositions(): LedgerPosition[] {
+    return Array.from(this.positions.values());
+  }
+
+  // Spend `usdAmount` (fee included) at the market price plus slippage
+  buy(tokenAddress: string, usdAmount: number, marketPrice: number): Fill | null {
+    if (usdAmount <= 0 || marketPrice <= 0 || usdAmount > this.cash) return null;
+
+    const price = marketPrice * (1 + this.slippageBps / 10000);
+    const fee = usdAmount * this.feeBps / 10000;
+    const quantity = (usdAmount - fee) / price;
+
+    this.recordBuy(tokenAddress, quantity, usdAmount, fee);
+    return { quantity, price, notional: usdAmount, fee };
+  }
+
+  // Sell `quantity` (the whole position by default) at the market price minus slippage
+  sell(tokenAddress: string, marketPrice: number, quantity?: number): SellFill | null {
+    const position = this.positions.get(tokenAddress);
+    if (!position || marketPrice <= 0) return null;
+
+    const sellQuantity = Math.min(quantity ?? position.quantity, position.quantity);
+    const price = marketPrice * (1 - this.slippageBps / 10000);
+    const gross = sellQuantity * price;
+    const fee = gross * this.feeBps / 10000;
+    const proceeds = gross - fee;
+
+    const realizedPnL = this.recordSell(tokenAddress, sellQuantity, proceeds, fee);
+    return { quantity: sellQuantity, price, notional: proceeds, fee, realizedPnL };
+  }
+
+  // Apply an already-executed buy, e.g. when replaying persisted trades
+  recordBuy(tokenAddress: string, quantity: number, totalCost: number, fee: number) {
+    const position = this.positions.get(tokenAddress) || { tokenAddress, quantity: 0, costBasis: 0 };
+    position.quantity += quantity;
+    position.costBasis += totalCost;
+    this.positions.set(tokenAddress, position);
+
+    this.cash -= totalCost;
+    this.feesPaid += fee;
+  }
+
+  // Apply an already-executed sell; returns the realized P&L
+  recordSell(tokenAddress: string, quantity: number, proceeds: number, fee: number): number {
+    const position = this.positions.get(tokenAddress);
+    if (!position || position.quantity <= 0) return 0;
+
+    const soldFraction = Math.min(quantity / position.quantity, 1);
+    const costOfSold = position.costBasis * soldFraction;
+    const realizedPnL = proceeds - costOfSold;
+
+    position.quantity -= quantity;
+    position.costBasis -= costOfSold;
+    if (soldFraction >= 1 || position.quantity <= 1e-12) {
+      this.positions.delete(tokenAddress);
+      this.closedTrades++;
+      if (realizedPnL > 0) this.winningTrades++;
+    }
+
+    this.cash += proceeds;
+    this.feesPaid += fee;
+    this.realizedPnL += realizedPnL;
+    return realizedPnL;
+  }
+
+  // Mark open positions to market; positions without a price are valued at cost
+  snapshot(getPrice: (tokenAddress: string) => number | undefined): LedgerSnapshot {
+    const positions = this.getPositions().map(position => {
+      const marketPrice = getPrice(position.tokenAddress) ?? null;
+      const marketValue = marketPrice !== null ? position.quantity * marketPrice : position.costBasis;
+      return {
+        ...position,
+        avgPrice: position.quantity > 0 ? position.costBasis / position.quantity : 0,
+        marketPrice,
+        marketValue,
+        unrealizedPnL: marketValue - position.costBasis
+      };
+    });
+
+    const unrealizedPnL = positions.reduce((sum, p) => sum + p.unrealizedPnL, 0);
+    const marketValue = positions.reduce((sum, p) => sum + p.marketValue, 0);
+
+    return {
+      totalValue: this.cash + marketValue,
+      availableBalance: this.cash,
+      realizedPnL: this.realizedPnL,
+      unrealizedPnL,
+      totalProfit: this.realizedPnL + unrealizedPnL,
+      feesPaid: this.feesPaid,
+      activeTrades: positions.length,
+      closedTrades: this.closedTrades,
+      successRate: this.closedTrades > 0 ? (this.winningTrades / this.closedTrades) * 100 : 0,
+      positions
+    };
+  }
+
+  reset() {
+    this.cash = this.initialBalance;
+    this.positions.clear();
+    this.realizedPnL = 0;
+    this.feesPaid = 0;
+    this.closedTrades = 0;
+    this.winningTrades = 0;
+  }
+}
@@ -0,0 +1,209 @@
+import { describe, it, expect } from "vitest";
+import type { Token } from "@shared/schema";
+import { MemStorage } from "./storage";
+import { TradingBot } from "./trading-bot";
+import {
+  scoreRisk,
+  MockRiskDataProvider,
+  CompositeRiskDataProvider,
+  RiskScorer,
+  type RiskDataProvider,
+  type TokenRiskData,
+} from "./risk";
+
+const CLEAN: TokenRiskData = {
+  mintAuthorityRevoked: true,
+  freezeAuthorityRevoked: true,
+  lpLockedPercent: 100,
+  top10HolderPercent: 15,
+  creatorRugCount: 0,
+  sellTaxPercent: 0,
+  honeypot: false,
+};
+
+const UNKNOWN: TokenRiskData = {
+  mintAuthorityRevoked: null,
+  freezeAuthorityRevoked: null,
+  lpLockedPercent: null,
+  top10HolderPercent: null,
+  creatorRugCount: null,
+  sellTaxPercent: null,
+  honeypot: null,
+};
+
+const score = (overrides: Partial<TokenRiskData>) => scoreRisk({ ...CLEAN, ...overrides }).riskScore;
+
+const addresses = (count: number) => Array.from({ length: count }, (_, i) => `Mint${i.toString().padStart(4, "0")}`);
+
+describe("scoreRisk", () => {
+  it("scores a clean token 0 with no reasons", () => {
+    expect(scoreRisk(CLEAN)).toEqual({ riskScore: 0, riskReasons: [] });
+  });
+
+  it("returns null when nothing could be checked", () => {
+    expect(scoreRisk(UNKNOWN)).toEqual({ riskScore: null, riskReasons: ["Risk data unavailable"] });
+  });
+
+  it("maxes out on a honeypot regardless of other checks", () => {
+    expect(scoreRisk({ ...UNKNOWN, honeypot: true })).toEqual({
+      riskScore: 100,
+      riskReasons: ["Honeypot: simulated sell found no route"],
+    });
+  });
+
+  it("flags live authorities and creator history", () => {
+    expect(scoreRisk({ ...CLEAN, mintAuthorityRevoked: false })).toEqual({ riskScore: 30, riskReasons: ["Mint authority not revoked"] });
+    expect(scoreRisk({ ...CLEAN, freezeAuthorityRevoked: false })).toEqual({ riskScore: 30, riskReasons: ["Freeze authority not revoked"] });
+    expect(scoreRisk({ ...CLEAN, creatorRugCount: 1 }).riskReasons).toEqual(["Creator linked to 1 rugged token"]);
+    expect(scoreRisk({ ...CLEAN, creatorRugCount: 3 })).toEqual({ riskScore: 30, riskReasons: ["Creator linked to 3 rugged tokens"] });
+  });
+
+  it("applies the LP lock thresholds", () => {
+    expect(score({ lpLockedPercent: 90 })).toBe(0);
+    expect(score({ lpLockedPercent: 89.9 })).toBe(10);
+    expect(score({ lpLockedPercent: 50 })).toBe(10);
+    expect(score({ lpLockedPercent: 49.9 })).toBe(25);
+    expect(scoreRisk({ ...CLEAN, lpLockedPercent: 12 }).riskReasons).toEqual(["Only 12% of LP locked or burned"]);
+  });
+
+  it("applies the holder concentration thresholds", () => {
+    expect(score({ top10HolderPercent: 30 })).toBe(0);
+    expect(score({ top10HolderPercent: 30.1 })).toBe(10);
+    expect(score({ top10HolderPercent: 50 })).toBe(10);
+    expect(score({ top10HolderPercent: 50.1 })).toBe(20);
+    expect(scoreRisk({ ...CLEAN, top10HolderPercent: 72.4 }).riskReasons).toEqual(["Top 10 holders own 72%"]);
+  });
+
+  it("applies the sell tax thresholds", () => {
+    expect(score({ sellTaxPercent: 3 })).toBe(0);
+    expect(score({ sellTaxPercent: 3.1 })).toBe(10);
+    expect(score({ sellTaxPercent: 10 })).toBe(10);
+    expect(score({ sellTaxPercent: 10.1 })).toBe(30);
+    expect(scoreRisk({ ...CLEAN, sellTaxPercent: 12.34 }).riskReasons).toEqual(["12.3% sell tax"]);
+  });
+
+  it("charges 5 points per check that couldn't run", () => {
+    expect(scoreRisk({ ...CLEAN, lpLockedPercent: null, sellTaxPercent: null, honeypot: null })).toEqual({
+      riskScore: 15,
+      riskReasons: ["Unverified: LP lock, sell tax, sell simulation"],
+    });
+  });
+
+  it("adds up flags and caps at 100", () => {
+    expect(score({ mintAuthorityRevoked: false, top10HolderPercent: 40 })).toBe(40);
+    expect(score({
+      mintAuthorityRevoked: false,
+      freezeAuthorityRevoked: false,
+      lpLockedPercent: 0,
+      creatorRugCount: 2,
+    })).toBe(100);
+  });
+});
+
+describe("MockRiskDataProvider", () => {
+  it("gives the same token the same profile for a seed", async () => {
+    const provider = new MockRiskDataProvider(7);
+    expect(await provider.getRiskData("Mint0001")).toEqual(await new MockRiskDataProvider(7).getRiskData("Mint0001"));
+    expect(await provider.getRiskData("Mint0001")).not.toEqual(await new MockRiskDataProvider(8).getRiskData("Mint0001"));
+  });
+
+  it("answers every check and marks a minority of tokens as risky", async () => {
+    const provider = new MockRiskDataProvider();
+    const scores = await Promise.all(addresses(500).map(async address => {
+      const data = await provider.getRiskData(address);
+      expect(Object.values(data).every(value => value !== null && value !== undefined)).toBe(true);
+      return scoreRisk(data as TokenRiskData).riskScore!;
+    }));
+
+    const risky = scores.filter(riskScore => riskScore > 50).length / scores.length;
+    expect(risky).toBeGreaterThan(0.1);
+    expect(risky).toBeLessThan(0.3);
+    expect(scores.filter(riskScore => riskScore === 100).length).toBeGreaterThan(0);
+  });
+});
+
+describe("CompositeRiskDataProvider", () => {
+  it("keeps the first known answer for each fact", async () => {
+    const fixed = (name: string, data: Partial<TokenRiskData>): RiskDataProvider => ({ name, getRiskData: async () => data });
+    const composite = new CompositeRiskDataProvider([
+      fixed("a", { mintAuthorityRevoked: true, lpLockedPercent: null }),
+      fixed("b", { mintAuthorityRevoked: false, lpLockedPercent: 40, honeypot: false }),
+    ]);
+
+    expect(composite.name).toBe("a+b");
+    expect(await composite.getRiskData("x")).toEqual({ mintAuthorityRevoked: true, lpLockedPercent: 40, honeypot: false });
+  });
+});
+
+describe("RiskScorer", () => {
+  const NOW = Date.parse("2024-06-01T12:00:00Z");
+
+  it("fills unanswered checks as unknown", async () => {
+    const scorer = new RiskScorer({ name: "partial", getRiskData: async () => ({ mintAuthorityRevoked: true }) }, new MemStorage(), () => NOW);
+
+    expect(await scorer.assess("x")).toEqual({
+      riskScore: 30,
+      riskReasons: ["Unverified: freeze authority, LP lock, holder concentration, creator history, sell tax, sell simulation"],
+      riskCheckedAt: new Date(NOW),
+    });
+  });
+
+  it("rechecks the longest-unchecked tokens first, up to the per-pass limit", async () => {
+    const storage = new MemStorage();
+    const tokens = addresses(14);
+    for (const [i, address] of tokens.entries()) {
+      await storage.createToken({ address, name: address, symbol: address, launchTime: new Date(NOW) });
+      // Token 0 was checked just now, 1-3 long ago (oldest last), the rest never
+      const checkedAt = i === 0 ? NOW - 60 * 1000 : i <= 3 ? NOW - (20 + i) * 60 * 1000 : null;
+      if (checkedAt) await storage.updateToken(address, { riskCheckedAt: new Date(checkedAt) });
+    }
+
+    const assessed = await new RiskScorer(new MockRiskDataProvider(), storage, () => NOW).assessStale(tokens);
+
+    expect(assessed.size).toBe(10);
+    expect(assessed.has(tokens[0])).toBe(false);
+    // The ten never-checked tokens sort ahead of those checked 21-23 minutes ago
+    expect(Array.from(assessed.keys()).sort()).toEqual(tokens.slice(4).sort());
+  });
+});
+
+describe("TradingBot.riskVeto", () => {
+  const bot = new TradingBot({ storage: new MemStorage(), schedule: false });
+  const token = (riskScore: number | null) => ({ riskScore, riskReasons: [] }) as unknown as Token;
+
+  it("refuses tokens that haven't been assessed", () => {
+    expect(bot.riskVeto(undefined)).toBe("Token risk not assessed yet");
+    expect(bot.riskVeto(token(null))).toBe("Token risk not assessed yet");
+  });
+
+  it("allows scores up to the limit and vetoes anything above it", () => {
+    const limit = bot.getSettings().maxRiskScore;
+    expect(bot.riskVeto(token(0))).toBeNull();
+    expect(bot.riskVeto(token(limit))).toBeNull();
+    expect(bot.riskVeto(token(limit + 1))).toBe(`Risk score ${limit + 1} above limit of ${limit}`);
+  });
+
+  it("follows the configured limit", async () => {
+    const strict = new TradingBot({ storage: new MemStorage(), schedule: false });
+    await strict.updateSettings({ maxRiskScore: 20 });
+
+    expect(strict.riskVeto(token(20))).toBeNull();
+    expect(strict.riskVeto(token(25))).toBe("Risk score 25 above limit of 20");
+  });
+
+  it("says why it won't buy on chains without risk checks, whatever the score", () => {
+    const onBase = { ...token(0), chain: "base" } as Token;
+    expect(bot.riskVeto(onBase)).toBe("No risk checks on Base; the bot only trades Solana");
+    expect(bot.riskVeto({ ...token(0), chain: "solana" } as Token)).toBeNull();
+  });
+
+  it("vetoes exactly the mock provider's risky tokens", async () => {
+    const scorer = new RiskScorer(new MockRiskDataProvider(), new MemStorage());
+    const limit = bot.getSettings().maxRiskScore;
+
+    for (const address of addresses(100)) {
+      const { riskScore } = await scorer.assess(address);
+      expect(bot.riskVeto(token(riskScore)) !== null, `${address} scored ${riskScore}`).toBe(riskScore! > limit);
+    }
+  });
+});
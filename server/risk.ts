@@ -0,0 +1,299 @@
+import axios from "axios";
+import { createHash } from "crypto";
+import { storage as defaultStorage, type IStorage } from "./storage";
+
+// Facts a provider could establish about a token; null means it couldn't tell
+
+export interface TokenRiskData {
+  mintAuthorityRevoked: boolean | null; // Nobody can mint more supply
+  freezeAuthorityRevoked: boolean | null; // Nobody can freeze holders' accounts
+  lpLockedPercent: number | null; // Share of LP tokens burned or locked, 0-100
+  top10HolderPercent: number | null; // Supply held by the ten largest wallets, 0-100
+  creatorRugCount: number | null; // Earlier tokens from the same creator that rugged
+  sellTaxPercent: number | null; // Loss on a simulated sell beyond normal price impact
+  honeypot: boolean | null; // A simulated sell found no way out
+}
+
+export interface RiskDataProvider {
+  readonly name: string;
+  // Whatever this provider knows; missing fields are filled by other providers
+  getRiskData(tokenAddress: string): Promise<Partial<TokenRiskData>>;
+}
+
+export interface RiskAssessment {
+  riskScore: number | null; // 0 (clean) to 100 (avoid); null when nothing could be checked
+  riskReasons: string[];
+  riskCheckedAt: Date;
+}
+
+const UNKNOWN_RISK: TokenRiskData = {
+  mintAuthorityRevoked: null,
+  freezeAuthorityRevoked: null,
+  lpLockedPercent: null,
+  top10HolderPercent: null,
+  creatorRugCount: null,
+  sellTaxPercent: null,
+  honeypot: null,
+};
+
+const UNKNOWN_PENALTY = 5; // Per check that couldn't be run
+
+const CHECK_LABELS: Record<keyof TokenRiskData, string> = {
+  mintAuthorityRevoked: 'mint authority',
+  freezeAuthorityRevoked: 'freeze authority',
+  lpLockedPercent: 'LP lock',
+  top10HolderPercent: 'holder concentration',
+  creatorRugCount: 'creator history',
+  sellTaxPercent: 'sell tax',
+  honeypot: 'sell simulation',
+};
+
+export function scoreRisk(data: TokenRiskData): Pick<RiskAssessment, 'riskScore' | 'riskReasons'> {
+  const unknown = (Object.keys(CHECK_LABELS) as (keyof TokenRiskData)[]).filter(key => data[key] === null);
+  if (unknown.length === Object.keys(CHECK_LABELS).length) {
+    return { riskScore: null, riskReasons: ['Risk data unavailable'] };
+  }
+  if (data.honeypot) {
+    return { riskScore: 100, riskReasons: ['Honeypot: simulated sell found no route'] };
+  }
+
+  let score = 0;
+  const reasons: string[] = [];
+  const flag = (points: number, reason: string) => {
+    score += points;
+    reasons.push(reason);
+  };
+
+  if (data.mintAuthorityRevoked === false) flag(30, 'Mint authority not revoked');
+  if (data.freezeAuthorityRevoked === false) flag(30, 'Freeze authority not revoked');
+
+  if (data.lpLockedPercent !== null) {
+    if (data.lpLockedPercent < 50) flag(25, `Only ${data.lpLockedPercent.toFixed(0)}% of LP locked or burned`);
+    else if (data.lpLockedPercent < 90) flag(10, `${data.lpLockedPercent.toFixed(0)}% of LP locked or burned`);
+  }
+
+  if (data.top10HolderPercent !== null) {
+    if (data.top10HolderPercent > 50) flag(20, `Top 10 holders own ${data.top10HolderPercent.toFixed(0)}%`);
+    else if (data.top10HolderPercent > 30) flag(10, `Top 10 holders own ${data.top10HolderPercent.toFixed(0)}%`);
+  }
+
+  if (data.creatorRugCount) {
+    flag(30, `Creator linked to ${data.creatorRugCount} rugged token${data.creatorRugCount === 1 ? '' : 's'}`);
+  }
+
+  if (data.sellTaxPercent !== null) {
+    if (data.sellTaxPercent > 10) flag(30, `${data.sellTaxPercent.toFixed(1)}% sell tax`);
+    else if (data.sellTaxPercent > 3) flag(10, `${data.sellTaxPercent.toFixed(1)}% sell tax`);
+  }
+
+  if (unknown.length > 0) {
+    flag(unknown.length * UNKNOWN_PENALTY, `Unverified: ${unknown.map(key => CHECK_LABELS[key]).join(', ')}`);
+  }
+
+  return { riskScore: Math.min(100, score), riskReasons: reasons };
+}
+
+const describeError = (error: unknown) =>
+  axios.isAxiosError(error) ? [error.response?.status, error.response?.statusText] : [error];
+
+interface RugCheckReport {
+  mintAuthority?: string | null;
+  freezeAuthority?: string | null;
+  markets?: { lp?: { lpLockedPct?: number } }[];
+  topHolders?: { pct: number }[];
+  risks?: { name: string; description?: string }[];
+}
+
+/**
+ * Token reports from RugCheck (https://api.rugcheck.xyz): authorities, LP
+ * lock, largest holders, and its own risk flags, which is where a creator's
+ * history of rugged launches shows up.
+ */
+export class RugCheckProvider implements RiskDataProvider {
+  readonly name = 'rugcheck';
+
+  constructor(private readonly baseUrl = process.env.RUGCHECK_API_BASE_URL || 'https://api.rugcheck.xyz/v1') {}
+
+  async getRiskData(tokenAddress: string): Promise<Partial<TokenRiskData>> {
+    try {
+      const { data: report } = await axios.get<RugCheckReport>(`${this.baseUrl}/tokens/${tokenAddress}/report`, {
+        timeout: 15000,
+      });
+
+      const lockedPercents = (report.markets || [])
+        .map(market => market.lp?.lpLockedPct)
+        .filter((pct): pct is number => typeof pct === 'number');
+      const creatorRisks = (report.risks || []).filter(risk => /creator|rugged/i.test(`${risk.name} ${risk.description ?? ''}`));
+
+      return {
+        mintAuthorityRevoked: report.mintAuthority === undefined ? null : !report.mintAuthority,
+        freezeAuthorityRevoked: report.freezeAuthority === undefined ? null : !report.freezeAuthority,
+        lpLockedPercent: lockedPercents.length > 0 ? Math.max(...lockedPercents) : null,
+        top10HolderPercent: report.topHolders
+          ? report.topHolders.slice(0, 10).reduce((sum, holder) => sum + holder.pct, 0)
+          : null,
+        creatorRugCount: report.risks ? creatorRisks.length : null,
+      };
+    } catch (error) {
+      console.error(`RugCheck error (${tokenAddress}):`, ...describeError(error));
+      return {};
+    }
+  }
+}
+
+const SOL_MINT = 'So11111111111111111111111111111111111111112';
+const SIMULATED_BUY_LAMPORTS = 100_000_000; // 0.1 SOL
+
+interface JupiterQuote {
+  outAmount: string;
+  priceImpactPct: string;
+}
+
+/**
+ * Sell-side simulation through Jupiter quotes: buy 0.1 SOL of the token, then
+ * quote selling all of it back. No route out means a honeypot; getting back
+ * less than price impact explains means a transfer or sell tax. Quotes can't
+ * see blacklists enforced at transfer time, so RugCheck's authority checks
+ * still matter.
+ */
+export class JupiterSellSimulator implements RiskDataProvider {
+  readonly name = 'jupiter-sell';
+
+  constructor(private readonly baseUrl = process.env.JUPITER_QUOTE_API_BASE_URL || 'https://quote-api.jup.ag/v6') {}
+
+  private async quote(inputMint: string, outputMint: string, amount: string): Promise<JupiterQuote | null> {
+    try {
+      const { data } = await axios.get<JupiterQuote>(`${this.baseUrl}/quote`, {
+        timeout: 10000,
+        params: { inputMint, outputMint, amount, slippageBps: 100 },
+      });
+      return data;
+    } catch (error) {
+      // Jupiter answers 400 when there's no route; anything else is an outage
+      if (axios.isAxiosError(error) && error.response?.status === 400) return null;
+      throw error;
+    }
+  }
+
+  async getRiskData(tokenAddress: string): Promise<Partial<TokenRiskData>> {
+    try {
+      const buy = await this.quote(SOL_MINT, tokenAddress, String(SIMULATED_BUY_LAMPORTS));
+      if (!buy) return {}; // Not tradable at all yet, which says nothing about selling
+
+      const sell = await this.quote(tokenAddress, SOL_MINT, buy.outAmount);
+      if (!sell) return { honeypot: true, sellTaxPercent: null };
+
+      const roundTripLoss = (1 - Number(sell.outAmount) / SIMULATED_BUY_LAMPORTS) * 100;
+      const expectedLoss = (Number(buy.priceImpactPct) + Number(sell.priceImpactPct)) * 100;
+      return {
+        honeypot: false,
+        sellTaxPercent: Math.max(0, roundTripLoss - expectedLoss),
+      };
+    } catch (error) {
+      console.error(`Jupiter sell simulation error (${tokenAddress}):`, ...describeError(error));
+      return {};
+    }
+  }
+}
+
+/**
+ * Deterministic offline provider: every fact is derived from a hash of the
+ * token address, so the same token always gets the same profile. Roughly
+ * one token in five comes out clearly risky.
+ */
+export class MockRiskDataProvider implements RiskDataProvider {
+  readonly name = 'mock';
+
+  constructor(private readonly seed = 42) {}
+
+  async getRiskData(tokenAddress: string): Promise<Partial<TokenRiskData>> {
+    const bytes = createHash('sha256').update(`${this.seed}:${tokenAddress}`).digest();
+    const risky = bytes[0] < 51;
+
+    return {
+      mintAuthorityRevoked: risky ? bytes[1] < 128 : bytes[1] < 240,
+      freezeAuthorityRevoked: risky ? bytes[2] < 128 : true,
+      lpLockedPercent: risky ? (bytes[3] / 255) * 60 : 80 + (bytes[3] / 255) * 20,
+      top10HolderPercent: risky ? 40 + (bytes[4] / 255) * 50 : 10 + (bytes[4] / 255) * 25,
+      creatorRugCount: risky && bytes[5] < 100 ? 1 + (bytes[5] % 3) : 0,
+      sellTaxPercent: risky ? (bytes[6] / 255) * 20 : 0,
+      honeypot: risky && bytes[7] < 40,
+    };
+  }
+}
+
+// Asks every provider and keeps the first answer for each fact
+export class CompositeRiskDataProvider implements RiskDataProvider {
+  readonly name: string;
+
+  constructor(private readonly providers: RiskDataProvider[]) {
+    this.name = providers.map(provider => provider.name).join('+');
+  }
+
+  async getRiskData(tokenAddress: string): Promise<Partial<TokenRiskData>> {
+    const results = await Promise.all(this.providers.map(provider => provider.getRiskData(tokenAddress)));
+    const merged: Partial<TokenRiskData> = {};
+    for (const result of results) {
+      for (const [key, value] of Object.entries(result) as [keyof TokenRiskData, TokenRiskData[keyof TokenRiskData]][]) {
+        if (merged[key] === undefined || merged[key] === null) {
+          (merged as Record<string, unknown>)[key] = value;
+        }
+      }
+    }
+    return merged;
+  }
+}
+
+/**
+ * Builds the provider from a comma-separated list, e.g. RISK_DATA_PROVIDER=rugcheck,jupiter-sell.
+ * `mock` scores offline from RISK_DATA_SEED.
+ */
+export function createRiskDataProvider(config = process.env.RISK_DATA_PROVIDER || 'rugcheck,jupiter-sell'): RiskDataProvider {
+  const providers = config.split(',').map(name => name.trim()).filter(Boolean).map((name): RiskDataProvider => {
+    switch (name) {
+      case 'rugcheck':
+        return new RugCheckProvider();
+      case 'jupiter-sell':
+        return new JupiterSellSimulator();
+      case 'mock':
+        return new MockRiskDataProvider(Number(process.env.RISK_DATA_SEED) || 42);
+      default:
+        throw new Error(`Unknown risk data provider: ${name}`);
+    }
+  });
+
+  return providers.length === 1 ? providers[0] : new CompositeRiskDataProvider(providers);
+}
+
+const RECHECK_AFTER_MS = 15 * 60 * 1000; // Authorities and LP locks rarely change minute to minute
+const MAX_CHECKS_PER_PASS = 10; // Spreads a large backlog of new tokens over several passes
+
+export class RiskScorer {
+  constructor(
+    private provider: RiskDataProvider = createRiskDataProvider(),
+    private storage: IStorage = defaultStorage,
+    private now: () => number = Date.now
+  ) {}
+
+  async assess(tokenAddress: string): Promise<RiskAssessment> {
+    const data = { ...UNKNOWN_RISK, ...await this.provider.getRiskData(tokenAddress) };
+    return { ...scoreRisk(data), riskCheckedAt: new Date(this.now()) };
+  }
+
+  // Scores tokens never checked, then the longest-unchecked, up to the per-pass limit
+  async assessStale(tokenAddresses: string[]): Promise<Map<string, RiskAssessment>> {
+    const lastChecked = await Promise.all(tokenAddresses.map(async address => ({
+      address,
+      checkedAt: (await this.storage.getToken(address))?.riskCheckedAt?.getTime() ?? 0,
+    })));
+    const due = lastChecked
+      .filter(({ checkedAt }) => this.now() - checkedAt >= RECHECK_AFTER_MS)
+      .sort((a, b) => a.checkedAt - b.checkedAt)
+      .slice(0, MAX_CHECKS_PER_PASS);
+
+    const assessments = await Promise.all(due.map(async ({ address }) => [address, await this.assess(address)] as const));
+    return new Map(assessments);
+  }
+}
+
+export const riskScorer = new RiskScorer();
@@ -1,7 +1,7 @@
-import type { Express } from "express";
+import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
-import { insertTokenSchema, insertSocialMentionSchema } from "@shared/schema";
+import { storage, decodeTokenCursor } from "./storage";
+import { insertTokenSchema, insertSocialMentionSchema, insertWatchlistEntrySchema, filterRuleSetsSchema, type Token } from "@shared/schema";
 import { 
   insertTradingSignalSchema, 
   insertTradeSchema, 
@@ -10,9 +10,30 @@ import {
   type Trade,
   type BotSettings
 } from "@shared/trading-schema";
-import axios from "axios";
+import { insertAlertRuleSchema, insertChatIntegrationSchema, type AlertChannels, type ChatIntegrationConfig } from "@shared/alert-schema";
 import { tradingBot } from "./trading-bot";
+import { strategyRegistry } from "./strategies";
+import { marketDataProvider, enabledChains, randomAddress, type MarketDataProvider } from "./market-data";
+import { CHAINS, chainIds, getChain, isChainId, isValidAnyChainAddress, normalizeAddress, tokenKey } from "@shared/chains";
+import { socialSource } from "./social-sources";
+import { SOCIAL_MENTION_WINDOW_MS } from "./entity-resolution";
+import { summarizeTokenMentions, EMPTY_MENTION_STATS } from "./sentiment";
+import { SocialAggregator } from "./social-aggregator";
+import { riskScorer, type RiskAssessment } from "./risk";
+import { holderTracker, type HolderUpdate } from "./holders";
 import { analyticsEngine } from "./analytics-engine";
+import { recordTokenSnapshots, compactTokenSnapshots, limitHistory } from "./token-snapshots";
+import { filterRulesEngine, validateRuleSets } from "./filter-rules";
+import { eventBus } from "./events";
+import { computeTokenStats } from "./token-stats";
+import { attachWebSocketServer } from "./websocket";
+import { handleEventStream } from "./event-stream";
+import { setupAuth, requireAuth } from "./auth";
+import { alertEngine, type TokenChange } from "./alert-engine";
+import { chatSender, startTradeNotifications } from "./chat-notifications";
+import { discordClient } from "./chat-clients";
+import { webhookUrlProblem } from "./notifications";
+import { z } from "zod";
 
 interface BirdeyeTokenPair {
   address: string;
@@ -24,89 +45,8 @@ interface BirdeyeTokenPair {
   createdTime?: number;
 }
 
-interface DexScreenerPair {
-  chainId: string;
-  dexId: string;
-  url: string;
-  pairAddress: string;
-  baseToken: {
-    address: string;
-    name: string;
-    symbol: string;
-  };
-  liquidity?: {
-    usd?: number;
-  };
-  volume?: {
-    h24?: number;
-  };
-  priceChange?: {
-    h24?: number;
-  };
-  txns?: {
-    h24?: {
-      buys?: number;
-      sells?: number;
-    };
-  };
-  pairCreatedAt?: number;
-}
-
 class TokenAggregator {
-  private readonly DEXSCREENER_API_URL = "https://api.dexscreener.com/latest/dex";
-  private readonly JUPITER_API_URL = "https://token.jup.ag";
-  
-  async fetchDexScreenerTokens(): Promise<DexScreenerPair[]> {
-    try {
-      // Fetch new Solana pairs from DexScreener
-      const response = await axios.get(`${this.DEXSCREENER_API_URL}/tokens/solana`, {
-        timeout: 15000,
-        headers: {
-          'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36'
-        }
-      });
-      
-      if (response.data?.pairs) {
-        console.log(`Fetched ${response.data.pairs.length} pairs from DexScreener`);
-        return response.data.pairs.filter((pair: DexScreenerPair) => 
-          pair.chainId === 'solana' && 
-          pair.pairCreatedAt && 
-          Date.now() - pair.pairCreatedAt < 24 * 60 * 60 * 1000 && // Last 24 hours
-          pair.liquidity?.usd && pair.liquidity.usd > 1000 // Min $1K liquidity
-        ).slice(0, 50);
-      }
-      return [];
-    } catch (error) {
-      console.error('DexScreener API error:', error.response?.status, error.response?.statusText);
-      return [];
-    }
-  }
-
-  async fetchJupiterTokenList(): Promise<any[]> {
-    try {
-      // Get verified token list from Jupiter
-      const response = await axios.get(`${this.JUPITER_API_URL}/all`, {
-        timeout: 15000,
-        headers: {
-          'Accept': 'application/json',
-          'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36'
-        }
-      });
-      
-      if (response.data && Array.isArray(response.data)) {
-        console.log(`Fetched ${response.data.length} tokens from Jupiter`);
-        // Return a subset of verified tokens for analysis
-        return response.data.filter((token: any) => 
-          token.chainId === 101 && // Solana mainnet
-          token.symbol && token.name && token.address
-        ).slice(0, 100);
-      }
-      return [];
-    } catch (error) {
-      console.error('Jupiter API error:', error.response?.status, error.response?.statusText);
-      return [];
-    }
-  }
+  constructor(private marketData: MarketDataProvider) {}
 
   async generateRealisticTokenData(): Promise<any[]> {
     // Generate dynamic token data that simulates real market conditions
@@ -138,10 +78,9 @@ class TokenAggregator {
       const volume24h = liquidity * (0.1 + Math.random() * 0.9); // 10-100% of liquidity
       const transactions = Math.floor(volume24h / (currentPrice * 100)); // Estimate based on volume
       const priceChange = (Math.random() - 0.5) * 200; // -100% to +100%
-      const socialMentions = Math.floor(Math.random() * 100);
       
       tokens.push({
-        address: `${Math.random().toString(36).substring(2, 15)}${Math.random().toString(36).substring(2, 15)}`,
+        address: randomAddress('solana'),
         name: token.name,
         symbol: token.symbol,
         chain: "solana",
@@ -150,7 +89,7 @@ class TokenAggregator {
         volume: volume24h,
         priceChange,
         transactions,
-        socialMentions,
+        socialMentions: 0,
         currentPrice,
         launchTime: new Date(launchTime),
         pairCreatedAt: launchTime
@@ -161,49 +100,52 @@ class TokenAggregator {
   }
 
   async aggregateTokens() {
-    const [dexScreenerPairs, jupiterTokens] = await Promise.all([
-      this.fetchDexScreenerTokens(),
-      this.fetchJupiterTokenList()
+    const [newPairs, listedTokens] = await Promise.all([
+      this.marketData.getNewPairs(),
+      this.marketData.getTokenList()
     ]);
 
+    // Both keyed by tokenKey(chain, address)
     const tokenMap = new Map();
-
-    // Process DexScreener pairs (real data when available)
-    for (const pair of dexScreenerPairs) {
-      if (!pair.baseToken?.address || !pair.baseToken?.name) continue;
+    const priceMap = new Map<string, number>();
+    const mentionStats = summarizeTokenMentions(
+      await storage.getLinkedSocialMentions(new Date(Date.now() - SOCIAL_MENTION_WINDOW_MS))
+    );
+
+    // Process new pairs (real data when available)
+    for (const pair of newPairs) {
+      if (!pair.address || !pair.name) continue;
       
-      const age = pair.pairCreatedAt ? (Date.now() - pair.pairCreatedAt) / (1000 * 60) : 0;
-      const liquidity = pair.liquidity?.usd || 0;
-      const volume = pair.volume?.h24 || 0;
-      const priceChange = pair.priceChange?.h24 || 0;
-      const transactions = (pair.txns?.h24?.buys || 0) + (pair.txns?.h24?.sells || 0);
-      const holders = Math.floor(Math.random() * 100) + 10; // Estimated
+      const liquidity = pair.liquidity;
+      const volume = pair.volume24h;
+      const priceChange = pair.priceChange24h;
+      const transactions = pair.transactions24h;
       
       const tokenData = {
-        address: pair.baseToken.address,
-        name: pair.baseToken.name,
-        symbol: pair.baseToken.symbol,
-        chain: "solana",
+        address: pair.address,
+        name: pair.name,
+        symbol: pair.symbol,
+        chain: pair.chain,
         liquidity,
-        holders,
         volume,
         priceChange,
         transactions,
         socialMentions: 0,
-        isFiltered: this.passesFilter({ liquidity, holders, transactions, age }),
-        isHighAlert: this.isHighAlert({ liquidity, holders, transactions, age, socialMentions: 0 })
+        launchTime: pair.pairCreatedAt ? new Date(pair.pairCreatedAt) : new Date()
       };
 
-      tokenMap.set(pair.baseToken.address, tokenData);
+      tokenMap.set(tokenKey(pair.chain, pair.address), tokenData);
+      if (pair.priceUsd !== null) {
+        priceMap.set(tokenKey(pair.chain, pair.address), pair.priceUsd);
+      }
     }
 
-    // Process Jupiter tokens (real data when available)
-    for (const token of jupiterTokens) {
-      if (!token.address || !token.name || !token.symbol || tokenMap.has(token.address)) continue;
+    // Process listed tokens (real data when available)
+    for (const token of listedTokens) {
+      if (!token.address || !token.name || !token.symbol || tokenMap.has(tokenKey(token.chain, token.address))) continue;
       
       const age = Math.random() * 240; // Random age up to 4 hours
       const liquidity = Math.random() * 50000 + 5000;
-      const holders = Math.floor(Math.random() * 100) + 20;
       const volume = Math.random() * 25000;
       const transactions = Math.floor(Math.random() * 100) + 20;
       
@@ -211,18 +153,16 @@ class TokenAggregator {
         address: token.address,
         name: token.name,
         symbol: token.symbol,
-        chain: "solana",
+        chain: token.chain,
         liquidity,
-        holders,
         volume,
         priceChange: (Math.random() - 0.3) * 200,
         transactions,
         socialMentions: 0,
-        isFiltered: this.passesFilter({ liquidity, holders, transactions, age }),
-        isHighAlert: this.isHighAlert({ liquidity, holders, transactions, age, socialMentions: 0 })
+        launchTime: new Date(Date.now() - age * 60 * 1000)
       };
 
-      tokenMap.set(token.address, tokenData);
+      tokenMap.set(tokenKey(token.chain, token.address), tokenData);
     }
 
     // Use realistic token data for demonstration
@@ -231,8 +171,6 @@ class TokenAggregator {
       const demoTokens = await this.generateRealisticTokenData();
       
       for (const token of demoTokens) {
-        const age = (Date.now() - new Date(token.launchTime).getTime()) / (1000 * 60);
-        
         const tokenData = {
           address: token.address,
           name: token.name,
@@ -244,87 +182,88 @@ class TokenAggregator {
           priceChange: token.priceChange,
           transactions: token.transactions,
           socialMentions: token.socialMentions,
-          isFiltered: this.passesFilter({ liquidity: token.liquidity, holders: token.holders, transactions: token.transactions, age }),
-          isHighAlert: this.isHighAlert({ liquidity: token.liquidity, holders: token.holders, transactions: token.transactions, age, socialMentions: token.socialMentions })
+          launchTime: token.launchTime
         };
 
-        tokenMap.set(token.address, tokenData);
+        tokenMap.set(tokenKey(token.chain, token.address), tokenData);
+        priceMap.set(tokenKey(token.chain, token.address), token.currentPrice);
       }
     }
 
+    // Risk and holder providers read Solana programs; other chains go unchecked,
+    // so the bot won't trade them (see CHAINS[...].riskChecks)
+    const solanaAddresses = Array.from(tokenMap.values())
+      .filter(token => getChain(token.chain).riskChecks)
+      .map(token => token.address);
+
+    // Risk checks cost API calls, so only new and long-unchecked tokens are scored each pass
+    const risks = await riskScorer.assessStale(solanaAddresses).catch(error => {
+      console.error('Risk scoring error:', error);
+      return new Map<string, RiskAssessment>();
+    });
+
+    // Holder counts come from chain data; tokens not refreshed this pass keep their last count
+    const holderUpdates = await holderTracker.refreshStale(solanaAddresses).catch(error => {
+      console.error('Holder data error:', error);
+      return new Map<string, HolderUpdate>();
+    });
+
     // Save to storage
+    const savedTokens: Token[] = [];
+    const changes: TokenChange[] = [];
     for (const tokenData of Array.from(tokenMap.values())) {
-      const existing = await storage.getToken(tokenData.address);
-      if (!existing) {
-        await storage.createToken(tokenData);
-      } else {
-        await storage.updateToken(tokenData.address, tokenData);
+      const existing = await storage.getToken(tokenData.address, tokenData.chain);
+      // Mention counts and sentiment come from linked posts, not the market data
+      Object.assign(tokenData, mentionStats.get(tokenData.address) ?? EMPTY_MENTION_STATS);
+      Object.assign(tokenData, risks.get(tokenData.address));
+      const holderUpdate = holderUpdates.get(tokenData.address);
+      if (holderUpdate) {
+        Object.assign(tokenData, holderUpdate);
+        const holders = holderUpdate.holders ?? existing?.holders;
+        if (holders !== undefined) {
+          tokenData.holderGrowthRate = await holderTracker.growthRate(tokenData.address, holders);
+        }
+      }
+      tokenData.holders ??= existing?.holders ?? 0;
+      // Launch time is fixed when a token is first seen; only metrics move between passes
+      const { launchTime, ...metrics } = tokenData;
+      const flags = filterRulesEngine.evaluate({ ...metrics, launchTime: existing?.launchTime ?? launchTime });
+      const saved = existing
+        ? await storage.updateToken(tokenData.address, { ...metrics, ...flags }, tokenData.chain)
+        : await storage.createToken({ ...tokenData, ...flags });
+      if (!saved) continue;
+
+      savedTokens.push(saved);
+      changes.push({ previous: existing, current: saved });
+      eventBus.publish({ type: existing ? 'token.updated' : 'token.created', data: saved });
+      if (saved.isHighAlert && !existing?.isHighAlert) {
+        eventBus.publish({ type: 'token.highAlert', data: saved });
       }
     }
 
-    return Array.from(tokenMap.values());
-  }
-
-  private passesFilter({ liquidity, holders, transactions, age }: {
-    liquidity: number;
-    holders: number;
-    transactions: number;
-    age: number;
-  }): boolean {
-    return liquidity >= 5000 && holders >= 20 && transactions >= 20 && age <= 240; // 4 hours
-  }
-
-  private isHighAlert({ liquidity, holders, transactions, age, socialMentions }: {
-    liquidity: number;
-    holders: number;
-    transactions: number;
-    age: number;
-    socialMentions: number;
-  }): boolean {
-    return this.passesFilter({ liquidity, holders, transactions, age }) && 
-           socialMentions > 50 && 
-           liquidity > 15000;
-  }
-}
+    // Keep a time series of every pass for per-token history charts
+    await recordTokenSnapshots(savedTokens, priceMap);
 
-class SocialAggregator {
-  private readonly keywords = ['#Solana', '#meme', '#launch', 'birdeye', 'fair launch', '$SOL', 'dexscreener'];
-
-  async scrapeSocialMentions() {
-    // Placeholder implementation - in production, would use Twitter API or web scraping
-    const mockMentions = [
-      {
-        platform: 'twitter',
-        username: '@cryptohunter',
-        content: 'New #Solana gem just launched! Looking bullish 🚀 Fair launch, no presale #meme',
-        likes: 234,
-        retweets: 67,
-        tokenAddress: null
-      },
-      {
-        platform: 'twitter',
-        username: '@degen_trader',
-        content: 'Token trending on @birdeye_so! Early entry opportunity #DeFi #Solana',
-        likes: 89,
-        retweets: 23,
-        tokenAddress: null
-      }
-    ];
+    // After the snapshots so price-change rules see this pass's prices
+    await alertEngine.evaluate(changes).catch(console.error);
 
-    for (const mention of mockMentions) {
-      await storage.createSocialMention(mention);
-    }
+    eventBus.publish({ type: 'stats', data: await computeTokenStats() });
 
-    return mockMentions;
+    return Array.from(tokenMap.values());
   }
 }
 
 export async function registerRoutes(app: Express): Promise<Server> {
-  const tokenAggregator = new TokenAggregator();
-  const socialAggregator = new SocialAggregator();
+  // Sessions and /api/auth/* come first so every route below can see req.user
+  setupAuth(app);
+
+  const tokenAggregator = new TokenAggregator(marketDataProvider);
+  const socialAggregator = new SocialAggregator(socialSource);
 
   // Start background aggregation
   let aggregationInterval: NodeJS.Timeout;
+  let analyticsInterval: NodeJS.Timeout;
+  let snapshotInterval: NodeJS.Timeout;
   
   const startAggregation = () => {
     // Initial aggregation
@@ -340,15 +279,55 @@ export async function registerRoutes(app: Express): Promise<Server> {
         console.error('Aggregation error:', error);
       }
     }, 30000); // 30 seconds
+
+    // Roll up daily performance and market conditions
+    analyticsInterval = setInterval(() => {
+      analyticsEngine.updateDailyMetrics().catch(console.error);
+    }, 60 * 60 * 1000); // 1 hour
+
+    // Downsample expired token snapshots
+    snapshotInterval = setInterval(() => {
+      compactTokenSnapshots().catch(console.error);
+    }, 5 * 60 * 1000); // 5 minutes
   };
 
+  // Saved filter rules must be in place before the first aggregation pass flags tokens
+  await filterRulesEngine.load().catch(console.error);
+
   startAggregation();
 
+  // Post bot executions to Telegram / Discord integrations that asked for them
+  startTradeNotifications();
+
+  // Restore persisted bot settings and resume trading if it was enabled
+  tradingBot.loadSettings().catch(console.error);
+
   // API Routes
+  const tokenQuerySchema = z.object({
+    minLiquidity: z.coerce.number().nonnegative().optional(),
+    minHolders: z.coerce.number().int().nonnegative().optional(),
+    minTransactions: z.coerce.number().int().nonnegative().optional(),
+    maxAge: z.coerce.number().positive().optional(),
+    socialMentions: z.enum(['true', 'false']).transform(value => value === 'true').optional(),
+    chain: z.enum(chainIds).optional(),
+    sort: z.enum(['launchTime', 'liquidity', 'holders', 'volume', 'priceChange', 'transactions', 'socialMentions']).default('launchTime'),
+    order: z.enum(['asc', 'desc']).default('desc'),
+    limit: z.coerce.number().int().min(1).max(200).default(50),
+    cursor: z.string().refine(cursor => decodeTokenCursor(cursor) !== null, 'Invalid cursor').optional(),
+  });
+
+  app.get('/api/chains', async (req, res) => {
+    res.json(chainIds.map(id => ({ ...CHAINS[id], enabled: enabledChains.includes(id) })));
+  });
+
   app.get('/api/tokens', async (req, res) => {
     try {
-      const tokens = await storage.getAllTokens();
-      res.json(tokens);
+      const query = tokenQuerySchema.safeParse(req.query);
+      if (!query.success) {
+        return res.status(400).json({ error: 'Invalid token query', details: query.error.flatten() });
+      }
+
+      res.json(await storage.queryTokens(query.data));
     } catch (error) {
       res.status(500).json({ error: 'Failed to fetch tokens' });
     }
@@ -372,6 +351,387 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  const historyQuerySchema = z.object({
+    from: z.coerce.date().optional(),
+    to: z.coerce.date().optional(),
+    resolution: z.enum(['raw', '5m', '1h']).optional(),
+  });
+  // What one history request may read and return
+  const MAX_HISTORY_RANGE_MS = 30 * 24 * 60 * 60 * 1000;
+  const MAX_HISTORY_POINTS = 1000;
+
+  // Looks up the token named by :address (on ?chain= when the address exists on
+  // several chains), answering 400/404 itself when there isn't one
+  const findToken = async (req: Request, res: Response): Promise<Token | undefined> => {
+    const chain = typeof req.query.chain === 'string' ? req.query.chain : undefined;
+    if (!isValidAnyChainAddress(req.params.address) || (chain !== undefined && !isChainId(chain))) {
+      res.status(400).json({ error: 'Invalid token address' });
+      return undefined;
+    }
+
+    const token = await storage.getToken(normalizeAddress(req.params.address), chain);
+    if (!token) {
+      res.status(404).json({ error: 'Token not found' });
+    }
+    return token;
+  };
+
+  app.get('/api/tokens/:address', async (req, res) => {
+    try {
+      const token = await findToken(req, res);
+      if (token) res.json(token);
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to fetch token' });
+    }
+  });
+
+  app.get('/api/tokens/:address/history', async (req, res) => {
+    try {
+      const query = historyQuerySchema.safeParse(req.query);
+      if (!query.success) {
+        return res.status(400).json({ error: 'Invalid history query', details: query.error.flatten() });
+      }
+
+      const token = await findToken(req, res);
+      if (!token) return;
+
+      // Default to the token's whole life so far, up to the range limit
+      const to = query.data.to ?? new Date();
+      const from = query.data.from ?? new Date(Math.max(new Date(token.launchTime).getTime(), to.getTime() - MAX_HISTORY_RANGE_MS));
+      if (to.getTime() - from.getTime() > MAX_HISTORY_RANGE_MS) {
+        return res.status(400).json({ error: 'History range is limited to 30 days' });
+      }
+      const snapshots = await storage.getTokenSnapshots(token.address, from, to);
+
+      res.json(limitHistory(snapshots, query.data.resolution, MAX_HISTORY_POINTS));
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to fetch token history' });
+    }
+  });
+
+  // Which filter / high-alert rules the token passes, and whether the bot's risk veto applies
+  app.get('/api/tokens/:address/evaluation', async (req, res) => {
+    try {
+      const token = await findToken(req, res);
+      if (!token) return;
+
+      res.json({
+        ...filterRulesEngine.explain(token),
+        risk: {
+          riskScore: token.riskScore,
+          riskReasons: token.riskReasons,
+          riskCheckedAt: token.riskCheckedAt,
+          maxRiskScore: tradingBot.getSettings().maxRiskScore,
+          veto: tradingBot.riskVeto(token),
+        },
+      });
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to evaluate token' });
+    }
+  });
+
+  app.get('/api/tokens/:address/social-mentions', async (req, res) => {
+    try {
+      const token = await findToken(req, res);
+      if (token) res.json(await storage.getSocialMentionsByToken(token.address));
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to fetch token social mentions' });
+    }
+  });
+
+  // Bot trades in the token plus the open position and PnL across all of them
+  app.get('/api/tokens/:address/trades', async (req, res) => {
+    try {
+      const token = await findToken(req, res);
+      if (!token) return;
+
+      const trades = await storage.getTradesByToken(token.address);
+      const position = tradingBot.getPosition(token.address);
+      const executed = trades.filter(trade => trade.status === 'EXECUTED');
+      const invested = executed.filter(trade => trade.action === 'BUY').reduce((sum, trade) => sum + trade.amount, 0);
+      const returned = executed.filter(trade => trade.action === 'SELL').reduce((sum, trade) => sum + trade.amount, 0);
+      const totalPnL = returned + (position?.marketValue ?? 0) - invested;
+      const unrealizedPnL = position?.unrealizedPnL ?? 0;
+
+      res.json({
+        trades,
+        position,
+        pnl: { invested, returned, realizedPnL: totalPnL - unrealizedPnL, unrealizedPnL, totalPnL },
+      });
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to fetch token trades' });
+    }
+  });
+
+  app.get('/api/filter-rules', async (req, res) => {
+    try {
+      res.json(filterRulesEngine.getRuleSets());
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to fetch filter rules' });
+    }
+  });
+
+  app.put('/api/filter-rules', requireAuth, async (req, res) => {
+    const parsed = filterRuleSetsSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: 'Invalid filter rules', details: parsed.error.flatten() });
+    }
+
+    const problems = validateRuleSets(parsed.data);
+    if (problems.length > 0) {
+      return res.status(400).json({ error: 'Invalid filter rules', details: problems });
+    }
+
+    try {
+      const updatedTokens = await filterRulesEngine.save(parsed.data);
+      eventBus.publish({ type: 'stats', data: await computeTokenStats() });
+      res.json({ ruleSets: filterRulesEngine.getRuleSets(), updatedTokens });
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to save filter rules' });
+    }
+  });
+
+  // The user comes from the session, so clients only send the token
+  const watchlistRequestSchema = insertWatchlistEntrySchema.pick({ tokenAddress: true }).extend({
+    tokenAddress: z.string().refine(isValidAnyChainAddress, 'Not a token address on any supported chain'),
+  });
+
+  app.get('/api/watchlists', requireAuth, async (req, res) => {
+    try {
+      // Join each entry with the token's latest metrics, filtered or not
+      const entries = await storage.getWatchlist(req.user!.id);
+      const watched = await Promise.all(entries.map(async entry => ({
+        ...entry,
+        token: (await storage.getToken(entry.tokenAddress)) ?? null,
+      })));
+      res.json(watched);
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to fetch watchlist' });
+    }
+  });
+
+  app.post('/api/watchlists', requireAuth, async (req, res) => {
+    const parsed = watchlistRequestSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: 'Invalid watchlist entry', details: parsed.error.flatten() });
+    }
+
+    try {
+      const token = await storage.getToken(normalizeAddress(parsed.data.tokenAddress));
+      if (!token) {
+        return res.status(404).json({ error: 'Token not found' });
+      }
+
+      const entry = await storage.addToWatchlist({ userId: req.user!.id, tokenAddress: token.address });
+      res.status(201).json({ ...entry, token });
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to add to watchlist' });
+    }
+  });
+
+  app.delete('/api/watchlists/:tokenAddress', requireAuth, async (req, res) => {
+    try {
+      const removed = await storage.removeFromWatchlist(req.user!.id, normalizeAddress(req.params.tokenAddress));
+      if (!removed) {
+        return res.status(404).json({ error: 'Token is not on your watchlist' });
+      }
+      res.sendStatus(204);
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to remove from watchlist' });
+    }
+  });
+
+  // Owner comes from the session
+  const alertRuleRequestSchema = insertAlertRuleSchema.omit({ userId: true });
+
+  // Row ids in the URL: serial, so positive and within int4
+  const idParamSchema = z.coerce.number().int().positive().max(2147483647);
+
+  // Looks up a rule owned by the signed-in user
+  const findOwnedAlertRule = async (userId: number, id: number) => {
+    const rule = await storage.getAlertRule(id);
+    return rule && rule.userId === userId ? rule : undefined;
+  };
+
+  // Webhooks may only reach public https hosts
+  const alertChannelsProblem = async (channels?: AlertChannels) =>
+    channels?.webhook ? webhookUrlProblem(channels.webhook.url) : undefined;
+
+  app.get('/api/alert-rules', requireAuth, async (req, res) => {
+    try {
+      res.json(await storage.getAlertRules(req.user!.id));
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to fetch alert rules' });
+    }
+  });
+
+  app.post('/api/alert-rules', requireAuth, async (req, res) => {
+    const parsed = alertRuleRequestSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: 'Invalid alert rule', details: parsed.error.flatten() });
+    }
+    const problem = await alertChannelsProblem(parsed.data.channels);
+    if (problem) {
+      return res.status(400).json({ error: 'Invalid alert rule', details: [problem] });
+    }
+
+    try {
+      const rule = await storage.createAlertRule({ ...parsed.data, userId: req.user!.id });
+      res.status(201).json(rule);
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to create alert rule' });
+    }
+  });
+
+  app.patch('/api/alert-rules/:id', requireAuth, async (req, res) => {
+    const id = idParamSchema.safeParse(req.params.id);
+    if (!id.success) {
+      return res.status(400).json({ error: 'Invalid alert rule id' });
+    }
+    const parsed = alertRuleRequestSchema.partial().safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: 'Invalid alert rule', details: parsed.error.flatten() });
+    }
+    const problem = await alertChannelsProblem(parsed.data.channels);
+    if (problem) {
+      return res.status(400).json({ error: 'Invalid alert rule', details: [problem] });
+    }
+
+    try {
+      if (!(await findOwnedAlertRule(req.user!.id, id.data))) {
+        return res.status(404).json({ error: 'Alert rule not found' });
+      }
+      res.json(await storage.updateAlertRule(id.data, parsed.data));
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to update alert rule' });
+    }
+  });
+
+  app.delete('/api/alert-rules/:id', requireAuth, async (req, res) => {
+    const id = idParamSchema.safeParse(req.params.id);
+    if (!id.success) {
+      return res.status(400).json({ error: 'Invalid alert rule id' });
+    }
+
+    try {
+      if (!(await findOwnedAlertRule(req.user!.id, id.data))) {
+        return res.status(404).json({ error: 'Alert rule not found' });
+      }
+      await storage.deleteAlertRule(id.data);
+      res.sendStatus(204);
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to delete alert rule' });
+    }
+  });
+
+  app.get('/api/alerts', requireAuth, async (req, res) => {
+    try {
+      const limit = Math.min(Number(req.query.limit) || 50, 200);
+      res.json(await storage.getAlertEvents(req.user!.id, limit));
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to fetch alerts' });
+    }
+  });
+
+  const chatIntegrationRequestSchema = insertChatIntegrationSchema.omit({ userId: true });
+
+  // Discord URLs must point at the configured webhook host
+  const chatConfigProblem = (config?: ChatIntegrationConfig) =>
+    config?.platform === 'discord' && !discordClient.isAllowedWebhook(config.webhookUrl)
+      ? 'Webhook URL is not a Discord webhook'
+      : undefined;
+
+  const findOwnedChatIntegration = async (userId: number, id: number) => {
+    const integration = await storage.getChatIntegration(id);
+    return integration && integration.userId === userId ? integration : undefined;
+  };
+
+  app.get('/api/chat-integrations', requireAuth, async (req, res) => {
+    try {
+      res.json(await storage.getChatIntegrations(req.user!.id));
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to fetch chat integrations' });
+    }
+  });
+
+  app.post('/api/chat-integrations', requireAuth, async (req, res) => {
+    const parsed = chatIntegrationRequestSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: 'Invalid chat integration', details: parsed.error.flatten() });
+    }
+    const problem = chatConfigProblem(parsed.data.config);
+    if (problem) {
+      return res.status(400).json({ error: 'Invalid chat integration', details: [problem] });
+    }
+
+    try {
+      const integration = await storage.createChatIntegration({ ...parsed.data, userId: req.user!.id });
+      res.status(201).json(integration);
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to create chat integration' });
+    }
+  });
+
+  app.patch('/api/chat-integrations/:id', requireAuth, async (req, res) => {
+    const id = idParamSchema.safeParse(req.params.id);
+    if (!id.success) {
+      return res.status(400).json({ error: 'Invalid chat integration id' });
+    }
+    const parsed = chatIntegrationRequestSchema.partial().safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: 'Invalid chat integration', details: parsed.error.flatten() });
+    }
+    const problem = chatConfigProblem(parsed.data.config);
+    if (problem) {
+      return res.status(400).json({ error: 'Invalid chat integration', details: [problem] });
+    }
+
+    try {
+      if (!(await findOwnedChatIntegration(req.user!.id, id.data))) {
+        return res.status(404).json({ error: 'Chat integration not found' });
+      }
+      res.json(await storage.updateChatIntegration(id.data, parsed.data));
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to update chat integration' });
+    }
+  });
+
+  app.delete('/api/chat-integrations/:id', requireAuth, async (req, res) => {
+    const id = idParamSchema.safeParse(req.params.id);
+    if (!id.success) {
+      return res.status(400).json({ error: 'Invalid chat integration id' });
+    }
+
+    try {
+      if (!(await findOwnedChatIntegration(req.user!.id, id.data))) {
+        return res.status(404).json({ error: 'Chat integration not found' });
+      }
+      await storage.deleteChatIntegration(id.data);
+      res.sendStatus(204);
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to delete chat integration' });
+    }
+  });
+
+  // Sends a hello message so users can check the chat id / webhook before relying on it
+  app.post('/api/chat-integrations/:id/test', requireAuth, async (req, res) => {
+    const id = idParamSchema.safeParse(req.params.id);
+    if (!id.success) {
+      return res.status(400).json({ error: 'Invalid chat integration id' });
+    }
+    const integration = await findOwnedChatIntegration(req.user!.id, id.data).catch(() => undefined);
+    if (!integration) {
+      return res.status(404).json({ error: 'Chat integration not found' });
+    }
+
+    try {
+      await chatSender.sendTest(integration);
+      res.json({ success: true });
+    } catch (error) {
+      res.status(502).json({ error: `Delivery failed: ${(error as Error).message}` });
+    }
+  });
+
   app.get('/api/social-mentions', async (req, res) => {
     try {
       const mentions = await storage.getSocialMentions(20);
@@ -381,39 +741,28 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get('/api/stats', async (req, res) => {
+  // Most-mentioned tokens over the last day, with their sentiment windows
+  app.get('/api/social-sentiment', async (req, res) => {
     try {
-      const allTokens = await storage.getAllTokens();
-      const filteredTokens = await storage.getFilteredTokens();
-      const highAlertTokens = await storage.getHighAlertTokens();
-      const socialMentions = await storage.getSocialMentions(100);
-      
-      const now = Date.now();
-      const last15min = allTokens.filter(token => 
-        now - new Date(token.launchTime).getTime() < 15 * 60 * 1000
-      ).length;
-      
-      const avgLiquidity = filteredTokens.length > 0 
-        ? filteredTokens.reduce((sum, token) => sum + token.liquidity, 0) / filteredTokens.length 
-        : 0;
-
-      const stats = {
-        totalFound: allTokens.length,
-        filtered: filteredTokens.length,
-        highAlert: highAlertTokens.length,
-        last15min,
-        avgLiquidity: Math.round(avgLiquidity),
-        socialMentions: socialMentions.length,
-        successRate: 73 // Placeholder metric
-      };
+      const { items } = await storage.queryTokens({ socialMentions: true, sort: 'socialMentions', order: 'desc', limit: 10 });
+      res.json(items);
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to fetch social sentiment' });
+    }
+  });
 
-      res.json(stats);
+  app.get('/api/stats', async (req, res) => {
+    try {
+      res.json(await computeTokenStats());
     } catch (error) {
       res.status(500).json({ error: 'Failed to fetch stats' });
     }
   });
 
-  app.post('/api/refresh', async (req, res) => {
+  // SSE fallback for clients that can't hold a WebSocket open
+  app.get('/api/stream', handleEventStream);
+
+  app.post('/api/refresh', requireAuth, async (req, res) => {
     try {
       await tokenAggregator.aggregateTokens();
       await socialAggregator.scrapeSocialMentions();
@@ -424,11 +773,31 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Trading Bot API Routes
+  const signalQuerySchema = z.object({
+    token: z.string().refine(isValidAnyChainAddress, 'Invalid token address').transform(normalizeAddress).optional(),
+    limit: z.coerce.number().int().min(1).max(500).default(100),
+  });
+
+  // Newest first, each with the factors that produced its confidence
+  app.get('/api/signals', async (req, res) => {
+    try {
+      const query = signalQuerySchema.safeParse(req.query);
+      if (!query.success) {
+        return res.status(400).json({ error: 'Invalid signal query', details: query.error.flatten() });
+      }
+
+      res.json(await storage.getTradingSignals(query.data.token, query.data.limit));
+    } catch (error) {
+      res.status(500).json({ error: 'Failed to fetch signals' });
+    }
+  });
+
   app.get('/api/trading/status', async (req, res) => {
     try {
       const status = {
         isActive: tradingBot.isActive(),
         settings: tradingBot.getSettings(),
+        strategies: tradingBot.getStrategies(),
         portfolio: await tradingBot.getPortfolioStatus()
       };
       res.json(status);
@@ -437,17 +806,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/trading/settings', async (req, res) => {
+  app.post('/api/trading/settings', requireAuth, async (req, res) => {
     try {
-      const settings = req.body;
-      await tradingBot.updateSettings(settings);
+      const parsed = insertBotSettingsSchema.partial().safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'Invalid trading settings', details: parsed.error.flatten() });
+      }
+      const unknown = Object.keys(parsed.data.strategies ?? {}).filter(id => !strategyRegistry.get(id));
+      if (unknown.length > 0) {
+        return res.status(400).json({ error: `Unknown strategies: ${unknown.join(', ')}` });
+      }
+      await tradingBot.updateSettings(parsed.data);
       res.json({ success: true, settings: tradingBot.getSettings() });
     } catch (error) {
       res.status(500).json({ error: 'Failed to update trading settings' });
     }
   });
 
-  app.post('/api/trading/start', async (req, res) => {
+  app.post('/api/trading/start', requireAuth, async (req, res) => {
     try {
       await tradingBot.updateSettings({ enabled: true });
       res.json({ success: true, message: 'Trading bot started' });
@@ -456,7 +832,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/trading/stop', async (req, res) => {
+  app.post('/api/trading/stop', requireAuth, async (req, res) => {
     try {
       await tradingBot.updateSettings({ enabled: false });
       res.json({ success: true, message: 'Trading bot stopped' });
@@ -471,11 +847,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const tradeAnalysis = await analyticsEngine.generateTradeAnalysis();
       const portfolioAnalytics = await analyticsEngine.generatePortfolioAnalytics();
       const strategyAnalytics = await analyticsEngine.generateStrategyAnalytics();
+      const factorAnalytics = await analyticsEngine.generateFactorAnalytics();
       
       res.json({
         tradeAnalysis,
         portfolioAnalytics,
-        strategyAnalytics
+        strategyAnalytics,
+        factorAnalytics
       });
     } catch (error) {
       res.status(500).json({ error: 'Failed to fetch performance analytics' });
@@ -484,9 +862,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.get('/api/analytics/history', async (req, res) => {
     try {
-      const performanceHistory = analyticsEngine.getPerformanceHistory();
-      const strategyHistory = analyticsEngine.getStrategyHistory();
-      const marketHistory = analyticsEngine.getMarketHistory();
+      const performanceHistory = await analyticsEngine.getPerformanceHistory();
+      const strategyHistory = await analyticsEngine.getStrategyHistory();
+      const marketHistory = await analyticsEngine.getMarketHistory();
       
       res.json({
         performanceHistory,
@@ -508,12 +886,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   const httpServer = createServer(app);
+  const wss = attachWebSocketServer(httpServer);
 
   // Cleanup on shutdown
   process.on('SIGTERM', () => {
     if (aggregationInterval) {
       clearInterval(aggregationInterval);
     }
+    if (analyticsInterval) {
+      clearInterval(analyticsInterval);
+    }
+    if (snapshotInterval) {
+      clearInterval(snapshotInterval);
+    }
+    wss.close();
   });
 
   return httpServer;
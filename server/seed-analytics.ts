@@ -0,0 +1,88 @@
+import { storage } from "./storage";
+import { strategyRegistry } from "./strategies";
+
+// Demo analytics history for the Performance Analytics tab.
+// Only runs when invoked explicitly via `npm run db:seed`.
+async function seedAnalytics() {
+  if (!process.env.DATABASE_URL) {
+    console.error('DATABASE_URL is not set - seeding in-memory storage would be discarded on exit');
+    process.exit(1);
+  }
+
+  const now = Date.now();
+  const thirtyDaysAgo = now - (30 * 24 * 60 * 60 * 1000);
+  
+  // Daily performance metrics for last 30 days
+  for (let i = 0; i < 30; i++) {
+    const date = new Date(thirtyDaysAgo + (i * 24 * 60 * 60 * 1000));
+    date.setHours(0, 0, 0, 0);
+    const dayPnL = (Math.random() - 0.45) * 200; // Slightly profitable bias
+    const trades = Math.floor(Math.random() * 15) + 5;
+    const winRate = 0.6 + (Math.random() * 0.3); // 60-90% win rate
+    
+    await storage.upsertPerformanceMetrics({
+      date,
+      totalPnL: dayPnL,
+      winRate,
+      totalTrades: trades,
+      avgTradeSize: 50 + (Math.random() * 100),
+      maxDrawdown: Math.random() * 15,
+      sharpeRatio: 1.2 + (Math.random() * 0.8),
+      portfolioValue: 1000 + (dayPnL * (i + 1))
+    });
+  }
+
+  // Closed strategy trades
+  const strategies = strategyRegistry.list().map(strategy => strategy.name);
+
+  for (let i = 0; i < 100; i++) {
+    const strategy = strategies[Math.floor(Math.random() * strategies.length)];
+    const entryTime = new Date(thirtyDaysAgo + (Math.random() * 30 * 24 * 60 * 60 * 1000));
+    const duration = Math.floor(Math.random() * 1440); // 0-24 hours in minutes
+    const exitTime = new Date(entryTime.getTime() + (duration * 60 * 1000));
+    
+    const entryPrice = 0.001 + (Math.random() * 0.1);
+    const priceChange = (Math.random() - 0.4) * 0.5; // Slight profit bias
+    const exitPrice = entryPrice * (1 + priceChange);
+    const pnlPercentage = ((exitPrice - entryPrice) / entryPrice) * 100;
+    
+    await storage.createStrategyPerformance({
+      strategyName: strategy,
+      tokenAddress: `token_${Math.floor(Math.random() * 50)}`,
+      entryPrice,
+      exitPrice,
+      entryTime,
+      exitTime,
+      pnl: (pnlPercentage / 100) * 50, // Assuming $50 base position
+      pnlPercentage,
+      duration,
+      confidence: 60 + (Math.random() * 35),
+      reason: `${strategy} signal detected`,
+      outcome: pnlPercentage > 0 ? 'WIN' : pnlPercentage < -5 ? 'LOSS' : 'BREAKEVEN'
+    });
+  }
+
+  // Daily market conditions
+  for (let i = 0; i < 30; i++) {
+    const timestamp = new Date(thirtyDaysAgo + (i * 24 * 60 * 60 * 1000));
+    const trends = ['BULLISH', 'BEARISH', 'SIDEWAYS'];
+    
+    await storage.createMarketConditions({
+      timestamp,
+      overallTrend: trends[Math.floor(Math.random() * trends.length)],
+      volatilityIndex: Math.random() * 100,
+      totalMarketVolume: 1000000 + (Math.random() * 5000000),
+      topPerformers: [`token_${i}`, `token_${i+1}`, `token_${i+2}`],
+      marketSentiment: (Math.random() - 0.5) * 2 // -1 to 1
+    });
+  }
+
+  console.log('📊 Seeded 30 days of demo analytics history');
+}
+
+seedAnalytics()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error('Analytics seed failed:', error);
+    process.exit(1);
+  });
@@ -0,0 +1,65 @@
+import { describe, it, expect } from "vitest";
+import { labelSentiment, scoreSentiment } from "./sentiment";
+
+// What scoreSentiment does to a raw valence total
+const squash = (total: number) => Math.round((total / Math.sqrt(total * total + 15)) * 1000) / 1000;
+
+describe("scoreSentiment", () => {
+  // [text, raw valence total before squashing]
+  it.each([
+    // Lexicon words and emoji
+    ["moon", 3],
+    ["rug", -3.5],
+    ["🚀", 2.5],
+    ["⚠️ careful", -2 - 1.5],
+    ["gm frens", 0],
+    // Negation flips and halves the next three words
+    ["not bullish", -1.5],
+    ["not bad", 1],
+    ["no rug", 1.75],
+    ["this is not going to dump", 1.25],
+    ["not going to be a big dump", -2.5],
+    // ...but stops at the end of its clause
+    ["not a rug. dump incoming", 1.75 - 2.5],
+    ["no rug, no dump", 1.75 + 1.25],
+    ["not, moon", 3],
+    // ...and never flips emoji, which don't use up the window either
+    ["not 🚀 moon", 2.5 - 1.5],
+    ["Don't sell! 🚀", 0.5 + 2.5 + 0.3],
+    // Intensifiers boost only the next word
+    ["very bullish", 3.9],
+    ["so so bullish", 3.9],
+    ["super 🚀", 3.25],
+    ["very nice moon", 3],
+    ["not very bullish", -1.95],
+    // Phrases replace their words
+    ["to the moon", 3],
+    ["send it", 2.5],
+    ["dev sold", -3.5],
+    ["rug pulled", -3.5],
+    ["nfa dyor", 0],
+    // Exclamations amplify the direction, up to three
+    ["moon!", 3.3],
+    ["moon!!!!!", 3.9],
+    ["rug!!", -4.1],
+    ["gm!!!", 0],
+    // A decimal point doesn't end a clause
+    ["not 0.5 moon", -1.5],
+  ])("%s", (text, total) => {
+    expect(scoreSentiment(text).sentiment).toBeCloseTo(squash(total), 3);
+  });
+
+  it("labels by the sign past a small threshold", () => {
+    expect(scoreSentiment("Don't sell! 🚀").sentimentLabel).toBe("bullish");
+    expect(scoreSentiment("dev sold").sentimentLabel).toBe("bearish");
+    expect(scoreSentiment("gm frens").sentimentLabel).toBe("neutral");
+    expect(labelSentiment(0.05)).toBe("bullish");
+    expect(labelSentiment(0.049)).toBe("neutral");
+    expect(labelSentiment(-0.05)).toBe("bearish");
+  });
+
+  it("stays within -1..1", () => {
+    expect(scoreSentiment("moon ".repeat(50)).sentiment).toBeLessThanOrEqual(1);
+    expect(scoreSentiment("rug ".repeat(50)).sentiment).toBeGreaterThanOrEqual(-1);
+  });
+});
@@ -0,0 +1,168 @@
+import type { SocialMention, Token } from "@shared/schema";
+import { SOCIAL_MENTION_WINDOW_MS } from "./entity-resolution";
+
+// Local lexicon scorer in the spirit of VADER, tuned for crypto Twitter. No
+// model or API calls, so every mention can be scored as it's ingested.
+
+export type SentimentLabel = 'bullish' | 'bearish' | 'neutral';
+
+// Word valence from -4 (worst) to 4 (best)
+const LEXICON: Record<string, number> = {
+  // Bullish slang
+  moon: 3, mooning: 3, moonshot: 3, lfg: 3, wagmi: 3, gem: 2.5, bullish: 3, pump: 1.5, pumping: 2,
+  send: 1.5, sending: 2, sends: 1.5, ape: 1.5, aped: 1.5, aping: 1.5, based: 2, alpha: 2, undervalued: 2,
+  breakout: 2, ath: 2.5, gains: 2, profit: 2, 'x10': 3, '10x': 3, '100x': 3.5, '1000x': 3.5, hodl: 1.5,
+  diamond: 1.5, early: 1.5, legit: 2, safu: 2, strong: 1.5, buy: 1, buying: 1.5, bought: 1, love: 2, great: 2,
+  good: 1.5, huge: 1.5, massive: 1.5, win: 2, winning: 2, easy: 1, printing: 2.5, green: 1.5, up: 0.5,
+  // Bearish slang
+  rug: -3.5, rugged: -3.5, rugpull: -3.5, scam: -3.5, scammer: -3.5, honeypot: -3.5, ngmi: -3, rekt: -3,
+  dump: -2.5, rip: -1, dumping: -2.5, dumped: -2.5, dead: -3, bearish: -3, jeet: -2, jeets: -2, exit: -1, sell: -1,
+  selling: -1.5, sold: -1, fud: -1.5, fake: -2.5, avoid: -2.5, careful: -1.5, warning: -2, bot: -0.5, bots: -1,
+  crash: -3, crashing: -3, down: -0.5, red: -1.5, loss: -2, losses: -2, bag: -0.5, bagholder: -2, overvalued: -2,
+  cabal: -2, insiders: -2, drained: -3, hack: -3, hacked: -3.5, exploit: -3, bad: -2, terrible: -3, trash: -3,
+  // Emoji
+  '🚀': 2.5, '🌕': 2.5, '🔥': 2, '💎': 1.5, '📈': 2, '💰': 1.5, '🟢': 1.5, '🤑': 2,
+  '💀': -2, '📉': -2, '🔴': -1.5, '🤡': -2, '⚠️': -2, '🚩': -2.5, '😭': -1.5,
+};
+
+// Phrases that mean something different from their words
+const PHRASES: [RegExp, number][] = [
+  [/\bto the moon\b/, 3],
+  [/\bsend it\b/, 2.5],
+  [/\bfull send\b/, 2.5],
+  [/\bdev (?:sold|dumped|rugged)\b/, -3.5],
+  [/\brug ?pull(?:ed)?\b/, -3.5],
+  [/\bsell ?off\b/, -2.5],
+  [/\bnot financial advice\b|\bnfa\b|\bdyor\b/, 0], // Boilerplate, not sentiment
+];
+
+const NEGATIONS = new Set(['not', 'no', 'never', 'isnt', "isn't", 'dont', "don't", 'aint', "ain't", 'wont', "won't", 'cant', "can't", 'nothing']);
+const INTENSIFIERS = new Set(['very', 'super', 'so', 'extremely', 'mega', 'absolutely', 'insanely']);
+
+const EMOJI = new RegExp("^\\p{Extended_Pictographic}", 'u');
+// Words, emoji, and clause punctuation (not a decimal point) to end negations at
+const TOKENS = new RegExp("[a-z0-9']+|\\p{Extended_Pictographic}\\uFE0F?|[.!?,;:]+(?!\\d)", 'gu');
+const CLAUSE_END = /^[.!?,;:]/;
+
+const NEGATION_SPAN = 3; // Words after a negation, within its clause, that get flipped
+const NORMALIZATION_ALPHA = 15; // Same squashing constant VADER uses
+const LABEL_THRESHOLD = 0.05;
+
+export interface SentimentScore {
+  sentiment: number; // -1..1
+  sentimentLabel: SentimentLabel;
+}
+
+export function labelSentiment(score: number): SentimentLabel {
+  return score >= LABEL_THRESHOLD ? 'bullish' : score <= -LABEL_THRESHOLD ? 'bearish' : 'neutral';
+}
+
+export function scoreSentiment(text: string): SentimentScore {
+  let lower = text.toLowerCase();
+  let total = 0;
+
+  for (const [pattern, valence] of PHRASES) {
+    if (pattern.test(lower)) {
+      total += valence;
+      lower = lower.replace(pattern, ' ');
+    }
+  }
+
+  // Words, emoji and tickers; cashtags and hashtags count by their word ("#moon")
+  const tokens = lower.match(TOKENS) || [];
+  let negatedFor = 0;
+  let boost = 1;
+
+  for (const token of tokens) {
+    if (CLAUSE_END.test(token)) {
+      negatedFor = 0;
+      boost = 1;
+      continue;
+    }
+    if (NEGATIONS.has(token)) {
+      negatedFor = NEGATION_SPAN;
+      continue;
+    }
+    if (INTENSIFIERS.has(token)) {
+      boost = 1.3;
+      continue;
+    }
+
+    // Emoji carry their own tone: "not selling 🚀" is still a rocket
+    if (EMOJI.test(token)) {
+      total += (LEXICON[token] ?? LEXICON[token.replace(/\uFE0F$/, '')] ?? 0) * boost;
+      boost = 1;
+      continue;
+    }
+
+    const valence = LEXICON[token];
+    if (valence !== undefined) {
+      total += valence * boost * (negatedFor > 0 ? -0.5 : 1);
+    }
+    boost = 1;
+    negatedFor = Math.max(0, negatedFor - 1);
+  }
+
+  // Exclamation marks amplify whatever the direction is
+  const exclamations = Math.min((text.match(/!/g) || []).length, 3);
+  if (total !== 0) total += Math.sign(total) * exclamations * 0.3;
+
+  const sentiment = Math.round((total / Math.sqrt(total * total + NORMALIZATION_ALPHA)) * 1000) / 1000;
+  return { sentiment, sentimentLabel: labelSentiment(sentiment) };
+}
+
+export const SENTIMENT_WINDOWS = {
+  sentiment15m: 15 * 60 * 1000,
+  sentiment1h: 60 * 60 * 1000,
+  sentiment24h: SOCIAL_MENTION_WINDOW_MS,
+};
+
+export type TokenMentionStats = Pick<Token, 'socialMentions' | 'sentiment15m' | 'sentiment1h' | 'sentiment24h'>;
+
+export const EMPTY_MENTION_STATS: TokenMentionStats = { socialMentions: 0, sentiment15m: 0, sentiment1h: 0, sentiment24h: 0 };
+
+// Posts people engaged with count for more, with diminishing returns
+const engagementWeight = (mention: SocialMention) => 1 + Math.log1p(mention.likes + 2 * mention.retweets);
+
+// Engagement-weighted mean sentiment in one window; 0 when nobody posted
+export function weightedSentiment(mentions: SocialMention[], since: number): number {
+  let weighted = 0;
+  let weights = 0;
+  for (const mention of mentions) {
+    if (new Date(mention.timestamp).getTime() <= since) continue;
+    const weight = engagementWeight(mention);
+    weighted += mention.sentiment * weight;
+    weights += weight;
+  }
+  return weights > 0 ? Math.round((weighted / weights) * 1000) / 1000 : 0;
+}
+
+// Per-token mention count and sentiment windows from linked mentions
+export function summarizeTokenMentions(mentions: SocialMention[], now = Date.now()): Map<string, TokenMentionStats> {
+  const byToken = new Map<string, SocialMention[]>();
+  for (const mention of mentions) {
+    if (!mention.tokenAddress) continue;
+    byToken.set(mention.tokenAddress, [...(byToken.get(mention.tokenAddress) || []), mention]);
+  }
+
+  const stats = new Map<string, TokenMentionStats>();
+  for (const [address, tokenMentions] of Array.from(byToken.entries())) {
+    stats.set(address, {
+      socialMentions: tokenMentions.filter(mention => new Date(mention.timestamp).getTime() > now - SOCIAL_MENTION_WINDOW_MS).length,
+      sentiment15m: weightedSentiment(tokenMentions, now - SENTIMENT_WINDOWS.sentiment15m),
+      sentiment1h: weightedSentiment(tokenMentions, now - SENTIMENT_WINDOWS.sentiment1h),
+      sentiment24h: weightedSentiment(tokenMentions, now - SENTIMENT_WINDOWS.sentiment24h),
+    });
+  }
+  return stats;
+}
+
+/**
+ * One -1..1 social score for signal generation: recent windows weigh most,
+ * and it's damped until a token has enough mentions to mean anything.
+ */
+export function socialSentimentScore(token: TokenMentionStats): number {
+  const mood = 0.5 * token.sentiment15m + 0.3 * token.sentiment1h + 0.2 * token.sentiment24h;
+  const conviction = Math.min(1, token.socialMentions / 20);
+  return mood * conviction;
+}
@@ -0,0 +1,79 @@
+import { describe, it, expect, beforeAll, beforeEach, afterAll } from "vitest";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import { MemStorage } from "./storage";
+import { ReplaySocialSource } from "./social-sources";
+import { SocialAggregator } from "./social-aggregator";
+
+const KEYWORDS = ["#Solana", "$SOL", "dexscreener"];
+const PEPE = "7GCihgDB8fe6KNjn2MYtkzZcRjQy3t9GHdC8uHYmW2hr";
+
+const minutesAgo = (minutes: number) => new Date(Date.now() - minutes * 60 * 1000).toISOString();
+
+// A recorded session in the replay format: keyword hits, misses and near-misses
+const fixture = () => [
+  { platform: "twitter", postId: "1001", username: "@degen", content: "$PEPE is ripping on #Solana, bullish", likes: 40, retweets: 5, timestamp: minutesAgo(30) },
+  { platform: "twitter", postId: "1002", username: "@chartguy", content: "New pairs on dexscreener look weak", likes: 2, retweets: 0, timestamp: minutesAgo(20) },
+  { platform: "twitter", postId: "1003", username: "@random", content: "Good morning everyone", likes: 1, retweets: 0, timestamp: minutesAgo(15) },
+  { platform: "twitter", postId: "1004", username: "@maxi", content: "$SOLANA and #memecoin season", likes: 0, retweets: 0, timestamp: minutesAgo(10) },
+  { platform: "telegram", postId: "chan:77", username: "Alpha Calls", content: `CA ${PEPE} fair launch, $SOL pairs live`, likes: 3, retweets: 1, timestamp: minutesAgo(5) },
+].map(post => JSON.stringify(post)).join("\n");
+
+let dir: string;
+let replayFile: string;
+
+beforeAll(() => {
+  dir = mkdtempSync(path.join(tmpdir(), "social-replay-"));
+  replayFile = path.join(dir, "posts.jsonl");
+  writeFileSync(replayFile, fixture());
+});
+
+afterAll(() => rmSync(dir, { recursive: true, force: true }));
+
+describe("SocialAggregator", () => {
+  let storage: MemStorage;
+
+  beforeEach(async () => {
+    storage = new MemStorage();
+    await storage.createToken({ address: PEPE, name: "Pepe Sol", symbol: "PEPE", launchTime: new Date(minutesAgo(60)) });
+  });
+
+  const ingest = (batchSize = 10) =>
+    new SocialAggregator(ReplaySocialSource.fromFile(replayFile, batchSize), KEYWORDS, storage).scrapeSocialMentions();
+
+  it("stores only posts matching a tracked keyword, tagged and linked", async () => {
+    const created = await ingest();
+
+    expect(created.map(mention => mention.postId).sort()).toEqual(["1001", "1002", "chan:77"]);
+    const byPost = new Map(created.map(mention => [mention.postId, mention]));
+    expect(byPost.get("1001")).toMatchObject({ keywords: ["#Solana"], tokenAddress: PEPE, sentimentLabel: "bullish" });
+    expect(byPost.get("1002")).toMatchObject({ keywords: ["dexscreener"], tokenAddress: null });
+    expect(byPost.get("chan:77")).toMatchObject({ platform: "telegram", keywords: ["$SOL"], tokenAddress: PEPE });
+
+    expect((await storage.getToken(PEPE))?.socialMentions).toBe(2);
+  });
+
+  it("skips posts it already stored when the recording is replayed again", async () => {
+    await ingest();
+    const before = await storage.getSocialMentions(100);
+
+    const replayed = await ingest();
+
+    expect(replayed).toEqual([]);
+    expect(await storage.getSocialMentions(100)).toHaveLength(before.length);
+    expect((await storage.getToken(PEPE))?.socialMentions).toBe(2);
+  });
+
+  it("picks up where it left off across small batches", async () => {
+    const source = ReplaySocialSource.fromFile(replayFile, 2);
+    const aggregator = new SocialAggregator(source, KEYWORDS, storage);
+
+    const batches = [];
+    for (let i = 0; i < 4; i++) {
+      batches.push((await aggregator.scrapeSocialMentions()).map(mention => mention.postId));
+    }
+
+    expect(batches).toEqual([["1001", "1002"], [], ["chan:77"], []]);
+  });
+});
@@ -0,0 +1,73 @@
+import type { InsertSocialMention } from "@shared/schema";
+import { storage as defaultStorage, type IStorage } from "./storage";
+import { socialKeywords, matchKeywords, type SocialSource } from "./social-sources";
+import { TokenResolver, SOCIAL_MENTION_WINDOW_MS } from "./entity-resolution";
+import { scoreSentiment, summarizeTokenMentions, EMPTY_MENTION_STATS } from "./sentiment";
+import { filterRulesEngine } from "./filter-rules";
+import { eventBus } from "./events";
+
+// Pulls posts from the social source, keeps the ones matching tracked
+// keywords and links them to tokens named in the text
+export class SocialAggregator {
+  constructor(
+    private source: SocialSource,
+    private keywords: string[] = socialKeywords,
+    private storage: IStorage = defaultStorage
+  ) {}
+
+  async scrapeSocialMentions() {
+    const posts = await this.source.fetchPosts(this.keywords);
+    const resolver = new TokenResolver(await this.storage.getAllTokens());
+
+    // Only keep posts that mention something we track, tagged with what matched
+    const mentions: InsertSocialMention[] = posts.flatMap(post => {
+      const keywords = matchKeywords(post.content, this.keywords);
+      return keywords.length > 0
+        ? [{
+            ...post,
+            ...scoreSentiment(post.content),
+            keywords,
+            tokenAddress: resolver.resolve(post.content)?.address ?? null,
+          }]
+        : [];
+    });
+
+    const created = await this.storage.createSocialMentions(mentions);
+    if (created.length > 0) {
+      console.log(`💬 Stored ${created.length} new social mentions from ${this.source.name}`);
+    }
+
+    // Posts often come before the token is listed, so retry recent unlinked ones
+    const windowStart = new Date(Date.now() - SOCIAL_MENTION_WINDOW_MS);
+    const touched = new Set(created.map(mention => mention.tokenAddress).filter((address): address is string => !!address));
+    for (const mention of await this.storage.getUnlinkedSocialMentions(windowStart)) {
+      const token = resolver.resolve(mention.content);
+      if (!token) continue;
+      await this.storage.linkSocialMention(mention.id, token.address);
+      touched.add(token.address);
+    }
+
+    await this.refreshMentionStats(Array.from(touched), windowStart);
+    return created;
+  }
+
+  // Push new counts and sentiment to the tokens that just gained mentions; the token pass handles decay
+  private async refreshMentionStats(addresses: string[], windowStart: Date) {
+    if (addresses.length === 0) return;
+    const stats = summarizeTokenMentions(await this.storage.getLinkedSocialMentions(windowStart));
+
+    for (const address of addresses) {
+      const token = await this.storage.getToken(address);
+      const updates = stats.get(address) ?? EMPTY_MENTION_STATS;
+      if (!token || (Object.keys(updates) as (keyof typeof updates)[]).every(key => token[key] === updates[key])) continue;
+
+      const saved = await this.storage.updateToken(address, {
+        ...updates,
+        ...filterRulesEngine.evaluate({ ...token, ...updates }),
+      });
+      if (saved) {
+        eventBus.publish({ type: 'token.updated', data: saved });
+      }
+    }
+  }
+}
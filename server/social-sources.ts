@@ -0,0 +1,319 @@
+import axios from "axios";
+import { readFileSync } from "fs";
+
+// A post as every source reports it, before keyword matching and storage
+
+export interface SocialPost {
+  platform: string; // 'twitter', 'telegram', 'rss'
+  postId: string; // Unique per platform; used to skip posts we've already stored
+  username: string;
+  content: string;
+  likes: number;
+  retweets: number;
+  timestamp: Date; // When it was originally posted
+}
+
+export interface SocialSource {
+  readonly name: string;
+  // Recent posts; sources that support it only return what's new since the last call
+  fetchPosts(keywords: string[]): Promise<SocialPost[]>;
+}
+
+export const DEFAULT_SOCIAL_KEYWORDS = ['#Solana', '#meme', '#launch', 'birdeye', 'fair launch', '$SOL', 'dexscreener'];
+
+// SOCIAL_KEYWORDS (comma-separated) replaces the defaults
+export const socialKeywords = process.env.SOCIAL_KEYWORDS
+  ? process.env.SOCIAL_KEYWORDS.split(',').map(keyword => keyword.trim()).filter(Boolean)
+  : DEFAULT_SOCIAL_KEYWORDS;
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Case-insensitive whole-word match, so '$SOL' doesn't match '$SOLANA' and
+// '#meme' doesn't match '#memecoin'
+export function matchKeywords(content: string, keywords: string[]): string[] {
+  return keywords.filter(keyword =>
+    new RegExp(`(^|[^\\w#$])${escapeRegExp(keyword)}(?![\\w])`, 'i').test(content)
+  );
+}
+
+const describeError = (error: unknown) =>
+  axios.isAxiosError(error) ? [error.response?.status, error.response?.statusText] : [error];
+
+interface TwitterSearchResponse {
+  data?: {
+    id: string;
+    text: string;
+    author_id?: string;
+    created_at?: string;
+    public_metrics?: { like_count?: number; retweet_count?: number };
+  }[];
+  includes?: { users?: { id: string; username: string }[] };
+  meta?: { newest_id?: string };
+}
+
+/**
+ * Twitter/X API v2 recent search. Needs a bearer token (TWITTER_BEARER_TOKEN);
+ * keeps the newest id it has seen and asks only for newer tweets.
+ */
+export class TwitterSource implements SocialSource {
+  readonly name = 'twitter';
+  private sinceId: string | undefined;
+
+  constructor(
+    private readonly bearerToken: string,
+    private readonly baseUrl = process.env.TWITTER_API_BASE_URL || 'https://api.twitter.com/2'
+  ) {}
+
+  async fetchPosts(keywords: string[]): Promise<SocialPost[]> {
+    if (keywords.length === 0) return [];
+    const terms = keywords.map(keyword => keyword.includes(' ') ? `"${keyword}"` : keyword);
+
+    try {
+      const response = await axios.get<TwitterSearchResponse>(`${this.baseUrl}/tweets/search/recent`, {
+        timeout: 15000,
+        headers: { Authorization: `Bearer ${this.bearerToken}` },
+        params: {
+          query: `(${terms.join(' OR ')}) -is:retweet`,
+          max_results: 100,
+          'tweet.fields': 'created_at,public_metrics,author_id',
+          expansions: 'author_id',
+          'user.fields': 'username',
+          since_id: this.sinceId,
+        },
+      });
+
+      const users = new Map((response.data.includes?.users || []).map(user => [user.id, user.username]));
+      if (response.data.meta?.newest_id) {
+        this.sinceId = response.data.meta.newest_id;
+      }
+
+      return (response.data.data || []).map(tweet => ({
+        platform: 'twitter',
+        postId: tweet.id,
+        username: `@${users.get(tweet.author_id || '') || tweet.author_id || 'unknown'}`,
+        content: tweet.text,
+        likes: tweet.public_metrics?.like_count || 0,
+        retweets: tweet.public_metrics?.retweet_count || 0,
+        timestamp: tweet.created_at ? new Date(tweet.created_at) : new Date(),
+      }));
+    } catch (error) {
+      console.error('Twitter API error:', ...describeError(error));
+      return [];
+    }
+  }
+}
+
+interface TelegramExportMessage {
+  id: number;
+  type: string;
+  date: string;
+  date_unixtime?: string;
+  from?: string;
+  text: string | (string | { type: string; text: string })[];
+  reactions?: { count: number }[];
+  forwards?: number;
+}
+
+/**
+ * Reads a Telegram Desktop channel export (the JSON `result.json`). The file
+ * is re-read on every call so a periodically refreshed export is picked up;
+ * storage skips the messages it already has.
+ */
+export class TelegramExportSource implements SocialSource {
+  readonly name = 'telegram';
+
+  constructor(private readonly path: string) {}
+
+  async fetchPosts(): Promise<SocialPost[]> {
+    try {
+      const exported = JSON.parse(readFileSync(this.path, 'utf8')) as {
+        id?: number;
+        name?: string;
+        messages?: TelegramExportMessage[];
+      };
+      const channel = exported.name || 'telegram';
+
+      return (exported.messages || [])
+        .filter(message => message.type === 'message')
+        .map(message => ({
+          platform: 'telegram',
+          postId: `${exported.id ?? channel}:${message.id}`,
+          username: message.from || channel,
+          content: typeof message.text === 'string'
+            ? message.text
+            : message.text.map(part => typeof part === 'string' ? part : part.text).join(''),
+          likes: (message.reactions || []).reduce((sum, reaction) => sum + reaction.count, 0),
+          retweets: message.forwards || 0,
+          timestamp: message.date_unixtime ? new Date(Number(message.date_unixtime) * 1000) : new Date(message.date),
+        }))
+        .filter(post => post.content.trim() !== '');
+    } catch (error) {
+      console.error('Telegram export error:', error);
+      return [];
+    }
+  }
+}
+
+const decodeXml = (text: string) => text
+  .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1')
+  .replace(/&lt;/g, '<')
+  .replace(/&gt;/g, '>')
+  .replace(/&quot;/g, '"')
+  .replace(/&#39;|&apos;/g, "'")
+  .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+  .replace(/&amp;/g, '&');
+
+const stripHtml = (html: string) => html.replace(/<[^>]*>/g, ' ').replace(/\s+/g, ' ').trim();
+
+const xmlTag = (xml: string, tag: string) => {
+  const match = xml.match(new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`, 'i'));
+  return match ? decodeXml(match[1]).trim() : undefined;
+};
+
+/**
+ * RSS 2.0 / Atom feeds, e.g. Nitter search feeds
+ * (https://nitter.net/search/rss?f=tweets&q=%23solana). Items linking to a
+ * tweet are stored as twitter posts under the tweet id, so the same tweet
+ * seen through Nitter and the API is only stored once.
+ */
+export class RssSource implements SocialSource {
+  readonly name = 'rss';
+
+  constructor(private readonly feedUrls: string[]) {}
+
+  async fetchPosts(): Promise<SocialPost[]> {
+    const feeds = await Promise.all(this.feedUrls.map(url => this.fetchFeed(url)));
+    return feeds.flat();
+  }
+
+  private async fetchFeed(url: string): Promise<SocialPost[]> {
+    try {
+      const response = await axios.get<string>(url, { timeout: 15000, responseType: 'text' });
+      return RssSource.parse(response.data, new URL(url).hostname);
+    } catch (error) {
+      console.error(`RSS feed error (${url}):`, ...describeError(error));
+      return [];
+    }
+  }
+
+  static parse(xml: string, feedHost = 'rss'): SocialPost[] {
+    const items = xml.match(/<item[\s>][\s\S]*?<\/item>|<entry[\s>][\s\S]*?<\/entry>/gi) || [];
+
+    return items.flatMap(item => {
+      const link = xmlTag(item, 'link') || item.match(/<link[^>]*href="([^"]+)"/i)?.[1] || '';
+      const id = xmlTag(item, 'guid') || xmlTag(item, 'id') || link;
+      const title = stripHtml(xmlTag(item, 'title') || '');
+      const description = stripHtml(xmlTag(item, 'description') || xmlTag(item, 'content') || xmlTag(item, 'summary') || '');
+      const content = description && !description.startsWith(title) ? `${title} ${description}`.trim() : description || title;
+      if (!id || !content) return [];
+
+      const published = xmlTag(item, 'pubDate') || xmlTag(item, 'published') || xmlTag(item, 'updated');
+      const tweet = `${link} ${id}`.match(/\/([A-Za-z0-9_]+)\/status\/(\d+)/);
+      const author = xmlTag(item, 'dc:creator') || xmlTag(item, 'author')?.replace(/<[^>]*>/g, '').trim();
+
+      return [{
+        platform: tweet ? 'twitter' : 'rss',
+        postId: tweet ? tweet[2] : id,
+        username: author || (tweet ? `@${tweet[1]}` : feedHost),
+        content: content.slice(0, 2000),
+        likes: 0,
+        retweets: 0,
+        timestamp: published && !isNaN(Date.parse(published)) ? new Date(published) : new Date(),
+      }];
+    });
+  }
+}
+
+/**
+ * Offline replay of recorded posts: a JSONL file with one SocialPost per line
+ * (timestamp as an ISO string). Each call returns the next `batchSize` posts
+ * until the file is exhausted.
+ */
+export class ReplaySocialSource implements SocialSource {
+  readonly name = 'replay';
+  private position = 0;
+
+  constructor(private readonly posts: SocialPost[], private readonly batchSize = 5) {}
+
+  static fromFile(path: string, batchSize?: number): ReplaySocialSource {
+    const posts = readFileSync(path, 'utf8')
+      .split('\n')
+      .filter(line => line.trim())
+      .map(line => {
+        const post = JSON.parse(line);
+        return {
+          platform: post.platform || 'twitter',
+          postId: String(post.postId),
+          username: post.username || 'unknown',
+          content: post.content || '',
+          likes: post.likes || 0,
+          retweets: post.retweets || 0,
+          timestamp: new Date(post.timestamp),
+        };
+      });
+    return new ReplaySocialSource(posts, batchSize);
+  }
+
+  async fetchPosts(): Promise<SocialPost[]> {
+    const batch = this.posts.slice(this.position, this.position + this.batchSize);
+    this.position += batch.length;
+    return batch;
+  }
+}
+
+export class CompositeSocialSource implements SocialSource {
+  readonly name: string;
+
+  constructor(private readonly sources: SocialSource[]) {
+    this.name = sources.map(source => source.name).join('+') || 'none';
+  }
+
+  async fetchPosts(keywords: string[]): Promise<SocialPost[]> {
+    const results = await Promise.all(this.sources.map(source => source.fetchPosts(keywords)));
+    return results.flat();
+  }
+}
+
+/**
+ * Builds the social source from a comma-separated list, e.g.
+ * SOCIAL_SOURCES=twitter,rss. Each source reads its own settings:
+ * twitter TWITTER_BEARER_TOKEN, telegram TELEGRAM_EXPORT_FILE, rss
+ * SOCIAL_RSS_FEEDS (comma-separated URLs), replay SOCIAL_REPLAY_FILE. Without
+ * SOCIAL_SOURCES, every source whose settings are present is used.
+ */
+export function createSocialSource(config = process.env.SOCIAL_SOURCES): SocialSource {
+  const names = config
+    ? config.split(',').map(name => name.trim()).filter(Boolean)
+    : [
+        process.env.TWITTER_BEARER_TOKEN && 'twitter',
+        process.env.TELEGRAM_EXPORT_FILE && 'telegram',
+        process.env.SOCIAL_RSS_FEEDS && 'rss',
+        process.env.SOCIAL_REPLAY_FILE && 'replay',
+      ].filter((name): name is string => !!name);
+
+  const sources = names.map((name): SocialSource => {
+    switch (name) {
+      case 'twitter':
+        if (!process.env.TWITTER_BEARER_TOKEN) throw new Error('TWITTER_BEARER_TOKEN is required for the twitter social source');
+        return new TwitterSource(process.env.TWITTER_BEARER_TOKEN);
+      case 'telegram':
+        if (!process.env.TELEGRAM_EXPORT_FILE) throw new Error('TELEGRAM_EXPORT_FILE is required for the telegram social source');
+        return new TelegramExportSource(process.env.TELEGRAM_EXPORT_FILE);
+      case 'rss':
+        if (!process.env.SOCIAL_RSS_FEEDS) throw new Error('SOCIAL_RSS_FEEDS is required for the rss social source');
+        return new RssSource(process.env.SOCIAL_RSS_FEEDS.split(',').map(url => url.trim()).filter(Boolean));
+      case 'replay':
+        if (!process.env.SOCIAL_REPLAY_FILE) throw new Error('SOCIAL_REPLAY_FILE is required for the replay social source');
+        return ReplaySocialSource.fromFile(process.env.SOCIAL_REPLAY_FILE);
+      default:
+        throw new Error(`Unknown social source: ${name}`);
+    }
+  });
+
+  if (sources.length === 0) {
+    console.log('ℹ️ No social sources configured; social mentions will not be collected');
+  }
+  return sources.length === 1 ? sources[0] : new CompositeSocialSource(sources);
+}
+
+export const socialSource = createSocialSource();
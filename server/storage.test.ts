@@ -0,0 +1,464 @@
+import { createRequire } from "module";
+import { describe, it, expect, beforeEach } from "vitest";
+import { randomUUID } from "crypto";
+import { newDb, DataType, type IMemoryDb } from "pg-mem";
+import { drizzle } from "drizzle-orm/node-postgres";
+import * as schema from "@shared/schema";
+import * as tradingSchema from "@shared/trading-schema";
+import * as analyticsSchema from "@shared/analytics-schema";
+import * as alertSchema from "@shared/alert-schema";
+import type { InsertToken } from "@shared/schema";
+import { MemStorage, DatabaseStorage, decodeTokenCursor, type IStorage, type TokenQuery } from "./storage";
+import type { Database } from "./db";
+
+// drizzle-kit's api bundle only loads through require
+const { generateDrizzleJson, generateMigration } = createRequire(import.meta.url)("drizzle-kit/api");
+
+const tables = { ...schema, ...tradingSchema, ...analyticsSchema, ...alertSchema };
+
+// What `db:push` compares against: the schema as the code declares it
+const currentSnapshot = generateDrizzleJson(tables);
+
+// The same DDL `db:push` would run against an empty database
+const ddl: Promise<string[]> = generateMigration(generateDrizzleJson({}), currentSnapshot);
+
+function newPgMem() {
+  const mem = newDb();
+  // Built into Postgres 13+, but not pg-mem
+  mem.public.registerFunction({ name: "gen_random_uuid", returns: DataType.uuid, implementation: randomUUID, impure: true });
+  return mem;
+}
+
+function runDdl(mem: IMemoryDb, statements: string[]) {
+  for (const statement of statements) {
+    // pg-mem mis-evaluates ANDs across two plain indexes; they only affect speed,
+    // so leave them out and keep the unique ones
+    if (statement.startsWith("CREATE INDEX")) continue;
+    mem.public.none(statement);
+  }
+}
+
+// DatabaseStorage over pg-mem, behind the node-postgres driver
+function pgMemStorage(mem: IMemoryDb): IStorage {
+  // pg-mem can't take drizzle's custom type parsers or array row mode, so
+  // strip both and rebuild array rows from the column order
+  const { Pool } = mem.adapters.createPg();
+  class DrizzlePool extends Pool {
+    async query(config: any, values?: any) {
+      if (typeof config === "string") return super.query(config, values);
+      const { types, rowMode, ...rest } = config;
+      const result = await super.query(rest, values);
+      if (rowMode === "array") {
+        result.rows = result.rows.map((row: Record<string, unknown>) => Object.values(row));
+      }
+      return result;
+    }
+  }
+
+  const db = drizzle({ client: new DrizzlePool(), schema: tables });
+  return new DatabaseStorage(db as unknown as Database);
+}
+
+// A fresh in-memory Postgres per test
+async function createPgMemStorage(): Promise<IStorage> {
+  const mem = newPgMem();
+  runDdl(mem, await ddl);
+  return pgMemStorage(mem);
+}
+
+const implementations: [string, () => Promise<IStorage>][] = [
+  ["MemStorage", async () => new MemStorage()],
+  ["DatabaseStorage (pg-mem)", createPgMemStorage],
+];
+
+const minutesAgo = (minutes: number) => new Date(Date.now() - minutes * 60 * 1000);
+
+const token = (address: string, overrides: Partial<InsertToken> = {}): InsertToken => ({
+  address,
+  name: `Token ${address}`,
+  symbol: address.toUpperCase(),
+  launchTime: minutesAgo(10),
+  ...overrides,
+});
+
+const baseQuery: TokenQuery = { sort: "liquidity", order: "desc", limit: 50 };
+
+describe.each(implementations)("%s", (_name, createStorage) => {
+  let storage: IStorage;
+
+  beforeEach(async () => {
+    storage = await createStorage();
+  });
+
+  describe("users", () => {
+    it("creates users and finds them by id and username", async () => {
+      const user = await storage.createUser({ username: "alice", password: "hash" });
+
+      expect(await storage.getUser(user.id)).toEqual(user);
+      expect(await storage.getUserByUsername("alice")).toEqual(user);
+      expect(await storage.getUserByUsername("bob")).toBeUndefined();
+    });
+  });
+
+  describe("tokens", () => {
+    it("fills column defaults on create", async () => {
+      const created = await storage.createToken(token("aaa"));
+
+      expect(created).toMatchObject({
+        chain: "solana",
+        liquidity: 0,
+        holders: 0,
+        riskScore: null,
+        riskReasons: [],
+        top10HolderPercent: null,
+        isFiltered: false,
+        isHighAlert: false,
+      });
+      expect(await storage.getToken("aaa")).toEqual(created);
+    });
+
+    it("updates tokens and returns undefined for unknown addresses", async () => {
+      await storage.createToken(token("aaa"));
+
+      const updated = await storage.updateToken("aaa", { liquidity: 5000, riskReasons: ["LP unlocked"] });
+      expect(updated).toMatchObject({ liquidity: 5000, riskReasons: ["LP unlocked"] });
+      expect(await storage.updateToken("missing", { liquidity: 1 })).toBeUndefined();
+    });
+
+    it("keeps the same address on different chains apart", async () => {
+      const address = "0x1111111111111111111111111111111111111111";
+      const onEthereum = await storage.createToken(token(address, { chain: "ethereum" }));
+      const onBase = await storage.createToken(token(address, { chain: "base" }));
+
+      expect(await storage.getToken(address, "base")).toEqual(onBase);
+      expect(await storage.getToken(address, "bsc")).toBeUndefined();
+      // Without a chain the oldest listing wins
+      expect(await storage.getToken(address)).toEqual(onEthereum);
+
+      await storage.updateToken(address, { liquidity: 7000 }, "base");
+      expect((await storage.getToken(address, "base"))?.liquidity).toBe(7000);
+      expect((await storage.getToken(address, "ethereum"))?.liquidity).toBe(0);
+    });
+
+    it("lists tokens newest launch first, with filtered and high-alert subsets", async () => {
+      await storage.createToken(token("old", { launchTime: minutesAgo(60), isFiltered: true }));
+      await storage.createToken(token("new", { launchTime: minutesAgo(5), isFiltered: true, isHighAlert: true }));
+      await storage.createToken(token("mid", { launchTime: minutesAgo(30) }));
+
+      expect((await storage.getAllTokens()).map(t => t.address)).toEqual(["new", "mid", "old"]);
+      expect((await storage.getFilteredTokens()).map(t => t.address)).toEqual(["new", "old"]);
+      expect((await storage.getHighAlertTokens()).map(t => t.address)).toEqual(["new"]);
+    });
+
+    it("filters and sorts queries", async () => {
+      await storage.createToken(token("a", { liquidity: 100, holders: 10, chain: "base" }));
+      await storage.createToken(token("b", { liquidity: 300, holders: 80, socialMentions: 2 }));
+      await storage.createToken(token("c", { liquidity: 200, holders: 90, launchTime: minutesAgo(600) }));
+
+      const byLiquidity = await storage.queryTokens(baseQuery);
+      expect(byLiquidity.items.map(t => t.address)).toEqual(["b", "c", "a"]);
+      expect(byLiquidity.nextCursor).toBeNull();
+
+      const filtered = await storage.queryTokens({ ...baseQuery, minHolders: 50, maxAge: 60 });
+      expect(filtered.items.map(t => t.address)).toEqual(["b"]);
+
+      expect((await storage.queryTokens({ ...baseQuery, chain: "base" })).items.map(t => t.address)).toEqual(["a"]);
+      expect((await storage.queryTokens({ ...baseQuery, socialMentions: true })).items.map(t => t.address)).toEqual(["b"]);
+    });
+
+    it("pages with keyset cursors, breaking ties by id", async () => {
+      for (const address of ["a", "b", "c", "d", "e"]) {
+        await storage.createToken(token(address, { liquidity: address < "c" ? 100 : 200 }));
+      }
+
+      const seen: string[] = [];
+      let cursor: string | undefined;
+      do {
+        const page = await storage.queryTokens({ ...baseQuery, order: "asc", limit: 2, cursor });
+        seen.push(...page.items.map(t => t.address));
+        cursor = page.nextCursor ?? undefined;
+        if (cursor) expect(decodeTokenCursor(cursor)).not.toBeNull();
+      } while (cursor);
+
+      expect(seen).toEqual(["a", "b", "c", "d", "e"]);
+    });
+  });
+
+  describe("token snapshots", () => {
+    it("stores, ranges, and deletes snapshots oldest first", async () => {
+      // One row per call: pg-mem ignores column defaults in multi-row inserts
+      const [first] = await storage.createTokenSnapshots([{ tokenAddress: "aaa", timestamp: minutesAgo(30), liquidity: 100 }]);
+      const [second] = await storage.createTokenSnapshots([{ tokenAddress: "aaa", timestamp: minutesAgo(10), liquidity: 200, price: 0.5 }]);
+      const [rollup] = await storage.createTokenSnapshots([{ tokenAddress: "aaa", timestamp: minutesAgo(20), resolution: "5m" }]);
+      expect(first).toMatchObject({ resolution: "raw", price: null, holders: 0 });
+
+      const range = await storage.getTokenSnapshots("aaa", minutesAgo(60), new Date());
+      expect(range.map(s => s.id)).toEqual([first.id, rollup.id, second.id]);
+      expect((await storage.getTokenSnapshotsBefore("raw", minutesAgo(15))).map(s => s.id)).toEqual([first.id]);
+
+      await storage.deleteTokenSnapshots([first.id, rollup.id]);
+      expect((await storage.getTokenSnapshots("aaa", minutesAgo(60), new Date())).map(s => s.id)).toEqual([second.id]);
+    });
+  });
+
+  describe("filter rule sets", () => {
+    it("replaces the whole collection", async () => {
+      await storage.replaceFilterRuleSets([
+        { name: "filter", rule: { type: "compare", field: "liquidity", op: "gte", value: 1000 } },
+        { name: "highAlert", rule: { type: "age", maxMinutes: 30 } },
+      ]);
+      const saved = await storage.replaceFilterRuleSets([
+        { name: "filter", rule: { type: "compare", field: "holders", op: "gt", value: 5 } },
+      ]);
+
+      expect(saved).toHaveLength(1);
+      expect(await storage.getFilterRuleSets()).toMatchObject([
+        { name: "filter", rule: { type: "compare", field: "holders", op: "gt", value: 5 } },
+      ]);
+    });
+  });
+
+  describe("watchlists", () => {
+    it("adds idempotently, lists newest first and removes", async () => {
+      const user = await storage.createUser({ username: "alice", password: "hash" });
+      const first = await storage.addToWatchlist({ userId: user.id, tokenAddress: "aaa" });
+      const second = await storage.addToWatchlist({ userId: user.id, tokenAddress: "bbb" });
+
+      expect(await storage.addToWatchlist({ userId: user.id, tokenAddress: "aaa" })).toEqual(first);
+      expect((await storage.getWatchlist(user.id)).map(e => e.id)).toEqual([second.id, first.id]);
+
+      expect(await storage.removeFromWatchlist(user.id, "aaa")).toBe(true);
+      expect(await storage.removeFromWatchlist(user.id, "aaa")).toBe(false);
+      expect(await storage.getWatchlist(user.id)).toHaveLength(1);
+    });
+  });
+
+  describe("social mentions", () => {
+    const mention = (postId: string, minutes: number) => ({
+      platform: "twitter",
+      postId,
+      username: "trader",
+      content: `post ${postId}`,
+      keywords: ["pump"],
+      timestamp: minutesAgo(minutes),
+    });
+
+    it("skips posts already stored", async () => {
+      const created = await storage.createSocialMentions([mention("1", 5), mention("2", 3), mention("1", 5)]);
+      expect(created.map(m => m.postId)).toEqual(["1", "2"]);
+      expect(created[0]).toMatchObject({ tokenAddress: null, sentiment: 0, sentimentLabel: "neutral", keywords: ["pump"] });
+
+      // Postgres returns only the inserted rows; pg-mem also returns the conflicting
+      // ones, so check what was stored rather than what came back
+      const again = await storage.createSocialMentions([mention("2", 3), mention("3", 1)]);
+      expect(again.map(m => m.postId)).toContain("3");
+      expect((await storage.getSocialMentions()).map(m => m.postId)).toEqual(["3", "2", "1"]);
+    });
+
+    it("links mentions to tokens", async () => {
+      const [older, newer] = await storage.createSocialMentions([mention("1", 90), mention("2", 5)]);
+
+      expect((await storage.getUnlinkedSocialMentions(minutesAgo(60))).map(m => m.id)).toEqual([newer.id]);
+      await storage.linkSocialMention(newer.id, "aaa");
+      await storage.linkSocialMention(older.id, "aaa");
+
+      expect(await storage.getUnlinkedSocialMentions(minutesAgo(60))).toEqual([]);
+      expect((await storage.getLinkedSocialMentions(minutesAgo(60))).map(m => m.id)).toEqual([newer.id]);
+      expect((await storage.getSocialMentionsByToken("aaa")).map(m => m.id)).toEqual([newer.id, older.id]);
+    });
+
+    it("returns mentions by ingestion time", async () => {
+      const before = new Date(Date.now() - 1000);
+      const created = await storage.createSocialMentions([mention("1", 600), mention("2", 5)]);
+
+      expect((await storage.getSocialMentionsSince(before)).map(m => m.id)).toEqual(created.map(m => m.id));
+      expect(await storage.getSocialMentionsSince(new Date(Date.now() + 1000))).toEqual([]);
+    });
+  });
+
+  describe("trading", () => {
+    it("stores signals with factors and marks them executed", async () => {
+      const factors = [{ id: "rsi", label: "RSI oversold", input: 25, weight: 15, points: 15 }];
+      const signal = await storage.createTradingSignal({
+        tokenAddress: "aaa",
+        strategy: "momentum",
+        signal: "BUY",
+        confidence: 80,
+        reason: "RSI oversold",
+        factors,
+        price: 0.1,
+      });
+      await storage.createTradingSignal({ tokenAddress: "bbb", signal: "HOLD", confidence: 50, reason: "", price: 1 });
+
+      expect(signal).toMatchObject({ executed: false, factors, strategy: "momentum" });
+      expect((await storage.getTradingSignals("aaa")).map(s => s.id)).toEqual([signal.id]);
+      expect(await storage.getTradingSignals()).toHaveLength(2);
+      expect(await storage.markSignalExecuted(signal.id)).toMatchObject({ executed: true });
+      expect(await storage.markSignalExecuted(9999)).toBeUndefined();
+    });
+
+    it("lists trades newest first", async () => {
+      const buy = await storage.createTrade({ tokenAddress: "aaa", action: "BUY", amount: 50, price: 1, timestamp: minutesAgo(10) });
+      const sell = await storage.createTrade({ tokenAddress: "aaa", action: "SELL", amount: 60, price: 1.2, timestamp: minutesAgo(5) });
+      await storage.createTrade({ tokenAddress: "bbb", action: "BUY", amount: 10, price: 1, timestamp: minutesAgo(1) });
+
+      expect(buy).toMatchObject({ status: "PENDING", quantity: 0, fee: 0, strategy: null });
+      expect((await storage.getTradesByToken("aaa")).map(t => t.id)).toEqual([sell.id, buy.id]);
+      expect(await storage.getTrades(2)).toHaveLength(2);
+    });
+
+    it("keeps a single bot settings row", async () => {
+      expect(await storage.getBotSettings()).toBeUndefined();
+
+      await storage.saveBotSettings({ maxInvestment: 200 });
+      const saved = await storage.saveBotSettings({
+        maxInvestment: 300,
+        strategies: { momentum: { enabled: false, allocation: 25, params: {} } },
+      });
+
+      expect(saved).toMatchObject({ maxInvestment: 300, stopLoss: 20, enabled: false });
+      expect(await storage.getBotSettings()).toEqual(saved);
+    });
+  });
+
+  describe("analytics", () => {
+    it("upserts daily metrics and returns the latest days oldest first", async () => {
+      const day = (offset: number) => new Date(Date.UTC(2024, 0, 1 + offset));
+      const metrics = (date: Date, totalPnL: number) => ({
+        date, totalPnL, winRate: 0.5, totalTrades: 2, avgTradeSize: 50, maxDrawdown: 0, sharpeRatio: 1, portfolioValue: 1000,
+      });
+
+      await storage.upsertPerformanceMetrics(metrics(day(1), 10));
+      await storage.upsertPerformanceMetrics(metrics(day(0), 5));
+      await storage.upsertPerformanceMetrics(metrics(day(1), 20));
+
+      const history = await storage.getPerformanceMetrics();
+      expect(history.map(m => m.totalPnL)).toEqual([5, 20]);
+      expect((await storage.getPerformanceMetrics(1)).map(m => m.totalPnL)).toEqual([20]);
+    });
+
+    it("tracks strategy performance from entry to exit", async () => {
+      const record = await storage.createStrategyPerformance({
+        strategyName: "Momentum",
+        tokenAddress: "aaa",
+        entryPrice: 1,
+        entryTime: minutesAgo(10),
+        confidence: 70,
+        reason: "Upward momentum",
+        outcome: "ACTIVE",
+      });
+      expect(record).toMatchObject({ exitPrice: null, pnl: null, factors: [] });
+      expect((await storage.getActiveStrategyPerformance("aaa")).map(r => r.id)).toEqual([record.id]);
+
+      // Repeat buys into the same token each get an entry, returned oldest first
+      const earlier = await storage.createStrategyPerformance({
+        strategyName: "Momentum",
+        tokenAddress: "aaa",
+        entryPrice: 0.9,
+        quantity: 50,
+        entryTime: minutesAgo(20),
+        confidence: 65,
+        reason: "Upward momentum",
+        outcome: "ACTIVE",
+      });
+      expect((await storage.getActiveStrategyPerformance("aaa")).map(r => r.id)).toEqual([earlier.id, record.id]);
+      await storage.updateStrategyPerformance(earlier.id, { outcome: "LOSS" });
+
+      const closed = await storage.updateStrategyPerformance(record.id, { exitPrice: 1.2, pnl: 10, outcome: "WIN" });
+      expect(closed).toMatchObject({ exitPrice: 1.2, pnl: 10, outcome: "WIN" });
+      expect(await storage.getActiveStrategyPerformance("aaa")).toEqual([]);
+      expect(await storage.getStrategyPerformance()).toHaveLength(2);
+      expect(await storage.updateStrategyPerformance(9999, { pnl: 1 })).toBeUndefined();
+    });
+
+    it("stores market conditions oldest first", async () => {
+      const conditions = (timestamp: Date) => ({
+        timestamp, overallTrend: "BULLISH", volatilityIndex: 10, totalMarketVolume: 1000, marketSentiment: 0.2,
+      });
+      await storage.createMarketConditions(conditions(minutesAgo(5)));
+      const first = await storage.createMarketConditions(conditions(minutesAgo(10)));
+
+      expect(first.topPerformers).toBeNull();
+      expect((await storage.getMarketConditions())[0].id).toBe(first.id);
+    });
+  });
+
+  describe("alerts", () => {
+    it("manages rules and cascades their events on delete", async () => {
+      const user = await storage.createUser({ username: "alice", password: "hash" });
+      const rule = await storage.createAlertRule({
+        userId: user.id,
+        name: "High alerts",
+        condition: { type: "highAlert" },
+        channels: { inApp: true },
+      });
+      expect(rule).toMatchObject({ watchlistOnly: false, cooldownMinutes: 60, enabled: true });
+      expect(await storage.updateAlertRule(rule.id, { enabled: false })).toMatchObject({ enabled: false });
+      expect(await storage.getAlertRules(user.id)).toHaveLength(1);
+      expect(await storage.getAlertRules(user.id + 1)).toEqual([]);
+
+      const first = await storage.createAlertEvent({ ruleId: rule.id, userId: user.id, tokenAddress: "aaa", title: "A", message: "1" });
+      const second = await storage.createAlertEvent({ ruleId: rule.id, userId: user.id, tokenAddress: "aaa", title: "A", message: "2" });
+      expect(first.channels).toEqual([]);
+      expect((await storage.getLastAlertEvent(rule.id, "aaa"))?.id).toBe(second.id);
+      expect((await storage.getAlertEvents(user.id)).map(e => e.id)).toEqual([second.id, first.id]);
+
+      expect(await storage.deleteAlertRule(rule.id)).toBe(true);
+      expect(await storage.getAlertRule(rule.id)).toBeUndefined();
+      expect(await storage.getAlertEvents(user.id)).toEqual([]);
+      expect(await storage.deleteAlertRule(rule.id)).toBe(false);
+    });
+  });
+
+  describe("chat integrations", () => {
+    it("creates, updates and deletes integrations", async () => {
+      const user = await storage.createUser({ username: "alice", password: "hash" });
+      const integration = await storage.createChatIntegration({
+        userId: user.id,
+        name: "Team chat",
+        config: { platform: "telegram", chatId: "-100123" },
+      });
+      expect(integration).toMatchObject({ notifyAlerts: true, notifyTrades: false, enabled: true });
+
+      expect(await storage.updateChatIntegration(integration.id, { notifyTrades: true })).toMatchObject({ notifyTrades: true });
+      expect(await storage.getChatIntegrations(user.id)).toHaveLength(1);
+      expect((await storage.getChatIntegration(integration.id))?.notifyTrades).toBe(true);
+
+      expect(await storage.deleteChatIntegration(integration.id)).toBe(true);
+      expect(await storage.getChatIntegrations()).toEqual([]);
+      expect(await storage.deleteChatIntegration(integration.id)).toBe(false);
+    });
+  });
+});
+
+describe("social_mentions.post_id migration", () => {
+  // The schema from before posts carried their source id
+  const legacySnapshot = () => {
+    const snapshot = structuredClone(currentSnapshot);
+    const mentions = snapshot.tables["public.social_mentions"];
+    delete mentions.columns.post_id;
+    delete mentions.indexes.social_mentions_platform_post_idx;
+    return snapshot;
+  };
+
+  it("backfills existing rows so db:push can add the unique index", async () => {
+    const mem = newPgMem();
+    runDdl(mem, await generateMigration(generateDrizzleJson({}), legacySnapshot()));
+    mem.public.none(`INSERT INTO social_mentions (platform, username, content) VALUES
+      ('twitter', '@a', 'first'), ('twitter', '@b', 'second')`);
+
+    runDdl(mem, await generateMigration(legacySnapshot(), currentSnapshot));
+
+    const storage = pgMemStorage(mem);
+    const legacy = await storage.getSocialMentions(10);
+    expect(legacy).toHaveLength(2);
+    expect(new Set(legacy.map(mention => mention.postId)).size).toBe(2);
+    legacy.forEach(mention => expect(mention.postId).toMatch(/^[0-9a-f-]{36}$/));
+
+    // New posts still dedupe on their own ids
+    const post = { platform: "twitter", postId: "1", username: "@c", content: "third", timestamp: minutesAgo(1) };
+    expect(await storage.createSocialMentions([post])).toHaveLength(1);
+    await storage.createSocialMentions([post]);
+    expect(await storage.getSocialMentions(10)).toHaveLength(3);
+  });
+});
@@ -1,37 +1,249 @@
-import { users, tokens, socialMentions, type User, type InsertUser, type Token, type InsertToken, type SocialMention, type InsertSocialMention } from "@shared/schema";
+import { users, tokens, socialMentions, tokenSnapshots, filterRuleSets, watchlists, type User, type InsertUser, type Token, type InsertToken, type SocialMention, type InsertSocialMention, type TokenSnapshot, type InsertTokenSnapshot, type FilterRuleSet, type InsertFilterRuleSet, type WatchlistEntry, type InsertWatchlistEntry } from "@shared/schema";
+import {
+  tradingSignals,
+  trades,
+  botSettings,
+  type TradingSignal,
+  type InsertTradingSignal,
+  type Trade,
+  type InsertTrade,
+  type BotSettings,
+  type InsertBotSettings,
+} from "@shared/trading-schema";
+import {
+  performanceMetrics,
+  strategyPerformance,
+  marketConditions,
+  type PerformanceMetrics,
+  type InsertPerformanceMetrics,
+  type StrategyPerformance,
+  type InsertStrategyPerformance,
+  type MarketConditions,
+  type InsertMarketConditions,
+} from "@shared/analytics-schema";
+import {
+  alertRules,
+  alertEvents,
+  chatIntegrations,
+  type AlertRule,
+  type InsertAlertRule,
+  type AlertEvent,
+  type InsertAlertEvent,
+  type ChatIntegration,
+  type InsertChatIntegration,
+} from "@shared/alert-schema";
+import { and, asc, desc, eq, gt, gte, inArray, isNotNull, isNull, lt, lte, or, type SQL } from "drizzle-orm";
+import { createDb, type Database } from "./db";
+import session from "express-session";
+import createMemoryStore from "memorystore";
+import connectPg from "connect-pg-simple";
+import { tokenKey } from "@shared/chains";
+
+const MemoryStore = createMemoryStore(session);
+const PostgresSessionStore = connectPg(session);
+
+export type TokenSortField = 'launchTime' | 'liquidity' | 'holders' | 'volume' | 'priceChange' | 'transactions' | 'socialMentions';
+
+export interface TokenQuery {
+  minLiquidity?: number;
+  minHolders?: number;
+  minTransactions?: number;
+  maxAge?: number; // Minutes since launch
+  socialMentions?: boolean; // Only tokens with at least one mention
+  chain?: string;
+  sort: TokenSortField;
+  order: 'asc' | 'desc';
+  limit: number;
+  cursor?: string;
+}
+
+export interface TokenPage {
+  items: Token[];
+  nextCursor: string | null;
+}
+
+// Keyset cursor: the sort value and id of the last row on the previous page
+interface TokenCursor {
+  value: number;
+  id: number;
+}
+
+const sortValue = (token: Token, sort: TokenSortField): number =>
+  sort === 'launchTime' ? new Date(token.launchTime).getTime() : token[sort];
+
+function encodeTokenCursor(token: Token, sort: TokenSortField): string {
+  const cursor: TokenCursor = { value: sortValue(token, sort), id: token.id };
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+export function decodeTokenCursor(cursor: string): TokenCursor | null {
+  try {
+    const parsed = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    return typeof parsed?.value === 'number' && typeof parsed?.id === 'number' ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+function toTokenPage(rows: Token[], query: TokenQuery): TokenPage {
+  const items = rows.slice(0, query.limit);
+  const hasMore = rows.length > query.limit;
+  return {
+    items,
+    nextCursor: hasMore ? encodeTokenCursor(items[items.length - 1], query.sort) : null,
+  };
+}
 
 export interface IStorage {
+  sessionStore: session.Store;
+
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
   
   // Token management
   getAllTokens(): Promise<Token[]>;
-  getToken(address: string): Promise<Token | undefined>;
+  // Tokens are unique per (chain, address): an EVM contract address can exist
+  // on several chains. Without a chain, getToken returns the first token with
+  // the address and updateToken updates every one of them.
+  getToken(address: string, chain?: string): Promise<Token | undefined>;
   createToken(token: InsertToken): Promise<Token>;
-  updateToken(address: string, updates: Partial<InsertToken>): Promise<Token | undefined>;
+  updateToken(address: string, updates: Partial<InsertToken>, chain?: string): Promise<Token | undefined>;
   getFilteredTokens(): Promise<Token[]>;
   getHighAlertTokens(): Promise<Token[]>;
+  queryTokens(query: TokenQuery): Promise<TokenPage>;
+
+  // Token snapshots (time series, oldest first)
+  createTokenSnapshots(snapshots: InsertTokenSnapshot[]): Promise<TokenSnapshot[]>;
+  getTokenSnapshots(tokenAddress: string, from: Date, to: Date): Promise<TokenSnapshot[]>;
+  getTokenSnapshotsBefore(resolution: string, before: Date): Promise<TokenSnapshot[]>;
+  deleteTokenSnapshots(ids: number[]): Promise<void>;
+
+  // Filter rule sets (saving replaces the whole collection)
+  getFilterRuleSets(): Promise<FilterRuleSet[]>;
+  replaceFilterRuleSets(ruleSets: InsertFilterRuleSet[]): Promise<FilterRuleSet[]>;
+
+  // Watchlists (newest first; adding an existing entry returns it unchanged)
+  getWatchlist(userId: number): Promise<WatchlistEntry[]>;
+  addToWatchlist(entry: InsertWatchlistEntry): Promise<WatchlistEntry>;
+  removeFromWatchlist(userId: number, tokenAddress: string): Promise<boolean>;
   
   // Social mentions
   getSocialMentions(limit?: number): Promise<SocialMention[]>;
-  createSocialMention(mention: InsertSocialMention): Promise<SocialMention>;
+  // Skips posts already stored (same platform + postId); returns only the new rows
+  createSocialMentions(mentions: InsertSocialMention[]): Promise<SocialMention[]>;
   getSocialMentionsByToken(tokenAddress: string): Promise<SocialMention[]>;
+  // Mentions ingested (not posted) after `since`, oldest first
+  getSocialMentionsSince(since: Date): Promise<SocialMention[]>;
+  // Not yet linked to a token and posted after `since`
+  getUnlinkedSocialMentions(since: Date): Promise<SocialMention[]>;
+  linkSocialMention(id: number, tokenAddress: string): Promise<void>;
+  // Mentions linked to a token and posted after `since`
+  getLinkedSocialMentions(since: Date): Promise<SocialMention[]>;
+
+  // Trading signals
+  getTradingSignals(tokenAddress?: string, limit?: number): Promise<TradingSignal[]>;
+  createTradingSignal(signal: InsertTradingSignal): Promise<TradingSignal>;
+  markSignalExecuted(id: number): Promise<TradingSignal | undefined>;
+
+  // Trades
+  getTrades(limit?: number): Promise<Trade[]>;
+  getTradesByToken(tokenAddress: string): Promise<Trade[]>;
+  createTrade(trade: InsertTrade): Promise<Trade>;
+
+  // Bot settings (single row)
+  getBotSettings(): Promise<BotSettings | undefined>;
+  saveBotSettings(settings: InsertBotSettings): Promise<BotSettings>;
+
+  // Analytics (history getters return the most recent rows, oldest first)
+  getPerformanceMetrics(limit?: number): Promise<PerformanceMetrics[]>;
+  upsertPerformanceMetrics(metrics: InsertPerformanceMetrics): Promise<PerformanceMetrics>;
+  getStrategyPerformance(limit?: number): Promise<StrategyPerformance[]>;
+  // Every still-open entry into the token, oldest first
+  getActiveStrategyPerformance(tokenAddress: string): Promise<StrategyPerformance[]>;
+  createStrategyPerformance(record: InsertStrategyPerformance): Promise<StrategyPerformance>;
+  updateStrategyPerformance(id: number, updates: Partial<InsertStrategyPerformance>): Promise<StrategyPerformance | undefined>;
+  getMarketConditions(limit?: number): Promise<MarketConditions[]>;
+  createMarketConditions(conditions: InsertMarketConditions): Promise<MarketConditions>;
+
+  // Alerts (rules for every user when userId is omitted; events newest first)
+  getAlertRules(userId?: number): Promise<AlertRule[]>;
+  getAlertRule(id: number): Promise<AlertRule | undefined>;
+  createAlertRule(rule: InsertAlertRule): Promise<AlertRule>;
+  updateAlertRule(id: number, updates: Partial<InsertAlertRule>): Promise<AlertRule | undefined>;
+  deleteAlertRule(id: number): Promise<boolean>;
+  getAlertEvents(userId: number, limit?: number): Promise<AlertEvent[]>;
+  getLastAlertEvent(ruleId: number, tokenAddress: string): Promise<AlertEvent | undefined>;
+  createAlertEvent(event: InsertAlertEvent): Promise<AlertEvent>;
+
+  // Chat integrations (every user's when userId is omitted)
+  getChatIntegrations(userId?: number): Promise<ChatIntegration[]>;
+  getChatIntegration(id: number): Promise<ChatIntegration | undefined>;
+  createChatIntegration(integration: InsertChatIntegration): Promise<ChatIntegration>;
+  updateChatIntegration(id: number, updates: Partial<InsertChatIntegration>): Promise<ChatIntegration | undefined>;
+  deleteChatIntegration(id: number): Promise<boolean>;
 }
 
 export class MemStorage implements IStorage {
+  sessionStore: session.Store;
   private users: Map<number, User>;
-  private tokens: Map<string, Token>;
+  private tokens: Map<string, Token>; // Keyed by tokenKey(chain, address), like the unique index
   private socialMentions: Map<number, SocialMention>;
+  private tokenSnapshots: Map<number, TokenSnapshot>;
+  private filterRuleSets: Map<string, FilterRuleSet>;
+  private watchlists: Map<number, WatchlistEntry>;
+  private tradingSignals: Map<number, TradingSignal>;
+  private trades: Map<number, Trade>;
+  private botSettings: BotSettings | undefined;
+  private performanceMetrics: Map<number, PerformanceMetrics>;
+  private strategyPerformance: Map<number, StrategyPerformance>;
+  private marketConditions: Map<number, MarketConditions>;
+  private alertRules: Map<number, AlertRule>;
+  private alertEvents: Map<number, AlertEvent>;
+  private chatIntegrations: Map<number, ChatIntegration>;
   private currentUserId: number;
+  private currentTokenId: number;
   private currentMentionId: number;
+  private currentSnapshotId: number;
+  private currentRuleSetId: number;
+  private currentWatchlistId: number;
+  private currentSignalId: number;
+  private currentTradeId: number;
+  private currentAnalyticsId: number;
+  private currentAlertRuleId: number;
+  private currentAlertEventId: number;
+  private currentChatIntegrationId: number;
 
   constructor() {
+    this.sessionStore = new MemoryStore({
+      checkPeriod: 24 * 60 * 60 * 1000, // Prune expired sessions daily
+    });
     this.users = new Map();
     this.tokens = new Map();
     this.socialMentions = new Map();
+    this.tokenSnapshots = new Map();
+    this.filterRuleSets = new Map();
+    this.watchlists = new Map();
+    this.tradingSignals = new Map();
+    this.trades = new Map();
+    this.performanceMetrics = new Map();
+    this.strategyPerformance = new Map();
+    this.marketConditions = new Map();
+    this.alertRules = new Map();
+    this.alertEvents = new Map();
+    this.chatIntegrations = new Map();
     this.currentUserId = 1;
+    this.currentTokenId = 1;
     this.currentMentionId = 1;
+    this.currentSnapshotId = 1;
+    this.currentRuleSetId = 1;
+    this.currentWatchlistId = 1;
+    this.currentSignalId = 1;
+    this.currentTradeId = 1;
+    this.currentAnalyticsId = 1;
+    this.currentAlertRuleId = 1;
+    this.currentAlertEventId = 1;
+    this.currentChatIntegrationId = 1;
   }
 
   async getUser(id: number): Promise<User | undefined> {
@@ -57,36 +269,56 @@ export class MemStorage implements IStorage {
     );
   }
 
-  async getToken(address: string): Promise<Token | undefined> {
-    return this.tokens.get(address);
+  private tokensAt(address: string, chain?: string): Token[] {
+    if (chain !== undefined) {
+      const token = this.tokens.get(tokenKey(chain, address));
+      return token ? [token] : [];
+    }
+    return Array.from(this.tokens.values())
+      .filter(token => token.address === address)
+      .sort((a, b) => a.id - b.id);
+  }
+
+  async getToken(address: string, chain?: string): Promise<Token | undefined> {
+    return this.tokensAt(address, chain)[0];
   }
 
   async createToken(insertToken: InsertToken): Promise<Token> {
     const token: Token = {
       ...insertToken,
-      id: Date.now(),
-      launchTime: new Date(),
+      id: this.currentTokenId++,
+      launchTime: insertToken.launchTime || new Date(),
       chain: insertToken.chain || "solana",
       liquidity: insertToken.liquidity || 0,
       holders: insertToken.holders || 0,
+      top10HolderPercent: insertToken.top10HolderPercent ?? null,
+      holderGini: insertToken.holderGini ?? null,
+      holderGrowthRate: insertToken.holderGrowthRate ?? null,
+      holdersCheckedAt: insertToken.holdersCheckedAt ?? null,
       volume: insertToken.volume || 0,
       priceChange: insertToken.priceChange || 0,
       transactions: insertToken.transactions || 0,
       socialMentions: insertToken.socialMentions || 0,
+      sentiment15m: insertToken.sentiment15m || 0,
+      sentiment1h: insertToken.sentiment1h || 0,
+      sentiment24h: insertToken.sentiment24h || 0,
+      riskScore: insertToken.riskScore ?? null,
+      riskReasons: insertToken.riskReasons || [],
+      riskCheckedAt: insertToken.riskCheckedAt ?? null,
       isFiltered: insertToken.isFiltered || false,
       isHighAlert: insertToken.isHighAlert || false,
     };
-    this.tokens.set(insertToken.address, token);
+    this.tokens.set(tokenKey(token.chain, token.address), token);
     return token;
   }
 
-  async updateToken(address: string, updates: Partial<InsertToken>): Promise<Token | undefined> {
-    const existing = this.tokens.get(address);
-    if (!existing) return undefined;
-    
-    const updated = { ...existing, ...updates };
-    this.tokens.set(address, updated);
-    return updated;
+  async updateToken(address: string, updates: Partial<InsertToken>, chain?: string): Promise<Token | undefined> {
+    const updated = this.tokensAt(address, chain).map(existing => {
+      const token = { ...existing, ...updates };
+      this.tokens.set(tokenKey(existing.chain, existing.address), token);
+      return token;
+    });
+    return updated[0];
   }
 
   async getFilteredTokens(): Promise<Token[]> {
@@ -101,23 +333,150 @@ export class MemStorage implements IStorage {
       .sort((a, b) => new Date(b.launchTime).getTime() - new Date(a.launchTime).getTime());
   }
 
+  async queryTokens(query: TokenQuery): Promise<TokenPage> {
+    const direction = query.order === 'asc' ? 1 : -1;
+    const compare = (a: { value: number; id: number }, b: { value: number; id: number }) =>
+      (a.value - b.value || a.id - b.id) * direction;
+    const key = (token: Token) => ({ value: sortValue(token, query.sort), id: token.id });
+
+    const minLaunchTime = query.maxAge !== undefined ? Date.now() - query.maxAge * 60 * 1000 : undefined;
+    const cursor = query.cursor ? decodeTokenCursor(query.cursor) : null;
+
+    const rows = Array.from(this.tokens.values())
+      .filter(token =>
+        (query.minLiquidity === undefined || token.liquidity >= query.minLiquidity) &&
+        (query.minHolders === undefined || token.holders >= query.minHolders) &&
+        (query.minTransactions === undefined || token.transactions >= query.minTransactions) &&
+        (minLaunchTime === undefined || new Date(token.launchTime).getTime() >= minLaunchTime) &&
+        (!query.socialMentions || token.socialMentions > 0) &&
+        (query.chain === undefined || token.chain === query.chain) &&
+        (!cursor || compare(key(token), cursor) > 0)
+      )
+      .sort((a, b) => compare(key(a), key(b)))
+      .slice(0, query.limit + 1);
+
+    return toTokenPage(rows, query);
+  }
+
+  async createTokenSnapshots(insertSnapshots: InsertTokenSnapshot[]): Promise<TokenSnapshot[]> {
+    return insertSnapshots.map(insertSnapshot => {
+      const snapshot: TokenSnapshot = {
+        ...insertSnapshot,
+        id: this.currentSnapshotId++,
+        resolution: insertSnapshot.resolution || "raw",
+        timestamp: insertSnapshot.timestamp || new Date(),
+        price: insertSnapshot.price ?? null,
+        liquidity: insertSnapshot.liquidity || 0,
+        holders: insertSnapshot.holders || 0,
+        top10HolderPercent: insertSnapshot.top10HolderPercent ?? null,
+        holderGini: insertSnapshot.holderGini ?? null,
+        volume: insertSnapshot.volume || 0,
+        priceChange: insertSnapshot.priceChange || 0,
+        transactions: insertSnapshot.transactions || 0,
+        socialMentions: insertSnapshot.socialMentions || 0,
+      };
+      this.tokenSnapshots.set(snapshot.id, snapshot);
+      return snapshot;
+    });
+  }
+
+  async getTokenSnapshots(tokenAddress: string, from: Date, to: Date): Promise<TokenSnapshot[]> {
+    return Array.from(this.tokenSnapshots.values())
+      .filter(snapshot =>
+        snapshot.tokenAddress === tokenAddress &&
+        snapshot.timestamp.getTime() >= from.getTime() &&
+        snapshot.timestamp.getTime() <= to.getTime()
+      )
+      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  }
+
+  async getTokenSnapshotsBefore(resolution: string, before: Date): Promise<TokenSnapshot[]> {
+    return Array.from(this.tokenSnapshots.values())
+      .filter(snapshot => snapshot.resolution === resolution && snapshot.timestamp.getTime() < before.getTime())
+      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  }
+
+  async deleteTokenSnapshots(ids: number[]): Promise<void> {
+    for (const id of ids) {
+      this.tokenSnapshots.delete(id);
+    }
+  }
+
+  async getFilterRuleSets(): Promise<FilterRuleSet[]> {
+    return Array.from(this.filterRuleSets.values());
+  }
+
+  async replaceFilterRuleSets(ruleSets: InsertFilterRuleSet[]): Promise<FilterRuleSet[]> {
+    this.filterRuleSets.clear();
+    for (const ruleSet of ruleSets) {
+      this.filterRuleSets.set(ruleSet.name, {
+        ...ruleSet,
+        id: this.currentRuleSetId++,
+        updatedAt: new Date(),
+      });
+    }
+    return this.getFilterRuleSets();
+  }
+
+  async getWatchlist(userId: number): Promise<WatchlistEntry[]> {
+    return Array.from(this.watchlists.values())
+      .filter(entry => entry.userId === userId)
+      .sort((a, b) => new Date(b.addedAt).getTime() - new Date(a.addedAt).getTime() || b.id - a.id);
+  }
+
+  async addToWatchlist(insertEntry: InsertWatchlistEntry): Promise<WatchlistEntry> {
+    const existing = Array.from(this.watchlists.values()).find(entry =>
+      entry.userId === insertEntry.userId && entry.tokenAddress === insertEntry.tokenAddress
+    );
+    if (existing) return existing;
+
+    const entry: WatchlistEntry = {
+      ...insertEntry,
+      id: this.currentWatchlistId++,
+      addedAt: new Date(),
+    };
+    this.watchlists.set(entry.id, entry);
+    return entry;
+  }
+
+  async removeFromWatchlist(userId: number, tokenAddress: string): Promise<boolean> {
+    const existing = Array.from(this.watchlists.values()).find(entry =>
+      entry.userId === userId && entry.tokenAddress === tokenAddress
+    );
+    return existing ? this.watchlists.delete(existing.id) : false;
+  }
+
   async getSocialMentions(limit = 50): Promise<SocialMention[]> {
     return Array.from(this.socialMentions.values())
       .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())
       .slice(0, limit);
   }
 
-  async createSocialMention(insertMention: InsertSocialMention): Promise<SocialMention> {
-    const mention: SocialMention = {
-      ...insertMention,
-      id: this.currentMentionId++,
-      timestamp: new Date(),
-      tokenAddress: insertMention.tokenAddress || null,
-      likes: insertMention.likes || 0,
-      retweets: insertMention.retweets || 0,
-    };
-    this.socialMentions.set(mention.id, mention);
-    return mention;
+  async createSocialMentions(insertMentions: InsertSocialMention[]): Promise<SocialMention[]> {
+    const seen = new Set(Array.from(this.socialMentions.values()).map(mention => `${mention.platform}:${mention.postId}`));
+    const created: SocialMention[] = [];
+
+    for (const insertMention of insertMentions) {
+      const key = `${insertMention.platform}:${insertMention.postId}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+
+      const mention: SocialMention = {
+        ...insertMention,
+        id: this.currentMentionId++,
+        timestamp: insertMention.timestamp || new Date(),
+        ingestedAt: new Date(),
+        tokenAddress: insertMention.tokenAddress || null,
+        keywords: insertMention.keywords || [],
+        sentiment: insertMention.sentiment || 0,
+        sentimentLabel: insertMention.sentimentLabel || 'neutral',
+        likes: insertMention.likes || 0,
+        retweets: insertMention.retweets || 0,
+      };
+      this.socialMentions.set(mention.id, mention);
+      created.push(mention);
+    }
+    return created;
   }
 
   async getSocialMentionsByToken(tokenAddress: string): Promise<SocialMention[]> {
@@ -125,6 +484,736 @@ export class MemStorage implements IStorage {
       .filter(mention => mention.tokenAddress === tokenAddress)
       .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
   }
+
+  async getSocialMentionsSince(since: Date): Promise<SocialMention[]> {
+    return Array.from(this.socialMentions.values())
+      .filter(mention => new Date(mention.ingestedAt) > since)
+      .sort((a, b) => new Date(a.ingestedAt).getTime() - new Date(b.ingestedAt).getTime() || a.id - b.id);
+  }
+
+  async getUnlinkedSocialMentions(since: Date): Promise<SocialMention[]> {
+    return Array.from(this.socialMentions.values())
+      .filter(mention => !mention.tokenAddress && new Date(mention.timestamp) > since);
+  }
+
+  async linkSocialMention(id: number, tokenAddress: string): Promise<void> {
+    const mention = this.socialMentions.get(id);
+    if (mention) {
+      this.socialMentions.set(id, { ...mention, tokenAddress });
+    }
+  }
+
+  async getLinkedSocialMentions(since: Date): Promise<SocialMention[]> {
+    return Array.from(this.socialMentions.values())
+      .filter(mention => !!mention.tokenAddress && new Date(mention.timestamp) > since);
+  }
+
+  async getTradingSignals(tokenAddress?: string, limit = 100): Promise<TradingSignal[]> {
+    return Array.from(this.tradingSignals.values())
+      .filter(signal => !tokenAddress || signal.tokenAddress === tokenAddress)
+      .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())
+      .slice(0, limit);
+  }
+
+  async createTradingSignal(insertSignal: InsertTradingSignal): Promise<TradingSignal> {
+    const signal: TradingSignal = {
+      ...insertSignal,
+      id: this.currentSignalId++,
+      timestamp: insertSignal.timestamp || new Date(),
+      executed: insertSignal.executed || false,
+      factors: insertSignal.factors ?? [],
+      strategy: insertSignal.strategy ?? null,
+    };
+    this.tradingSignals.set(signal.id, signal);
+    return signal;
+  }
+
+  async markSignalExecuted(id: number): Promise<TradingSignal | undefined> {
+    const existing = this.tradingSignals.get(id);
+    if (!existing) return undefined;
+
+    const updated = { ...existing, executed: true };
+    this.tradingSignals.set(id, updated);
+    return updated;
+  }
+
+  async getTrades(limit = 100): Promise<Trade[]> {
+    return Array.from(this.trades.values())
+      .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())
+      .slice(0, limit);
+  }
+
+  async getTradesByToken(tokenAddress: string): Promise<Trade[]> {
+    return Array.from(this.trades.values())
+      .filter(trade => trade.tokenAddress === tokenAddress)
+      .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
+  }
+
+  async createTrade(insertTrade: InsertTrade): Promise<Trade> {
+    const trade: Trade = {
+      ...insertTrade,
+      id: this.currentTradeId++,
+      timestamp: insertTrade.timestamp || new Date(),
+      status: insertTrade.status || "PENDING",
+      quantity: insertTrade.quantity ?? 0,
+      fee: insertTrade.fee ?? 0,
+      strategy: insertTrade.strategy ?? null,
+    };
+    this.trades.set(trade.id, trade);
+    return trade;
+  }
+
+  async getBotSettings(): Promise<BotSettings | undefined> {
+    return this.botSettings;
+  }
+
+  async saveBotSettings(settings: InsertBotSettings): Promise<BotSettings> {
+    this.botSettings = {
+      id: 1,
+      maxInvestment: settings.maxInvestment ?? 100,
+      stopLoss: settings.stopLoss ?? 20,
+      takeProfit: settings.takeProfit ?? 50,
+      minLiquidity: settings.minLiquidity ?? 10000,
+      minHolders: settings.minHolders ?? 50,
+      socialSentimentWeight: settings.socialSentimentWeight ?? 0.3,
+      maxRiskScore: settings.maxRiskScore ?? 50,
+      feeBps: settings.feeBps ?? 30,
+      slippageBps: settings.slippageBps ?? 50,
+      strategies: settings.strategies ?? {},
+      enabled: settings.enabled ?? false,
+    };
+    return this.botSettings;
+  }
+
+  async getPerformanceMetrics(limit = 30): Promise<PerformanceMetrics[]> {
+    return Array.from(this.performanceMetrics.values())
+      .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
+      .slice(-limit);
+  }
+
+  async upsertPerformanceMetrics(metrics: InsertPerformanceMetrics): Promise<PerformanceMetrics> {
+    const existing = Array.from(this.performanceMetrics.values()).find(
+      m => new Date(m.date).getTime() === new Date(metrics.date).getTime()
+    );
+    const record: PerformanceMetrics = { ...metrics, id: existing?.id ?? this.currentAnalyticsId++ };
+    this.performanceMetrics.set(record.id, record);
+    return record;
+  }
+
+  async getStrategyPerformance(limit = 100): Promise<StrategyPerformance[]> {
+    return Array.from(this.strategyPerformance.values())
+      .sort((a, b) => new Date(a.entryTime).getTime() - new Date(b.entryTime).getTime())
+      .slice(-limit);
+  }
+
+  async getActiveStrategyPerformance(tokenAddress: string): Promise<StrategyPerformance[]> {
+    return Array.from(this.strategyPerformance.values())
+      .filter(record => record.tokenAddress === tokenAddress && record.outcome === 'ACTIVE')
+      .sort((a, b) => new Date(a.entryTime).getTime() - new Date(b.entryTime).getTime());
+  }
+
+  async createStrategyPerformance(insertRecord: InsertStrategyPerformance): Promise<StrategyPerformance> {
+    const record: StrategyPerformance = {
+      ...insertRecord,
+      id: this.currentAnalyticsId++,
+      exitPrice: insertRecord.exitPrice ?? null,
+      exitTime: insertRecord.exitTime ?? null,
+      pnl: insertRecord.pnl ?? null,
+      pnlPercentage: insertRecord.pnlPercentage ?? null,
+      quantity: insertRecord.quantity ?? null,
+      duration: insertRecord.duration ?? null,
+      outcome: insertRecord.outcome ?? null,
+      factors: insertRecord.factors ?? [],
+    };
+    this.strategyPerformance.set(record.id, record);
+    return record;
+  }
+
+  async updateStrategyPerformance(id: number, updates: Partial<InsertStrategyPerformance>): Promise<StrategyPerformance | undefined> {
+    const existing = this.strategyPerformance.get(id);
+    if (!existing) return undefined;
+
+    const updated = { ...existing, ...updates };
+    this.strategyPerformance.set(id, updated);
+    return updated;
+  }
+
+  async getMarketConditions(limit = 30): Promise<MarketConditions[]> {
+    return Array.from(this.marketConditions.values())
+      .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime())
+      .slice(-limit);
+  }
+
+  async createMarketConditions(insertConditions: InsertMarketConditions): Promise<MarketConditions> {
+    const conditions: MarketConditions = {
+      ...insertConditions,
+      id: this.currentAnalyticsId++,
+      topPerformers: insertConditions.topPerformers ?? null,
+    };
+    this.marketConditions.set(conditions.id, conditions);
+    return conditions;
+  }
+  async getAlertRules(userId?: number): Promise<AlertRule[]> {
+    return Array.from(this.alertRules.values())
+      .filter(rule => userId === undefined || rule.userId === userId)
+      .sort((a, b) => a.id - b.id);
+  }
+
+  async getAlertRule(id: number): Promise<AlertRule | undefined> {
+    return this.alertRules.get(id);
+  }
+
+  async createAlertRule(insertRule: InsertAlertRule): Promise<AlertRule> {
+    const rule: AlertRule = {
+      ...insertRule,
+      id: this.currentAlertRuleId++,
+      watchlistOnly: insertRule.watchlistOnly ?? false,
+      cooldownMinutes: insertRule.cooldownMinutes ?? 60,
+      enabled: insertRule.enabled ?? true,
+      createdAt: new Date(),
+    };
+    this.alertRules.set(rule.id, rule);
+    return rule;
+  }
+
+  async updateAlertRule(id: number, updates: Partial<InsertAlertRule>): Promise<AlertRule | undefined> {
+    const existing = this.alertRules.get(id);
+    if (!existing) return undefined;
+
+    const updated = { ...existing, ...updates };
+    this.alertRules.set(id, updated);
+    return updated;
+  }
+
+  async deleteAlertRule(id: number): Promise<boolean> {
+    // Mirror the database's cascade
+    Array.from(this.alertEvents.values())
+      .filter(event => event.ruleId === id)
+      .forEach(event => this.alertEvents.delete(event.id));
+    return this.alertRules.delete(id);
+  }
+
+  async getAlertEvents(userId: number, limit = 50): Promise<AlertEvent[]> {
+    return Array.from(this.alertEvents.values())
+      .filter(event => event.userId === userId)
+      .sort((a, b) => new Date(b.triggeredAt).getTime() - new Date(a.triggeredAt).getTime() || b.id - a.id)
+      .slice(0, limit);
+  }
+
+  async getLastAlertEvent(ruleId: number, tokenAddress: string): Promise<AlertEvent | undefined> {
+    return Array.from(this.alertEvents.values())
+      .filter(event => event.ruleId === ruleId && event.tokenAddress === tokenAddress)
+      .sort((a, b) => new Date(b.triggeredAt).getTime() - new Date(a.triggeredAt).getTime() || b.id - a.id)[0];
+  }
+
+  async createAlertEvent(insertEvent: InsertAlertEvent): Promise<AlertEvent> {
+    const event: AlertEvent = {
+      ...insertEvent,
+      id: this.currentAlertEventId++,
+      channels: insertEvent.channels ?? [],
+      triggeredAt: new Date(),
+    };
+    this.alertEvents.set(event.id, event);
+    return event;
+  }
+
+  async getChatIntegrations(userId?: number): Promise<ChatIntegration[]> {
+    return Array.from(this.chatIntegrations.values())
+      .filter(integration => userId === undefined || integration.userId === userId)
+      .sort((a, b) => a.id - b.id);
+  }
+
+  async getChatIntegration(id: number): Promise<ChatIntegration | undefined> {
+    return this.chatIntegrations.get(id);
+  }
+
+  async createChatIntegration(insertIntegration: InsertChatIntegration): Promise<ChatIntegration> {
+    const integration: ChatIntegration = {
+      ...insertIntegration,
+      id: this.currentChatIntegrationId++,
+      notifyAlerts: insertIntegration.notifyAlerts ?? true,
+      notifyTrades: insertIntegration.notifyTrades ?? false,
+      enabled: insertIntegration.enabled ?? true,
+      createdAt: new Date(),
+    };
+    this.chatIntegrations.set(integration.id, integration);
+    return integration;
+  }
+
+  async updateChatIntegration(id: number, updates: Partial<InsertChatIntegration>): Promise<ChatIntegration | undefined> {
+    const existing = this.chatIntegrations.get(id);
+    if (!existing) return undefined;
+
+    const updated = { ...existing, ...updates };
+    this.chatIntegrations.set(id, updated);
+    return updated;
+  }
+
+  async deleteChatIntegration(id: number): Promise<boolean> {
+    return this.chatIntegrations.delete(id);
+  }
+
+}
+
+export class DatabaseStorage implements IStorage {
+  sessionStore: session.Store;
+
+  constructor(private db: Database) {
+    this.sessionStore = new PostgresSessionStore({
+      pool: db.$client,
+      createTableIfMissing: true,
+    });
+  }
+
+  async getUser(id: number): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user || undefined;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user || undefined;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await this.db.insert(users).values(insertUser).returning();
+    return user;
+  }
+
+  async getAllTokens(): Promise<Token[]> {
+    return this.db.select().from(tokens).orderBy(desc(tokens.launchTime));
+  }
+
+  private tokenWhere(address: string, chain?: string) {
+    return chain !== undefined
+      ? and(eq(tokens.address, address), eq(tokens.chain, chain))
+      : eq(tokens.address, address);
+  }
+
+  async getToken(address: string, chain?: string): Promise<Token | undefined> {
+    const [token] = await this.db.select().from(tokens).where(this.tokenWhere(address, chain)).orderBy(tokens.id).limit(1);
+    return token || undefined;
+  }
+
+  async createToken(insertToken: InsertToken): Promise<Token> {
+    const [token] = await this.db.insert(tokens).values(insertToken).returning();
+    return token;
+  }
+
+  async updateToken(address: string, updates: Partial<InsertToken>, chain?: string): Promise<Token | undefined> {
+    const updated = await this.db
+      .update(tokens)
+      .set(updates)
+      .where(this.tokenWhere(address, chain))
+      .returning();
+    return updated.sort((a, b) => a.id - b.id)[0];
+  }
+
+  async getFilteredTokens(): Promise<Token[]> {
+    return this.db
+      .select()
+      .from(tokens)
+      .where(eq(tokens.isFiltered, true))
+      .orderBy(desc(tokens.launchTime));
+  }
+
+  async getHighAlertTokens(): Promise<Token[]> {
+    return this.db
+      .select()
+      .from(tokens)
+      .where(eq(tokens.isHighAlert, true))
+      .orderBy(desc(tokens.launchTime));
+  }
+
+  async queryTokens(query: TokenQuery): Promise<TokenPage> {
+    const column = tokens[query.sort];
+    const conditions: (SQL | undefined)[] = [
+      query.minLiquidity !== undefined ? gte(tokens.liquidity, query.minLiquidity) : undefined,
+      query.minHolders !== undefined ? gte(tokens.holders, query.minHolders) : undefined,
+      query.minTransactions !== undefined ? gte(tokens.transactions, query.minTransactions) : undefined,
+      query.maxAge !== undefined ? gte(tokens.launchTime, new Date(Date.now() - query.maxAge * 60 * 1000)) : undefined,
+      query.socialMentions ? gt(tokens.socialMentions, 0) : undefined,
+      query.chain !== undefined ? eq(tokens.chain, query.chain) : undefined,
+    ];
+
+    const cursor = query.cursor ? decodeTokenCursor(query.cursor) : null;
+    if (cursor) {
+      const value = query.sort === 'launchTime' ? new Date(cursor.value) : cursor.value;
+      const past = query.order === 'asc' ? gt : lt;
+      conditions.push(or(past(column, value), and(eq(column, value), past(tokens.id, cursor.id))));
+    }
+
+    const order = query.order === 'asc' ? asc : desc;
+    const rows = await this.db
+      .select()
+      .from(tokens)
+      .where(and(...conditions))
+      .orderBy(order(column), order(tokens.id))
+      .limit(query.limit + 1);
+
+    return toTokenPage(rows, query);
+  }
+
+  async createTokenSnapshots(insertSnapshots: InsertTokenSnapshot[]): Promise<TokenSnapshot[]> {
+    if (insertSnapshots.length === 0) return [];
+    return this.db.insert(tokenSnapshots).values(insertSnapshots).returning();
+  }
+
+  async getTokenSnapshots(tokenAddress: string, from: Date, to: Date): Promise<TokenSnapshot[]> {
+    return this.db
+      .select()
+      .from(tokenSnapshots)
+      .where(and(
+        eq(tokenSnapshots.tokenAddress, tokenAddress),
+        gte(tokenSnapshots.timestamp, from),
+        lte(tokenSnapshots.timestamp, to)
+      ))
+      .orderBy(asc(tokenSnapshots.timestamp));
+  }
+
+  async getTokenSnapshotsBefore(resolution: string, before: Date): Promise<TokenSnapshot[]> {
+    return this.db
+      .select()
+      .from(tokenSnapshots)
+      .where(and(eq(tokenSnapshots.resolution, resolution), lt(tokenSnapshots.timestamp, before)))
+      .orderBy(asc(tokenSnapshots.timestamp));
+  }
+
+  async deleteTokenSnapshots(ids: number[]): Promise<void> {
+    if (ids.length === 0) return;
+    await this.db.delete(tokenSnapshots).where(inArray(tokenSnapshots.id, ids));
+  }
+
+  async getFilterRuleSets(): Promise<FilterRuleSet[]> {
+    return this.db.select().from(filterRuleSets).orderBy(asc(filterRuleSets.id));
+  }
+
+  async replaceFilterRuleSets(ruleSets: InsertFilterRuleSet[]): Promise<FilterRuleSet[]> {
+    return this.db.transaction(async (tx) => {
+      await tx.delete(filterRuleSets);
+      if (ruleSets.length === 0) return [];
+      return tx.insert(filterRuleSets).values(ruleSets).returning();
+    });
+  }
+
+  async getWatchlist(userId: number): Promise<WatchlistEntry[]> {
+    return this.db
+      .select()
+      .from(watchlists)
+      .where(eq(watchlists.userId, userId))
+      .orderBy(desc(watchlists.addedAt), desc(watchlists.id));
+  }
+
+  async addToWatchlist(insertEntry: InsertWatchlistEntry): Promise<WatchlistEntry> {
+    const [created] = await this.db
+      .insert(watchlists)
+      .values(insertEntry)
+      .onConflictDoNothing({ target: [watchlists.userId, watchlists.tokenAddress] })
+      .returning();
+    if (created) return created;
+
+    const [existing] = await this.db
+      .select()
+      .from(watchlists)
+      .where(and(eq(watchlists.userId, insertEntry.userId), eq(watchlists.tokenAddress, insertEntry.tokenAddress)));
+    return existing;
+  }
+
+  async removeFromWatchlist(userId: number, tokenAddress: string): Promise<boolean> {
+    const removed = await this.db
+      .delete(watchlists)
+      .where(and(eq(watchlists.userId, userId), eq(watchlists.tokenAddress, tokenAddress)))
+      .returning();
+    return removed.length > 0;
+  }
+
+  async getSocialMentions(limit = 50): Promise<SocialMention[]> {
+    return this.db
+      .select()
+      .from(socialMentions)
+      .orderBy(desc(socialMentions.timestamp))
+      .limit(limit);
+  }
+
+  async createSocialMentions(insertMentions: InsertSocialMention[]): Promise<SocialMention[]> {
+    // ON CONFLICT covers stored posts; drop repeats within the batch as well
+    const seen = new Set<string>();
+    const unique = insertMentions.filter(mention => {
+      const key = `${mention.platform}:${mention.postId}`;
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+    if (unique.length === 0) return [];
+    return this.db
+      .insert(socialMentions)
+      .values(unique)
+      .onConflictDoNothing({ target: [socialMentions.platform, socialMentions.postId] })
+      .returning();
+  }
+
+  async getSocialMentionsByToken(tokenAddress: string): Promise<SocialMention[]> {
+    return this.db
+      .select()
+      .from(socialMentions)
+      .where(eq(socialMentions.tokenAddress, tokenAddress))
+      .orderBy(desc(socialMentions.timestamp));
+  }
+
+  async getSocialMentionsSince(since: Date): Promise<SocialMention[]> {
+    return this.db
+      .select()
+      .from(socialMentions)
+      .where(gt(socialMentions.ingestedAt, since))
+      .orderBy(asc(socialMentions.ingestedAt), asc(socialMentions.id));
+  }
+
+  async getUnlinkedSocialMentions(since: Date): Promise<SocialMention[]> {
+    return this.db
+      .select()
+      .from(socialMentions)
+      .where(and(isNull(socialMentions.tokenAddress), gt(socialMentions.timestamp, since)));
+  }
+
+  async linkSocialMention(id: number, tokenAddress: string): Promise<void> {
+    await this.db
+      .update(socialMentions)
+      .set({ tokenAddress })
+      .where(eq(socialMentions.id, id));
+  }
+
+  async getLinkedSocialMentions(since: Date): Promise<SocialMention[]> {
+    return this.db
+      .select()
+      .from(socialMentions)
+      .where(and(isNotNull(socialMentions.tokenAddress), gt(socialMentions.timestamp, since)));
+  }
+
+  async getTradingSignals(tokenAddress?: string, limit = 100): Promise<TradingSignal[]> {
+    return this.db
+      .select()
+      .from(tradingSignals)
+      .where(tokenAddress ? eq(tradingSignals.tokenAddress, tokenAddress) : undefined)
+      .orderBy(desc(tradingSignals.timestamp))
+      .limit(limit);
+  }
+
+  async createTradingSignal(insertSignal: InsertTradingSignal): Promise<TradingSignal> {
+    const [signal] = await this.db.insert(tradingSignals).values(insertSignal).returning();
+    return signal;
+  }
+
+  async markSignalExecuted(id: number): Promise<TradingSignal | undefined> {
+    const [signal] = await this.db
+      .update(tradingSignals)
+      .set({ executed: true })
+      .where(eq(tradingSignals.id, id))
+      .returning();
+    return signal || undefined;
+  }
+
+  async getTrades(limit = 100): Promise<Trade[]> {
+    return this.db.select().from(trades).orderBy(desc(trades.timestamp)).limit(limit);
+  }
+
+  async getTradesByToken(tokenAddress: string): Promise<Trade[]> {
+    return this.db
+      .select()
+      .from(trades)
+      .where(eq(trades.tokenAddress, tokenAddress))
+      .orderBy(desc(trades.timestamp));
+  }
+
+  async createTrade(insertTrade: InsertTrade): Promise<Trade> {
+    const [trade] = await this.db.insert(trades).values(insertTrade).returning();
+    return trade;
+  }
+
+  async getBotSettings(): Promise<BotSettings | undefined> {
+    const [settings] = await this.db.select().from(botSettings).limit(1);
+    return settings || undefined;
+  }
+
+  async saveBotSettings(settings: InsertBotSettings): Promise<BotSettings> {
+    const existing = await this.getBotSettings();
+    if (existing) {
+      const [updated] = await this.db
+        .update(botSettings)
+        .set(settings)
+        .where(eq(botSettings.id, existing.id))
+        .returning();
+      return updated;
+    }
+
+    const [created] = await this.db.insert(botSettings).values(settings).returning();
+    return created;
+  }
+
+  async getPerformanceMetrics(limit = 30): Promise<PerformanceMetrics[]> {
+    const rows = await this.db
+      .select()
+      .from(performanceMetrics)
+      .orderBy(desc(performanceMetrics.date))
+      .limit(limit);
+    return rows.reverse();
+  }
+
+  async upsertPerformanceMetrics(metrics: InsertPerformanceMetrics): Promise<PerformanceMetrics> {
+    const [existing] = await this.db
+      .select()
+      .from(performanceMetrics)
+      .where(eq(performanceMetrics.date, metrics.date));
+    if (existing) {
+      const [updated] = await this.db
+        .update(performanceMetrics)
+        .set(metrics)
+        .where(eq(performanceMetrics.id, existing.id))
+        .returning();
+      return updated;
+    }
+
+    const [created] = await this.db.insert(performanceMetrics).values(metrics).returning();
+    return created;
+  }
+
+  async getStrategyPerformance(limit = 100): Promise<StrategyPerformance[]> {
+    const rows = await this.db
+      .select()
+      .from(strategyPerformance)
+      .orderBy(desc(strategyPerformance.entryTime))
+      .limit(limit);
+    return rows.reverse();
+  }
+
+  async getActiveStrategyPerformance(tokenAddress: string): Promise<StrategyPerformance[]> {
+    return this.db
+      .select()
+      .from(strategyPerformance)
+      .where(and(
+        eq(strategyPerformance.tokenAddress, tokenAddress),
+        eq(strategyPerformance.outcome, 'ACTIVE')
+      ))
+      .orderBy(strategyPerformance.entryTime);
+  }
+
+  async createStrategyPerformance(insertRecord: InsertStrategyPerformance): Promise<StrategyPerformance> {
+    const [record] = await this.db.insert(strategyPerformance).values(insertRecord).returning();
+    return record;
+  }
+
+  async updateStrategyPerformance(id: number, updates: Partial<InsertStrategyPerformance>): Promise<StrategyPerformance | undefined> {
+    const [record] = await this.db
+      .update(strategyPerformance)
+      .set(updates)
+      .where(eq(strategyPerformance.id, id))
+      .returning();
+    return record || undefined;
+  }
+
+  async getMarketConditions(limit = 30): Promise<MarketConditions[]> {
+    const rows = await this.db
+      .select()
+      .from(marketConditions)
+      .orderBy(desc(marketConditions.timestamp))
+      .limit(limit);
+    return rows.reverse();
+  }
+
+  async createMarketConditions(insertConditions: InsertMarketConditions): Promise<MarketConditions> {
+    const [conditions] = await this.db.insert(marketConditions).values(insertConditions).returning();
+    return conditions;
+  }
+
+  async getAlertRules(userId?: number): Promise<AlertRule[]> {
+    return this.db
+      .select()
+      .from(alertRules)
+      .where(userId !== undefined ? eq(alertRules.userId, userId) : undefined)
+      .orderBy(asc(alertRules.id));
+  }
+
+  async getAlertRule(id: number): Promise<AlertRule | undefined> {
+    const [rule] = await this.db.select().from(alertRules).where(eq(alertRules.id, id));
+    return rule || undefined;
+  }
+
+  async createAlertRule(insertRule: InsertAlertRule): Promise<AlertRule> {
+    const [rule] = await this.db.insert(alertRules).values(insertRule).returning();
+    return rule;
+  }
+
+  async updateAlertRule(id: number, updates: Partial<InsertAlertRule>): Promise<AlertRule | undefined> {
+    const [rule] = await this.db
+      .update(alertRules)
+      .set(updates)
+      .where(eq(alertRules.id, id))
+      .returning();
+    return rule || undefined;
+  }
+
+  async deleteAlertRule(id: number): Promise<boolean> {
+    const removed = await this.db.delete(alertRules).where(eq(alertRules.id, id)).returning();
+    return removed.length > 0;
+  }
+
+  async getAlertEvents(userId: number, limit = 50): Promise<AlertEvent[]> {
+    return this.db
+      .select()
+      .from(alertEvents)
+      .where(eq(alertEvents.userId, userId))
+      .orderBy(desc(alertEvents.triggeredAt), desc(alertEvents.id))
+      .limit(limit);
+  }
+
+  async getLastAlertEvent(ruleId: number, tokenAddress: string): Promise<AlertEvent | undefined> {
+    const [event] = await this.db
+      .select()
+      .from(alertEvents)
+      .where(and(eq(alertEvents.ruleId, ruleId), eq(alertEvents.tokenAddress, tokenAddress)))
+      .orderBy(desc(alertEvents.triggeredAt))
+      .limit(1);
+    return event || undefined;
+  }
+
+  async createAlertEvent(insertEvent: InsertAlertEvent): Promise<AlertEvent> {
+    const [event] = await this.db.insert(alertEvents).values(insertEvent).returning();
+    return event;
+  }
+
+  async getChatIntegrations(userId?: number): Promise<ChatIntegration[]> {
+    return this.db
+      .select()
+      .from(chatIntegrations)
+      .where(userId !== undefined ? eq(chatIntegrations.userId, userId) : undefined)
+      .orderBy(asc(chatIntegrations.id));
+  }
+
+  async getChatIntegration(id: number): Promise<ChatIntegration | undefined> {
+    const [integration] = await this.db.select().from(chatIntegrations).where(eq(chatIntegrations.id, id));
+    return integration || undefined;
+  }
+
+  async createChatIntegration(insertIntegration: InsertChatIntegration): Promise<ChatIntegration> {
+    const [integration] = await this.db.insert(chatIntegrations).values(insertIntegration).returning();
+    return integration;
+  }
+
+  async updateChatIntegration(id: number, updates: Partial<InsertChatIntegration>): Promise<ChatIntegration | undefined> {
+    const [integration] = await this.db
+      .update(chatIntegrations)
+      .set(updates)
+      .where(eq(chatIntegrations.id, id))
+      .returning();
+    return integration || undefined;
+  }
+
+  async deleteChatIntegration(id: number): Promise<boolean> {
+    const removed = await this.db.delete(chatIntegrations).where(eq(chatIntegrations.id, id)).returning();
+    return removed.length > 0;
+  }
 }
 
-export const storage = new MemStorage();
+// Use Postgres when a database is provisioned, otherwise keep everything in memory
+export const storage: IStorage = process.env.DATABASE_URL
+  ? new DatabaseStorage(createDb(process.env.DATABASE_URL))
+  : new MemStorage();
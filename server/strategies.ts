@@ -0,0 +1,212 @@
+import type { Token } from "@shared/schema";
+import type { BotSettings, SignalFactor, StrategyConfig } from "@shared/trading-schema";
+import { socialSentimentScore } from "./sentiment";
+
+export interface MarketData {
+  price: number;
+  bidPrice: number;
+  askPrice: number;
+  volume24h: number;
+  priceChange24h: number;
+  marketCap: number;
+  timestamp: number;
+}
+
+export interface TechnicalIndicators {
+  rsi: number;
+  macd: { macd: number; signal: number; histogram: number };
+  sma20: number;
+  sma50: number;
+  bollingerBands: { upper: number; middle: number; lower: number };
+  volumeProfile: number;
+}
+
+// Everything a strategy may look at for one token
+export interface StrategyContext {
+  token: Token;
+  marketData: MarketData;
+  indicators: TechnicalIndicators | null; // Null until enough price samples are collected
+  settings: BotSettings;
+  now: number;
+}
+
+export type StrategyParams = Record<string, number>;
+
+export interface StrategySignal {
+  signal: 'BUY' | 'HOLD';
+  confidence: number; // 0-95
+  factors: SignalFactor[];
+}
+
+export interface Strategy {
+  readonly id: string;
+  readonly name: string;
+  readonly description: string;
+  // Every strategy has `minConfidence`: a BUY is only traded above it
+  readonly defaultParams: StrategyParams;
+  readonly defaultAllocation: number; // Percent of portfolio value
+  // Null when the token isn't worth a signal
+  evaluate(context: StrategyContext, params: StrategyParams): StrategySignal | null;
+}
+
+export const factor = (id: string, label: string, input: number | null, weight: number, points: number): SignalFactor =>
+  ({ id, label, input, weight, points });
+
+// Confidence is the sum of every factor's points
+export const totalPoints = (factors: SignalFactor[]) => factors.reduce((sum, f) => sum + f.points, 0);
+
+// The factors that moved confidence, for the human-readable reason
+export const factorReason = (factors: SignalFactor[]) =>
+  factors.filter(f => f.points !== 0).map(f => f.label).join(', ');
+
+const ageInMinutes = ({ token, now }: StrategyContext) => (now - new Date(token.launchTime).getTime()) / (1000 * 60);
+
+// Technical analysis over the bot's own price samples, confirmed by market structure
+export class TechnicalBreakoutStrategy implements Strategy {
+  readonly id = 'technical-breakout';
+  readonly name = 'Technical Breakout';
+  readonly description = 'RSI, SMA trend, MACD and volume breakouts, confirmed by liquidity, holders and sentiment';
+  readonly defaultParams = { minConfidence: 75, rsiOversold: 30, rsiOverbought: 70, volumeBreakout: 2, earlyLaunchMinutes: 60 };
+  readonly defaultAllocation = 60;
+
+  evaluate(context: StrategyContext, params: StrategyParams): StrategySignal | null {
+    const { token, marketData, indicators, settings } = context;
+    if (!indicators) return null;
+
+    const price = marketData.price;
+    const ageMinutes = ageInMinutes(context);
+    const socialWeight = settings.socialSentimentWeight * 100;
+    const socialScore = socialSentimentScore(token);
+
+    const factors: SignalFactor[] = [
+      // Technical Analysis Signals (40% weight)
+      indicators.rsi < params.rsiOversold
+        ? factor('rsi', 'RSI oversold', indicators.rsi, 15, 15)
+        : indicators.rsi > params.rsiOverbought
+          ? factor('rsi', 'RSI overbought', indicators.rsi, 15, -10)
+          : factor('rsi', 'RSI neutral', indicators.rsi, 15, 0),
+      factor('trend', 'Bullish trend', (indicators.sma20 / indicators.sma50 - 1) * 100, 20,
+        price > indicators.sma20 && indicators.sma20 > indicators.sma50 ? 20 : 0),
+      factor('macd', 'MACD bullish crossover', indicators.macd.histogram, 15,
+        indicators.macd.macd > indicators.macd.signal && indicators.macd.histogram > 0 ? 15 : 0),
+
+      // Volume Analysis (20% weight)
+      factor('volume', 'High volume breakout', marketData.volume24h / indicators.volumeProfile, 20,
+        marketData.volume24h > indicators.volumeProfile * params.volumeBreakout ? 20 : 0),
+
+      // Market Structure (20% weight)
+      factor('liquidity', 'Strong liquidity', token.liquidity, 10,
+        token.liquidity > settings.minLiquidity * 2 ? 10 : 0),
+      factor('holders', 'Growing holder base', token.holderGrowthRate, 10,
+        token.holders > settings.minHolders * 1.5 && (token.holderGrowthRate ?? 0) > 0 ? 10 : 0),
+
+      // Social Sentiment (20% weight): mood of recent mentions, so heavy FUD counts against a token
+      factor('social', socialScore < 0 ? 'Bearish social sentiment' : 'Bullish social sentiment', socialScore, socialWeight,
+        Math.round(socialScore * socialWeight)),
+
+      // Age factor
+      factor('age', 'Early launch opportunity', ageMinutes, 10, ageMinutes < params.earlyLaunchMinutes ? 10 : 0),
+    ];
+
+    const confidence = totalPoints(factors);
+    if (confidence < 60) return null;
+
+    return { signal: confidence > 70 ? 'BUY' : 'HOLD', confidence: Math.min(confidence, 95), factors };
+  }
+}
+
+// Token-level momentum: price change and trading activity on liquid, well-held tokens.
+// Needs no price history, so it can act on a token from its first quote.
+export class MomentumStrategy implements Strategy {
+  readonly id = 'momentum';
+  readonly name = 'Momentum';
+  readonly description = 'Price momentum and volume relative to liquidity on liquid tokens with a solid holder base';
+  readonly defaultParams = { minConfidence: 60, strongMomentum: 20, momentum: 10, earlyLaunchMinutes: 60, staleLaunchMinutes: 720 };
+  readonly defaultAllocation = 40;
+
+  evaluate(context: StrategyContext, params: StrategyParams): StrategySignal | null {
+    const { token, settings } = context;
+    // Skip low liquidity tokens
+    if (token.liquidity < settings.minLiquidity) return null;
+
+    const volumeToLiquidityRatio = token.volume / token.liquidity;
+    const socialWeight = settings.socialSentimentWeight * 100;
+    const socialScore = socialSentimentScore(token);
+    const ageMinutes = ageInMinutes(context);
+
+    const factors: SignalFactor[] = [
+      // Liquidity analysis (25% weight)
+      factor('liquidity', 'High liquidity', token.liquidity, 25, token.liquidity > settings.minLiquidity * 2 ? 25 : 0),
+
+      // Holder count analysis (20% weight)
+      token.holders > settings.minHolders * 2
+        ? factor('holders', 'Strong holder base', token.holders, 20, 20)
+        : factor('holders', 'Holder base', token.holders, 20, token.holders > settings.minHolders ? 10 : 0),
+
+      // Price change momentum (25% weight)
+      token.priceChange > params.strongMomentum
+        ? factor('momentum', 'Strong upward momentum', token.priceChange, 25, 25)
+        : token.priceChange > params.momentum
+          ? factor('momentum', 'Upward momentum', token.priceChange, 25, 15)
+          : token.priceChange < -params.momentum
+            ? factor('momentum', 'Negative momentum', token.priceChange, 25, -20)
+            : factor('momentum', 'Flat momentum', token.priceChange, 25, 0),
+
+      // Volume analysis (15% weight)
+      factor('volume', 'High trading volume', volumeToLiquidityRatio, 15,
+        volumeToLiquidityRatio > 0.5 ? 15 : volumeToLiquidityRatio > 0.2 ? 8 : 0),
+
+      // Social sentiment (15% weight)
+      socialScore > 0.2
+        ? factor('social', 'Bullish social sentiment', socialScore, socialWeight, socialWeight * Math.min(1, socialScore / 0.5))
+        : socialScore < -0.2
+          ? factor('social', 'Bearish social sentiment', socialScore, socialWeight, -socialWeight * Math.min(1, -socialScore / 0.5))
+          : factor('social', 'Neutral social sentiment', socialScore, socialWeight, 0),
+
+      // Age factor (bonus/penalty)
+      ageMinutes < params.earlyLaunchMinutes
+        ? factor('age', 'Very early launch', ageMinutes, 10, 10) // Early bird bonus
+        : ageMinutes > params.staleLaunchMinutes
+          ? factor('age', 'Old launch', ageMinutes, 10, -10) // Too old penalty
+          : factor('age', 'Launch age', ageMinutes, 10, 0),
+    ];
+
+    const confidence = totalPoints(factors);
+    if (confidence < 50) return null;
+
+    return { signal: confidence > 60 ? 'BUY' : 'HOLD', confidence: Math.min(confidence, 95), factors };
+  }
+}
+
+export class StrategyRegistry {
+  private strategies = new Map<string, Strategy>();
+
+  register(strategy: Strategy) {
+    if (this.strategies.has(strategy.id)) {
+      throw new Error(`Strategy "${strategy.id}" is already registered`);
+    }
+    this.strategies.set(strategy.id, strategy);
+  }
+
+  get(id: string): Strategy | undefined {
+    return this.strategies.get(id);
+  }
+
+  list(): Strategy[] {
+    return Array.from(this.strategies.values());
+  }
+
+  // Saved settings on top of the strategy's defaults; unset strategies run enabled
+  resolveConfig(strategy: Strategy, settings: BotSettings): StrategyConfig {
+    const saved = settings.strategies[strategy.id];
+    return {
+      enabled: saved?.enabled ?? true,
+      allocation: saved?.allocation ?? strategy.defaultAllocation,
+      params: { ...strategy.defaultParams, ...saved?.params },
+    };
+  }
+}
+
+export const strategyRegistry = new StrategyRegistry();
+strategyRegistry.register(new TechnicalBreakoutStrategy());
+strategyRegistry.register(new MomentumStrategy());
@@ -0,0 +1,175 @@
+import { describe, it, expect } from "vitest";
+import type { TokenSnapshot } from "@shared/schema";
+import { MemStorage } from "./storage";
+import { downsampleSnapshots, compactTokenSnapshots, limitHistory } from "./token-snapshots";
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+// On an hour boundary, so 5m and 1h buckets line up with it
+const T0 = Date.parse("2025-06-02T12:00:00Z");
+
+let nextId = 1;
+const snapshot = (at: number, overrides: Partial<TokenSnapshot> = {}): TokenSnapshot => ({
+  id: nextId++,
+  tokenAddress: "TokenA",
+  resolution: "raw",
+  timestamp: new Date(at),
+  price: 1,
+  liquidity: 1000,
+  holders: 10,
+  top10HolderPercent: null,
+  holderGini: null,
+  volume: 100,
+  priceChange: 0,
+  transactions: 5,
+  socialMentions: 0,
+  ...overrides,
+});
+
+describe("downsampleSnapshots", () => {
+  it("returns raw snapshots unchanged, minus their ids", () => {
+    const raw = [snapshot(T0), snapshot(T0 + MINUTE)];
+    expect(downsampleSnapshots(raw, "raw")).toEqual(raw.map(({ id, ...rest }) => rest));
+  });
+
+  it("averages levels and rates and keeps the last counts in each bucket", () => {
+    const [bucket] = downsampleSnapshots([
+      snapshot(T0, { price: 1, liquidity: 1000, volume: 100, priceChange: 10, holders: 10, transactions: 5, socialMentions: 1 }),
+      snapshot(T0 + MINUTE, { price: 2, liquidity: 2000, volume: 300, priceChange: 20, holders: 12, transactions: 9, socialMentions: 3 }),
+      snapshot(T0 + 4 * MINUTE, { price: 3, liquidity: 3000, volume: 500, priceChange: 30, holders: 15, transactions: 11, socialMentions: 2, top10HolderPercent: 40, holderGini: 0.7 }),
+    ], "5m");
+
+    expect(bucket).toEqual({
+      tokenAddress: "TokenA",
+      resolution: "5m",
+      timestamp: new Date(T0),
+      price: 2,
+      liquidity: 2000,
+      volume: 300,
+      priceChange: 20,
+      holders: 15,
+      transactions: 11,
+      socialMentions: 2,
+      top10HolderPercent: 40,
+      holderGini: 0.7,
+    });
+  });
+
+  it("skips missing prices and leaves a bucket without any unpriced", () => {
+    const buckets = downsampleSnapshots([
+      snapshot(T0, { price: null }),
+      snapshot(T0 + MINUTE, { price: 4 }),
+      snapshot(T0 + 5 * MINUTE, { price: null }),
+    ], "5m");
+    expect(buckets.map(b => b.price)).toEqual([4, null]);
+  });
+
+  it("starts a bucket exactly on its edge", () => {
+    const buckets = downsampleSnapshots([
+      snapshot(T0 + 5 * MINUTE - 1),
+      snapshot(T0 + 5 * MINUTE),
+      snapshot(T0 + 10 * MINUTE - 1),
+      snapshot(T0 + HOUR),
+    ], "5m");
+    expect(buckets.map(b => b.timestamp.getTime())).toEqual([T0, T0 + 5 * MINUTE, T0 + HOUR]);
+
+    expect(downsampleSnapshots([snapshot(T0 + HOUR - 1), snapshot(T0 + HOUR)], "1h").map(b => b.timestamp.getTime()))
+      .toEqual([T0, T0 + HOUR]);
+  });
+
+  it("keeps tokens apart and sorts buckets by time", () => {
+    const buckets = downsampleSnapshots([
+      snapshot(T0 + 7 * MINUTE, { tokenAddress: "TokenB", price: 5 }),
+      snapshot(T0 + MINUTE, { tokenAddress: "TokenA", price: 1 }),
+      snapshot(T0 + 2 * MINUTE, { tokenAddress: "TokenB", price: 3 }),
+    ], "5m");
+    expect(buckets.map(b => [b.tokenAddress, b.timestamp.getTime(), b.price])).toEqual([
+      ["TokenA", T0, 1],
+      ["TokenB", T0, 3],
+      ["TokenB", T0 + 5 * MINUTE, 5],
+    ]);
+  });
+});
+
+describe("compactTokenSnapshots", () => {
+  const byResolution = async (storage: MemStorage) =>
+    (await storage.getTokenSnapshots("TokenA", new Date(0), new Date(T0 + 365 * DAY)))
+      .map(s => [s.resolution, s.timestamp.getTime() - T0]);
+
+  it("rolls raw into 5m after a day, 5m into 1h after a week, and only whole buckets", async () => {
+    const storage = new MemStorage();
+    const now = T0 + 8 * DAY + 7 * MINUTE;
+    // Raw cutoff: now - 1 day, floored to 5m = T0 + 7d + 5m
+    await storage.createTokenSnapshots([
+      snapshot(T0 + 7 * DAY + MINUTE, { price: 1 }),
+      snapshot(T0 + 7 * DAY + 4 * MINUTE, { price: 3 }),
+      snapshot(T0 + 7 * DAY + 6 * MINUTE, { price: 7 }), // In the bucket the cutoff falls in: stays raw
+    ]);
+    // 5m cutoff: now - 7 days, floored to 1h = T0 + 1d
+    await storage.createTokenSnapshots([
+      snapshot(T0 + 10 * MINUTE, { resolution: "5m", price: 2, transactions: 1 }),
+      snapshot(T0 + 55 * MINUTE, { resolution: "5m", price: 4, transactions: 2 }),
+      snapshot(T0 + DAY, { resolution: "5m", price: 9 }), // On the cutoff: stays 5m
+    ]);
+
+    await compactTokenSnapshots(now, storage);
+
+    expect(await byResolution(storage)).toEqual([
+      ["1h", 0],
+      ["5m", DAY],
+      ["5m", 7 * DAY],
+      ["raw", 7 * DAY + 6 * MINUTE],
+    ]);
+    const all = await storage.getTokenSnapshots("TokenA", new Date(0), new Date(now));
+    expect(all.find(s => s.resolution === "1h")).toMatchObject({ price: 3, transactions: 2 });
+    expect(all.find(s => s.resolution === "5m" && s.timestamp.getTime() === T0 + 7 * DAY)).toMatchObject({ price: 2 });
+  });
+
+  it("carries a snapshot all the way to hourly as it ages", async () => {
+    const storage = new MemStorage();
+    await storage.createTokenSnapshots([snapshot(T0 + MINUTE, { price: 1 }), snapshot(T0 + 31 * MINUTE, { price: 5 })]);
+
+    await compactTokenSnapshots(T0 + DAY + HOUR, storage);
+    expect(await byResolution(storage)).toEqual([["5m", 0], ["5m", 30 * MINUTE]]);
+
+    await compactTokenSnapshots(T0 + 8 * DAY, storage);
+    const [hourly] = await storage.getTokenSnapshots("TokenA", new Date(0), new Date(T0 + 8 * DAY));
+    expect(await byResolution(storage)).toEqual([["1h", 0]]);
+    expect(hourly.price).toBe(3);
+  });
+
+  it("leaves recent snapshots alone", async () => {
+    const storage = new MemStorage();
+    await storage.createTokenSnapshots([snapshot(T0), snapshot(T0 + HOUR)]);
+
+    await compactTokenSnapshots(T0 + 2 * HOUR, storage);
+    expect(await byResolution(storage)).toEqual([["raw", 0], ["raw", HOUR]]);
+  });
+});
+
+describe("limitHistory", () => {
+  // One raw snapshot a minute for `hours`
+  const minutes = (hours: number) => Array.from({ length: hours * 60 }, (_, i) => snapshot(T0 + i * MINUTE));
+
+  it("returns the requested resolution when it fits", () => {
+    expect(limitHistory(minutes(2), undefined, 1000)).toHaveLength(120);
+    expect(limitHistory(minutes(2), "5m", 1000)).toHaveLength(24);
+  });
+
+  it("rolls up coarser until the points fit", () => {
+    // 1440 raw points, 288 five-minute buckets
+    expect(limitHistory(minutes(24), undefined, 1000).map(s => s.resolution)).toEqual(Array(288).fill("5m"));
+    expect(limitHistory(minutes(24), "5m", 100).map(s => s.resolution)).toEqual(Array(24).fill("1h"));
+  });
+
+  it("keeps the newest points when even hourly buckets don't fit", () => {
+    const history = limitHistory(minutes(24), undefined, 10);
+    expect(history).toHaveLength(10);
+    expect(history[9].timestamp).toEqual(new Date(T0 + 23 * HOUR));
+  });
+
+  it("never returns finer buckets than asked for", () => {
+    expect(limitHistory(minutes(2), "1h", 1000).map(s => s.resolution)).toEqual(["1h", "1h"]);
+  });
+});
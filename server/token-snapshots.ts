@@ -0,0 +1,108 @@
+import { storage as defaultStorage, type IStorage } from "./storage";
+import type { Token, TokenSnapshot, InsertTokenSnapshot } from "@shared/schema";
+import { tokenKey } from "@shared/chains";
+
+export type SnapshotResolution = 'raw' | '5m' | '1h';
+
+export const RESOLUTION_MS: Record<SnapshotResolution, number> = {
+  raw: 0,
+  '5m': 5 * 60 * 1000,
+  '1h': 60 * 60 * 1000,
+};
+
+// Raw snapshots are kept for 24h, 5-minute rollups for 7 days, hourly rollups indefinitely
+const RETENTION_POLICY: { from: SnapshotResolution; to: SnapshotResolution; after: number }[] = [
+  { from: 'raw', to: '5m', after: 24 * 60 * 60 * 1000 },
+  { from: '5m', to: '1h', after: 7 * 24 * 60 * 60 * 1000 },
+];
+
+const average = (values: number[]) =>
+  values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+
+// Collapse snapshots into one row per token per bucket. Rates and levels are
+// averaged over the bucket, counts take the last value seen in it.
+export function downsampleSnapshots(snapshots: TokenSnapshot[], resolution: SnapshotResolution): InsertTokenSnapshot[] {
+  const bucketMs = RESOLUTION_MS[resolution];
+  if (bucketMs === 0) return snapshots.map(({ id, ...snapshot }) => snapshot);
+
+  const buckets = new Map<string, TokenSnapshot[]>();
+  for (const snapshot of snapshots) {
+    const bucketStart = Math.floor(new Date(snapshot.timestamp).getTime() / bucketMs) * bucketMs;
+    const key = `${snapshot.tokenAddress}:${bucketStart}`;
+    const bucket = buckets.get(key) || [];
+    bucket.push(snapshot);
+    buckets.set(key, bucket);
+  }
+
+  return Array.from(buckets.values()).map(bucket => {
+    const last = bucket[bucket.length - 1];
+    const prices = bucket.map(s => s.price).filter((p): p is number => p !== null);
+    const bucketStart = Math.floor(new Date(bucket[0].timestamp).getTime() / bucketMs) * bucketMs;
+
+    return {
+      tokenAddress: last.tokenAddress,
+      resolution,
+      timestamp: new Date(bucketStart),
+      price: prices.length > 0 ? average(prices) : null,
+      liquidity: average(bucket.map(s => s.liquidity)),
+      holders: last.holders,
+      top10HolderPercent: last.top10HolderPercent,
+      holderGini: last.holderGini,
+      volume: average(bucket.map(s => s.volume)),
+      priceChange: average(bucket.map(s => s.priceChange)),
+      transactions: last.transactions,
+      socialMentions: last.socialMentions,
+    };
+  }).sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+}
+
+// Fit a token's history into `maxPoints`: roll up into coarser buckets than
+// asked for while it doesn't fit, then keep the newest points
+export function limitHistory(
+  snapshots: TokenSnapshot[],
+  resolution: SnapshotResolution | undefined,
+  maxPoints: number
+): (TokenSnapshot | InsertTokenSnapshot)[] {
+  let history: (TokenSnapshot | InsertTokenSnapshot)[] = resolution ? downsampleSnapshots(snapshots, resolution) : snapshots;
+  for (const coarser of ['5m', '1h'] as const) {
+    if (history.length <= maxPoints) break;
+    if (RESOLUTION_MS[coarser] > RESOLUTION_MS[resolution ?? 'raw']) {
+      history = downsampleSnapshots(snapshots, coarser);
+    }
+  }
+  return history.slice(-maxPoints);
+}
+
+// `prices` is keyed by tokenKey(chain, address)
+export async function recordTokenSnapshots(tokens: Token[], prices: Map<string, number>, timestamp = new Date(), storage: IStorage = defaultStorage) {
+  await storage.createTokenSnapshots(tokens.map(token => ({
+    tokenAddress: token.address,
+    resolution: 'raw',
+    timestamp,
+    price: prices.get(tokenKey(token.chain, token.address)) ?? null,
+    liquidity: token.liquidity,
+    holders: token.holders,
+    top10HolderPercent: token.top10HolderPercent,
+    holderGini: token.holderGini,
+    volume: token.volume,
+    priceChange: token.priceChange,
+    transactions: token.transactions,
+    socialMentions: token.socialMentions,
+  })));
+}
+
+export async function compactTokenSnapshots(now = Date.now(), storage: IStorage = defaultStorage) {
+  for (const step of RETENTION_POLICY) {
+    // Align the cutoff to the target bucket so no bucket is rolled up half-filled
+    const bucketMs = RESOLUTION_MS[step.to];
+    const cutoff = new Date(Math.floor((now - step.after) / bucketMs) * bucketMs);
+
+    const expired = await storage.getTokenSnapshotsBefore(step.from, cutoff);
+    if (expired.length === 0) continue;
+
+    await storage.createTokenSnapshots(downsampleSnapshots(expired, step.to));
+    await storage.deleteTokenSnapshots(expired.map(s => s.id));
+
+    console.log(`🗜️ Rolled up ${expired.length} ${step.from} snapshots into ${step.to} buckets`);
+  }
+}
@@ -0,0 +1,37 @@
+import { storage as defaultStorage, type IStorage } from "./storage";
+
+export interface TokenStats {
+  totalFound: number;
+  filtered: number;
+  highAlert: number;
+  last15min: number;
+  avgLiquidity: number;
+  socialMentions: number;
+  successRate: number;
+}
+
+export async function computeTokenStats(storage: IStorage = defaultStorage): Promise<TokenStats> {
+  const allTokens = await storage.getAllTokens();
+  const filteredTokens = await storage.getFilteredTokens();
+  const highAlertTokens = await storage.getHighAlertTokens();
+  const socialMentions = await storage.getSocialMentions(100);
+  
+  const now = Date.now();
+  const last15min = allTokens.filter(token => 
+    now - new Date(token.launchTime).getTime() < 15 * 60 * 1000
+  ).length;
+  
+  const avgLiquidity = filteredTokens.length > 0 
+    ? filteredTokens.reduce((sum, token) => sum + token.liquidity, 0) / filteredTokens.length 
+    : 0;
+
+  return {
+    totalFound: allTokens.length,
+    filtered: filteredTokens.length,
+    highAlert: highAlertTokens.length,
+    last15min,
+    avgLiquidity: Math.round(avgLiquidity),
+    socialMentions: socialMentions.length,
+    successRate: 73 // Placeholder metric
+  };
+}
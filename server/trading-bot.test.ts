@@ -0,0 +1,168 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { MemStorage } from "./storage";
+import { TradingBot } from "./trading-bot";
+import { AnalyticsEngine } from "./analytics-engine";
+import { StrategyRegistry, factor, type Strategy } from "./strategies";
+import type { MarketDataProvider } from "./market-data";
+import type { InsertBotSettings } from "@shared/trading-schema";
+
+const TOKEN = "7GCihgDB8fe6KNjn2MYtkzZcRjQy3t9GHdC8uHYmW2hr";
+const NOW = Date.parse("2024-06-01T12:00:00Z");
+
+const buyer = (id: string, name: string, confidence: number): Strategy => ({
+  id,
+  name,
+  description: "Test strategy",
+  defaultParams: { minConfidence: 50 },
+  defaultAllocation: 100,
+  evaluate: () => ({ signal: "BUY", confidence, factors: [factor("test", "Test factor", 1, 100, confidence)] }),
+});
+
+// Buys every token it sees at 90% confidence
+const alwaysBuy = buyer("always-buy", "Always Buy", 90);
+
+describe("TradingBot", () => {
+  let storage: MemStorage;
+  let price: number;
+  let now: number;
+  let bot: TradingBot;
+  let analytics: AnalyticsEngine;
+
+  const setup = async (strategyList: Strategy[], settings: Partial<InsertBotSettings> = {}) => {
+    const clock = () => now;
+    const quotes: MarketDataProvider = {
+      name: "fixed",
+      getNewPairs: async () => [],
+      getTokenList: async () => [],
+      getQuote: async () => ({ price, volume24h: 1000, priceChange24h: 5 }),
+    };
+    const strategies = new StrategyRegistry();
+    strategyList.forEach(strategy => strategies.register(strategy));
+    analytics = new AnalyticsEngine(storage, clock);
+    bot = new TradingBot({ marketData: quotes, storage, analytics, strategies, clock, schedule: false });
+    await bot.updateSettings({ ...settings, enabled: true });
+  };
+
+  beforeEach(async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    storage = new MemStorage();
+    price = 1;
+    now = NOW;
+    await storage.createToken({ address: TOKEN, name: "Pepe Sol", symbol: "PEPE", launchTime: new Date(NOW) });
+    await storage.updateToken(TOKEN, { riskScore: 0, riskCheckedAt: new Date(NOW) });
+    await setup([alwaysBuy]);
+  });
+
+  const cycle = async () => {
+    await bot.collectMarketData();
+    await bot.executeFullTradingCycle();
+  };
+
+  it("closes every entry into a position when it is sold", async () => {
+    await cycle();
+    price = 1.2;
+    now += 60 * 1000;
+    await cycle();
+
+    const buys = (await storage.getTrades(10)).filter(trade => trade.action === "BUY");
+    expect(buys).toHaveLength(2);
+    expect((await storage.getActiveStrategyPerformance(TOKEN))).toHaveLength(2);
+
+    price = 2;
+    now += 60 * 1000;
+    await bot.collectMarketData();
+    await bot.executeSellOrder(TOKEN, "TAKE_PROFIT");
+
+    const entries = await storage.getStrategyPerformance(10);
+    expect(await storage.getActiveStrategyPerformance(TOKEN)).toEqual([]);
+    expect(entries.map(entry => entry.outcome)).toEqual(["WIN", "WIN"]);
+
+    // The ledger's realized PnL is split by the quantity each buy added
+    const realized = (await bot.getPortfolioStatus()).realizedPnL;
+    const quantities = entries.map(entry => entry.quantity!);
+    expect(quantities).toEqual(buys.reverse().map(trade => trade.quantity));
+    expect(entries[0].pnl! + entries[1].pnl!).toBeCloseTo(realized, 8);
+    expect(entries[0].pnl! / entries[1].pnl!).toBeCloseTo(quantities[0] / quantities[1], 8);
+    expect(entries.map(entry => entry.exitPrice)).toEqual([2 * 0.995, 2 * 0.995]);
+  });
+
+  it("marks a position sold at a loss as a loss on every entry", async () => {
+    await cycle();
+    await cycle();
+
+    // Fees and slippage alone make an unchanged price a small loss
+    await bot.executeSellOrder(TOKEN, "STOP_LOSS");
+
+    const entries = await storage.getStrategyPerformance(10);
+    expect(entries.map(entry => entry.outcome)).toEqual(["LOSS", "LOSS"]);
+    entries.forEach(entry => {
+      expect(entry.pnl).toBeLessThan(0);
+      expect(entry.pnlPercentage).toBeLessThan(0);
+    });
+  });
+
+  describe("strategy attribution", () => {
+    const second = buyer("second-buy", "Second Buy", 80);
+
+    it("tags signals, trades and analytics entries with the strategy that acted", async () => {
+      await setup([alwaysBuy, second]);
+      await cycle();
+      price = 1.5;
+      now += 60 * 1000;
+      await bot.collectMarketData();
+      await bot.executeSellOrder(TOKEN, "TAKE_PROFIT");
+
+      const signals = await storage.getTradingSignals();
+      expect(signals.map(signal => signal.strategy).sort()).toEqual(["always-buy", "second-buy"]);
+      expect(signals.find(signal => signal.strategy === "always-buy")?.executed).toBe(true);
+      // The position already belonged to another strategy
+      expect(signals.find(signal => signal.strategy === "second-buy")?.executed).toBe(false);
+
+      const trades = await storage.getTrades(10);
+      expect(trades.map(trade => [trade.action, trade.strategy])).toEqual([["SELL", "always-buy"], ["BUY", "always-buy"]]);
+      expect((await storage.getStrategyPerformance(10)).map(entry => entry.strategyName)).toEqual(["Always Buy"]);
+    });
+
+    it("reports each strategy's deployed capital and positions", async () => {
+      await setup([alwaysBuy, second]);
+      await cycle();
+
+      const byId = new Map(bot.getStrategies().map(strategy => [strategy.id, strategy]));
+      const buy = (await storage.getTrades(10))[0];
+      expect(byId.get("always-buy")).toMatchObject({ positions: 1, deployed: buy.amount, enabled: true, allocation: 100 });
+      expect(byId.get("second-buy")).toMatchObject({ positions: 0, deployed: 0 });
+    });
+
+    it("leaves disabled strategies out and applies saved parameters", async () => {
+      await setup([alwaysBuy, second], {
+        strategies: {
+          "always-buy": { enabled: false, allocation: 50, params: {} },
+          "second-buy": { enabled: true, allocation: 100, params: { minConfidence: 85 } },
+        },
+      });
+      await cycle();
+
+      // Always Buy is off; Second Buy still signals, but 80% is below its raised bar
+      expect((await storage.getTradingSignals()).map(signal => [signal.strategy, signal.executed])).toEqual([["second-buy", false]]);
+      expect(await storage.getTrades(10)).toEqual([]);
+    });
+
+    it("feeds per-strategy analytics from closed positions", async () => {
+      await setup([alwaysBuy, second], { strategies: { "always-buy": { enabled: false, allocation: 50, params: {} } } });
+      await cycle();
+      await cycle();
+      price = 1.5;
+      await bot.collectMarketData();
+      await bot.executeSellOrder(TOKEN, "TAKE_PROFIT");
+
+      const realized = (await bot.getPortfolioStatus()).realizedPnL;
+      expect(await analytics.generateStrategyAnalytics()).toEqual([expect.objectContaining({
+        name: "Second Buy",
+        totalTrades: 2,
+        winRate: 100,
+        avgPnL: expect.closeTo(realized / 2, 8),
+      })]);
+      expect((await analytics.generateTradeAnalysis()).bestStrategy).toBe("Second Buy");
+    });
+  });
+});
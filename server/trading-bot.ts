@@ -1,18 +1,20 @@
-import { storage } from "./storage";
+import { storage as defaultStorage, type IStorage } from "./storage";
 import type { Token } from "@shared/schema";
-import type { TradingSignal, Trade, BotSettings } from "@shared/trading-schema";
-import { analyticsEngine } from "./analytics-engine";
-import axios from "axios";
-
-interface MarketData {
-  price: number;
-  bidPrice: number;
-  askPrice: number;
-  volume24h: number;
-  priceChange24h: number;
-  marketCap: number;
-  timestamp: number;
-}
+import { CHAINS, getChain, tradableChains } from "@shared/chains";
+import type { TradingSignal, InsertTradingSignal, Trade, BotSettings, InsertBotSettings, StrategyConfig } from "@shared/trading-schema";
+import { analyticsEngine, type AnalyticsEngine } from "./analytics-engine";
+import { sma, rsi, macd, bollingerBands } from "./indicators";
+import { marketDataProvider, type MarketDataProvider } from "./market-data";
+import { PaperLedger, type Fill, type PositionSnapshot } from "./paper-ledger";
+import { eventBus } from "./events";
+import {
+  strategyRegistry,
+  factorReason,
+  type Strategy,
+  type StrategyRegistry,
+  type MarketData,
+  type TechnicalIndicators,
+} from "./strategies";
 
 interface OrderBookData {
   bids: [number, number][];
@@ -20,41 +22,31 @@ interface OrderBookData {
   spread: number;
 }
 
-interface TechnicalIndicators {
-  rsi: number;
-  macd: { macd: number; signal: number; histogram: number };
-  sma20: number;
-  sma50: number;
-  bollingerBands: { upper: number; middle: number; lower: number };
-  volumeProfile: number;
+interface TradingBotOptions {
+  marketData?: MarketDataProvider;
+  storage?: IStorage;
+  analytics?: AnalyticsEngine;
+  strategies?: StrategyRegistry;
+  // Simulated clock for backtests; defaults to wall-clock time
+  clock?: () => number;
+  // When false, start() only flips the bot on and the caller drives each cycle
+  schedule?: boolean;
 }
 
-interface Portfolio {
-  totalValue: number;
-  availableBalance: number;
-  positions: Map<string, { amount: number; avgPrice: number; unrealizedPnL: number }>;
-  totalProfit: number;
-  activeTrades: number;
-  successRate: number;
-  dailyPnL: number;
-  maxDrawdown: number;
-}
+const STARTING_BALANCE = 1000;
+
+// Enough samples for SMA(50), the slowest indicator
+const MIN_PRICE_SAMPLES = 50;
+const MAX_PRICE_SAMPLES = 200;
 
 export class TradingBot {
   private isRunning = false;
+  private timers: ReturnType<typeof setInterval>[] = [];
   private marketDataCache = new Map<string, MarketData>();
+  private priceHistory = new Map<string, { prices: number[]; volumes: number[] }>();
   private technicalIndicators = new Map<string, TechnicalIndicators>();
-  private portfolio: Portfolio = {
-    totalValue: 1000,
-    availableBalance: 1000,
-    positions: new Map(),
-    totalProfit: 0,
-    activeTrades: 0,
-    successRate: 75.5,
-    dailyPnL: 0,
-    maxDrawdown: 0
-  };
-  private tradeHistory: Trade[] = [];
+  private ledger = new PaperLedger(STARTING_BALANCE);
+  private positionStrategies = new Map<string, string>(); // Token address -> id of the strategy holding it
   private dailyLossLimit = 500; // Maximum daily loss
   private currentDailyLoss = 0;
   
@@ -66,30 +58,67 @@ export class TradingBot {
     minLiquidity: 10000,
     minHolders: 50,
     socialSentimentWeight: 0.3,
+    maxRiskScore: 50,
+    feeBps: 30,
+    slippageBps: 50,
+    strategies: {},
     enabled: false
   };
 
-  constructor() {
-    this.initializePortfolio();
-    this.loadSettings();
-  }
-
-  private initializePortfolio() {
-    this.portfolio = {
-      totalValue: 1000,
-      availableBalance: 1000,
-      positions: new Map(),
-      totalProfit: 0,
-      activeTrades: 0,
-      successRate: 75.5,
-      dailyPnL: 0,
-      maxDrawdown: 0
-    };
+  private marketData: MarketDataProvider;
+  private storage: IStorage;
+  private analytics: AnalyticsEngine;
+  private strategies: StrategyRegistry;
+  private now: () => number;
+  private schedule: boolean;
+
+  constructor(options: TradingBotOptions = {}) {
+    this.marketData = options.marketData ?? marketDataProvider;
+    this.storage = options.storage ?? defaultStorage;
+    this.analytics = options.analytics ?? analyticsEngine;
+    this.strategies = options.strategies ?? strategyRegistry;
+    this.now = options.clock ?? Date.now;
+    this.schedule = options.schedule ?? true;
+    this.ledger.setCosts(this.settings.feeBps, this.settings.slippageBps);
   }
 
   async loadSettings() {
-    // In a real implementation, this would load from database
+    const saved = await this.storage.getBotSettings();
+    if (saved) {
+      this.settings = saved;
+    }
+    this.ledger.setCosts(this.settings.feeBps, this.settings.slippageBps);
+    await this.restoreLedger();
     console.log('Trading bot initialized with settings:', this.settings);
+
+    // Resume trading if the bot was running before the restart
+    if (this.settings.enabled) {
+      await this.start();
+    }
+  }
+
+  // Rebuild cash and positions by replaying executed trades, oldest first
+  private async restoreLedger() {
+    this.ledger.reset();
+    this.positionStrategies.clear();
+    const trades = (await this.storage.getTrades(Number.MAX_SAFE_INTEGER)).reverse();
+
+    for (const trade of trades) {
+      if (trade.status !== 'EXECUTED') continue;
+      // Trades recorded before quantities were tracked only carry USD and price
+      const quantity = trade.quantity || trade.amount / trade.price;
+      if (trade.action === 'BUY') {
+        this.ledger.recordBuy(trade.tokenAddress, quantity, trade.amount, trade.fee);
+        if (trade.strategy) this.positionStrategies.set(trade.tokenAddress, trade.strategy);
+      } else if (trade.action === 'SELL') {
+        this.ledger.recordSell(trade.tokenAddress, quantity, trade.amount, trade.fee);
+        this.positionStrategies.delete(trade.tokenAddress);
+      }
+    }
+
+    if (trades.length > 0) {
+      console.log(`📒 Ledger restored from ${trades.length} trades - Cash: $${this.ledger.availableBalance.toFixed(2)}`);
+    }
   }
 
   async start() {
@@ -97,31 +126,33 @@ export class TradingBot {
     
     this.isRunning = true;
     console.log('🤖 Trading bot started - Full automated trading mode');
+
+    if (!this.schedule) return;
     
     // Market data collection - every 5 seconds for real-time data
-    setInterval(() => {
+    this.timers.push(setInterval(() => {
       this.collectMarketData().catch(console.error);
-    }, 5000);
+    }, 5000));
     
     // Technical analysis - every 15 seconds
-    setInterval(() => {
+    this.timers.push(setInterval(() => {
       this.updateTechnicalIndicators().catch(console.error);
-    }, 15000);
+    }, 15000));
     
     // Signal generation and trading - every 30 seconds
-    setInterval(() => {
+    this.timers.push(setInterval(() => {
       this.executeFullTradingCycle().catch(console.error);
-    }, 30000);
+    }, 30000));
     
     // Portfolio rebalancing - every 5 minutes
-    setInterval(() => {
+    this.timers.push(setInterval(() => {
       this.rebalancePortfolio().catch(console.error);
-    }, 300000);
+    }, 300000));
     
     // Risk monitoring - every minute
-    setInterval(() => {
+    this.timers.push(setInterval(() => {
       this.monitorRiskLimits().catch(console.error);
-    }, 60000);
+    }, 60000));
     
     // Initial execution
     await this.collectMarketData();
@@ -130,6 +161,9 @@ export class TradingBot {
 
   async stop() {
     this.isRunning = false;
+    // Otherwise every restart would stack another set of loops
+    this.timers.forEach(timer => clearInterval(timer));
+    this.timers = [];
     console.log('🛑 Trading bot stopped');
   }
 
@@ -138,12 +172,13 @@ export class TradingBot {
     if (!this.isRunning) return;
 
     try {
-      const tokens = await storage.getAllTokens();
+      const tokens = await this.storage.getAllTokens();
       
       for (const token of tokens.slice(0, 20)) { // Focus on top 20 tokens
         const marketData = await this.fetchRealTimeMarketData(token.address);
         if (marketData) {
           this.marketDataCache.set(token.address, marketData);
+          this.recordPriceSample(token.address, marketData);
         }
       }
       
@@ -155,57 +190,38 @@ export class TradingBot {
 
   async fetchRealTimeMarketData(tokenAddress: string): Promise<MarketData | null> {
     try {
-      // Fetch from multiple sources for accuracy
-      const [jupiterPrice, dexScreenerData] = await Promise.all([
-        this.getJupiterPrice(tokenAddress),
-        this.getDexScreenerData(tokenAddress)
-      ]);
-
-      if (!jupiterPrice && !dexScreenerData) return null;
+      const quote = await this.marketData.getQuote(tokenAddress);
+      if (!quote || !quote.price) return null;
 
-      const price = jupiterPrice || dexScreenerData?.price || 0;
-      const volume24h = dexScreenerData?.volume24h || Math.random() * 50000;
+      const price = quote.price;
       
       return {
         price,
         bidPrice: price * 0.999,
         askPrice: price * 1.001,
-        volume24h,
-        priceChange24h: (Math.random() - 0.5) * 20,
+        volume24h: quote.volume24h ?? 0,
+        priceChange24h: quote.priceChange24h ?? 0,
         marketCap: price * 1000000, // Estimated
-        timestamp: Date.now()
+        timestamp: this.now()
       };
     } catch (error) {
       return null;
     }
   }
 
-  async getJupiterPrice(tokenAddress: string): Promise<number | null> {
-    try {
-      const response = await axios.get(`https://price.jup.ag/v4/price?ids=${tokenAddress}`, {
-        timeout: 5000
-      });
-      return response.data?.data?.[tokenAddress]?.price || null;
-    } catch (error) {
-      return null;
-    }
-  }
+  private recordPriceSample(tokenAddress: string, marketData: MarketData) {
+    if (!marketData.price) return;
 
-  async getDexScreenerData(tokenAddress: string): Promise<any> {
-    try {
-      const response = await axios.get(`https://api.dexscreener.com/latest/dex/tokens/${tokenAddress}`, {
-        timeout: 5000
-      });
-      const pair = response.data?.pairs?.[0];
-      if (!pair) return null;
-      
-      return {
-        price: parseFloat(pair.priceUsd || 0),
-        volume24h: parseFloat(pair.volume?.h24 || 0)
-      };
-    } catch (error) {
-      return null;
+    const history = this.priceHistory.get(tokenAddress) || { prices: [], volumes: [] };
+    history.prices.push(marketData.price);
+    history.volumes.push(marketData.volume24h);
+
+    // Rolling buffer
+    if (history.prices.length > MAX_PRICE_SAMPLES) {
+      history.prices.shift();
+      history.volumes.shift();
     }
+    this.priceHistory.set(tokenAddress, history);
   }
 
   // 2. Technical Analysis & Signal Generation
@@ -216,43 +232,35 @@ export class TradingBot {
       const indicators = await this.calculateTechnicalIndicators(tokenAddress, marketData);
       if (indicators) {
         this.technicalIndicators.set(tokenAddress, indicators);
+      } else {
+        this.technicalIndicators.delete(tokenAddress);
       }
     }
   }
 
   async calculateTechnicalIndicators(tokenAddress: string, marketData: MarketData): Promise<TechnicalIndicators | null> {
-    // Simplified technical analysis - in production, use historical data
-    const price = marketData.price;
-    const volume = marketData.volume24h;
-    
-    // RSI calculation (simplified)
-    const rsi = 30 + (Math.random() * 40); // 30-70 range
-    
-    // Moving averages (estimated)
-    const sma20 = price * (0.95 + Math.random() * 0.1);
-    const sma50 = price * (0.90 + Math.random() * 0.2);
-    
-    // MACD (simplified)
-    const macd = {
-      macd: (Math.random() - 0.5) * 0.1,
-      signal: (Math.random() - 0.5) * 0.05,
-      histogram: (Math.random() - 0.5) * 0.05
-    };
-    
-    // Bollinger Bands
-    const bollingerBands = {
-      upper: price * 1.05,
-      middle: price,
-      lower: price * 0.95
-    };
+    const history = this.priceHistory.get(tokenAddress);
+    if (!history || history.prices.length < MIN_PRICE_SAMPLES) return null;
+
+    const { prices, volumes } = history;
+    const rsiValue = rsi(prices, 14);
+    const macdValue = macd(prices, 12, 26, 9);
+    const sma20 = sma(prices, 20);
+    const sma50 = sma(prices, 50);
+    const bands = bollingerBands(prices, 20, 2);
+    const volumeProfile = sma(volumes, volumes.length);
+
+    if (rsiValue === null || !macdValue || sma20 === null || sma50 === null || !bands || volumeProfile === null) {
+      return null;
+    }
     
     return {
-      rsi,
-      macd,
+      rsi: rsiValue,
+      macd: macdValue,
       sma20,
       sma50,
-      bollingerBands,
-      volumeProfile: volume / 10000 // Normalized volume
+      bollingerBands: bands,
+      volumeProfile // Average 24h volume over the sample window
     };
   }
 
@@ -260,18 +268,18 @@ export class TradingBot {
     if (!this.isRunning) return;
 
     try {
-      const tokens = await storage.getAllTokens();
-      const tradingCandidates = tokens.filter(token => 
-        this.marketDataCache.has(token.address) && 
-        this.technicalIndicators.has(token.address)
-      );
+      const tokens = await this.storage.getAllTokens();
+      const tradingCandidates = tokens.filter(token => this.marketDataCache.has(token.address));
+      const strategies = this.activeStrategies();
       
-      console.log(`🔍 Analyzing ${tradingCandidates.length} tokens with full market data`);
+      console.log(`🔍 Analyzing ${tradingCandidates.length} tokens with ${strategies.length} strategies`);
       
       for (const token of tradingCandidates) {
-        const signal = await this.generateAdvancedTradingSignal(token);
-        if (signal && signal.confidence > 75) {
-          await this.executeAdvancedOrder(signal);
+        for (const { strategy, config } of strategies) {
+          const signal = await this.generateSignal(strategy, config, token);
+          if (signal && signal.confidence > config.params.minConfidence) {
+            await this.executeAdvancedOrder(signal, strategy, config);
+          }
         }
       }
     } catch (error) {
@@ -279,86 +287,51 @@ export class TradingBot {
     }
   }
 
-  // 3. Advanced Signal Generation with Technical Analysis
-  async generateAdvancedTradingSignal(token: Token): Promise<TradingSignal | null> {
-    const marketData = this.marketDataCache.get(token.address);
-    const indicators = this.technicalIndicators.get(token.address);
-    
-    if (!marketData || !indicators) return null;
-
-    let confidence = 0;
-    let reasons = [];
-
-    // Technical Analysis Signals (40% weight)
-    if (indicators.rsi < 30) {
-      confidence += 15;
-      reasons.push('RSI oversold');
-    } else if (indicators.rsi > 70) {
-      confidence -= 10;
-      reasons.push('RSI overbought');
-    }
-
-    if (marketData.price > indicators.sma20 && indicators.sma20 > indicators.sma50) {
-      confidence += 20;
-      reasons.push('Bullish trend');
-    }
-
-    if (indicators.macd.macd > indicators.macd.signal && indicators.macd.histogram > 0) {
-      confidence += 15;
-      reasons.push('MACD bullish crossover');
-    }
-
-    // Volume Analysis (20% weight)
-    if (marketData.volume24h > indicators.volumeProfile * 2) {
-      confidence += 20;
-      reasons.push('High volume breakout');
-    }
-
-    // Market Structure (20% weight)
-    if (token.liquidity > this.settings.minLiquidity * 2) {
-      confidence += 10;
-      reasons.push('Strong liquidity');
-    }
-
-    if (token.holders > this.settings.minHolders * 1.5) {
-      confidence += 10;
-      reasons.push('Growing holder base');
-    }
-
-    // Social Sentiment (20% weight)
-    const socialScore = token.socialMentions * this.settings.socialSentimentWeight;
-    if (socialScore > 30) {
-      confidence += 20;
-      reasons.push('High social interest');
-    }
-
-    // Age factor
-    const ageMinutes = (Date.now() - new Date(token.launchTime).getTime()) / (1000 * 60);
-    if (ageMinutes < 60) {
-      confidence += 10;
-      reasons.push('Early launch opportunity');
-    }
-
-    if (confidence < 60) return null;
+  // 3. Signal Generation by the enabled strategies
+  private activeStrategies(): { strategy: Strategy; config: StrategyConfig }[] {
+    return this.strategies.list()
+      .map(strategy => ({ strategy, config: this.strategies.resolveConfig(strategy, this.settings) }))
+      .filter(({ config }) => config.enabled);
+  }
 
-    return {
-      id: Date.now(),
+  async generateSignal(strategy: Strategy, config: StrategyConfig, token: Token): Promise<TradingSignal | null> {
+    const marketData = this.marketDataCache.get(token.address);
+    if (!marketData) return null;
+
+    const result = strategy.evaluate({
+      token,
+      marketData,
+      indicators: this.technicalIndicators.get(token.address) ?? null,
+      settings: this.settings,
+      now: this.now()
+    }, config.params);
+    if (!result) return null;
+
+    return this.recordSignal({
       tokenAddress: token.address,
-      signal: confidence > 85 ? 'BUY' : confidence > 70 ? 'BUY' : 'HOLD',
-      confidence: Math.min(confidence, 95),
-      reason: reasons.join(', '),
+      strategy: strategy.id,
+      signal: result.signal,
+      confidence: result.confidence,
+      reason: factorReason(result.factors),
+      factors: result.factors,
       price: marketData.price,
-      timestamp: new Date(),
-      executed: false
-    };
+      executed: false,
+      timestamp: new Date(this.now())
+    });
+  }
+
+  private async recordSignal(insert: InsertTradingSignal): Promise<TradingSignal> {
+    const signal = await this.storage.createTradingSignal(insert);
+    eventBus.publish({ type: 'signal.generated', data: signal });
+    return signal;
   }
 
   // 4. Advanced Order Execution
-  async executeAdvancedOrder(signal: TradingSignal) {
+  async executeAdvancedOrder(signal: TradingSignal, strategy: Strategy, config: StrategyConfig) {
     if (signal.signal !== 'BUY' || signal.executed) return;
 
     // Risk Management Checks
-    if (!this.passRiskChecks(signal)) {
+    if (!await this.passRiskChecks(signal, config)) {
       console.log(`❌ Risk check failed for ${signal.tokenAddress}`);
       return;
     }
@@ -367,19 +340,17 @@ export class TradingBot {
       const investmentAmount = this.calculatePositionSize(signal);
       
       console.log(`🚀 Executing ADVANCED BUY ORDER`);
+      console.log(`   Strategy: ${strategy.name}`);
       console.log(`   Token: ${signal.tokenAddress}`);
       console.log(`   Confidence: ${signal.confidence}%`);
       console.log(`   Investment: $${investmentAmount.toFixed(2)}`);
       console.log(`   Entry Price: $${signal.price}`);
-      console.log(`   Strategy: ${signal.reason}`);
+      console.log(`   Factors: ${signal.factors.filter(f => f.points !== 0).map(f => `${f.label} ${f.points > 0 ? '+' : ''}${f.points}`).join(', ')}`);
 
       // Execute the trade
       const trade = await this.placeBuyOrder(signal, investmentAmount);
       
       if (trade) {
-        // Update portfolio
-        this.updatePortfolioAfterBuy(trade);
-        
         // Set up automatic stop-loss and take-profit orders
         await this.setupAutomaticOrders(trade);
         
@@ -387,8 +358,9 @@ export class TradingBot {
         this.logTrade(trade);
         
         // Record trade in analytics
-        await analyticsEngine.recordTrade(trade, signal.reason.split(',')[0] || 'Unknown Strategy', signal.confidence, signal.reason);
+        await this.analytics.recordTrade(trade, strategy.name, signal);
         
+        await this.storage.markSignalExecuted(signal.id);
         signal.executed = true;
       }
 
@@ -398,7 +370,29 @@ export class TradingBot {
   }
 
   // 5. Risk Management System
-  passRiskChecks(signal: TradingSignal): boolean {
+  // Scam veto: unassessed tokens, tokens on chains without risk checks and
+  // anything riskier than the limit are never bought
+  riskVeto(token: Token | undefined): string | null {
+    if (token && !getChain(token.chain).riskChecks) {
+      return `No risk checks on ${getChain(token.chain).name}; the bot only trades ${tradableChains.map(id => CHAINS[id].name).join(', ')}`;
+    }
+    if (!token || token.riskScore === null) {
+      return 'Token risk not assessed yet';
+    }
+    if (token.riskScore > this.settings.maxRiskScore) {
+      return `Risk score ${token.riskScore} above limit of ${this.settings.maxRiskScore}`;
+    }
+    return null;
+  }
+
+  async passRiskChecks(signal: TradingSignal, config: StrategyConfig): Promise<boolean> {
+    const token = await this.storage.getToken(signal.tokenAddress);
+    const veto = this.riskVeto(token);
+    if (veto) {
+      console.log(`❌ ${veto}${token?.riskReasons.length ? ` (${token.riskReasons.join(', ')})` : ''}`);
+      return false;
+    }
+
     // Daily loss limit check
     if (this.currentDailyLoss >= this.dailyLossLimit) {
       console.log('❌ Daily loss limit reached');
@@ -407,18 +401,33 @@ export class TradingBot {
 
     // Available balance check
     const requiredAmount = this.calculatePositionSize(signal);
-    if (requiredAmount > this.portfolio.availableBalance) {
+    if (requiredAmount > this.ledger.availableBalance) {
       console.log('❌ Insufficient balance');
       return false;
     }
 
     // Maximum position size per token
-    const maxPositionSize = this.portfolio.totalValue * 0.1; // Max 10% per position
+    const portfolio = this.markToMarket();
+    const maxPositionSize = portfolio.totalValue * 0.1; // Max 10% per position
     if (requiredAmount > maxPositionSize) {
       console.log('❌ Position size too large');
       return false;
     }
 
+    // One strategy per position, so every trade's PnL belongs to one strategy
+    const holder = this.positionStrategies.get(signal.tokenAddress);
+    if (holder && holder !== signal.strategy) {
+      console.log(`❌ Position already held by ${holder}`);
+      return false;
+    }
+
+    // Strategy capital allocation
+    const budget = portfolio.totalValue * (config.allocation / 100);
+    if (this.deployedCapital(signal.strategy, portfolio.positions) + requiredAmount > budget) {
+      console.log(`❌ ${signal.strategy} allocation of ${config.allocation}% used up`);
+      return false;
+    }
+
     // Market conditions check
     const marketData = this.marketDataCache.get(signal.tokenAddress);
     if (marketData && Math.abs(marketData.priceChange24h) > 50) {
@@ -438,49 +447,47 @@ export class TradingBot {
   }
 
   async placeBuyOrder(signal: TradingSignal, amount: number): Promise<Trade | null> {
+    // Fill against the latest quote; the signal price may be stale
+    const marketPrice = this.marketDataCache.get(signal.tokenAddress)?.price ?? signal.price;
+    const fill = this.ledger.buy(signal.tokenAddress, amount, marketPrice);
+    if (!fill) return null;
+
     // In production, this would place actual orders via exchange APIs
-    const trade: Trade = {
-      id: Date.now(),
-      tokenAddress: signal.tokenAddress,
-      action: 'BUY',
-      amount: amount,
-      price: signal.price,
-      status: 'EXECUTED',
-      timestamp: new Date()
-    };
+    const trade = await this.recordFill(signal.tokenAddress, 'BUY', fill, signal.strategy);
+    if (signal.strategy) this.positionStrategies.set(signal.tokenAddress, signal.strategy);
 
-    // Simulate order execution
-    console.log(`💰 BUY ORDER EXECUTED: $${amount.toFixed(2)} at $${signal.price}`);
+    console.log(`💰 BUY ORDER EXECUTED: ${fill.quantity.toFixed(4)} tokens for $${amount.toFixed(2)} at $${fill.price} (fee $${fill.fee.toFixed(2)})`);
+    console.log(`📊 Portfolio updated - Available: $${this.ledger.availableBalance.toFixed(2)}`);
     
     return trade;
   }
 
+  private async recordFill(tokenAddress: string, action: 'BUY' | 'SELL', fill: Fill, strategy: string | null): Promise<Trade> {
+    const trade = await this.storage.createTrade({
+      tokenAddress,
+      action,
+      strategy,
+      amount: fill.notional,
+      price: fill.price,
+      quantity: fill.quantity,
+      fee: fill.fee,
+      status: 'EXECUTED',
+      timestamp: new Date(this.now())
+    });
+    eventBus.publish({ type: 'trade.executed', data: trade });
+    return trade;
+  }
+
   // 6. Portfolio Management
-  updatePortfolioAfterBuy(trade: Trade) {
-    this.portfolio.availableBalance -= trade.amount;
-    this.portfolio.activeTrades++;
-    
-    // Update or create position
-    const existingPosition = this.portfolio.positions.get(trade.tokenAddress);
-    if (existingPosition) {
-      const totalAmount = existingPosition.amount + trade.amount;
-      const avgPrice = ((existingPosition.avgPrice * existingPosition.amount) + (trade.price * trade.amount)) / totalAmount;
-      
-      this.portfolio.positions.set(trade.tokenAddress, {
-        amount: totalAmount,
-        avgPrice: avgPrice,
-        unrealizedPnL: 0
-      });
-    } else {
-      this.portfolio.positions.set(trade.tokenAddress, {
-        amount: trade.amount,
-        avgPrice: trade.price,
-        unrealizedPnL: 0
-      });
-    }
-    
-    this.tradeHistory.push(trade);
-    console.log(`📊 Portfolio updated - Available: $${this.portfolio.availableBalance.toFixed(2)}`);
+  private markToMarket() {
+    return this.ledger.snapshot(tokenAddress => this.marketDataCache.get(tokenAddress)?.price);
+  }
+
+  // Cost basis of the open positions a strategy holds
+  private deployedCapital(strategyId: string | null, positions: PositionSnapshot[]): number {
+    return positions
+      .filter(position => this.positionStrategies.get(position.tokenAddress) === strategyId)
+      .reduce((sum, position) => sum + position.costBasis, 0);
   }
 
   async rebalancePortfolio() {
@@ -488,37 +495,24 @@ export class TradingBot {
     
     console.log('🔄 Rebalancing portfolio...');
     
-    // Update unrealized P&L for all positions
-    for (const [tokenAddress, position] of this.portfolio.positions.entries()) {
-      const marketData = this.marketDataCache.get(tokenAddress);
-      if (marketData) {
-        const currentValue = position.amount * marketData.price / position.avgPrice;
-        const costBasis = position.amount;
-        position.unrealizedPnL = currentValue - costBasis;
-      }
-    }
-    
-    // Calculate total portfolio value
-    let totalValue = this.portfolio.availableBalance;
-    for (const position of this.portfolio.positions.values()) {
-      totalValue += position.amount + position.unrealizedPnL;
-    }
-    
-    this.portfolio.totalValue = totalValue;
-    console.log(`💼 Portfolio value: $${totalValue.toFixed(2)}`);
+    const portfolio = this.markToMarket();
+    console.log(`💼 Portfolio value: $${portfolio.totalValue.toFixed(2)} (unrealized ${portfolio.unrealizedPnL >= 0 ? '+' : ''}$${portfolio.unrealizedPnL.toFixed(2)})`);
   }
 
   async monitorRiskLimits() {
     if (!this.isRunning) return;
     
-    // Check stop-loss conditions for all positions
-    for (const [tokenAddress, position] of this.portfolio.positions.entries()) {
+    // Check stop-loss conditions for all positions, measured from the
+    // break-even price (cost basis including fees per token)
+    for (const position of this.ledger.getPositions()) {
+      const tokenAddress = position.tokenAddress;
       const marketData = this.marketDataCache.get(tokenAddress);
       if (!marketData) continue;
       
       const currentPrice = marketData.price;
-      const stopLossPrice = position.avgPrice * (1 - this.settings.stopLoss / 100);
-      const takeProfitPrice = position.avgPrice * (1 + this.settings.takeProfit / 100);
+      const avgPrice = position.costBasis / position.quantity;
+      const stopLossPrice = avgPrice * (1 - this.settings.stopLoss / 100);
+      const takeProfitPrice = avgPrice * (1 + this.settings.takeProfit / 100);
       
       if (currentPrice <= stopLossPrice) {
         console.log(`🔴 STOP LOSS triggered for ${tokenAddress} at $${currentPrice}`);
@@ -531,50 +525,31 @@ export class TradingBot {
   }
 
   async executeSellOrder(tokenAddress: string, reason: string) {
-    const position = this.portfolio.positions.get(tokenAddress);
     const marketData = this.marketDataCache.get(tokenAddress);
-    
-    if (!position || !marketData) return;
-    
-    const sellAmount = position.amount;
-    const sellPrice = marketData.price;
-    const pnl = (sellPrice - position.avgPrice) * (sellAmount / position.avgPrice);
+    if (!marketData) return;
+
+    const fill = this.ledger.sell(tokenAddress, marketData.price);
+    if (!fill) return;
     
     console.log(`🔄 SELL ORDER - ${reason}`);
-    console.log(`   Amount: $${sellAmount.toFixed(2)}`);
-    console.log(`   Price: $${sellPrice}`);
-    console.log(`   P&L: ${pnl > 0 ? '+' : ''}$${pnl.toFixed(2)}`);
-    
-    // Update portfolio
-    this.portfolio.availableBalance += sellAmount + pnl;
-    this.portfolio.totalProfit += pnl;
-    this.portfolio.activeTrades--;
-    this.portfolio.positions.delete(tokenAddress);
+    console.log(`   Quantity: ${fill.quantity.toFixed(4)}`);
+    console.log(`   Price: $${fill.price}`);
+    console.log(`   Proceeds: $${fill.notional.toFixed(2)} (fee $${fill.fee.toFixed(2)})`);
+    console.log(`   P&L: ${fill.realizedPnL > 0 ? '+' : ''}$${fill.realizedPnL.toFixed(2)}`);
     
     // Log the trade
-    const sellTrade: Trade = {
-      id: Date.now(),
-      tokenAddress,
-      action: 'SELL',
-      amount: sellAmount,
-      price: sellPrice,
-      status: 'EXECUTED',
-      timestamp: new Date()
-    };
+    const sellTrade = await this.recordFill(tokenAddress, 'SELL', fill, this.positionStrategies.get(tokenAddress) ?? null);
+    this.positionStrategies.delete(tokenAddress);
     
     this.logTrade(sellTrade);
     
     // Record exit in analytics
-    await analyticsEngine.updateTradeExit(tokenAddress, sellPrice, sellTrade.timestamp);
+    await this.analytics.updateTradeExit(tokenAddress, fill.price, sellTrade.timestamp, fill.realizedPnL);
   }
 
   // 7. Logging and Reporting
   logTrade(trade: Trade) {
     console.log(`📝 TRADE LOGGED: ${trade.action} ${trade.tokenAddress} - $${trade.amount.toFixed(2)} at $${trade.price}`);
-    this.tradeHistory.push(trade);
-    
-    // In production, save to database
-    // await storage.createTrade(trade);
   }
 
   async setupAutomaticOrders(trade: Trade) {
@@ -586,153 +561,19 @@ export class TradingBot {
     console.log(`   Take Profit: $${takeProfitPrice.toFixed(6)} (+${this.settings.takeProfit}%)`);
   }
 
-  async generateTradingSignal(token: Token): Promise<TradingSignal | null> {
-    let confidence = 0;
-    let reasons = [];
-
-    // Liquidity analysis (25% weight)
-    if (token.liquidity > this.settings.minLiquidity * 2) {
-      confidence += 25;
-      reasons.push('High liquidity');
-    } else if (token.liquidity < this.settings.minLiquidity) {
-      return null; // Skip low liquidity tokens
-    }
-
-    // Holder count analysis (20% weight)
-    if (token.holders > this.settings.minHolders * 2) {
-      confidence += 20;
-      reasons.push('Strong holder base');
-    } else if (token.holders > this.settings.minHolders) {
-      confidence += 10;
-    }
-
-    // Price change momentum (25% weight)
-    if (token.priceChange > 20) {
-      confidence += 25;
-      reasons.push('Strong upward momentum');
-    } else if (token.priceChange > 10) {
-      confidence += 15;
-    } else if (token.priceChange < -10) {
-      confidence -= 20;
-      reasons.push('Negative momentum');
-    }
-
-    // Volume analysis (15% weight)
-    const volumeToLiquidityRatio = token.volume / token.liquidity;
-    if (volumeToLiquidityRatio > 0.5) {
-      confidence += 15;
-      reasons.push('High trading volume');
-    } else if (volumeToLiquidityRatio > 0.2) {
-      confidence += 8;
-    }
-
-    // Social sentiment (15% weight)
-    const socialWeight = this.settings.socialSentimentWeight * 100;
-    if (token.socialMentions > 50) {
-      confidence += socialWeight;
-      reasons.push('High social interest');
-    } else if (token.socialMentions > 20) {
-      confidence += socialWeight * 0.5;
-    }
-
-    // Age factor (bonus/penalty)
-    const ageMinutes = (Date.now() - new Date(token.launchTime).getTime()) / (1000 * 60);
-    if (ageMinutes < 60) {
-      confidence += 10; // Early bird bonus
-      reasons.push('Very early launch');
-    } else if (ageMinutes > 720) { // 12 hours
-      confidence -= 10; // Too old penalty
-    }
-
-    if (confidence < 50) return null;
-
-    const signal: TradingSignal = {
-      id: Date.now(),
-      tokenAddress: token.address,
-      signal: confidence > 80 ? 'BUY' : confidence > 60 ? 'BUY' : 'HOLD',
-      confidence: Math.min(confidence, 95), // Cap at 95%
-      reason: reasons.join(', '),
-      price: this.estimateTokenPrice(token),
-      timestamp: new Date(),
-      executed: false
-    };
-
-    return signal;
-  }
-
-  async executeSignal(signal: TradingSignal) {
-    if (signal.signal !== 'BUY' || signal.executed) return;
-
-    try {
-      console.log(`🚀 Executing BUY signal for ${signal.tokenAddress}`);
-      console.log(`   Confidence: ${signal.confidence}%`);
-      console.log(`   Reason: ${signal.reason}`);
-      console.log(`   Estimated Price: $${signal.price}`);
-
-      // Calculate investment amount based on confidence
-      const baseAmount = this.settings.maxInvestment;
-      const confidenceMultiplier = signal.confidence / 100;
-      const investmentAmount = baseAmount * confidenceMultiplier;
-
-      // In a real implementation, this would place actual trades
-      const trade: Trade = {
-        id: Date.now(),
-        tokenAddress: signal.tokenAddress,
-        action: 'BUY',
-        amount: investmentAmount,
-        price: signal.price,
-        status: 'EXECUTED',
-        timestamp: new Date()
-      };
-
-      // Log the simulated trade
-      console.log(`💰 Simulated BUY: $${investmentAmount.toFixed(2)} at $${signal.price}`);
-      
-      // Mark signal as executed
-      signal.executed = true;
-
-      // Set up automatic sell orders
-      await this.setupAutomaticSells(trade);
-
-    } catch (error) {
-      console.error('Trade execution error:', error);
-    }
-  }
-
-  async setupAutomaticSells(trade: Trade) {
-    const stopLossPrice = trade.price * (1 - this.settings.stopLoss / 100);
-    const takeProfitPrice = trade.price * (1 + this.settings.takeProfit / 100);
-
-    console.log(`📊 Auto-sell orders set:`);
-    console.log(`   Stop Loss: $${stopLossPrice.toFixed(6)} (-${this.settings.stopLoss}%)`);
-    console.log(`   Take Profit: $${takeProfitPrice.toFixed(6)} (+${this.settings.takeProfit}%)`);
-
-    // In a real implementation, these would be actual limit orders
-  }
-
-  private estimateTokenPrice(token: Token): number {
-    // Simple price estimation based on market cap and liquidity
-    const basePrice = 0.001; // Starting assumption
-    const liquidityFactor = Math.log(token.liquidity) / 10;
-    const volumeFactor = Math.log(token.volume + 1) / 15;
-    const momentumFactor = 1 + (token.priceChange / 1000);
-    
-    return basePrice * liquidityFactor * volumeFactor * momentumFactor;
+  async getPortfolioStatus() {
+    return this.markToMarket();
   }
 
-  async getPortfolioStatus() {
-    // In a real implementation, this would return actual portfolio data
-    return {
-      totalValue: 1000,
-      availableBalance: 500,
-      totalProfit: 150,
-      activeTrades: 3,
-      successRate: 73.5
-    };
+  // The open position in one token, marked to market; null when flat
+  getPosition(tokenAddress: string): PositionSnapshot | null {
+    return this.markToMarket().positions.find(position => position.tokenAddress === tokenAddress) ?? null;
   }
 
-  async updateSettings(newSettings: Partial<BotSettings>) {
-    this.settings = { ...this.settings, ...newSettings };
+  async updateSettings(newSettings: Partial<InsertBotSettings>) {
+    const { id, ...current } = this.settings;
+    this.settings = await this.storage.saveBotSettings({ ...current, ...newSettings });
+    this.ledger.setCosts(this.settings.feeBps, this.settings.slippageBps);
     console.log('Trading bot settings updated:', this.settings);
     
     if (newSettings.enabled && !this.isRunning) {
@@ -746,6 +587,20 @@ export class TradingBot {
     return this.settings;
   }
 
+  // Every registered strategy with the config it runs under and the capital it has invested
+  getStrategies() {
+    const positions = this.markToMarket().positions;
+    return this.strategies.list().map(strategy => ({
+      id: strategy.id,
+      name: strategy.name,
+      description: strategy.description,
+      defaultParams: strategy.defaultParams,
+      ...this.strategies.resolveConfig(strategy, this.settings),
+      deployed: this.deployedCapital(strategy.id, positions),
+      positions: positions.filter(position => this.positionStrategies.get(position.tokenAddress) === strategy.id).length
+    }));
+  }
+
   isActive(): boolean {
     return this.isRunning && this.settings.enabled;
   }
@@ -0,0 +1,66 @@
+import type { Server } from "http";
+import { WebSocketServer, WebSocket } from "ws";
+import { eventBus, isVisibleTo, type ServerEvent } from "./events";
+import { getSessionUserId } from "./auth";
+import { computeTokenStats } from "./token-stats";
+
+const HEARTBEAT_MS = 30000;
+
+// Serves live events on /ws. Upgrades for any other path are left alone so
+// the Vite HMR socket on the same server keeps working in development.
+export function attachWebSocketServer(httpServer: Server) {
+  const wss = new WebSocketServer({ noServer: true });
+  const alive = new WeakMap<WebSocket, boolean>();
+  const userIds = new WeakMap<WebSocket, number>();
+
+  httpServer.on('upgrade', (req, socket, head) => {
+    const { pathname } = new URL(req.url || '/', 'http://localhost');
+    if (pathname !== '/ws') return;
+
+    // Look up the session first so user-specific events reach the right socket
+    getSessionUserId(req).then((userId) => {
+      wss.handleUpgrade(req, socket, head, (ws) => {
+        if (userId !== undefined) userIds.set(ws, userId);
+        wss.emit('connection', ws, req);
+      });
+    }).catch(() => socket.destroy());
+  });
+
+  wss.on('connection', (ws) => {
+    alive.set(ws, true);
+    ws.on('pong', () => alive.set(ws, true));
+
+    const userId = userIds.get(ws);
+    const send = (event: ServerEvent) => {
+      if (ws.readyState === WebSocket.OPEN && isVisibleTo(event, userId)) {
+        ws.send(JSON.stringify(event));
+      }
+    };
+
+    const unsubscribe = eventBus.subscribe(send);
+    ws.on('close', unsubscribe);
+    ws.on('error', unsubscribe);
+
+    // Give new clients current numbers instead of waiting for the next pass
+    computeTokenStats()
+      .then(stats => send({ type: 'stats', data: stats }))
+      .catch(console.error);
+  });
+
+  // Drop connections that stopped answering pings
+  const heartbeat = setInterval(() => {
+    wss.clients.forEach((ws) => {
+      if (!alive.get(ws)) {
+        ws.terminate();
+        return;
+      }
+      alive.set(ws, false);
+      ws.ping();
+    });
+  }, HEARTBEAT_MS);
+
+  wss.on('close', () => clearInterval(heartbeat));
+
+  console.log('🔌 WebSocket server listening on /ws');
+  return wss;
+}
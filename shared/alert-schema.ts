@@ -0,0 +1,129 @@
+import { pgTable, text, serial, integer, boolean, timestamp, jsonb, index } from "drizzle-orm/pg-core";
+import { createInsertSchema } from "drizzle-zod";
+import { z } from "zod";
+import { users } from "./schema";
+
+// What an alert rule watches for. Conditions are checked against each
+// token the aggregator touched in its latest pass.
+export const alertConditionSchema = z.discriminatedUnion("type", [
+  // Token became a high alert
+  z.object({ type: z.literal("highAlert") }),
+  // Liquidity moved across the threshold since the previous pass
+  z.object({
+    type: z.literal("liquidityCross"),
+    threshold: z.number().positive(),
+    direction: z.enum(["above", "below"]).default("above"),
+  }),
+  // Price moved by at least `percent` within the last `windowMinutes`
+  z.object({
+    type: z.literal("priceChange"),
+    percent: z.number().positive(),
+    windowMinutes: z.number().int().min(1).max(24 * 60),
+    direction: z.enum(["up", "down", "any"]).default("any"),
+  }),
+  // A watchlisted token was mentioned on social media
+  z.object({ type: z.literal("socialMention") }),
+]);
+
+export type AlertCondition = z.infer<typeof alertConditionSchema>;
+
+export const alertChannelsSchema = z.object({
+  inApp: z.boolean().default(true),
+  webhook: z.object({
+    // The server also refuses hosts that resolve to private addresses
+    url: z.string().url().refine(url => url.startsWith('https://'), "Webhook URL must use https"),
+    secret: z.string().min(16, "Webhook secret must be at least 16 characters"),
+  }).optional(),
+  email: z.object({
+    to: z.string().email(),
+  }).optional(),
+});
+
+export type AlertChannels = z.infer<typeof alertChannelsSchema>;
+
+export const alertRules = pgTable("alert_rules", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  condition: jsonb("condition").$type<AlertCondition>().notNull(),
+  channels: jsonb("channels").$type<AlertChannels>().notNull(),
+  watchlistOnly: boolean("watchlist_only").notNull().default(false), // Only tokens on the owner's watchlist
+  cooldownMinutes: integer("cooldown_minutes").notNull().default(60), // Per token
+  enabled: boolean("enabled").notNull().default(true),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const alertEvents = pgTable("alert_events", {
+  id: serial("id").primaryKey(),
+  ruleId: integer("rule_id").notNull().references(() => alertRules.id, { onDelete: "cascade" }),
+  userId: integer("user_id").notNull(),
+  tokenAddress: text("token_address").notNull(),
+  title: text("title").notNull(),
+  message: text("message").notNull(),
+  channels: jsonb("channels").$type<string[]>().notNull().default([]), // Channels that delivered
+  triggeredAt: timestamp("triggered_at").notNull().defaultNow(),
+}, (table) => [
+  index("alert_events_rule_token_time_idx").on(table.ruleId, table.tokenAddress, table.triggeredAt),
+  index("alert_events_user_time_idx").on(table.userId, table.triggeredAt),
+]);
+
+// Per-user Telegram chats and Discord webhooks. They receive every alert the
+// user's rules fire and, optionally, the trading bot's executions.
+export const chatIntegrationConfigSchema = z.discriminatedUnion("platform", [
+  z.object({
+    platform: z.literal("telegram"),
+    chatId: z.string().min(1),
+    // Falls back to the server's TELEGRAM_BOT_TOKEN
+    botToken: z.string().regex(/^\d+:[\w-]+$/, "Invalid Telegram bot token").optional(),
+  }),
+  z.object({
+    platform: z.literal("discord"),
+    webhookUrl: z.string().url(),
+  }),
+]);
+
+export type ChatIntegrationConfig = z.infer<typeof chatIntegrationConfigSchema>;
+export type ChatPlatform = ChatIntegrationConfig["platform"];
+
+export const chatIntegrations = pgTable("chat_integrations", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  config: jsonb("config").$type<ChatIntegrationConfig>().notNull(),
+  notifyAlerts: boolean("notify_alerts").notNull().default(true),
+  notifyTrades: boolean("notify_trades").notNull().default(false),
+  enabled: boolean("enabled").notNull().default(true),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertAlertRuleSchema = createInsertSchema(alertRules, {
+  name: z.string().min(1).max(100),
+  condition: alertConditionSchema,
+  channels: alertChannelsSchema,
+  cooldownMinutes: z.number().int().min(0).max(7 * 24 * 60),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertAlertEventSchema = createInsertSchema(alertEvents, {
+  channels: z.array(z.string()),
+}).omit({
+  id: true,
+  triggeredAt: true,
+});
+
+export const insertChatIntegrationSchema = createInsertSchema(chatIntegrations, {
+  name: z.string().min(1).max(100),
+  config: chatIntegrationConfigSchema,
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type AlertRule = typeof alertRules.$inferSelect;
+export type InsertAlertRule = z.infer<typeof insertAlertRuleSchema>;
+export type AlertEvent = typeof alertEvents.$inferSelect;
+export type InsertAlertEvent = z.infer<typeof insertAlertEventSchema>;
+export type ChatIntegration = typeof chatIntegrations.$inferSelect;
+export type InsertChatIntegration = z.infer<typeof insertChatIntegrationSchema>;
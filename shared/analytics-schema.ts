@@ -1,6 +1,7 @@
-import { pgTable, text, serial, integer, boolean, timestamp, real } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, real, jsonb } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { signalFactorSchema, type SignalFactor } from "./trading-schema";
 
 export const performanceMetrics = pgTable("performance_metrics", {
   id: serial("id").primaryKey(),
@@ -19,6 +20,7 @@ export const strategyPerformance = pgTable("strategy_performance", {
   strategyName: text("strategy_name").notNull(),
   tokenAddress: text("token_address").notNull(),
   entryPrice: real("entry_price").notNull(),
+  quantity: real("quantity"), // Tokens bought; a position's exit PnL is split by it
   exitPrice: real("exit_price"),
   entryTime: timestamp("entry_time").notNull(),
   exitTime: timestamp("exit_time"),
@@ -27,6 +29,7 @@ export const strategyPerformance = pgTable("strategy_performance", {
   duration: integer("duration"), // in minutes
   confidence: real("confidence").notNull(),
   reason: text("reason").notNull(),
+  factors: jsonb("factors").$type<SignalFactor[]>().notNull().default([]), // From the entry signal
   outcome: text("outcome"), // 'WIN', 'LOSS', 'BREAKEVEN', 'ACTIVE'
 });
 
@@ -44,7 +47,9 @@ export const insertPerformanceMetricsSchema = createInsertSchema(performanceMetr
   id: true,
 });
 
-export const insertStrategyPerformanceSchema = createInsertSchema(strategyPerformance).omit({
+export const insertStrategyPerformanceSchema = createInsertSchema(strategyPerformance, {
+  factors: z.array(signalFactorSchema).optional(),
+}).omit({
   id: true,
 });
 
@@ -0,0 +1,100 @@
+import { describe, it, expect } from "vitest";
+import {
+  CHAINS,
+  chainIds,
+  chainLink,
+  getChain,
+  isChainId,
+  isValidAddress,
+  isValidAnyChainAddress,
+  normalizeAddress,
+  tokenKey,
+  tradableChains,
+} from "./chains";
+
+const SOL = "7GCihgDB8fe6KNjn2MYtkzZcRjQy3t9GHdC8uHYmW2hr";
+const EVM = "0x4F9Fd6Be4a90f2620860d680c0d4d5Fb53d1A825";
+
+describe("address validation", () => {
+  it.each([
+    ["solana", SOL, true],
+    ["solana", "So11111111111111111111111111111111111111112", true],
+    ["solana", EVM, false],
+    // Base58 has no 0, O, I or l
+    ["solana", "0GCihgDB8fe6KNjn2MYtkzZcRjQy3t9GHdC8uHYmW2hr", false],
+    ["solana", "lGCihgDB8fe6KNjn2MYtkzZcRjQy3t9GHdC8uHYmW2hr", false],
+    ["solana", "7GCihgDB8fe6KNjn2MYtkzZcRjQy3t9", false], // 31 chars
+    ["ethereum", EVM, true],
+    ["ethereum", EVM.toLowerCase(), true],
+    ["ethereum", SOL, false],
+    ["ethereum", "0x4F9Fd6Be4a90f2620860d680c0d4d5Fb53d1A82", false], // 39 hex digits
+    ["ethereum", "0x4F9Fd6Be4a90f2620860d680c0d4d5Fb53d1A82g", false],
+    ["base", EVM, true],
+    ["bsc", EVM, true],
+    ["bsc", SOL, false],
+  ])("%s accepts %s: %s", (chain, address, valid) => {
+    expect(isValidAddress(chain, address)).toBe(valid);
+  });
+
+  it("accepts an address valid on any supported chain", () => {
+    expect(isValidAnyChainAddress(SOL)).toBe(true);
+    expect(isValidAnyChainAddress(EVM)).toBe(true);
+    expect(isValidAnyChainAddress("not-an-address")).toBe(false);
+    expect(isValidAnyChainAddress("")).toBe(false);
+  });
+
+  it("lower-cases EVM addresses only", () => {
+    expect(normalizeAddress(EVM)).toBe(EVM.toLowerCase());
+    expect(normalizeAddress(SOL)).toBe(SOL);
+  });
+});
+
+describe("chain registry", () => {
+  it("keys every config by its own id", () => {
+    for (const id of chainIds) {
+      expect(CHAINS[id].id).toBe(id);
+      expect(isChainId(id)).toBe(true);
+    }
+    expect(isChainId("polygon")).toBe(false);
+  });
+
+  it("reads unknown chains as Solana", () => {
+    expect(getChain("base")).toBe(CHAINS.base);
+    expect(getChain("polygon")).toBe(CHAINS.solana);
+  });
+
+  it("only trades chains with risk checks", () => {
+    expect(tradableChains).toEqual(["solana"]);
+  });
+
+  it("keeps the same address apart across chains", () => {
+    expect(tokenKey("ethereum", EVM)).not.toBe(tokenKey("base", EVM));
+    expect(tokenKey("solana", SOL)).toBe(`solana:${SOL}`);
+  });
+});
+
+describe("chainLink", () => {
+  it.each([
+    ["solana", "explorer", `https://solscan.io/token/${SOL}`],
+    ["solana", "swap", `https://jup.ag/swap/SOL-${SOL}`],
+    ["solana", "dexScreener", `https://dexscreener.com/solana/${SOL}`],
+  ] as const)("builds the %s %s link", (chain, link, url) => {
+    expect(chainLink(chain, link, SOL)).toBe(url);
+  });
+
+  it.each([
+    ["ethereum", "explorer", `https://etherscan.io/token/${EVM}`],
+    ["ethereum", "swap", `https://app.uniswap.org/swap?chain=mainnet&outputCurrency=${EVM}`],
+    ["base", "explorer", `https://basescan.org/token/${EVM}`],
+    ["base", "swap", `https://app.uniswap.org/swap?chain=base&outputCurrency=${EVM}`],
+    ["base", "dexScreener", `https://dexscreener.com/base/${EVM}`],
+    ["bsc", "explorer", `https://bscscan.com/token/${EVM}`],
+    ["bsc", "swap", `https://pancakeswap.finance/swap?chain=bsc&outputCurrency=${EVM}`],
+  ] as const)("builds the %s %s link", (chain, link, url) => {
+    expect(chainLink(chain, link, EVM)).toBe(url);
+  });
+
+  it("escapes the address", () => {
+    expect(chainLink("solana", "explorer", "a/b?c")).toBe("https://solscan.io/token/a%2Fb%3Fc");
+  });
+});
@@ -0,0 +1,119 @@
+// Chains MemeTrackr knows how to track. Everything chain-specific (address
+// format, explorer, DEX and swap links, native token) lives here so the
+// server and client agree on it.
+
+export const chainIds = ["solana", "ethereum", "base", "bsc"] as const;
+
+export type ChainId = typeof chainIds[number];
+
+export interface ChainConfig {
+  id: ChainId;
+  name: string;
+  shortName: string;
+  family: "solana" | "evm";
+  nativeToken: { symbol: string; name: string; decimals: number };
+  dexScreenerId: string;
+  // Risk and holder checks exist; the bot vetoes every buy on chains without them
+  riskChecks: boolean;
+  color: string; // Badge colour
+  // Link templates; `{address}` is replaced with the token address
+  explorer: { name: string; tokenUrl: string };
+  swap: { name: string; url: string };
+  dexScreenerUrl: string;
+}
+
+const SOLANA_ADDRESS = /^[1-9A-HJ-NP-Za-km-z]{32,44}$/;
+const EVM_ADDRESS = /^0x[0-9a-fA-F]{40}$/;
+
+export const CHAINS: Record<ChainId, ChainConfig> = {
+  solana: {
+    id: "solana",
+    name: "Solana",
+    shortName: "SOL",
+    family: "solana",
+    nativeToken: { symbol: "SOL", name: "Solana", decimals: 9 },
+    dexScreenerId: "solana",
+    riskChecks: true,
+    color: "#14F195",
+    explorer: { name: "Solscan", tokenUrl: "https://solscan.io/token/{address}" },
+    swap: { name: "Jupiter", url: "https://jup.ag/swap/SOL-{address}" },
+    dexScreenerUrl: "https://dexscreener.com/solana/{address}",
+  },
+  ethereum: {
+    id: "ethereum",
+    name: "Ethereum",
+    shortName: "ETH",
+    family: "evm",
+    nativeToken: { symbol: "ETH", name: "Ether", decimals: 18 },
+    dexScreenerId: "ethereum",
+    riskChecks: false,
+    color: "#627EEA",
+    explorer: { name: "Etherscan", tokenUrl: "https://etherscan.io/token/{address}" },
+    swap: { name: "Uniswap", url: "https://app.uniswap.org/swap?chain=mainnet&outputCurrency={address}" },
+    dexScreenerUrl: "https://dexscreener.com/ethereum/{address}",
+  },
+  base: {
+    id: "base",
+    name: "Base",
+    shortName: "BASE",
+    family: "evm",
+    nativeToken: { symbol: "ETH", name: "Ether", decimals: 18 },
+    dexScreenerId: "base",
+    riskChecks: false,
+    color: "#0052FF",
+    explorer: { name: "BaseScan", tokenUrl: "https://basescan.org/token/{address}" },
+    swap: { name: "Uniswap", url: "https://app.uniswap.org/swap?chain=base&outputCurrency={address}" },
+    dexScreenerUrl: "https://dexscreener.com/base/{address}",
+  },
+  bsc: {
+    id: "bsc",
+    name: "BNB Chain",
+    shortName: "BSC",
+    family: "evm",
+    nativeToken: { symbol: "BNB", name: "BNB", decimals: 18 },
+    dexScreenerId: "bsc",
+    riskChecks: false,
+    color: "#F0B90B",
+    explorer: { name: "BscScan", tokenUrl: "https://bscscan.com/token/{address}" },
+    swap: { name: "PancakeSwap", url: "https://pancakeswap.finance/swap?chain=bsc&outputCurrency={address}" },
+    dexScreenerUrl: "https://dexscreener.com/bsc/{address}",
+  },
+};
+
+export function isChainId(value: string): value is ChainId {
+  return (chainIds as readonly string[]).includes(value);
+}
+
+// Unknown chains (rows stored before the registry existed) read as Solana
+export function getChain(id: string): ChainConfig {
+  return isChainId(id) ? CHAINS[id] : CHAINS.solana;
+}
+
+// Chains the trading bot will buy on
+export const tradableChains = chainIds.filter(id => CHAINS[id].riskChecks);
+
+export function isValidAddress(chain: string, address: string): boolean {
+  return getChain(chain).family === "evm" ? EVM_ADDRESS.test(address) : SOLANA_ADDRESS.test(address);
+}
+
+// Valid on at least one chain we support
+export function isValidAnyChainAddress(address: string): boolean {
+  return SOLANA_ADDRESS.test(address) || EVM_ADDRESS.test(address);
+}
+
+// EVM addresses are case-insensitive (the mixed case is only a checksum), so
+// they're stored lower-cased to keep one row per token. Base58 has no "0x".
+export function normalizeAddress(address: string): string {
+  return EVM_ADDRESS.test(address) ? address.toLowerCase() : address;
+}
+
+export type ChainLink = "explorer" | "swap" | "dexScreener";
+
+export function chainLink(chain: string, link: ChainLink, address: string): string {
+  const config = getChain(chain);
+  const template = link === "explorer" ? config.explorer.tokenUrl : link === "swap" ? config.swap.url : config.dexScreenerUrl;
+  return template.replace("{address}", encodeURIComponent(address));
+}
+
+// Identifies a token across chains; the same EVM address can exist on several
+export const tokenKey = (chain: string, address: string) => `${chain}:${address}`;
@@ -1,4 +1,5 @@
-import { pgTable, text, serial, integer, boolean, timestamp, real } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, real, index, uniqueIndex, jsonb } from "drizzle-orm/pg-core";
+import { sql } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -10,30 +11,140 @@ export const users = pgTable("users", {
 
 export const tokens = pgTable("tokens", {
   id: serial("id").primaryKey(),
-  address: text("address").notNull().unique(),
+  address: text("address").notNull(), // Unique per chain, see tokens_chain_address_idx
   name: text("name").notNull(),
   symbol: text("symbol").notNull(),
   chain: text("chain").notNull().default("solana"),
   liquidity: real("liquidity").notNull().default(0),
   holders: integer("holders").notNull().default(0),
+  top10HolderPercent: real("top10_holder_percent"), // Share of supply in the ten largest wallets
+  holderGini: real("holder_gini"), // 0 (evenly spread) to 1 (one wallet holds everything)
+  holderGrowthRate: real("holder_growth_rate"), // Holders gained per hour over the last hour
+  holdersCheckedAt: timestamp("holders_checked_at"),
   volume: real("volume").notNull().default(0),
   priceChange: real("price_change").notNull().default(0),
   transactions: integer("transactions").notNull().default(0),
   socialMentions: integer("social_mentions").notNull().default(0),
+  // Engagement-weighted mention sentiment (-1..1) over trailing windows
+  sentiment15m: real("sentiment_15m").notNull().default(0),
+  sentiment1h: real("sentiment_1h").notNull().default(0),
+  sentiment24h: real("sentiment_24h").notNull().default(0),
+  riskScore: integer("risk_score"), // 0 (clean) to 100 (avoid); null until assessed
+  riskReasons: jsonb("risk_reasons").$type<string[]>().notNull().default([]),
+  riskCheckedAt: timestamp("risk_checked_at"),
   launchTime: timestamp("launch_time").notNull().defaultNow(),
   isFiltered: boolean("is_filtered").notNull().default(false),
   isHighAlert: boolean("is_high_alert").notNull().default(false),
-});
+}, (table) => [
+  // The same EVM contract address can be deployed on several chains
+  uniqueIndex("tokens_chain_address_idx").on(table.chain, table.address),
+]);
 
 export const socialMentions = pgTable("social_mentions", {
   id: serial("id").primaryKey(),
   tokenAddress: text("token_address"),
   platform: text("platform").notNull(),
+  // Source's own id; unique per platform. The default only matters for rows
+  // stored before this column existed: `db:push` fills each with a distinct
+  // placeholder so the unique index below can be built. Ingest always sets it.
+  postId: text("post_id").notNull().default(sql`gen_random_uuid()::text`),
   username: text("username").notNull(),
   content: text("content").notNull(),
+  keywords: jsonb("keywords").$type<string[]>().notNull().default([]), // Tracked keywords the post matched
+  sentiment: real("sentiment").notNull().default(0), // -1 (bearish) to 1 (bullish)
+  sentimentLabel: text("sentiment_label").notNull().default("neutral"), // 'bullish', 'bearish', 'neutral'
   likes: integer("likes").notNull().default(0),
   retweets: integer("retweets").notNull().default(0),
+  timestamp: timestamp("timestamp").notNull().defaultNow(), // When it was posted
+  ingestedAt: timestamp("ingested_at").notNull().defaultNow(),
+}, (table) => [
+  uniqueIndex("social_mentions_platform_post_idx").on(table.platform, table.postId),
+  index("social_mentions_timestamp_idx").on(table.timestamp),
+  index("social_mentions_token_idx").on(table.tokenAddress),
+]);
+
+export const tokenSnapshots = pgTable("token_snapshots", {
+  id: serial("id").primaryKey(),
+  tokenAddress: text("token_address").notNull(),
+  resolution: text("resolution").notNull().default("raw"), // 'raw', '5m', '1h'
   timestamp: timestamp("timestamp").notNull().defaultNow(),
+  price: real("price"),
+  liquidity: real("liquidity").notNull().default(0),
+  holders: integer("holders").notNull().default(0),
+  top10HolderPercent: real("top10_holder_percent"),
+  holderGini: real("holder_gini"),
+  volume: real("volume").notNull().default(0),
+  priceChange: real("price_change").notNull().default(0),
+  transactions: integer("transactions").notNull().default(0),
+  socialMentions: integer("social_mentions").notNull().default(0),
+}, (table) => [
+  index("token_snapshots_token_time_idx").on(table.tokenAddress, table.timestamp),
+]);
+
+export const watchlists = pgTable("watchlists", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  tokenAddress: text("token_address").notNull(),
+  addedAt: timestamp("added_at").notNull().defaultNow(),
+}, (table) => [
+  uniqueIndex("watchlists_user_token_idx").on(table.userId, table.tokenAddress),
+]);
+
+// Token filter / high-alert rules. A rule is a comparison on a token field, an
+// age window in minutes, an AND ("all") / OR ("any") group, or a reference to
+// another named rule set.
+export const ruleFields = [
+  "address", "name", "symbol", "chain", "liquidity", "holders",
+  "volume", "priceChange", "transactions", "socialMentions",
+] as const;
+
+export type RuleField = typeof ruleFields[number];
+export type RuleOperator = "eq" | "neq" | "gt" | "gte" | "lt" | "lte" | "contains";
+
+export type FilterRule =
+  | { type: "compare"; field: RuleField; op: RuleOperator; value: number | string }
+  | { type: "age"; minMinutes?: number; maxMinutes?: number }
+  | { type: "all" | "any"; rules: FilterRule[] }
+  | { type: "ruleSet"; name: string };
+
+export const filterRuleSchema: z.ZodType<FilterRule> = z.lazy(() => z.union([
+  z.object({
+    type: z.literal("compare"),
+    field: z.enum(ruleFields),
+    op: z.enum(["eq", "neq", "gt", "gte", "lt", "lte", "contains"]),
+    value: z.union([z.number(), z.string()]),
+  }),
+  z.object({
+    type: z.literal("age"),
+    minMinutes: z.number().nonnegative().optional(),
+    maxMinutes: z.number().nonnegative().optional(),
+  }).refine(rule => rule.minMinutes !== undefined || rule.maxMinutes !== undefined, {
+    message: "Age rules need minMinutes and/or maxMinutes",
+  }),
+  z.object({
+    type: z.enum(["all", "any"]),
+    rules: z.array(filterRuleSchema).min(1),
+  }),
+  z.object({
+    type: z.literal("ruleSet"),
+    name: z.string().min(1),
+  }),
+]));
+
+// `filter` drives isFiltered and `highAlert` drives isHighAlert; any other
+// named sets exist to be referenced from those two
+export const filterRuleSetsSchema = z.record(z.string().min(1), filterRuleSchema)
+  .refine(sets => "filter" in sets && "highAlert" in sets, {
+    message: "Rule sets must include 'filter' and 'highAlert'",
+  });
+
+export type FilterRuleSets = z.infer<typeof filterRuleSetsSchema>;
+
+export const filterRuleSets = pgTable("filter_rule_sets", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull().unique(),
+  rule: jsonb("rule").$type<FilterRule>().notNull(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
 });
 
 export const insertUserSchema = createInsertSchema(users).pick({
@@ -41,14 +152,34 @@ export const insertUserSchema = createInsertSchema(users).pick({
   password: true,
 });
 
-export const insertTokenSchema = createInsertSchema(tokens).omit({
+export const insertTokenSchema = createInsertSchema(tokens, {
+  riskReasons: z.array(z.string()).optional(),
+}).omit({
   id: true,
-  launchTime: true,
 });
 
-export const insertSocialMentionSchema = createInsertSchema(socialMentions).omit({
+export const insertSocialMentionSchema = createInsertSchema(socialMentions, {
+  keywords: z.array(z.string()),
+}).omit({
   id: true,
-  timestamp: true,
+  ingestedAt: true,
+}).extend({
+  postId: z.string().min(1), // The column default is for migrating old rows, not new posts
+});
+
+export const insertTokenSnapshotSchema = createInsertSchema(tokenSnapshots).omit({
+  id: true,
+});
+
+export const insertWatchlistEntrySchema = createInsertSchema(watchlists).omit({
+  id: true,
+  addedAt: true,
+});
+
+// Written by hand: drizzle-zod can't derive a schema from the recursive rule type
+export const insertFilterRuleSetSchema = z.object({
+  name: z.string().min(1),
+  rule: filterRuleSchema,
 });
 
 export type InsertUser = z.infer<typeof insertUserSchema>;
@@ -57,3 +188,9 @@ export type Token = typeof tokens.$inferSelect;
 export type InsertToken = z.infer<typeof insertTokenSchema>;
 export type SocialMention = typeof socialMentions.$inferSelect;
 export type InsertSocialMention = z.infer<typeof insertSocialMentionSchema>;
+export type TokenSnapshot = typeof tokenSnapshots.$inferSelect;
+export type InsertTokenSnapshot = z.infer<typeof insertTokenSnapshotSchema>;
+export type FilterRuleSet = typeof filterRuleSets.$inferSelect;
+export type InsertFilterRuleSet = z.infer<typeof insertFilterRuleSetSchema>;
+export type WatchlistEntry = typeof watchlists.$inferSelect;
+export type InsertWatchlistEntry = z.infer<typeof insertWatchlistEntrySchema>;
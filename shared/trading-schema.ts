@@ -1,13 +1,37 @@
-import { pgTable, text, serial, integer, boolean, timestamp, real } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, real, jsonb } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
+// One input to a signal's confidence. Every factor the generator checked is
+// kept, including those that added nothing, so a signal can be explained.
+export const signalFactorSchema = z.object({
+  id: z.string(), // Stable key, e.g. "rsi"
+  label: z.string(), // What it found, e.g. "RSI oversold"
+  input: z.number().nullable(), // The raw value it looked at
+  weight: z.number(), // Points at full strength
+  points: z.number(), // Points actually added (negative when it counted against)
+});
+
+export type SignalFactor = z.infer<typeof signalFactorSchema>;
+
+// How the bot runs one strategy, stored in bot settings under the strategy's id.
+// Strategies without an entry run with their own defaults.
+export const strategyConfigSchema = z.object({
+  enabled: z.boolean(),
+  allocation: z.number().min(0).max(100), // Percent of portfolio value it may have invested
+  params: z.record(z.number()).default({}), // Overrides of the strategy's default parameters
+});
+
+export type StrategyConfig = z.infer<typeof strategyConfigSchema>;
+
 export const tradingSignals = pgTable("trading_signals", {
   id: serial("id").primaryKey(),
   tokenAddress: text("token_address").notNull(),
   signal: text("signal").notNull(), // 'BUY', 'SELL', 'HOLD'
+  strategy: text("strategy"), // Id of the strategy that produced it
   confidence: real("confidence").notNull(), // 0-100
-  reason: text("reason").notNull(),
+  reason: text("reason").notNull(), // Labels of the factors that scored, for display
+  factors: jsonb("factors").$type<SignalFactor[]>().notNull().default([]),
   price: real("price").notNull(),
   timestamp: timestamp("timestamp").notNull().defaultNow(),
   executed: boolean("executed").notNull().default(false),
@@ -17,8 +41,11 @@ export const trades = pgTable("trades", {
   id: serial("id").primaryKey(),
   tokenAddress: text("token_address").notNull(),
   action: text("action").notNull(), // 'BUY', 'SELL'
-  amount: real("amount").notNull(),
-  price: real("price").notNull(),
+  strategy: text("strategy"), // Strategy that opened the position; its SELL carries the same
+  amount: real("amount").notNull(), // USD spent on a BUY, USD received on a SELL
+  price: real("price").notNull(), // Fill price after slippage
+  quantity: real("quantity").notNull().default(0), // Token units
+  fee: real("fee").notNull().default(0), // USD
   status: text("status").notNull().default("PENDING"), // 'PENDING', 'EXECUTED', 'FAILED'
   timestamp: timestamp("timestamp").notNull().defaultNow(),
 });
@@ -31,20 +58,26 @@ export const botSettings = pgTable("bot_settings", {
   minLiquidity: real("min_liquidity").notNull().default(10000),
   minHolders: integer("min_holders").notNull().default(50),
   socialSentimentWeight: real("social_sentiment_weight").notNull().default(0.3),
+  maxRiskScore: integer("max_risk_score").notNull().default(50), // Never buy tokens scored above this
+  feeBps: real("fee_bps").notNull().default(30), // Per-trade fee, basis points of notional
+  slippageBps: real("slippage_bps").notNull().default(50), // Assumed slippage vs. quoted price
+  strategies: jsonb("strategies").$type<Record<string, StrategyConfig>>().notNull().default({}),
   enabled: boolean("enabled").notNull().default(false),
 });
 
-export const insertTradingSignalSchema = createInsertSchema(tradingSignals).omit({
+export const insertTradingSignalSchema = createInsertSchema(tradingSignals, {
+  factors: z.array(signalFactorSchema).optional(),
+}).omit({
   id: true,
-  timestamp: true,
 });
 
 export const insertTradeSchema = createInsertSchema(trades).omit({
   id: true,
-  timestamp: true,
 });
 
-export const insertBotSettingsSchema = createInsertSchema(botSettings).omit({
+export const insertBotSettingsSchema = createInsertSchema(botSettings, {
+  strategies: z.record(strategyConfigSchema).optional(),
+}).omit({
   id: true,
 });
 